@@ -0,0 +1,41 @@
+-- Deck options (daily limits, learning steps, sibling burying) per folder
+-- Run this in your Supabase SQL Editor
+--
+-- A row with folder_id NULL holds the user's default options. Folders without their own
+-- row use the options of their nearest parent folder, then the defaults.
+
+CREATE TABLE IF NOT EXISTS deck_options (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  folder_id UUID REFERENCES folders(id) ON DELETE CASCADE,
+  new_cards_per_day INT NOT NULL DEFAULT 20 CHECK (new_cards_per_day >= 0),
+  reviews_per_day INT NOT NULL DEFAULT 200 CHECK (reviews_per_day >= 0),
+  learning_steps INT[] NOT NULL DEFAULT '{1,10}', -- Minutes
+  bury_siblings BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (user_id, folder_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE deck_options ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for deck_options
+CREATE POLICY "Users can view their own deck options"
+  ON deck_options FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own deck options"
+  ON deck_options FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own deck options"
+  ON deck_options FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own deck options"
+  ON deck_options FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_deck_options_user_id ON deck_options(user_id);
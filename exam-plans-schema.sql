@@ -0,0 +1,37 @@
+-- Exam dates per folder for the study planner
+-- Run this in your Supabase SQL Editor
+--
+-- An exam date on a folder also applies to its subfolders, unless they have their own.
+
+CREATE TABLE IF NOT EXISTS exam_plans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  folder_id UUID NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+  exam_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, folder_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE exam_plans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exam_plans
+CREATE POLICY "Users can view their own exam plans"
+  ON exam_plans FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exam plans"
+  ON exam_plans FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exam plans"
+  ON exam_plans FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exam plans"
+  ON exam_plans FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_exam_plans_user_id ON exam_plans(user_id);
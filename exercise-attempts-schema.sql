@@ -0,0 +1,40 @@
+-- Graded exercise attempts
+-- Run this in your Supabase SQL Editor
+--
+-- Every "Check My Work" is graded against the rubric steps of the exercise and stored
+-- here, so the progress on each exercise can be shown over time. Exercises are matched
+-- by exercise_key, a hash of the exercise question.
+
+CREATE TABLE IF NOT EXISTS exercise_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  exercise_key TEXT NOT NULL,
+  answer_text TEXT,
+  has_image BOOLEAN NOT NULL DEFAULT FALSE,
+  score DECIMAL(5,2) NOT NULL CHECK (score >= 0 AND score <= 100),
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ description, points, awarded, status, feedback }]
+  feedback TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE exercise_attempts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for exercise_attempts
+CREATE POLICY "Users can view their own exercise attempts"
+  ON exercise_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exercise attempts"
+  ON exercise_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exercise attempts"
+  ON exercise_attempts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_exercise_attempts_user_id ON exercise_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_exercise_attempts_note_id ON exercise_attempts(note_id);
+CREATE INDEX IF NOT EXISTS idx_exercise_attempts_exercise_key ON exercise_attempts(exercise_key);
@@ -0,0 +1,65 @@
+-- Feynman explanation history and knowledge gaps
+-- Run this in your Supabase SQL Editor
+--
+-- Every explanation is stored with its score and the concepts it missed or got wrong.
+-- Concepts missed again and again become flashcards or exercises of the note;
+-- feynman_gaps remembers which ones already did.
+
+CREATE TABLE IF NOT EXISTS feynman_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  topic_id TEXT NOT NULL, -- Feynman topic id, 'custom' for free explanations
+  topic_title TEXT NOT NULL,
+  explanation TEXT NOT NULL,
+  score INTEGER NOT NULL CHECK (score >= 0 AND score <= 100),
+  feedback TEXT,
+  suggestions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  gaps JSONB NOT NULL DEFAULT '[]'::jsonb, -- Concepts missed or explained wrongly
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS feynman_gaps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  concept TEXT NOT NULL, -- Lowercased concept name
+  converted_to TEXT NOT NULL CHECK (converted_to IN ('flashcard', 'exercise')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, note_id, concept)
+);
+
+-- Enable Row Level Security
+ALTER TABLE feynman_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feynman_gaps ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for feynman_attempts
+CREATE POLICY "Users can view their own feynman attempts"
+  ON feynman_attempts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own feynman attempts"
+  ON feynman_attempts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feynman attempts"
+  ON feynman_attempts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for feynman_gaps
+CREATE POLICY "Users can view their own feynman gaps"
+  ON feynman_gaps FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own feynman gaps"
+  ON feynman_gaps FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feynman gaps"
+  ON feynman_gaps FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_feynman_attempts_user_note ON feynman_attempts(user_id, note_id);
+CREATE INDEX IF NOT EXISTS idx_feynman_attempts_topic_id ON feynman_attempts(topic_id);
+CREATE INDEX IF NOT EXISTS idx_feynman_gaps_user_note ON feynman_gaps(user_id, note_id);
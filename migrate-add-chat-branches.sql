@@ -0,0 +1,27 @@
+-- Migration: Branching chat history
+-- Run this in your Supabase SQL Editor (after chat-history-schema.sql)
+
+-- Message a message follows; editing a question or regenerating an answer adds a sibling
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES chat_messages(id) ON DELETE CASCADE;
+
+-- Last message of the branch the conversation shows
+ALTER TABLE chat_conversations ADD COLUMN IF NOT EXISTS active_message_id UUID REFERENCES chat_messages(id) ON DELETE SET NULL;
+
+-- Existing conversations are linear: each message follows the one before it.
+-- Conversations that already have branches are left alone, so this is safe to run again.
+UPDATE chat_messages
+SET parent_id = previous.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM chat_messages
+) previous
+WHERE chat_messages.id = previous.id
+  AND previous.previous_id IS NOT NULL
+  AND chat_messages.parent_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM chat_messages branched
+    WHERE branched.conversation_id = chat_messages.conversation_id
+    AND branched.parent_id IS NOT NULL
+  );
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_parent_id ON chat_messages(parent_id);
@@ -0,0 +1,8 @@
+-- Migration: Record hint usage on exercise attempts
+-- Run this in your Supabase SQL Editor (after exercise-attempts-schema.sql)
+
+-- Hints revealed before the attempt was checked; each one lowers the score
+ALTER TABLE exercise_attempts ADD COLUMN IF NOT EXISTS hints_used INTEGER NOT NULL DEFAULT 0;
+
+-- Score before the hint penalty
+ALTER TABLE exercise_attempts ADD COLUMN IF NOT EXISTS raw_score DECIMAL(5,2);
@@ -0,0 +1,5 @@
+-- Migration: Store where each section of a summary comes from
+-- Run this in your Supabase SQL Editor (after setup-study-content-table.sql)
+
+-- [{ heading, excerpt, source: { start, end, source, page } }] per summary heading
+ALTER TABLE study_content ADD COLUMN IF NOT EXISTS summary_sources JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,40 @@
+-- Graded mock exams across a folder
+-- Run this in your Supabase SQL Editor
+--
+-- The answers to every question are stored in quiz_answers (see quiz-answers-schema.sql)
+-- with the note the question came from; by_note keeps the report per note.
+
+CREATE TABLE IF NOT EXISTS mock_exam_results (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  folder_id UUID REFERENCES folders(id) ON DELETE SET NULL,
+  total_questions INTEGER NOT NULL,
+  correct_answers INTEGER NOT NULL,
+  score_percentage DECIMAL(5,2) NOT NULL,
+  time_limit_seconds INTEGER, -- NULL = no time limit
+  time_taken_seconds INTEGER,
+  by_note JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ noteId, title, totalQuestions, correctAnswers, scorePercentage }]
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE mock_exam_results ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for mock_exam_results
+CREATE POLICY "Users can view their own mock exam results"
+  ON mock_exam_results FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own mock exam results"
+  ON mock_exam_results FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own mock exam results"
+  ON mock_exam_results FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_mock_exam_results_user_id ON mock_exam_results(user_id);
+CREATE INDEX IF NOT EXISTS idx_mock_exam_results_folder_id ON mock_exam_results(folder_id);
+CREATE INDEX IF NOT EXISTS idx_mock_exam_results_completed_at ON mock_exam_results(completed_at);
@@ -0,0 +1,115 @@
+-- Note chunks with embeddings for retrieval-augmented chat
+-- Run this in your Supabase SQL Editor
+--
+-- Every note (including the text extracted from its documents) is split into overlapping
+-- chunks that are embedded with text-embedding-3-small. Chat retrieves the chunks closest to
+-- a question within a note, a folder or the whole library and cites them in its answer.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS note_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  source TEXT NOT NULL, -- 'Note' or 'Document: <name>' for extracted document text
+  content TEXT NOT NULL,
+  start_offset INTEGER NOT NULL, -- Position of the chunk in notes.content
+  end_offset INTEGER NOT NULL,
+  content_hash TEXT NOT NULL, -- Hash of the note content the chunk was cut from
+  embedding vector(1536) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(note_id, chunk_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE note_chunks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for note_chunks
+CREATE POLICY "Users can view their own note chunks"
+  ON note_chunks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own note chunks"
+  ON note_chunks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note chunks"
+  ON note_chunks FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_note_chunks_user_id ON note_chunks(user_id);
+CREATE INDEX IF NOT EXISTS idx_note_chunks_note_id ON note_chunks(note_id);
+CREATE INDEX IF NOT EXISTS idx_note_chunks_embedding ON note_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Closest chunks to a query embedding, limited to some notes (NULL: all of the user's notes).
+-- The HNSW index holds every user's chunks and only returns hnsw.ef_search candidates before
+-- the user and note filters apply, so chunks of a few notes are searched exactly, and a search
+-- across the library keeps scanning the index until enough of the user's chunks are found
+-- (iterative index scans need pgvector 0.8 or later).
+CREATE OR REPLACE FUNCTION match_note_chunks(
+  query_embedding vector(1536),
+  match_count INTEGER DEFAULT 6,
+  filter_note_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  note_id UUID,
+  chunk_index INTEGER,
+  source TEXT,
+  content TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  similarity FLOAT
+)
+LANGUAGE plpgsql STABLE SECURITY INVOKER
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+BEGIN
+  IF filter_note_ids IS NOT NULL THEN
+    RETURN QUERY
+    WITH scoped AS MATERIALIZED (
+      SELECT *
+      FROM note_chunks
+      WHERE note_chunks.user_id = auth.uid()
+        AND note_chunks.note_id = ANY(filter_note_ids)
+    )
+    SELECT
+      scoped.id,
+      scoped.note_id,
+      scoped.chunk_index,
+      scoped.source,
+      scoped.content,
+      scoped.start_offset,
+      scoped.end_offset,
+      1 - (scoped.embedding <=> query_embedding) AS similarity
+    FROM scoped
+    ORDER BY scoped.embedding <=> query_embedding
+    LIMIT match_count;
+  ELSE
+    -- Relaxed order lets the scan return candidates slightly out of order; sort them again
+    RETURN QUERY
+    SELECT matches.*
+    FROM (
+      SELECT
+        note_chunks.id,
+        note_chunks.note_id,
+        note_chunks.chunk_index,
+        note_chunks.source,
+        note_chunks.content,
+        note_chunks.start_offset,
+        note_chunks.end_offset,
+        1 - (note_chunks.embedding <=> query_embedding) AS similarity
+      FROM note_chunks
+      WHERE note_chunks.user_id = auth.uid()
+      ORDER BY note_chunks.embedding <=> query_embedding
+      LIMIT match_count
+    ) AS matches
+    ORDER BY matches.similarity DESC;
+  END IF;
+END;
+$$;
+
+-- Sources an assistant answer cites (see ragService)
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS citations JSONB;
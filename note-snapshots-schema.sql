@@ -0,0 +1,117 @@
+-- Snapshots of note content
+-- Run this in your Supabase SQL Editor (after supabase-schema.sql)
+--
+-- Updating a note overwrites its content. Before the content changes, the previous content
+-- is kept here at most every 10 minutes, and always before a change that removes more than
+-- half of it, so that an accidental deletion can be undone. Old snapshots are thinned out:
+-- all of the last day are kept, then one per hour for a week, one per day for a month and
+-- one per week after that.
+
+CREATE TABLE IF NOT EXISTS note_snapshots (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  content_length INTEGER GENERATED ALWAYS AS (char_length(content)) STORED,
+  reason TEXT NOT NULL DEFAULT 'periodic' CHECK (reason IN ('periodic', 'large-deletion', 'before-restore')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE note_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for note_snapshots
+CREATE POLICY "Users can view their own note snapshots"
+  ON note_snapshots FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own note snapshots"
+  ON note_snapshots FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own note snapshots"
+  ON note_snapshots FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_note_snapshots_user_id ON note_snapshots(user_id);
+CREATE INDEX IF NOT EXISTS idx_note_snapshots_note_created ON note_snapshots(note_id, created_at DESC);
+
+-- Thin out the snapshots of a note: keep the newest snapshot of every hour older than a
+-- day, of every day older than a week and of every week older than a month
+CREATE OR REPLACE FUNCTION prune_note_snapshots(p_note_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  DELETE FROM note_snapshots
+  WHERE id IN (
+    SELECT id
+    FROM (
+      SELECT
+        id,
+        ROW_NUMBER() OVER (PARTITION BY bucket ORDER BY created_at DESC) AS position
+      FROM (
+        SELECT
+          id,
+          created_at,
+          CASE
+            WHEN created_at > NOW() - INTERVAL '1 day' THEN id::TEXT
+            WHEN created_at > NOW() - INTERVAL '7 days' THEN 'hour ' || date_trunc('hour', created_at)::TEXT
+            WHEN created_at > NOW() - INTERVAL '30 days' THEN 'day ' || date_trunc('day', created_at)::TEXT
+            ELSE 'week ' || date_trunc('week', created_at)::TEXT
+          END AS bucket
+        FROM note_snapshots
+        WHERE note_id = p_note_id
+      ) bucketed
+    ) ranked
+    WHERE position > 1
+  );
+$$;
+
+-- Keep the previous content before it is overwritten
+CREATE OR REPLACE FUNCTION snapshot_note_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  latest note_snapshots;
+  is_large_deletion BOOLEAN;
+BEGIN
+  IF NEW.content IS NOT DISTINCT FROM OLD.content OR COALESCE(OLD.content, '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO latest
+  FROM note_snapshots
+  WHERE note_id = OLD.id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF latest.content = OLD.content THEN
+    RETURN NEW;
+  END IF;
+
+  is_large_deletion := char_length(COALESCE(NEW.content, '')) < char_length(OLD.content) / 2;
+
+  IF latest.id IS NULL OR latest.created_at < NOW() - INTERVAL '10 minutes' OR is_large_deletion THEN
+    INSERT INTO note_snapshots (user_id, note_id, content, reason)
+    VALUES (OLD.user_id, OLD.id, OLD.content, CASE WHEN is_large_deletion THEN 'large-deletion' ELSE 'periodic' END);
+
+    PERFORM prune_note_snapshots(OLD.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION prune_note_snapshots(UUID) FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS snapshot_note_content ON notes;
+CREATE TRIGGER snapshot_note_content
+  BEFORE UPDATE OF content ON notes
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_note_content();
@@ -0,0 +1,41 @@
+-- Per-question quiz answers
+-- Run this in your Supabase SQL Editor
+--
+-- One row per answered question of a finished quiz. Questions live inside
+-- study_content.quiz_questions (JSONB), so they are referenced by their note and question id
+-- and a copy of the question is kept, so answers still make sense after it is edited.
+
+CREATE TABLE IF NOT EXISTS quiz_answers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_result_id UUID REFERENCES quiz_results(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  question_id TEXT NOT NULL,
+  question JSONB NOT NULL, -- The question as it was asked
+  answer JSONB NOT NULL, -- What the user answered
+  score DECIMAL(5,4) NOT NULL CHECK (score BETWEEN 0 AND 1), -- 1 = fully right, partial credit in between
+  feedback TEXT, -- AI feedback on short answers
+  answered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE quiz_answers ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for quiz_answers
+CREATE POLICY "Users can view their own quiz answers"
+  ON quiz_answers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own quiz answers"
+  ON quiz_answers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own quiz answers"
+  ON quiz_answers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_quiz_answers_user_id ON quiz_answers(user_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_answers_result ON quiz_answers(quiz_result_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_answers_question ON quiz_answers(note_id, question_id);
@@ -0,0 +1,44 @@
+-- Flashcard review log
+-- Run this in your Supabase SQL Editor
+--
+-- One row per grading of a flashcard. Cards live inside study_content.flashcards (JSONB),
+-- so they are referenced by their note and card id.
+
+CREATE TABLE IF NOT EXISTS flashcard_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID REFERENCES notes(id) ON DELETE CASCADE,
+  card_id TEXT NOT NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  rating INT NOT NULL CHECK (rating BETWEEN 0 AND 5), -- Quality 0-5
+  duration_ms INT, -- Time spent answering the card
+  elapsed_days DECIMAL(10,4), -- Days since the previous review (NULL for new cards)
+  previous_interval INT NOT NULL,
+  previous_interval_type TEXT NOT NULL DEFAULT 'days' CHECK (previous_interval_type IN ('minutes', 'days')),
+  new_interval INT NOT NULL,
+  new_interval_type TEXT NOT NULL DEFAULT 'days' CHECK (new_interval_type IN ('minutes', 'days')),
+  scheduler TEXT, -- 'sm2' or 'fsrs'
+  previous_state JSONB NOT NULL, -- Scheduling state before the review, used for undo
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for flashcard_reviews
+CREATE POLICY "Users can view their own flashcard reviews"
+  ON flashcard_reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own flashcard reviews"
+  ON flashcard_reviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own flashcard reviews"
+  ON flashcard_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_id ON flashcard_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card ON flashcard_reviews(note_id, card_id);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_reviewed_at ON flashcard_reviews(reviewed_at);
@@ -16,6 +16,8 @@ import { SettingsPage } from './pages/SettingsPage';
 import { HowToUsePage } from './pages/HowToUsePage';
 import { SupportPage } from './pages/SupportPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
+import { ExamPlannerPage } from './pages/ExamPlannerPage';
+import { MockExamPage } from './pages/MockExamPage';
 import { LearnFlashcardsPage } from './pages/LearnFlashcardsPage';
 import { useGlobalKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { ErrorBoundary } from './components/shared/ErrorBoundary';
@@ -209,6 +211,22 @@ function App() {
                 </PrivateRoute>
               }
             />
+            <Route
+              path="/exam-planner"
+              element={
+                <PrivateRoute>
+                  <ExamPlannerPage />
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/mock-exam"
+              element={
+                <PrivateRoute>
+                  <MockExamPage />
+                </PrivateRoute>
+              }
+            />
             <Route
               path="/learn-flashcards"
               element={
@@ -1,6 +1,6 @@
 import React, { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { HiHome, HiQuestionMarkCircle, HiCog6Tooth, HiChartBar, HiAcademicCap, HiXMark } from 'react-icons/hi2';
+import { HiHome, HiQuestionMarkCircle, HiCog6Tooth, HiChartBar, HiAcademicCap, HiCalendarDays, HiClipboardDocumentCheck, HiXMark } from 'react-icons/hi2';
 import { HiLightBulb } from 'react-icons/hi2';
 import { Link } from 'react-router-dom';
 
@@ -32,6 +32,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const navItems = [
     { icon: HiHome, label: 'Home', page: 'home', path: '/home' },
     { icon: HiAcademicCap, label: 'Learn Flashcards', page: 'learn-flashcards', path: '/learn-flashcards' },
+    { icon: HiCalendarDays, label: 'Exam Planner', page: 'exam-planner', path: '/exam-planner' },
+    { icon: HiClipboardDocumentCheck, label: 'Mock Exam', page: 'mock-exam', path: '/mock-exam' },
     { icon: HiChartBar, label: 'Analytics', page: 'analytics', path: '/analytics' },
     { icon: HiLightBulb, label: 'How to use', page: 'how-to-use', path: '/how-to-use' },
     { icon: HiQuestionMarkCircle, label: 'Support', page: 'support', path: '/support' },
@@ -1,11 +1,18 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { HiPlus, HiPaperAirplane, HiSparkles, HiLightBulb, HiXMark } from 'react-icons/hi2';
+import {
+  HiPlus, HiPaperAirplane, HiSparkles, HiLightBulb, HiStop, HiXMark, HiChevronLeft, HiChevronRight,
+  HiChevronDown, HiPencil, HiArrowPath, HiTrash, HiCheck,
+} from 'react-icons/hi2';
 import { useAppData } from '../../context/AppDataContext';
 import { useAuth } from '../../context/AuthContext';
 import { usePdfSelection } from '../../context/PdfSelectionContext';
 import { openaiService } from '../../services/openai';
-import { chatHistoryService, type ChatMessage } from '../../services/chatHistoryService';
+import { DailyLimitError } from '../../services/aiGateway';
+import { chatHistoryService, type ChatConversation, type ChatMessage } from '../../services/chatHistoryService';
+import { ragService } from '../../services/ragService';
+import type { ChatScope, Citation, RetrievedChunk } from '../../services/ragService';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
 
 interface AIChatPanelProps {
@@ -18,6 +25,303 @@ interface AIChatPanelProps {
   onClose?: () => void;
 }
 
+const CHAT_SCOPES: Array<{ id: ChatScope; label: string }> = [
+  { id: 'note', label: 'This note' },
+  { id: 'folder', label: 'This folder' },
+  { id: 'library', label: 'All notes' },
+];
+
+const ScopePicker: React.FC<{ scope: ChatScope; onChange: (scope: ChatScope) => void }> = ({ scope, onChange }) => (
+  <div className="flex gap-1 p-1 bg-[#1a1a1a] rounded-lg">
+    {CHAT_SCOPES.map((option) => (
+      <button
+        key={option.id}
+        onClick={() => onChange(option.id)}
+        className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+          scope === option.id ? 'bg-[#b85a3a] text-white' : 'text-[#9ca3af] hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const CitationList: React.FC<{ citations: Citation[]; onSelect: (citation: Citation) => void }> = ({ citations, onSelect }) => (
+  <div className="mt-3 pt-3 border-t border-[#4a4a4a] space-y-1.5">
+    <p className="text-xs text-[#9ca3af]">Sources</p>
+    {citations.map((citation) => (
+      <button
+        key={citation.index}
+        onClick={() => onSelect(citation)}
+        title={citation.excerpt}
+        className="w-full text-left px-2 py-1.5 rounded-md bg-[#2a2a2a] hover:bg-[#1a1a1a] transition-colors text-xs"
+      >
+        <span className="text-[#d4a944] font-semibold mr-1.5">[{citation.index}]</span>
+        <span className="text-white">{citation.noteTitle}</span>
+        <span className="text-[#6b7280]"> · {citation.source}</span>
+      </button>
+    ))}
+  </div>
+);
+
+const WELCOME_MESSAGE: ChatMessage = {
+  id: 'welcome',
+  role: 'assistant',
+  content: "I'm your personal tutor! I can help explain concepts, answer questions, and guide your learning. What would you like to explore?",
+  timestamp: new Date(),
+};
+
+const MAX_HISTORY_MESSAGES = 10; // Earlier messages of the branch sent along with a question
+const DEFAULT_CONVERSATION_TITLES = ['Chat', 'New Conversation', 'New chat'];
+
+const ConversationList: React.FC<{
+  conversations: ChatConversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}> = ({ conversations, activeId, onSelect, onNew, onRename, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const active = conversations.find((conversation) => conversation.id === activeId);
+
+  const submitRename = () => {
+    if (renamingId && title.trim()) onRename(renamingId, title.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex-1 min-w-0 flex items-center justify-between gap-2 px-3 py-2 bg-[#1a1a1a] hover:bg-[#3a3a3a] rounded-lg text-sm text-white transition-colors"
+        >
+          <span className="truncate">{active?.title || 'Chat'}</span>
+          <HiChevronDown className={`w-4 h-4 text-[#9ca3af] flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+        <button
+          onClick={() => {
+            setIsOpen(false);
+            onNew();
+          }}
+          className="px-3 py-2 bg-[#1a1a1a] hover:bg-[#3a3a3a] rounded-lg transition-colors"
+          title="New conversation"
+        >
+          <HiPlus className="w-4 h-4 text-[#9ca3af]" />
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 mt-2 z-20 max-h-72 overflow-y-auto bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg shadow-lg p-1 space-y-1">
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-md ${
+                conversation.id === activeId ? 'bg-[#3a3a3a]' : 'hover:bg-[#2a2a2a]'
+              }`}
+            >
+              {renamingId === conversation.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 min-w-0 px-2 py-1 bg-[#2a2a2a] border border-[#3a3a3a] rounded text-sm text-white focus:outline-none focus:border-[#b85a3a]"
+                  />
+                  <button onClick={submitRename} className="p-1 text-[#9ca3af] hover:text-white" title="Save name">
+                    <HiCheck className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={() => {
+                      setIsOpen(false);
+                      onSelect(conversation.id);
+                    }}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <p className="text-sm text-white truncate">{conversation.title || 'Chat'}</p>
+                    <p className="text-xs text-[#6b7280]">{conversation.updatedAt.toLocaleDateString()}</p>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRenamingId(conversation.id);
+                      setTitle(conversation.title || '');
+                    }}
+                    className="p-1 text-[#9ca3af] hover:text-white"
+                    title="Rename"
+                  >
+                    <HiPencil className="w-4 h-4" />
+                  </button>
+                  {deletingId === conversation.id ? (
+                    <button
+                      onClick={() => {
+                        setDeletingId(null);
+                        onDelete(conversation.id);
+                      }}
+                      className="px-2 py-1 text-xs font-medium text-white bg-red-600 hover:bg-red-700 rounded"
+                    >
+                      Delete
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setDeletingId(conversation.id)}
+                      className="p-1 text-[#9ca3af] hover:text-red-400"
+                      title="Delete conversation"
+                    >
+                      <HiTrash className="w-4 h-4" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A chat message with its actions: editing a question or regenerating an answer creates a
+ * new version, and the arrows switch between versions
+ */
+const ChatMessageBubble: React.FC<{
+  message: ChatMessage;
+  versions: ChatMessage[];
+  canChange: boolean;
+  onSelectVersion: (messageId: string) => void;
+  onEdit: (content: string) => void;
+  onRegenerate: () => void;
+  onCitationSelect: (citation: Citation) => void;
+}> = ({ message, versions, canChange, onSelectVersion, onEdit, onRegenerate, onCitationSelect }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const versionIndex = versions.findIndex((version) => version.id === message.id);
+  const hasActions = message.id !== WELCOME_MESSAGE.id;
+
+  const submitEdit = () => {
+    setIsEditing(false);
+    if (draft.trim() && draft.trim() !== message.content) onEdit(draft.trim());
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`group flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
+    >
+      <div
+        className={`max-w-[85%] px-4 py-3 rounded-lg ${
+          message.role === 'user'
+            ? 'bg-[#1a1a1a] text-white'
+            : 'bg-[#3a3a3a] text-white'
+        }`}
+      >
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              rows={3}
+              className="w-full min-w-[240px] px-3 py-2 bg-[#2a2a2a] border border-[#3a3a3a] rounded-lg text-sm text-white focus:outline-none focus:border-[#b85a3a] resize-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 text-xs text-[#9ca3af] hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitEdit}
+                className="px-3 py-1 text-xs bg-[#b85a3a] hover:bg-[#a04a2a] text-white rounded-md transition-colors"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : message.role === 'assistant' ? (
+          <div className="text-sm text-white">
+            <MarkdownRenderer content={message.content} />
+            {message.citations && message.citations.length > 0 && (
+              <CitationList citations={message.citations} onSelect={onCitationSelect} />
+            )}
+          </div>
+        ) : (
+          <p className="whitespace-pre-wrap text-sm">{message.content}</p>
+        )}
+      </div>
+
+      {hasActions && !isEditing && (
+        <div className="flex items-center gap-1 mt-1 text-[#6b7280]">
+          {versions.length > 1 && (
+            <>
+              <button
+                onClick={() => onSelectVersion(versions[versionIndex - 1].id)}
+                disabled={!canChange || versionIndex <= 0}
+                className="p-1 hover:text-white disabled:opacity-40 disabled:hover:text-[#6b7280] transition-colors"
+                title="Previous version"
+              >
+                <HiChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-xs">{versionIndex + 1}/{versions.length}</span>
+              <button
+                onClick={() => onSelectVersion(versions[versionIndex + 1].id)}
+                disabled={!canChange || versionIndex >= versions.length - 1}
+                className="p-1 hover:text-white disabled:opacity-40 disabled:hover:text-[#6b7280] transition-colors"
+                title="Next version"
+              >
+                <HiChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          {canChange && (
+            message.role === 'user' ? (
+              <button
+                onClick={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+                className="p-1 opacity-0 group-hover:opacity-100 hover:text-white transition-all"
+                title="Edit and resend"
+              >
+                <HiPencil className="w-3.5 h-3.5" />
+              </button>
+            ) : (
+              <button
+                onClick={onRegenerate}
+                className="p-1 opacity-0 group-hover:opacity-100 hover:text-white transition-all"
+                title="Regenerate answer"
+              >
+                <HiArrowPath className="w-3.5 h-3.5" />
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
 const CHAT_TEMPLATES = [
   { id: 'explain', label: 'Explain this concept', prompt: 'Explain the key concepts in simple terms with examples.' },
   { id: 'summarize', label: 'Summarize', prompt: 'Provide a concise summary of the main points.' },
@@ -35,13 +339,23 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
   isOpen = false,
   onClose,
 }) => {
-  const { selectedNoteId, notes } = useAppData();
+  const { selectedNoteId, notes, folders, setCurrentStudyMode } = useAppData();
   const { user } = useAuth();
+  const navigate = useNavigate();
   const { selectedText: pdfSelectedText, clearSelection } = usePdfSelection();
   const currentNote = notes.find(n => n.id === selectedNoteId);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Every message of the conversation, all branches, and the end of the branch that is shown
+  const [allMessages, setAllMessages] = useState<ChatMessage[]>([]);
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [historyUnavailable, setHistoryUnavailable] = useState(false);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [scope, setScope] = useState<ChatScope>('note');
+  const [retrievalStatus, setRetrievalStatus] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const handleSendRef = useRef<((messageText?: string) => Promise<void>) | null>(null);
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([]);
   const [showTemplates, setShowTemplates] = useState(false);
@@ -54,10 +368,40 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
   const startMouseXRef = useRef(0);
   const initialMinWidthRef = useRef(0);
 
+  const branch = useMemo(
+    () => chatHistoryService.getBranch(allMessages, activeMessageId),
+    [allMessages, activeMessageId]
+  );
+  const messages = useMemo<ChatMessage[]>(() => {
+    if (branch.length > 0) return branch;
+    return [historyUnavailable
+      ? { ...WELCOME_MESSAGE, content: `${WELCOME_MESSAGE.content}\n\n*Note: Chat history is disabled until database tables are set up. Run chat-history-schema.sql in Supabase.*` }
+      : WELCOME_MESSAGE];
+  }, [branch, historyUnavailable]);
+
+  const refreshConversations = async () => {
+    if (!user || !selectedNoteId) return;
+    try {
+      setConversations(await chatHistoryService.getRecentConversations(user.id, 20, selectedNoteId));
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  };
+
+  const openConversation = async (convId: string) => {
+    abortRef.current?.abort();
+    setConversationId(convId);
+    const loaded = await chatHistoryService.loadConversation(convId);
+    setAllMessages(loaded.messages);
+    setActiveMessageId(loaded.activeMessageId);
+  };
+
   // Load conversation history on mount or when note changes
   useEffect(() => {
     if (!user || !selectedNoteId) {
-      setMessages([]);
+      setAllMessages([]);
+      setActiveMessageId(null);
+      setConversations([]);
       setConversationId(null);
       setSuggestedQuestions([]);
       return;
@@ -65,18 +409,10 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
 
     const loadConversation = async () => {
       try {
+        setHistoryUnavailable(false);
         const convId = await chatHistoryService.getOrCreateConversation(user.id, selectedNoteId);
-        setConversationId(convId);
-        
-        const loadedMessages = await chatHistoryService.loadConversationMessages(convId);
-        setMessages(loadedMessages.length > 0 ? loadedMessages : [
-          {
-            id: '1',
-            role: 'assistant',
-            content: "I'm your personal tutor! I can help explain concepts, answer questions, and guide your learning. What would you like to explore?",
-            timestamp: new Date(),
-          },
-        ]);
+        await openConversation(convId);
+        refreshConversations();
 
         // Generate suggested questions based on note content
         if (currentNote?.content && currentNote.content.length > 50) {
@@ -86,22 +422,23 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
         console.error('Error loading conversation:', error);
         // If table doesn't exist, just show default message (graceful degradation)
         if (error?.code === 'PGRST205') {
-          setMessages([
-            {
-              id: '1',
-              role: 'assistant',
-              content: "I'm your personal tutor! I can help explain concepts, answer questions, and guide your learning. What would you like to explore?\n\n*Note: Chat history is disabled until database tables are set up. Run chat-history-schema.sql in Supabase.*",
-              timestamp: new Date(),
-            },
-          ]);
+          setAllMessages([]);
+          setActiveMessageId(null);
+          setHistoryUnavailable(true);
           setConversationId(null); // Disable saving until tables exist
         }
       }
     };
 
     loadConversation();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, selectedNoteId, currentNote?.content]);
 
+  // Stop a streaming answer when the note changes or the panel unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, [selectedNoteId]);
+
   // Generate suggested questions from note content
   const generateSuggestedQuestions = async (content: string) => {
     try {
@@ -134,8 +471,8 @@ ${content.substring(0, 2000)}`;
     const handleQuickAction = (event: CustomEvent) => {
       const { message } = event.detail;
       if (message && user) {
-        // Create a temporary handler that uses the current message
-        handleSend(message);
+        // The latest handler, so the question continues the branch that is shown
+        handleSendRef.current?.(message);
       }
     };
 
@@ -143,7 +480,6 @@ ${content.substring(0, 2000)}`;
     return () => {
       window.removeEventListener('ai-chat-quick-action', handleQuickAction as EventListener);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user]);
 
   // Scroll to bottom when new messages arrive
@@ -220,58 +556,138 @@ ${content.substring(0, 2000)}`;
         ? `[Selected text from PDF: "${pdfSelectedText}"]\n\n${textToSend}`
         : textToSend);
 
+    if (!messageText) setInput('');
+    if (pdfSelectedText) clearSelection(); // Clear PDF selection after sending
+    await sendMessage(fullMessage, activeMessageId);
+  };
+
+  useEffect(() => {
+    handleSendRef.current = handleSend;
+  });
+
+  // Save a message; until it is saved (or when history is unavailable) it keeps its local id
+  const persistMessage = async (message: ChatMessage): Promise<ChatMessage> => {
+    if (!conversationId) return message;
+    try {
+      const saved = await chatHistoryService.saveMessage(
+        conversationId,
+        message.role,
+        message.content,
+        message.citations,
+        message.parentId ?? null
+      );
+      const withCitations = { ...saved, citations: saved.citations ?? message.citations };
+      setAllMessages(prev => prev.map(m => (m.id === message.id ? withCitations : m)));
+      setActiveMessageId(id => (id === message.id ? saved.id : id));
+      return withCitations;
+    } catch (saveError: any) {
+      // If save fails due to missing table, continue anyway
+      if (saveError?.code !== 'PGRST205') {
+        console.error('Error saving message:', saveError);
+      }
+      return message;
+    }
+  };
+
+  // Ask a question after `parentId`; a parent with other replies starts a new branch
+  const sendMessage = async (content: string, parentId: string | null) => {
+    const history = chatHistoryService.getBranch(allMessages, parentId);
     const userMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: `local-${Date.now()}`,
       role: 'user',
-      content: fullMessage,
+      content,
       timestamp: new Date(),
+      parentId,
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    if (!messageText) setInput('');
-    if (pdfSelectedText) clearSelection(); // Clear PDF selection after sending
+    setAllMessages(prev => [...prev, userMessage]);
+    setActiveMessageId(userMessage.id);
+    setIsLoading(true);
+    setShowSuggestions(false);
+
+    const saved = await persistMessage(userMessage);
+
+    // Name new conversations after their first question
+    const conversation = conversations.find(c => c.id === conversationId);
+    if (conversationId && allMessages.length === 0 && DEFAULT_CONVERSATION_TITLES.includes(conversation?.title || 'Chat')) {
+      const title = content.replace(/^\[Selected text from PDF: "[\s\S]*?"\]\s*/, '').slice(0, 60);
+      chatHistoryService.updateConversationTitle(conversationId, title)
+        .then(refreshConversations)
+        .catch(error => console.error('Error naming conversation:', error));
+    }
+
+    await respond(saved, history);
+  };
+
+  // Answer a question; answering it again adds another version of the answer
+  const respond = async (userMessage: ChatMessage, history: ChatMessage[]) => {
+    if (!user) return;
     setIsLoading(true);
     setShowSuggestions(false);
 
+    // Stream the AI response into its message as it arrives
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const aiMessage: ChatMessage = {
+      id: `local-${Date.now() + 1}`,
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      parentId: userMessage.id,
+    };
+    const showPartial = (text: string) => {
+      setStreamingMessageId(aiMessage.id);
+      setAllMessages(prev =>
+        prev.some(m => m.id === aiMessage.id)
+          ? prev.map(m => (m.id === aiMessage.id ? { ...m, content: text } : m))
+          : [...prev, { ...aiMessage, content: text }]
+      );
+      setActiveMessageId(aiMessage.id);
+    };
+
     try {
-      // Save user message (only if conversation exists and table is set up)
-      if (conversationId) {
-        try {
-          await chatHistoryService.saveMessage(conversationId, 'user', fullMessage);
-        } catch (saveError: any) {
-          // If save fails due to missing table, continue anyway
-          if (saveError?.code !== 'PGRST205') {
-            console.error('Error saving message:', saveError);
-          }
-        }
+      // Retrieve the most relevant chunks of the notes in scope
+      let chunks: RetrievedChunk[] = [];
+      try {
+        setRetrievalStatus('Searching your notes...');
+        const scopeNotes = await ragService.getScopeNotes(user.id, scope, {
+          noteId: selectedNoteId,
+          folderId: currentNote?.folderId ?? null,
+          folders,
+        });
+        await ragService.ensureIndexed(user.id, scopeNotes);
+        chunks = await ragService.retrieveChunks(userMessage.content, scopeNotes);
+      } catch (retrievalError) {
+        if (retrievalError instanceof DailyLimitError) throw retrievalError;
+        // Without the index, fall back to the current note as context
+        console.error('Error retrieving sources:', retrievalError);
+      } finally {
+        setRetrievalStatus(null);
       }
 
-      // Get AI response
-      const context = currentNote?.content || '';
-      const aiResponse = await openaiService.chatCompletions([
-        { role: 'user', content: fullMessage }
-      ], context);
-
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date(),
+      // The earlier messages of the branch give the question its context
+      const chatMessages = [
+        ...history.slice(-MAX_HISTORY_MESSAGES).map(m => ({ role: m.role, content: m.content })),
+        { role: 'user' as const, content: userMessage.content },
+      ];
+      const streamOptions = {
+        signal: controller.signal,
+        onDelta: (_delta: string, text: string) => showPartial(text),
       };
+      const aiResponse = chunks.length > 0
+        ? await openaiService.answerWithSources(chatMessages, ragService.buildSourcesContext(chunks), streamOptions)
+        : await openaiService.chatCompletions(chatMessages, currentNote?.content || '', streamOptions);
+
+      if (!aiResponse) return; // Stopped before any text arrived
+      showPartial(aiResponse);
+      const citations = ragService.extractCitations(aiResponse, chunks);
+      setAllMessages(prev => prev.map(m => (m.id === aiMessage.id ? { ...m, citations } : m)));
 
-      setMessages(prev => [...prev, aiMessage]);
-      
       // Save AI response (only if conversation exists and table is set up)
-      if (conversationId) {
-        try {
-          await chatHistoryService.saveMessage(conversationId, 'assistant', aiResponse);
-        } catch (saveError: any) {
-          // If save fails due to missing table, continue anyway
-          if (saveError?.code !== 'PGRST205') {
-            console.error('Error saving AI message:', saveError);
-          }
-        }
-      }
+      await persistMessage({ ...aiMessage, content: aiResponse, citations });
+      refreshConversations();
     } catch (error: any) {
       console.error('Error getting AI response:', error);
       let errorContent = "I'm sorry, I couldn't process your request at this moment. Please try again.";
@@ -287,18 +703,115 @@ ${content.substring(0, 2000)}`;
         errorContent = "Daily AI limit reached. Please try again tomorrow.";
       }
       
+      // Not saved; regenerating it tries the question again
       const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: `local-${Date.now() + 2}`,
         role: 'assistant',
         content: errorContent,
         timestamp: new Date(),
+        parentId: userMessage.id,
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setAllMessages(prev => [...prev.filter(m => m.id !== aiMessage.id), errorMessage]);
+      setActiveMessageId(errorMessage.id);
     } finally {
       setIsLoading(false);
+      setStreamingMessageId(null);
+    }
+  };
+
+  const handleEditMessage = (message: ChatMessage, content: string) => {
+    if (isLoading) return;
+    sendMessage(content, message.parentId ?? null);
+  };
+
+  const handleRegenerate = (message: ChatMessage) => {
+    const question = allMessages.find(m => m.id === message.parentId);
+    if (!question || isLoading) return;
+    respond(question, chatHistoryService.getBranch(allMessages, question.parentId ?? null));
+  };
+
+  // Show another version of a message, continuing with its newest branch
+  const handleSelectVersion = (messageId: string) => {
+    const leafId = chatHistoryService.getLatestLeaf(allMessages, messageId);
+    setActiveMessageId(leafId);
+    if (conversationId && !leafId.startsWith('local-')) {
+      chatHistoryService.setActiveMessage(conversationId, leafId).catch(error => {
+        console.error('Error saving selected branch:', error);
+      });
     }
   };
 
+  const handleNewConversation = async () => {
+    if (!user || !selectedNoteId) return;
+    try {
+      const convId = await chatHistoryService.createConversation(user.id, selectedNoteId, 'New chat');
+      await openConversation(convId);
+      setShowSuggestions(true);
+      refreshConversations();
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+    }
+  };
+
+  const handleSelectConversation = async (convId: string) => {
+    if (convId === conversationId) return;
+    try {
+      await openConversation(convId);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+    }
+  };
+
+  const handleRenameConversation = async (convId: string, title: string) => {
+    try {
+      await chatHistoryService.updateConversationTitle(convId, title);
+      setConversations(prev => prev.map(c => (c.id === convId ? { ...c, title } : c)));
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (convId: string) => {
+    if (!user || !selectedNoteId) return;
+    try {
+      await chatHistoryService.deleteConversation(convId);
+      const remaining = conversations.filter(c => c.id !== convId);
+      setConversations(remaining);
+      if (convId === conversationId) {
+        await openConversation(
+          remaining[0]?.id ?? await chatHistoryService.createConversation(user.id, selectedNoteId)
+        );
+        if (remaining.length === 0) refreshConversations();
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
+  const renderMessage = (message: ChatMessage) => (
+    <ChatMessageBubble
+      key={message.id}
+      message={message}
+      versions={message.id === WELCOME_MESSAGE.id ? [message] : chatHistoryService.getSiblings(allMessages, message)}
+      canChange={!isLoading}
+      onSelectVersion={handleSelectVersion}
+      onEdit={(content) => handleEditMessage(message, content)}
+      onRegenerate={() => handleRegenerate(message)}
+      onCitationSelect={handleCitationClick}
+    />
+  );
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Open the cited note on its transcript, with the cited passage highlighted
+  const handleCitationClick = (citation: Citation) => {
+    setCurrentStudyMode('transcript');
+    navigate(`/note?id=${citation.noteId}&mode=transcript&highlight=${citation.startOffset}-${citation.endOffset}`);
+    if (isMobile) onClose?.();
+  };
+
   const handleTemplateClick = (template: typeof CHAT_TEMPLATES[0]) => {
     if (!currentNote?.content) return;
     handleSend(template.prompt);
@@ -362,6 +875,20 @@ ${content.substring(0, 2000)}`;
                 </button>
               </div>
 
+              <div className="px-4 py-3 border-b border-[#3a3a3a] flex-shrink-0 space-y-2">
+                {conversationId && (
+                  <ConversationList
+                    conversations={conversations}
+                    activeId={conversationId}
+                    onSelect={handleSelectConversation}
+                    onNew={handleNewConversation}
+                    onRename={handleRenameConversation}
+                    onDelete={handleDeleteConversation}
+                  />
+                )}
+                <ScopePicker scope={scope} onChange={setScope} />
+              </div>
+
               {/* Suggested Questions */}
               {showSuggestions && suggestedQuestions.length > 0 && (
                 <div className="px-4 py-3 border-b border-[#3a3a3a] flex-shrink-0">
@@ -388,31 +915,8 @@ ${content.substring(0, 2000)}`;
               {/* Messages */}
               <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
                 <AnimatePresence>
-                  {messages.map((message) => (
-                    <motion.div
-                      key={message.id}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                    >
-                      <div
-                        className={`max-w-[85%] px-4 py-3 rounded-lg ${
-                          message.role === 'user'
-                            ? 'bg-[#1a1a1a] text-white'
-                            : 'bg-[#3a3a3a] text-white'
-                        }`}
-                      >
-                        {message.role === 'assistant' ? (
-                          <div className="text-sm text-white">
-                            <MarkdownRenderer content={message.content} />
-                          </div>
-                        ) : (
-                          <p className="whitespace-pre-wrap text-sm">{message.content}</p>
-                        )}
-                      </div>
-                    </motion.div>
-                  ))}
-                  {isLoading && (
+                  {messages.map(renderMessage)}
+                  {isLoading && !streamingMessageId && (
                     <motion.div
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
@@ -424,6 +928,7 @@ ${content.substring(0, 2000)}`;
                           <div className="w-2 h-2 bg-[#9ca3af] rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                           <div className="w-2 h-2 bg-[#9ca3af] rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                         </div>
+                        {retrievalStatus && <p className="text-xs text-[#9ca3af] mt-2">{retrievalStatus}</p>}
                       </div>
                     </motion.div>
                   )}
@@ -487,13 +992,23 @@ ${content.substring(0, 2000)}`;
                     placeholder={pdfSelectedText ? `Ask about "${pdfSelectedText.substring(0, 30)}..."` : "Ask anything..."}
                     className="flex-1 px-4 py-3 bg-bg-primary border border-border-primary rounded-lg text-text-primary placeholder:text-text-tertiary focus:outline-none focus:border-accent focus:ring-2 focus:ring-accent/20 transition-all"
                   />
-                  <button
-                    onClick={() => handleSend()}
-                    disabled={!input.trim() || isLoading}
-                    className="p-3 rounded-lg bg-accent hover:bg-[var(--accent-hover)] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-glow hover:shadow-glow-lg"
-                  >
-                    <HiPaperAirplane className="w-5 h-5 text-white" />
-                  </button>
+                  {isLoading ? (
+                    <button
+                      onClick={handleStop}
+                      className="p-3 rounded-lg bg-accent hover:bg-[var(--accent-hover)] transition-all duration-200 shadow-glow hover:shadow-glow-lg"
+                      title="Stop generating"
+                    >
+                      <HiStop className="w-5 h-5 text-white" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSend()}
+                      disabled={!input.trim()}
+                      className="p-3 rounded-lg bg-accent hover:bg-[var(--accent-hover)] transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-glow hover:shadow-glow-lg"
+                    >
+                      <HiPaperAirplane className="w-5 h-5 text-white" />
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
@@ -556,6 +1071,19 @@ ${content.substring(0, 2000)}`;
           <p className="text-text-secondary text-lg">
             I can help explain concepts, answer questions, and guide your learning!
           </p>
+          <div className="mt-4 space-y-2">
+            {conversationId && (
+              <ConversationList
+                conversations={conversations}
+                activeId={conversationId}
+                onSelect={handleSelectConversation}
+                onNew={handleNewConversation}
+                onRename={handleRenameConversation}
+                onDelete={handleDeleteConversation}
+              />
+            )}
+            <ScopePicker scope={scope} onChange={setScope} />
+          </div>
         </div>
 
         {/* Suggested Questions */}
@@ -584,31 +1112,8 @@ ${content.substring(0, 2000)}`;
         {/* Messages */}
         <div className="flex-1 overflow-y-auto px-6 space-y-4 pb-6">
           <AnimatePresence>
-            {messages.map((message) => (
-              <motion.div
-                key={message.id}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[85%] px-4 py-3 rounded-lg ${
-                    message.role === 'user'
-                      ? 'bg-[#1a1a1a] text-white'
-                      : 'bg-[#3a3a3a] text-white'
-                  }`}
-                >
-                  {message.role === 'assistant' ? (
-                    <div className="text-sm text-white">
-                      <MarkdownRenderer content={message.content} />
-                    </div>
-                  ) : (
-                  <p className="whitespace-pre-wrap text-sm">{message.content}</p>
-                  )}
-                </div>
-              </motion.div>
-            ))}
-            {isLoading && (
+            {messages.map(renderMessage)}
+            {isLoading && !streamingMessageId && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -620,6 +1125,7 @@ ${content.substring(0, 2000)}`;
                     <div className="w-2 h-2 bg-[#9ca3af] rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
                     <div className="w-2 h-2 bg-[#9ca3af] rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
                   </div>
+                  {retrievalStatus && <p className="text-xs text-[#9ca3af] mt-2">{retrievalStatus}</p>}
                 </div>
               </motion.div>
             )}
@@ -683,13 +1189,23 @@ ${content.substring(0, 2000)}`;
               placeholder={pdfSelectedText ? `Ask about "${pdfSelectedText.substring(0, 30)}..."` : "Ask anything..."}
               className="flex-1 px-4 py-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] transition-colors"
             />
-            <button
-              onClick={() => handleSend()}
-              disabled={!input.trim() || isLoading}
-              className="p-3 rounded-lg bg-[#b85a3a] hover:bg-[#a04a2a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <HiPaperAirplane className="w-5 h-5 text-white" />
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleStop}
+                className="p-3 rounded-lg bg-[#b85a3a] hover:bg-[#a04a2a] transition-colors"
+                title="Stop generating"
+              >
+                <HiStop className="w-5 h-5 text-white" />
+              </button>
+            ) : (
+              <button
+                onClick={() => handleSend()}
+                disabled={!input.trim()}
+                className="p-3 rounded-lg bg-[#b85a3a] hover:bg-[#a04a2a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <HiPaperAirplane className="w-5 h-5 text-white" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -1,7 +1,15 @@
-import React, { Suspense, lazy } from 'react';
+import React, { Suspense, lazy, useEffect, useRef, useState } from 'react';
 import { HiDocument } from 'react-icons/hi2';
+import { IoTimeOutline } from 'react-icons/io5';
 import { useAppData } from '../../context/AppDataContext';
 import { useStudySession } from '../../hooks/useStudySession';
+import { useStudyContentJob } from '../../hooks/useStudyContentJob';
+import { isJobFinished, type StudyContentItem } from '../../services/studyContentJobService';
+import { StudyContentJobProgress } from './StudyContentJobProgress';
+import { StudyContentHistory } from './StudyContentHistory';
+import { NoteHistorySidebar } from './NoteHistorySidebar';
+import type { VersionedKind } from '../../services/studyContentVersionService';
+import type { StudyMode } from '../../types';
 
 // Lazy load all study mode components for consistency
 const SummaryView = lazy(() => 
@@ -29,6 +37,23 @@ const DocumentManagement = lazy(() =>
   import('./DocumentManagement').then(module => ({ default: module.DocumentManagement }))
 );
 
+// Study content item each generated study mode shows
+const MODE_ITEMS: Partial<Record<StudyMode, StudyContentItem>> = {
+  summary: 'summary',
+  feynman: 'feynmanTopics',
+  flashcards: 'flashcards',
+  quiz: 'quiz',
+  exercises: 'exercises',
+};
+
+// Study content with a version history, per study mode
+const MODE_VERSIONED_KINDS: Partial<Record<StudyMode, VersionedKind>> = {
+  summary: 'summary',
+  flashcards: 'flashcards',
+  quiz: 'quiz',
+  exercises: 'exercises',
+};
+
 const LoadingFallback = () => (
   <div className="flex items-center justify-center h-full min-h-[400px]">
     <div className="text-center">
@@ -39,12 +64,33 @@ const LoadingFallback = () => (
 );
 
 export const ContentView: React.FC = () => {
-  const { currentStudyMode, selectedNoteId, notes } = useAppData();
+  const { currentStudyMode, selectedNoteId, notes, refreshData } = useAppData();
   
   // Track study session for analytics
   useStudySession(currentStudyMode);
   
   const currentNote = notes.find(n => n.id === selectedNoteId);
+  const job = useStudyContentJob(selectedNoteId);
+
+  // Study modes load their content once, so the current one is mounted again when the
+  // background job finishes its item while it is open
+  const [modeVersion, setModeVersion] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showNoteHistory, setShowNoteHistory] = useState(false);
+  const versionedKind = MODE_VERSIONED_KINDS[currentStudyMode];
+  const isTranscript = currentStudyMode === 'transcript';
+  const lastReadyRef = useRef<{ key: string; ready: boolean } | null>(null);
+  const modeItem = MODE_ITEMS[currentStudyMode];
+  const isModeItemReady = !!job && !!modeItem && (job.items[modeItem].status === 'completed' || isJobFinished(job));
+
+  useEffect(() => {
+    const key = `${job?.id}-${currentStudyMode}`;
+    const last = lastReadyRef.current;
+    lastReadyRef.current = { key, ready: isModeItemReady };
+    if (last?.key === key && !last.ready && isModeItemReady) {
+      setModeVersion((version) => version + 1);
+    }
+  }, [job?.id, currentStudyMode, isModeItemReady]);
 
   const renderMode = () => {
     switch (currentStudyMode) {
@@ -77,14 +123,47 @@ export const ContentView: React.FC = () => {
         <h2 className="text-xl font-semibold text-white">
           {currentNote?.title || 'Note View'}
         </h2>
+        {(versionedKind || isTranscript) && selectedNoteId && (
+          <button
+            onClick={() => (isTranscript ? setShowNoteHistory((show) => !show) : setShowHistory(true))}
+            className="ml-auto inline-flex items-center gap-1.5 px-3 py-1.5 text-sm text-[#9ca3af] hover:text-white hover:bg-[#4a4a4a] rounded-lg transition-colors"
+            title="Version history"
+          >
+            <IoTimeOutline className="w-4 h-4" />
+            History
+          </button>
+        )}
       </div>
 
-      {/* Content */}
-      <div className={`flex-1 ${currentStudyMode === 'ai-chat' ? 'overflow-hidden p-0' : 'overflow-y-auto overflow-x-hidden lg:p-8 lg:pb-12 p-4 pb-8'}`}>
-        <Suspense fallback={<LoadingFallback />}>
-          {renderMode()}
-        </Suspense>
+      {job && <StudyContentJobProgress job={job} noteContent={currentNote?.content || ''} />}
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Content */}
+        <div className={`flex-1 min-w-0 ${currentStudyMode === 'ai-chat' ? 'overflow-hidden p-0' : 'overflow-y-auto overflow-x-hidden lg:p-8 lg:pb-12 p-4 pb-8'}`}>
+          <Suspense fallback={<LoadingFallback />}>
+            <React.Fragment key={modeVersion}>{renderMode()}</React.Fragment>
+          </Suspense>
+        </div>
+
+        {isTranscript && showNoteHistory && selectedNoteId && (
+          <NoteHistorySidebar
+            noteId={selectedNoteId}
+            currentContent={currentNote?.content || ''}
+            onClose={() => setShowNoteHistory(false)}
+            onRestored={refreshData}
+          />
+        )}
       </div>
+
+      {versionedKind && selectedNoteId && (
+        <StudyContentHistory
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          noteId={selectedNoteId}
+          kind={versionedKind}
+          onRestored={() => setModeVersion((version) => version + 1)}
+        />
+      )}
     </div>
   );
 };
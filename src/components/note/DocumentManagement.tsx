@@ -1,9 +1,10 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { IoAdd, IoDownloadOutline, IoRefresh, IoEyeOutline, IoPencil, IoCheckmark, IoClose } from 'react-icons/io5';
 import { HiDocument } from 'react-icons/hi2';
 import { useAppData } from '../../context/AppDataContext';
 import { Button } from '../shared/Button';
 import { storageService, studyContentService, documentService, supabase } from '../../services/supabase';
+import { waitForJob } from '../../services/studyContentJobService';
 import { useAuth } from '../../context/AuthContext';
 import { AudioPlayer } from '../audio/AudioPlayer';
 import { DocumentPreview } from './DocumentPreview';
@@ -26,7 +27,7 @@ export const DocumentManagement: React.FC = React.memo(() => {
   const previousNoteIdRef = useRef<string | null>(null);
 
   const currentNote = notes.find(n => n.id === selectedNoteId);
-  const documents = currentNote?.documents || [];
+  const documents = useMemo(() => currentNote?.documents || [], [currentNote?.documents]);
 
   // Track initial content to detect modifications
   // Reset initial content hash when note changes
@@ -152,7 +153,8 @@ export const DocumentManagement: React.FC = React.memo(() => {
 
       const latestContent = noteData.content || '';
 
-      await studyContentService.generateAndSaveAllStudyContent(selectedNoteId, latestContent);
+      const job = await studyContentService.generateAndSaveAllStudyContent(selectedNoteId, latestContent);
+      const finishedJob = job ? await waitForJob(job) : null;
       
       // Update initial content hash to reflect that we've regenerated
       setInitialContentHash(latestContent);
@@ -160,7 +162,11 @@ export const DocumentManagement: React.FC = React.memo(() => {
       // Refresh data to update the UI
       await refreshData();
       
-      toast.success('Study content regenerated successfully!');
+      if (finishedJob?.status === 'failed') {
+        toast.error(finishedJob.lastError || 'Some study content could not be generated. Please try again.');
+      } else {
+        toast.success('Study content regenerated successfully!');
+      }
     } catch (error) {
       handleError(error, 'DocumentManagement: Regenerating study content', toast.error);
     } finally {
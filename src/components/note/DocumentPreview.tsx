@@ -10,14 +10,15 @@ interface DocumentPreviewProps {
     url: string;
   };
   onClose: () => void;
+  initialPage?: number; // PDF page to open at, e.g. the source of a flashcard
 }
 
-export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ document, onClose }) => {
+export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ document, onClose, initialPage = 1 }) => {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pdfPages, setPdfPages] = useState<number[]>([]);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [currentPage, setCurrentPage] = useState(initialPage);
 
   const blobUrlRef = useRef<string | null>(null);
 
@@ -54,6 +55,7 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({ document, onCl
             
             // Generate array of page numbers
             setPdfPages(Array.from({ length: totalPages }, (_, i) => i + 1));
+            setCurrentPage(page => Math.min(Math.max(page, 1), totalPages));
             setLoading(false);
           } catch (pdfError) {
             console.error('Error loading PDF:', pdfError);
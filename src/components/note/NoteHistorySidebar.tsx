@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { IoArrowUndo, IoClose } from 'react-icons/io5';
+import toast from 'react-hot-toast';
+import {
+  getSnapshotContent,
+  getSnapshots,
+  restoreSnapshot,
+  type NoteSnapshot,
+  type SnapshotReason,
+} from '../../services/noteSnapshotService';
+import { countChanges, diffLines, type DiffLine } from '../../utils/textDiff';
+
+interface NoteHistorySidebarProps {
+  noteId: string;
+  currentContent: string;
+  onClose: () => void;
+  onRestored: () => Promise<void>;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  periodic: 'Autosaved',
+  'large-deletion': 'Before a large deletion',
+  'before-restore': 'Before a restore',
+};
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+type DiffRow = DiffLine | { type: 'skipped'; count: number };
+
+// Collapse long runs of unchanged lines so that the changes stand out
+function collapseUnchanged(diff: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let start = 0;
+  while (start < diff.length) {
+    if (diff[start].type !== 'equal') {
+      rows.push(diff[start++]);
+      continue;
+    }
+    let end = start;
+    while (end < diff.length && diff[end].type === 'equal') end++;
+    const keepBefore = start === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === diff.length ? 0 : CONTEXT_LINES;
+    if (end - start > keepBefore + keepAfter + 1) {
+      rows.push(...diff.slice(start, start + keepBefore));
+      rows.push({ type: 'skipped', count: end - start - keepBefore - keepAfter });
+      rows.push(...diff.slice(end - keepAfter, end));
+    } else {
+      rows.push(...diff.slice(start, end));
+    }
+    start = end;
+  }
+  return rows;
+}
+
+function formatRelativeTime(date: Date): string {
+  const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Earlier content of a note with a diff against the current content and a restore button
+ */
+export const NoteHistorySidebar: React.FC<NoteHistorySidebarProps> = ({ noteId, currentContent, onClose, onRestored }) => {
+  const [snapshots, setSnapshots] = useState<NoteSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapshotContent, setSnapshotContent] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getSnapshots(noteId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setSnapshots(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error('Error loading note history:', error);
+        toast.error('Failed to load the note history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [noteId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    setSnapshotContent(null);
+    getSnapshotContent(selectedId)
+      .then((content) => {
+        if (!cancelled) setSnapshotContent(content);
+      })
+      .catch((error) => {
+        console.error('Error loading snapshot:', error);
+        toast.error('Failed to load this version of the note');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const diff = useMemo(
+    () => (snapshotContent === null ? [] : diffLines(snapshotContent, currentContent)),
+    [snapshotContent, currentContent]
+  );
+  const changes = countChanges(diff);
+  const rows = useMemo(() => collapseUnchanged(diff), [diff]);
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    setRestoring(true);
+    try {
+      await restoreSnapshot(noteId, selectedId);
+      await onRestored();
+      setSnapshots(await getSnapshots(noteId));
+      toast.success('Note restored');
+    } catch (error) {
+      console.error('Error restoring note:', error);
+      toast.error('Failed to restore the note. Please try again.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <aside className="w-full lg:w-96 flex-shrink-0 border-l border-[#4a4a4a] bg-[#2a2a2a] flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#4a4a4a]">
+        <h3 className="text-white font-semibold">Note history</h3>
+        <button onClick={onClose} className="p-1.5 hover:bg-[#3a3a3a] rounded-lg transition-colors" aria-label="Close history">
+          <IoClose className="w-5 h-5 text-white" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-[#9ca3af] p-4">
+          No earlier versions yet. The previous content is kept every time the note changes, at most every 10 minutes.
+        </p>
+      ) : (
+        <>
+          <div className="max-h-[40%] overflow-y-auto border-b border-[#4a4a4a] py-1">
+            {snapshots.map((snapshot) => (
+              <button
+                key={snapshot.id}
+                onClick={() => setSelectedId(snapshot.id)}
+                className={`w-full text-left px-4 py-2 transition-colors ${
+                  snapshot.id === selectedId ? 'bg-[#3a3a3a]' : 'hover:bg-[#333333]'
+                }`}
+              >
+                <div className="flex items-center justify-between text-sm text-white">
+                  <span title={snapshot.createdAt.toLocaleString()}>{formatRelativeTime(snapshot.createdAt)}</span>
+                  <span className="text-xs text-[#6b7280]">{snapshot.contentLength.toLocaleString()} chars</span>
+                </div>
+                <div className="text-xs text-[#9ca3af]">{REASON_LABELS[snapshot.reason]}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-[#4a4a4a]">
+            <span className="text-xs text-[#9ca3af] mr-auto">
+              {snapshotContent === null
+                ? 'Loading...'
+                : changes.added + changes.removed === 0
+                  ? 'Same as the current note'
+                  : `Restoring brings back ${changes.removed} line${changes.removed === 1 ? '' : 's'} and removes ${changes.added}`}
+            </span>
+            <button
+              onClick={handleRestore}
+              disabled={restoring || snapshotContent === null || changes.added + changes.removed === 0}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-[#b85a3a] hover:bg-[#a04a2a] text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <IoArrowUndo className="w-4 h-4" />
+              Restore
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto py-2 font-mono text-xs leading-relaxed">
+            {rows.map((row, index) =>
+              row.type === 'skipped' ? (
+                <div key={index} className="px-4 py-1 text-[#6b7280] italic">
+                  {row.count} unchanged line{row.count === 1 ? '' : 's'}
+                </div>
+              ) : (
+                <div
+                  key={index}
+                  className={`px-4 py-0.5 whitespace-pre-wrap break-words ${
+                    row.type === 'removed'
+                      ? 'bg-green-500/15 text-green-200'
+                      : row.type === 'added'
+                        ? 'bg-red-500/15 text-red-200 line-through decoration-red-400/60'
+                        : 'text-[#9ca3af]'
+                  }`}
+                >
+                  {row.type === 'removed' ? '+ ' : row.type === 'added' ? '- ' : '  '}
+                  {row.text}
+                </div>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </aside>
+  );
+};
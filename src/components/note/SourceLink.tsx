@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { HiBookOpen } from 'react-icons/hi2';
+import { useAppData } from '../../context/AppDataContext';
+import { DocumentPreview } from './DocumentPreview';
+import { getSectionDocumentName } from '../../services/sourceService';
+import type { SourceSpan } from '../../types';
+
+interface SourceLinkProps {
+  source: SourceSpan;
+  className?: string;
+}
+
+/**
+ * Opens the passage a generated item came from: the PDF page in the document preview, or
+ * the highlighted passage in the transcript
+ */
+export const SourceLink: React.FC<SourceLinkProps> = ({ source, className = '' }) => {
+  const { selectedNoteId, notes, setCurrentStudyMode } = useAppData();
+  const navigate = useNavigate();
+  const [showPreview, setShowPreview] = useState(false);
+
+  const currentNote = notes.find(n => n.id === selectedNoteId);
+  const documentName = getSectionDocumentName(source.source);
+  const pdf = documentName && source.page
+    ? currentNote?.documents.find(doc => doc.name === documentName && doc.type === 'pdf')
+    : undefined;
+
+  const label = pdf ? `${pdf.name}, p. ${source.page}` : documentName || 'Note';
+
+  const handleClick = () => {
+    if (pdf) {
+      setShowPreview(true);
+      return;
+    }
+    if (!selectedNoteId) return;
+    setCurrentStudyMode('transcript');
+    navigate(`/note?id=${selectedNoteId}&mode=transcript&highlight=${source.start}-${source.end}`);
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        className={`inline-flex items-center gap-1.5 text-xs text-[#d4a944] hover:text-[#e0b955] transition-colors ${className}`}
+        title={pdf ? 'Open the page this came from' : 'Show the passage this came from'}
+      >
+        <HiBookOpen className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="truncate">Source: {label}</span>
+      </button>
+      {/* Portal so the preview covers the screen even inside animated cards */}
+      {showPreview && pdf && createPortal(
+        <DocumentPreview
+          document={pdf}
+          initialPage={source.page}
+          onClose={() => setShowPreview(false)}
+        />,
+        document.body
+      )}
+    </>
+  );
+};
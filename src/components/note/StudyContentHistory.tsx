@@ -0,0 +1,332 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { IoArrowUndo, IoGitMerge, IoSparkles, IoPerson, IoTime } from 'react-icons/io5';
+import toast from 'react-hot-toast';
+import { Modal } from '../shared/Modal';
+import { studyContentService } from '../../services/supabase';
+import {
+  diffItems,
+  diffSummaries,
+  getRestoredContent,
+  getVersionItems,
+  getVersions,
+  mergeItems,
+  type ItemDiff,
+  type StudyContentVersion,
+  type VersionItem,
+  type VersionSettings,
+  type VersionedKind,
+} from '../../services/studyContentVersionService';
+import { countChanges } from '../../utils/textDiff';
+
+interface StudyContentHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  noteId: string;
+  kind: VersionedKind;
+  onRestored: () => void;
+}
+
+const KIND_LABELS: Record<VersionedKind, string> = {
+  summary: 'Summary',
+  flashcards: 'Flashcards',
+  quiz: 'Quiz',
+  exercises: 'Exercises',
+};
+
+// Field of the loaded and saved study content that holds each kind
+const CONTENT_KEYS: Record<VersionedKind, 'summary' | 'flashcards' | 'quizQuestions' | 'exercises'> = {
+  summary: 'summary',
+  flashcards: 'flashcards',
+  quiz: 'quizQuestions',
+  exercises: 'exercises',
+};
+
+const CHANGE_STYLES: Record<ItemDiff['change'], string> = {
+  added: 'border-green-500/40 bg-green-500/10',
+  removed: 'border-red-500/40 bg-red-500/10',
+  changed: 'border-[#d4a944]/40 bg-[#d4a944]/10',
+  unchanged: 'border-[#3a3a3a]',
+};
+
+const CHANGE_LABELS: Record<ItemDiff['change'], string> = {
+  added: 'Not in this version',
+  removed: 'Only in this version',
+  changed: 'Changed since',
+  unchanged: 'Unchanged',
+};
+
+function describeSettings(settings: VersionSettings | null): string {
+  if (!settings) return '';
+  if (settings.restoredFrom) return 'Restored from an earlier version';
+  if (settings.mergedFrom) return 'Items merged from an earlier version';
+  if (settings.source === 'anki-import') return 'Imported from Anki';
+  return [
+    settings.source === 'background' && 'Generated with the note',
+    settings.model,
+    settings.count && `${settings.count} requested`,
+    settings.cardType,
+    settings.questionType,
+    settings.detailLevel,
+  ].filter(Boolean).join(' · ');
+}
+
+function itemTitle(item: VersionItem): string {
+  return String(item.question ?? item.front ?? '');
+}
+
+function itemDetail(item: VersionItem): string {
+  if (typeof item.back === 'string') return item.back;
+  if (typeof item.solution === 'string') return item.solution;
+  if (Array.isArray(item.options) && typeof item.correct === 'number') return `Answer: ${item.options[item.correct] ?? ''}`;
+  return typeof item.modelAnswer === 'string' ? item.modelAnswer : '';
+}
+
+const AuthorLabel: React.FC<{ version: StudyContentVersion }> = ({ version }) => {
+  if (version.author === 'ai') {
+    return <span className="inline-flex items-center gap-1 text-[#d4a944]"><IoSparkles className="w-3.5 h-3.5" />AI</span>;
+  }
+  if (version.author === 'user') {
+    return <span className="inline-flex items-center gap-1 text-[#d1d5db]"><IoPerson className="w-3.5 h-3.5" />You</span>;
+  }
+  return <span className="inline-flex items-center gap-1 text-[#9ca3af]"><IoTime className="w-3.5 h-3.5" />Earlier version</span>;
+};
+
+/**
+ * Version history of one kind of a note's study content. Compares a chosen version with the
+ * current content and restores it, or for lists merges chosen items of it back.
+ */
+export const StudyContentHistory: React.FC<StudyContentHistoryProps> = ({ isOpen, onClose, noteId, kind, onRestored }) => {
+  const [versions, setVersions] = useState<StudyContentVersion[]>([]);
+  const [current, setCurrent] = useState<unknown>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [loadedVersions, content] = await Promise.all([
+          getVersions(noteId, kind),
+          studyContentService.getStudyContent(noteId),
+        ]);
+        if (cancelled) return;
+        setVersions(loadedVersions);
+        setCurrent(content[CONTENT_KEYS[kind]]);
+        // The newest version usually is the current content; start with the one before it
+        setSelectedId(loadedVersions[1]?.id ?? loadedVersions[0]?.id ?? null);
+      } catch (error) {
+        console.error('Error loading version history:', error);
+        toast.error('Failed to load the version history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, noteId, kind]);
+
+  useEffect(() => {
+    setSelectedKeys(new Set());
+  }, [selectedId]);
+
+  const selected = versions.find((version) => version.id === selectedId) ?? null;
+
+  const summaryDiff = useMemo(
+    () => (selected && kind === 'summary' ? diffSummaries(selected.content as string, (current as string) || '') : []),
+    [selected, kind, current]
+  );
+
+  const itemDiffs = useMemo(
+    () => (selected && kind !== 'summary'
+      ? diffItems(kind, getVersionItems(selected), (current as VersionItem[] | null) || [])
+      : []),
+    [selected, kind, current]
+  );
+
+  const summaryChanges = countChanges(summaryDiff);
+  const changedItems = itemDiffs.filter((diff) => diff.change !== 'unchanged');
+  const hasChanges = kind === 'summary' ? summaryChanges.added + summaryChanges.removed > 0 : changedItems.length > 0;
+
+  const save = async (content: unknown, settings: VersionSettings, message: string) => {
+    setSaving(true);
+    try {
+      await studyContentService.saveStudyContent(noteId, { [CONTENT_KEYS[kind]]: content }, { author: 'user', settings });
+      toast.success(message);
+      onRestored();
+      onClose();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      toast.error('Failed to restore the version. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected) return;
+    save(getRestoredContent(selected, current), { restoredFrom: selected.id }, 'Version restored');
+  };
+
+  const handleMerge = () => {
+    if (!selected || kind === 'summary') return;
+    const chosen = itemDiffs.filter((diff) => selectedKeys.has(diff.key) && diff.before).map((diff) => diff.before!);
+    save(
+      mergeItems(kind, (current as VersionItem[] | null) || [], chosen),
+      { mergedFrom: selected.id },
+      `${chosen.length} item${chosen.length === 1 ? '' : 's'} restored`
+    );
+  };
+
+  const toggleKey = (key: string) => {
+    setSelectedKeys((keys) => {
+      const next = new Set(keys);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" title={`${KIND_LABELS[kind]} history`}>
+      {loading ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-[#9ca3af] text-center py-16">
+          No versions yet. A version is saved every time the {KIND_LABELS[kind].toLowerCase()} changes.
+        </p>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-4 max-h-[70vh]">
+          {/* Versions */}
+          <div className="md:w-64 flex-shrink-0 overflow-y-auto space-y-1 pr-1">
+            {versions.map((version, index) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                  version.id === selectedId ? 'bg-[#3a3a3a]' : 'hover:bg-[#333333]'
+                }`}
+              >
+                <div className="flex items-center justify-between text-xs">
+                  <AuthorLabel version={version} />
+                  {index === 0 && <span className="text-[#6b7280]">Latest</span>}
+                </div>
+                <div className="text-sm text-white mt-0.5">{version.updatedAt.toLocaleString()}</div>
+                {describeSettings(version.settings) && (
+                  <div className="text-xs text-[#9ca3af] mt-0.5 truncate">{describeSettings(version.settings)}</div>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {/* Comparison with the current content */}
+          {selected && (
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex flex-wrap items-center gap-2 pb-3 border-b border-[#3a3a3a]">
+                <span className="text-sm text-[#9ca3af] mr-auto">
+                  {!hasChanges
+                    ? 'Same as the current content'
+                    : kind === 'summary'
+                      ? `Compared with now: ${summaryChanges.removed} line${summaryChanges.removed === 1 ? '' : 's'} only in this version, ${summaryChanges.added} added since`
+                      : `${changedItems.length} item${changedItems.length === 1 ? '' : 's'} differ from now`}
+                </span>
+                {kind !== 'summary' && (
+                  <button
+                    onClick={handleMerge}
+                    disabled={saving || selectedKeys.size === 0}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-[#3a3a3a] hover:bg-[#4a4a4a] text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <IoGitMerge className="w-4 h-4" />
+                    Restore selected ({selectedKeys.size})
+                  </button>
+                )}
+                <button
+                  onClick={handleRestore}
+                  disabled={saving || !hasChanges}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm bg-[#b85a3a] hover:bg-[#a04a2a] text-white rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <IoArrowUndo className="w-4 h-4" />
+                  Restore this version
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto pt-3">
+                {kind === 'summary' ? (
+                  <div className="font-mono text-xs leading-relaxed">
+                    {summaryDiff.map((line, index) => (
+                      <div
+                        key={index}
+                        className={`px-2 py-0.5 whitespace-pre-wrap ${
+                          line.type === 'removed'
+                            ? 'bg-red-500/15 text-red-200'
+                            : line.type === 'added'
+                              ? 'bg-green-500/15 text-green-200'
+                              : 'text-[#9ca3af]'
+                        }`}
+                      >
+                        {line.type === 'removed' ? '- ' : line.type === 'added' ? '+ ' : '  '}
+                        {line.text}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {changedItems.length === 0 && (
+                      <p className="text-sm text-[#9ca3af]">Every item of this version is unchanged.</p>
+                    )}
+                    {changedItems.map((diff) => (
+                      <div key={diff.key} className={`border rounded-lg p-3 ${CHANGE_STYLES[diff.change]}`}>
+                        <div className="flex items-start gap-3">
+                          {diff.before && (
+                            <input
+                              type="checkbox"
+                              checked={selectedKeys.has(diff.key)}
+                              onChange={() => toggleKey(diff.key)}
+                              className="mt-1 accent-[#b85a3a]"
+                              aria-label="Restore this item"
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="text-xs text-[#9ca3af] mb-1">{CHANGE_LABELS[diff.change]}</div>
+                            {diff.before && (
+                              <>
+                                <div className="text-sm text-white">{itemTitle(diff.before)}</div>
+                                <div className="text-xs text-[#d1d5db] mt-1 whitespace-pre-wrap">{itemDetail(diff.before)}</div>
+                              </>
+                            )}
+                            {diff.change === 'changed' && diff.after && (
+                              <div className="mt-2 pt-2 border-t border-[#4a4a4a]">
+                                <div className="text-xs text-[#6b7280] mb-1">Now</div>
+                                <div className="text-sm text-[#d1d5db]">{itemTitle(diff.after)}</div>
+                                <div className="text-xs text-[#9ca3af] mt-1 whitespace-pre-wrap">{itemDetail(diff.after)}</div>
+                              </div>
+                            )}
+                            {diff.change === 'added' && diff.after && (
+                              <>
+                                <div className="text-sm text-white">{itemTitle(diff.after)}</div>
+                                <div className="text-xs text-[#d1d5db] mt-1 whitespace-pre-wrap">{itemDetail(diff.after)}</div>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
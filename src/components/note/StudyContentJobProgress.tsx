@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { IoCheckmark, IoClose, IoRefresh } from 'react-icons/io5';
+import toast from 'react-hot-toast';
+import {
+  STUDY_CONTENT_ITEMS,
+  STUDY_CONTENT_ITEM_LABELS,
+  enqueueStudyContentJob,
+  type StudyContentItemProgress,
+  type StudyContentJob,
+} from '../../services/studyContentJobService';
+
+interface StudyContentJobProgressProps {
+  job: StudyContentJob;
+  noteContent: string;
+}
+
+const ItemStatusIcon: React.FC<{ progress: StudyContentItemProgress }> = ({ progress }) => {
+  switch (progress.status) {
+    case 'running':
+      return <div className="w-3 h-3 rounded-full border-2 border-[#d4a944] border-t-transparent animate-spin" />;
+    case 'completed':
+    case 'skipped':
+      return <IoCheckmark className="w-3.5 h-3.5 text-green-400" />;
+    case 'failed':
+      return <IoClose className="w-3.5 h-3.5 text-red-400" />;
+    default:
+      return <div className="w-2 h-2 rounded-full bg-[#6b7280]" />;
+  }
+};
+
+/**
+ * Progress of the background job that generates a note's study content, item by item.
+ * Shown while the job runs and when it failed; finished jobs show nothing.
+ */
+export const StudyContentJobProgress: React.FC<StudyContentJobProgressProps> = ({ job, noteContent }) => {
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  if (job.status === 'completed') return null;
+
+  const isFailed = job.status === 'failed';
+  const isWaitingForRetry = job.status === 'queued' && job.attempts > 0;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await enqueueStudyContentJob(job.noteId, noteContent);
+    } catch (error) {
+      console.error('Error retrying study content generation:', error);
+      toast.error('Failed to start generating study materials. Please try again.');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="px-4 lg:px-8 py-2 border-b border-[#4a4a4a] bg-[#2a2a2a] flex flex-wrap items-center gap-x-4 gap-y-2 flex-shrink-0">
+      <span className={`text-sm ${isFailed ? 'text-red-400' : 'text-[#9ca3af]'}`}>
+        {isFailed
+          ? 'Some study materials could not be generated'
+          : isWaitingForRetry
+            ? 'Generating study materials (retrying soon)...'
+            : 'Generating study materials...'}
+      </span>
+      <div className="flex flex-wrap items-center gap-3">
+        {STUDY_CONTENT_ITEMS.map((item) => {
+          const progress = job.items[item];
+          return (
+            <span
+              key={item}
+              className="inline-flex items-center gap-1.5 text-xs text-[#d1d5db]"
+              title={progress.error}
+            >
+              <ItemStatusIcon progress={progress} />
+              {STUDY_CONTENT_ITEM_LABELS[item]}
+              {progress.status === 'completed' && progress.count !== undefined && item !== 'summary' && (
+                <span className="text-[#6b7280]">({progress.count})</span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {isFailed && (
+        <button
+          onClick={handleRetry}
+          disabled={isRetrying}
+          className="ml-auto inline-flex items-center gap-1.5 text-xs text-[#d4a944] hover:text-[#e0b955] transition-colors disabled:opacity-50"
+        >
+          <IoRefresh className={`w-3.5 h-3.5 ${isRetrying ? 'animate-spin' : ''}`} />
+          Try again
+        </button>
+      )}
+    </div>
+  );
+};
@@ -2,19 +2,32 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '../../shared/Button';
 import { TextArea } from '../../shared/Input';
-import { HiEye, HiCheck, HiAcademicCap, HiCamera, HiX } from 'react-icons/hi2';
+import { HiEye, HiCheck, HiAcademicCap, HiCamera, HiX, HiLightBulb } from 'react-icons/hi2';
 import { openaiService } from '../../../services/openai';
+import { resolveModel } from '../../../services/aiGateway';
 import { studyContentService } from '../../../services/supabase';
+import { exerciseGradingService, HINT_PENALTY, MAX_HINTS } from '../../../services/exerciseGradingService';
+import type { ExerciseAttempt, ExerciseGrade, RubricStep, StepStatus } from '../../../services/exerciseGradingService';
 import { useAppData } from '../../../context/AppDataContext';
 import { useSettings } from '../../../context/SettingsContext';
+import { useAuth } from '../../../context/AuthContext';
 import { EmptyState } from '../../shared/EmptyState';
 
 interface Exercise {
   question: string;
   solution: string;
   notes: string;
+  rubric?: RubricStep[]; // Grading steps, built from the solution on the first check
+  hints?: string[]; // Up to MAX_HINTS hints, from least to most specific
 }
 
+const STEP_STATUS_STYLES: Record<StepStatus, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'border-green-500 bg-green-500/10 text-green-400' },
+  partial: { label: 'Partly right', className: 'border-[#d4a944] bg-[#d4a944]/10 text-[#d4a944]' },
+  wrong: { label: 'Wrong', className: 'border-red-500 bg-red-500/10 text-red-400' },
+  missing: { label: 'Missing', className: 'border-[#3a3a3a] bg-[#1a1a1a] text-[#9ca3af]' },
+};
+
 interface ExercisesViewProps {
   noteContent: string;
 }
@@ -22,11 +35,17 @@ interface ExercisesViewProps {
 export const ExercisesView: React.FC<ExercisesViewProps> = React.memo(function ExercisesView({ noteContent }) {
   const { selectedNoteId } = useAppData();
   const { getPreference } = useSettings();
+  const { user } = useAuth();
   const [currentExercise, setCurrentExercise] = useState(0);
   const [answer, setAnswer] = useState('');
   const [showSolution, setShowSolution] = useState(false);
   const [checked, setChecked] = useState(false);
   const [aiFeedback, setAiFeedback] = useState<string | null>(null);
+  const [grade, setGrade] = useState<ExerciseGrade | null>(null);
+  const [attempts, setAttempts] = useState<ExerciseAttempt[]>([]);
+  const [hintsShown, setHintsShown] = useState(0);
+  const [isLoadingHint, setIsLoadingHint] = useState(false);
+  const [hintError, setHintError] = useState<string | null>(null);
   const [isChecking, setIsChecking] = useState(false);
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -65,6 +84,16 @@ export const ExercisesView: React.FC<ExercisesViewProps> = React.memo(function E
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedNoteId]);
 
+  // Load earlier attempts to show progress per exercise
+  useEffect(() => {
+    if (!user || !selectedNoteId) return;
+
+    exerciseGradingService
+      .getExerciseAttempts(user.id, selectedNoteId)
+      .then(setAttempts)
+      .catch((err) => console.error('Error loading exercise attempts:', err));
+  }, [user, selectedNoteId]);
+
   // Save exercises to Supabase whenever they change
   const saveExercises = useCallback(async (exercisesToSave: Exercise[]) => {
     if (!selectedNoteId) return;
@@ -101,7 +130,7 @@ export const ExercisesView: React.FC<ExercisesViewProps> = React.memo(function E
       if (selectedNoteId) {
         await studyContentService.saveStudyContent(selectedNoteId, {
           exercises: exerciseList,
-        });
+        }, { author: 'ai', settings: { model: resolveModel(), count } });
       }
     } catch (error) {
       console.error('Error generating exercises:', error);
@@ -131,64 +160,80 @@ export const ExercisesView: React.FC<ExercisesViewProps> = React.memo(function E
     }
   };
 
+  // Reveal the next hint; exercises generated before hints existed get theirs on first use
+  const handleShowHint = async () => {
+    const exercise = exercises[currentExercise];
+    if (hintsShown >= MAX_HINTS) return;
+
+    if ((exercise.hints || []).length > hintsShown) {
+      setHintsShown(hintsShown + 1);
+      return;
+    }
+    if (hintsShown > 0) return;
+
+    setIsLoadingHint(true);
+    setHintError(null);
+    try {
+      const hints = await openaiService.generateExerciseHints(exercise.question, exercise.solution, exercise.notes);
+      if (hints.length > 0) {
+        setExercises(exercises.map((e, idx) => (idx === currentExercise ? { ...e, hints } : e)));
+        setHintsShown(1);
+      } else {
+        setHintError('No hint is available for this exercise.');
+      }
+    } catch (err) {
+      setHintError(err instanceof Error ? err.message : 'Failed to generate a hint');
+    } finally {
+      setIsLoadingHint(false);
+    }
+  };
+
   const handleCheck = async () => {
     if (!answer.trim() && !uploadedImage) return;
     
     setIsChecking(true);
     setChecked(true);
     setAiFeedback(null);
+    setGrade(null);
     
     try {
       const exercise = exercises[currentExercise];
-      
-      let response: string;
-      
-      if (uploadedImage) {
-        // Analyze image
-        response = await openaiService.analyzeExerciseImage(
-          uploadedImage,
-          exercise.question,
-          exercise.solution
-        );
-      } else {
-        // Analyze text answer
-        const prompt = `Compare the student's answer with the correct solution and provide constructive feedback.
-
-Exercise Question: ${exercise.question}
-
-Student's Answer:
-${answer}
 
-Correct Solution:
-${exercise.solution}
-
-Provide feedback in this JSON format:
-{
-  "score": <number 0-100>,
-  "feedback": "<positive, constructive feedback about what they did well and what needs improvement>",
-  "isCorrect": <true/false>
-}
+      // Break the solution into grading steps once and keep them with the exercise
+      let rubric = exercise.rubric || [];
+      if (rubric.length === 0) {
+        rubric = await openaiService.buildExerciseRubric(exercise.question, exercise.solution);
+        if (rubric.length > 0) {
+          setExercises(exercises.map((e, idx) => (idx === currentExercise ? { ...e, rubric } : e)));
+        } else {
+          rubric = [{ description: 'Reaches the correct solution', points: 1 }];
+        }
+      }
 
-Be encouraging but honest. If mostly correct, say so. If partially correct, explain what's right and what needs work. If incorrect, gently guide them to the right answer.`;
+      const result = exerciseGradingService.applyHintPenalty(
+        await openaiService.gradeExerciseSteps(
+          exercise.question,
+          exercise.solution,
+          rubric,
+          uploadedImage ? { image: uploadedImage } : { text: answer }
+        ),
+        hintsShown
+      );
+      setGrade(result);
+      setAiFeedback(result.feedback || `You scored ${Math.round(result.score)}%.`);
 
-        response = await openaiService.chatCompletions(
-          [{ role: 'user', content: prompt }],
-          'You are a helpful teaching assistant that provides constructive feedback on student answers.'
-        );
-      }
-      
-      // Parse the response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
+      if (user) {
         try {
-          const feedback = JSON.parse(jsonMatch[0]);
-          setAiFeedback(feedback.feedback || response);
-        } catch (parseError) {
-          console.error('Error parsing feedback:', parseError);
-          setAiFeedback(response);
+          const attempt = await exerciseGradingService.saveExerciseAttempt(
+            user.id,
+            selectedNoteId || null,
+            exerciseGradingService.getExerciseKey(exercise.question),
+            { answerText: uploadedImage ? undefined : answer, hasImage: !!uploadedImage, grade: result }
+          );
+          setAttempts((prev) => [...prev, attempt]);
+        } catch (err) {
+          console.error('Error saving exercise attempt:', err);
         }
-      } else {
-        setAiFeedback(response);
       }
     } catch (error: any) {
       console.error('Error getting AI feedback:', error);
@@ -204,6 +249,12 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
     }
   };
 
+  const exerciseAttempts = exercises[currentExercise]
+    ? attempts.filter(
+        (a) => a.exerciseKey === exerciseGradingService.getExerciseKey(exercises[currentExercise].question)
+      )
+    : [];
+
   if (isLoading) {
     return (
       <div className="max-w-3xl mx-auto text-center py-20">
@@ -255,6 +306,24 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
         <p className="text-white text-lg">
           Exercise {currentExercise + 1} of {exercises.length}
         </p>
+        {exerciseAttempts.length > 0 && (
+          <div className="flex items-center justify-center gap-2 mt-3 flex-wrap">
+            <span className="text-sm text-[#9ca3af]">
+              Best {Math.round(Math.max(...exerciseAttempts.map((a) => a.score)))}% · Attempts:
+            </span>
+            {exerciseAttempts.slice(-8).map((a) => (
+              <span
+                key={a.id}
+                title={`${a.createdAt.toLocaleString()}${a.hintsUsed > 0 ? ` · ${a.hintsUsed} hint${a.hintsUsed > 1 ? 's' : ''}` : ''}`}
+                className={`text-xs px-2 py-0.5 rounded ${
+                  a.score >= 100 ? 'bg-green-500/20 text-green-400' : a.score > 0 ? 'bg-[#d4a944]/20 text-[#d4a944]' : 'bg-red-500/20 text-red-400'
+                }`}
+              >
+                {Math.round(a.score)}%
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Question */}
@@ -267,6 +336,26 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
         </p>
       </div>
 
+      {/* Hints */}
+      {(hintsShown > 0 || hintError) && (
+        <div className="bg-[#2a2a2a] rounded-lg p-6 space-y-3">
+          {(exercises[currentExercise].hints || []).slice(0, hintsShown).map((hint, idx) => (
+            <motion.div
+              key={idx}
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="flex gap-3 p-3 bg-[#1a1a1a] rounded-lg border border-[#d4a944]/40"
+            >
+              <HiLightBulb className="w-5 h-5 text-[#d4a944] flex-shrink-0 mt-0.5" />
+              <p className="text-white">
+                <span className="font-semibold text-[#d4a944]">Hint {idx + 1}:</span> {hint}
+              </p>
+            </motion.div>
+          ))}
+          {hintError && <p className="text-red-400 text-sm">{hintError}</p>}
+        </div>
+      )}
+
       {/* Answer Input */}
       <div className="bg-[#2a2a2a] rounded-lg p-6 space-y-4">
         <TextArea
@@ -323,6 +412,15 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
           <HiCheck className="w-5 h-5" />
           {isChecking ? 'Checking...' : 'Check My Work'}
         </Button>
+        <Button
+          variant="secondary"
+          onClick={handleShowHint}
+          disabled={hintsShown >= MAX_HINTS || isLoadingHint || (hintsShown > 0 && (exercises[currentExercise].hints || []).length <= hintsShown)}
+          title={`Each hint lowers your grade by ${Math.round(HINT_PENALTY * 100)}%`}
+        >
+          <HiLightBulb className="w-5 h-5" />
+          {isLoadingHint ? 'Loading hint...' : `Hint (${hintsShown}/${MAX_HINTS})`}
+        </Button>
         {/* Only show solution button after getting feedback */}
         {checked && aiFeedback && (
           <Button variant="secondary" onClick={() => setShowSolution(!showSolution)}>
@@ -339,10 +437,48 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
           animate={{ opacity: 1, y: 0 }}
           className="bg-blue-500/20 border border-blue-500 rounded-lg p-4"
         >
+          {grade && (
+            <p className="text-white text-xl font-bold mb-2">
+              Score: {Math.round(grade.score)}%
+              {grade.hintsUsed > 0 && (
+                <span className="text-sm font-normal text-[#9ca3af] ml-2">
+                  ({Math.round(grade.rawScore)}% minus {Math.round(HINT_PENALTY * 100 * grade.hintsUsed)}% for {grade.hintsUsed} hint{grade.hintsUsed > 1 ? 's' : ''})
+                </span>
+              )}
+            </p>
+          )}
           <p className="text-blue-300 whitespace-pre-wrap leading-relaxed">{aiFeedback}</p>
         </motion.div>
       )}
 
+      {/* Step-by-step grading */}
+      {checked && grade && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-[#2a2a2a] rounded-lg p-6 space-y-3"
+        >
+          <h3 className="text-white font-semibold">Grading steps</h3>
+          {grade.steps.map((step, idx) => (
+            <div key={idx} className={`rounded-lg border p-4 ${STEP_STATUS_STYLES[step.status].className}`}>
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-white">
+                  <span className="font-semibold">Step {idx + 1}.</span> {step.description}
+                </p>
+                <span className="text-sm font-semibold whitespace-nowrap">
+                  {step.awarded}/{step.points}
+                </span>
+              </div>
+              <p className="text-sm mt-1">
+                {STEP_STATUS_STYLES[step.status].label}
+                {grade.firstErrorStep === idx && ' · This is where it went wrong'}
+                {step.feedback && ` · ${step.feedback}`}
+              </p>
+            </div>
+          ))}
+        </motion.div>
+      )}
+
       {/* Solution - Only show after feedback */}
       {checked && showSolution && (
         <motion.div
@@ -369,6 +505,9 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
                 setShowSolution(false);
                 setChecked(false);
                 setAiFeedback(null);
+                setGrade(null);
+                setHintsShown(0);
+                setHintError(null);
                 setUploadedImage(null);
                 setImagePreview(null);
                 if (fileInputRef.current) {
@@ -387,6 +526,9 @@ Be encouraging but honest. If mostly correct, say so. If partially correct, expl
                 setShowSolution(false);
                 setChecked(false);
                 setAiFeedback(null);
+                setGrade(null);
+                setHintsShown(0);
+                setHintError(null);
                 setUploadedImage(null);
                 setImagePreview(null);
                 if (fileInputRef.current) {
@@ -1,9 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { HiLightBulb, HiSparkles, HiXMark } from 'react-icons/hi2';
+import toast from 'react-hot-toast';
+import { HiLightBulb, HiMicrophone, HiSparkles, HiStop, HiXMark } from 'react-icons/hi2';
 import { openaiService } from '../../../services/openai';
+import { StructuredOutputError } from '../../../services/structuredOutput';
 import { studyContentService } from '../../../services/supabase';
+import { flashcardsService } from '../../../services/flashcardsService';
+import { expandFlashcard } from '../../../services/cardTypeService';
+import { EXPLANATION_WORD_RANGE, feynmanService } from '../../../services/feynmanService';
+import type { DeliveryStats, FeynmanAttempt, GapConversion } from '../../../services/feynmanService';
 import { useAppData } from '../../../context/AppDataContext';
+import { useAuth } from '../../../context/AuthContext';
+import { useAudioRecorder } from '../../../hooks/useAudioRecorder';
 
 interface Topic {
   id: string;
@@ -16,6 +24,9 @@ interface Feedback {
   score: number;
   feedback: string;
   suggestions: string[];
+  gaps: string[]; // Concepts the explanation missed or got wrong
+  delivery?: DeliveryStats;
+  deliveryFeedback?: string; // On filler words and length
 }
 
 interface FeynmanViewProps {
@@ -23,13 +34,20 @@ interface FeynmanViewProps {
 }
 
 export const FeynmanView: React.FC<FeynmanViewProps> = React.memo(function FeynmanView({ noteContent }) {
-  const { selectedNoteId } = useAppData();
+  const { selectedNoteId, notes } = useAppData();
+  const { user } = useAuth();
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [explanation, setExplanation] = useState('');
   const [feedback, setFeedback] = useState<Feedback | null>(null);
   const [suggestedTopics, setSuggestedTopics] = useState<Topic[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isGettingFeedback, setIsGettingFeedback] = useState(false);
+  const [attempts, setAttempts] = useState<FeynmanAttempt[]>([]);
+  const [convertedGaps, setConvertedGaps] = useState<Record<string, GapConversion>>({});
+  const [compareAttemptId, setCompareAttemptId] = useState<string | null>(null);
+  const [currentAttemptId, setCurrentAttemptId] = useState<string | null>(null);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const recorder = useAudioRecorder();
 
   // Load saved topics from Supabase - DO NOT auto-generate, only load from DB
   useEffect(() => {
@@ -91,68 +109,146 @@ export const FeynmanView: React.FC<FeynmanViewProps> = React.memo(function Feynm
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedNoteId]);
 
+  // Load earlier explanations and the gaps already turned into study material
+  useEffect(() => {
+    if (!user || !selectedNoteId) return;
+
+    Promise.all([
+      feynmanService.getFeynmanAttempts(user.id, selectedNoteId),
+      feynmanService.getConvertedGaps(user.id, selectedNoteId),
+    ])
+      .then(([savedAttempts, converted]) => {
+        setAttempts(savedAttempts);
+        setConvertedGaps(converted);
+      })
+      .catch((err) => console.error('Error loading Feynman history:', err));
+  }, [user, selectedNoteId]);
+
   // Note: Auto topic generation removed - topics are now loaded from database only
 
+  const getTopicTitle = (topicId: string) =>
+    topicId === 'custom' ? 'Custom explanation' : suggestedTopics.find(t => t.id === topicId)?.title || 'Topic';
+
+  const topicAttempts = (topicId: string) => attempts.filter(a => a.topicId === topicId);
+
+  // Concepts missed again and again become flashcards or exercises of this note
+  const convertRecurringGaps = async (allAttempts: FeynmanAttempt[]) => {
+    if (!user || !selectedNoteId) return;
+
+    const recurring = feynmanService.findRecurringGaps(allAttempts).filter(gap => !convertedGaps[gap.key]);
+    if (recurring.length === 0) return;
+
+    try {
+      const items = await openaiService.generateGapStudyItems(noteContent, recurring.map(gap => gap.concept));
+      if (items.length === 0) return;
+
+      const folderId = notes.find(n => n.id === selectedNoteId)?.folderId || undefined;
+      const newExercises: Array<{ question: string; solution: string; notes: string }> = [];
+      for (const [index, item] of items.entries()) {
+        if (item.kind === 'flashcard') {
+          const [card] = expandFlashcard(
+            { id: `feynman-${Date.now()}-${index}`, front: item.front, back: item.back, cardType: 'basic' },
+            selectedNoteId,
+            folderId
+          );
+          await flashcardsService.saveFlashcard(card);
+        } else {
+          newExercises.push({ question: item.question, solution: item.solution, notes: item.notes });
+        }
+      }
+
+      if (newExercises.length > 0) {
+        const studyContent = await studyContentService.getStudyContent(selectedNoteId);
+        await studyContentService.saveStudyContent(selectedNoteId, {
+          exercises: [...(studyContent.exercises || []), ...newExercises],
+        });
+      }
+
+      const conversions = items.map(item => ({
+        key: feynmanService.getGapKey(item.concept),
+        convertedTo: item.kind as GapConversion,
+      }));
+      await feynmanService.markGapsConverted(user.id, selectedNoteId, conversions);
+      setConvertedGaps(prev => ({
+        ...prev,
+        ...Object.fromEntries(conversions.map(c => [c.key, c.convertedTo])),
+      }));
+
+      const cardCount = items.length - newExercises.length;
+      toast.success(
+        `Added ${[
+          cardCount > 0 ? `${cardCount} flashcard${cardCount > 1 ? 's' : ''}` : '',
+          newExercises.length > 0 ? `${newExercises.length} exercise${newExercises.length > 1 ? 's' : ''}` : '',
+        ].filter(Boolean).join(' and ')} for concepts you keep missing`
+      );
+    } catch (err) {
+      console.error('Error turning gaps into study material:', err);
+    }
+  };
+
   const handleTopicSelect = (topicId: string) => {
     setSelectedTopic(topicId);
     setExplanation('');
     setFeedback(null);
     setIsGettingFeedback(false);
+    setCompareAttemptId(null);
+    setCurrentAttemptId(null);
   };
 
-  const handleExplain = async () => {
-    if (!explanation.trim()) return;
+  const handleExplain = async (text: string = explanation, durationSeconds: number | null = null) => {
+    if (!text.trim()) return;
+
+    const delivery = feynmanService.analyzeDelivery(text, durationSeconds);
+    const deliverySummary = [
+      `${durationSeconds ? 'Spoken' : 'Written'} explanation, ${delivery.wordCount} words (a good length is ${EXPLANATION_WORD_RANGE.min}-${EXPLANATION_WORD_RANGE.max})`,
+      delivery.wordsPerMinute !== null ? `Speaking rate: ${delivery.wordsPerMinute} words per minute` : null,
+      `Filler words: ${delivery.fillerCount > 0 ? delivery.fillers.map(f => `"${f.word}" x${f.count}`).join(', ') : 'none'}`,
+    ].filter(Boolean).join('\n');
 
     setIsGettingFeedback(true);
     try {
-      // Get AI feedback using OpenAI with stricter expectations
-      const feedbackPrompt = `You are a CRITICAL but fair teacher evaluating a student's explanation using the Feynman Technique. The goal is to ensure the explanation is so simple that a 5-year-old could understand it.
-
-Note content:\n${noteContent}
-
-Student explanation to evaluate:\n${explanation}
-
-EVALUATION CRITERIA (BE STRICT):
-1. Language should be SIMPLE - no jargon, technical terms without explanation, or complex vocabulary
-2. Explanations should use ANALOGIES or real-world examples
-3. Concepts should be broken down into the SMALLEST possible pieces
-4. NO ASSUMPTIONS - the explanation should not assume prior knowledge
-5. It should be conversational and clear, like talking to a child
-
-Score harshly (20-40%) if: using jargon, technical terms without explanation, assuming knowledge, lacking analogies, too complex
-Score mediocre (50-70%) if: generally correct but could be simpler, missing key analogies, some complexity
-Score well (80-100%) if: truly simple, uses great analogies, breaks down perfectly, conversational
+      const parsed = await openaiService.gradeFeynmanExplanation(noteContent, text, deliverySummary);
+      const result: Feedback = {
+        id: Date.now().toString(),
+        score: Math.round(Math.min(100, Math.max(0, parsed.score))),
+        feedback: parsed.feedback,
+        suggestions: parsed.suggestions,
+        gaps: parsed.gaps.filter(gap => gap.trim()),
+        delivery,
+        deliveryFeedback: parsed.deliveryFeedback || undefined,
+      };
+      setFeedback(result);
 
-Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback string", "suggestions": ["string array of specific improvements"]}`;
-      
-      const aiResponse = await openaiService.chatCompletions([
-        { role: 'user', content: feedbackPrompt }
-      ], 'You are a STRICT but constructive teacher who insists on truly simple explanations. You must be critical and demand explanations suitable for a 5-year-old. Do not give high scores unless the explanation is genuinely simple, uses analogies, avoids jargon, and breaks concepts into digestible pieces.');
-      
-      // Parse the response
-      const feedbackMatch = aiResponse.match(/\{[^}]+\}/);
-      if (feedbackMatch) {
-        const parsed = JSON.parse(feedbackMatch[0]);
-        setFeedback({
-          id: Date.now().toString(),
-          score: parsed.score || 50,
-          feedback: parsed.feedback || aiResponse,
-          suggestions: parsed.suggestions || [],
-        });
-      } else {
-        // Fallback if parsing fails
-        setFeedback({
-          id: Date.now().toString(),
-          score: 50,
-          feedback: aiResponse,
-          suggestions: [],
-        });
+      // Keep the attempt so re-attempts can be compared and gaps tracked
+      if (user && selectedNoteId && selectedTopic) {
+        try {
+          const saved = await feynmanService.saveFeynmanAttempt(user.id, {
+            noteId: selectedNoteId,
+            topicId: selectedTopic,
+            topicTitle: getTopicTitle(selectedTopic),
+            explanation: text,
+            score: result.score,
+            feedback: result.feedback,
+            suggestions: result.suggestions,
+            gaps: result.gaps,
+          });
+          const previous = topicAttempts(selectedTopic);
+          setCompareAttemptId(previous.length > 0 ? previous[previous.length - 1].id : null);
+          setCurrentAttemptId(saved.id);
+          const updatedAttempts = [...attempts, saved];
+          setAttempts(updatedAttempts);
+          convertRecurringGaps(updatedAttempts);
+        } catch (err) {
+          console.error('Error saving Feynman attempt:', err);
+        }
       }
     } catch (error: any) {
       console.error('Error getting AI feedback:', error);
       let feedbackMessage = "I couldn't process your explanation at this moment. Please try again.";
       
-      if (error?.code === 'ACCOUNT_LIMIT_REACHED') {
+      if (error instanceof StructuredOutputError) {
+        feedbackMessage = error.message;
+      } else if (error?.code === 'ACCOUNT_LIMIT_REACHED') {
         feedbackMessage = "You have already used your one-time AI generation quota. No additional AI generations are available.";
       } else if (error?.code === 'DAILY_LIMIT_REACHED') {
         feedbackMessage = "Daily AI limit reached. Please try again tomorrow.";
@@ -163,19 +259,59 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
         score: 50,
         feedback: feedbackMessage,
         suggestions: ["Try simplifying your explanation", "Use more examples and analogies"],
+        gaps: [],
       });
     } finally {
       setIsGettingFeedback(false);
     }
   };
 
+  const handleRecordToggle = async () => {
+    if (!recorder.isRecording) {
+      try {
+        await recorder.start();
+      } catch (error) {
+        console.error('Error starting recording:', error);
+        toast.error('Could not access the microphone. Please check permissions.');
+      }
+      return;
+    }
+
+    const recording = await recorder.stop();
+    if (!recording) {
+      toast.error('No audio was recorded. Please try again.');
+      return;
+    }
+
+    setIsTranscribing(true);
+    try {
+      const transcript = (await openaiService.transcribeAudio(recording.blob, undefined, user?.id)).trim();
+      if (!transcript) {
+        toast.error('No speech was recognized. Please try again.');
+        return;
+      }
+      setExplanation(transcript);
+      await handleExplain(transcript, recording.durationSeconds);
+    } catch (error) {
+      console.error('Error transcribing explanation:', error);
+      toast.error('Failed to transcribe your explanation. Please try again.');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
   const handleNewTopic = () => {
+    if (recorder.isRecording) recorder.stop();
     setSelectedTopic(null);
     setExplanation('');
     setFeedback(null);
     setIsGettingFeedback(false);
+    setCompareAttemptId(null);
+    setCurrentAttemptId(null);
   };
 
+  const recurringGaps = feynmanService.findRecurringGaps(attempts);
+
   if (isLoading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -228,10 +364,43 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
                   <h3 className="text-xl font-semibold text-white flex-1">{topic.title}</h3>
                 </div>
                 <p className="text-[#9ca3af]">{topic.description}</p>
+                {topicAttempts(topic.id).length > 0 && (
+                  <p className="text-sm text-[#6b7280] mt-3">
+                    {topicAttempts(topic.id).length} attempt{topicAttempts(topic.id).length > 1 ? 's' : ''} · last{' '}
+                    <span className="text-[#d4a944]">{topicAttempts(topic.id)[topicAttempts(topic.id).length - 1].score}%</span>
+                    {' '}· best {Math.max(...topicAttempts(topic.id).map(a => a.score))}%
+                  </p>
+                )}
               </motion.button>
                 ))}
               </div>
 
+              {recurringGaps.length > 0 && (
+                <div className="mt-8 p-6 bg-[#2a2a2a] rounded-lg border border-[#3a3a3a]">
+                  <h3 className="text-lg font-semibold text-white mb-1">Concepts you keep missing</h3>
+                  <p className="text-sm text-[#9ca3af] mb-4">
+                    These are added to your flashcards or exercises for this note.
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {recurringGaps.map(gap => (
+                      <span
+                        key={gap.key}
+                        title={gap.topicTitles.join(', ')}
+                        className="px-3 py-1.5 rounded-lg bg-[#1a1a1a] border border-[#3a3a3a] text-sm text-white"
+                      >
+                        {gap.concept}
+                        <span className="text-[#6b7280]"> · missed {gap.count}×</span>
+                        {convertedGaps[gap.key] && (
+                          <span className="text-[#10b981]">
+                            {' '}· {convertedGaps[gap.key] === 'flashcard' ? 'flashcard' : 'exercise'}
+                          </span>
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="mt-8 p-6 bg-[#2a2a2a] rounded-lg border border-[#3a3a3a]">
                 <button
                   onClick={() => setSelectedTopic('custom')}
@@ -286,16 +455,44 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
               <textarea
                 value={explanation}
                 onChange={(e) => setExplanation(e.target.value)}
-                placeholder="Explain in simple terms, like talking to a 5-year-old. Use analogies and everyday examples. Avoid jargon and technical terms..."
-                className="flex-1 p-6 bg-[#2a2a2a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] transition-colors resize-none"
+                disabled={recorder.isRecording || isTranscribing}
+                placeholder="Explain in simple terms, like talking to a 5-year-old. Use analogies and everyday examples. Avoid jargon and technical terms... or record yourself explaining it out loud."
+                className="flex-1 p-6 disabled:opacity-60 bg-[#2a2a2a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] transition-colors resize-none"
               />
               
-              <div className="mt-4 flex justify-end">
+              <div className="mt-4 flex justify-end gap-3">
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={handleExplain}
-                  disabled={!explanation.trim() || isGettingFeedback}
+                  onClick={handleRecordToggle}
+                  disabled={isTranscribing || isGettingFeedback}
+                  className={`px-6 py-3 rounded-lg text-white font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 ${
+                    recorder.isRecording
+                      ? 'bg-red-500 hover:bg-red-600'
+                      : 'bg-[#2a2a2a] border border-[#3a3a3a] hover:border-[#b85a3a]'
+                  }`}
+                >
+                  {recorder.isRecording ? (
+                    <>
+                      <HiStop className="w-5 h-5" />
+                      <span>
+                        Stop {Math.floor(recorder.seconds / 60)}:{(recorder.seconds % 60).toString().padStart(2, '0')}
+                      </span>
+                    </>
+                  ) : isTranscribing ? (
+                    <span>Transcribing...</span>
+                  ) : (
+                    <>
+                      <HiMicrophone className="w-5 h-5" />
+                      <span>Explain Out Loud</span>
+                    </>
+                  )}
+                </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => handleExplain()}
+                  disabled={!explanation.trim() || isGettingFeedback || recorder.isRecording || isTranscribing}
                   className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                 >
                   {isGettingFeedback ? (
@@ -329,7 +526,60 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
                   </div>
                 </div>
                 <p className="text-[#9ca3af] mb-4">{feedback.feedback}</p>
+
+                {feedback.gaps.length > 0 && (
+                  <div className="border-t border-[#3a3a3a] pt-4 mb-4">
+                    <h4 className="text-white font-medium mb-2">Missed or unclear concepts:</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {feedback.gaps.map((gap, idx) => (
+                        <span key={idx} className="px-3 py-1 rounded-lg bg-red-500/10 border border-red-500/40 text-sm text-red-300">
+                          {gap}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 
+                {feedback.delivery && (
+                  <div className="border-t border-[#3a3a3a] pt-4 mb-4">
+                    <h4 className="text-white font-medium mb-2">Delivery:</h4>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      <span
+                        className={`px-3 py-1 rounded-lg text-sm border ${
+                          feedback.delivery.length === 'good'
+                            ? 'bg-green-500/10 border-green-500/40 text-green-300'
+                            : 'bg-[#d4a944]/10 border-[#d4a944]/40 text-[#d4a944]'
+                        }`}
+                      >
+                        {feedback.delivery.wordCount} words
+                        {feedback.delivery.length === 'short' && ' · too short'}
+                        {feedback.delivery.length === 'long' && ' · too long'}
+                      </span>
+                      {feedback.delivery.wordsPerMinute !== null && (
+                        <span className="px-3 py-1 rounded-lg text-sm border bg-[#1a1a1a] border-[#3a3a3a] text-[#9ca3af]">
+                          {feedback.delivery.wordsPerMinute} words/min
+                        </span>
+                      )}
+                      <span
+                        className={`px-3 py-1 rounded-lg text-sm border ${
+                          feedback.delivery.fillerCount === 0
+                            ? 'bg-green-500/10 border-green-500/40 text-green-300'
+                            : 'bg-[#d4a944]/10 border-[#d4a944]/40 text-[#d4a944]'
+                        }`}
+                      >
+                        {feedback.delivery.fillerCount === 0
+                          ? 'No filler words'
+                          : `${feedback.delivery.fillerCount} filler word${feedback.delivery.fillerCount === 1 ? '' : 's'}: ${feedback.delivery.fillers
+                              .map(f => `${f.word} (${f.count})`)
+                              .join(', ')}`}
+                      </span>
+                    </div>
+                    {feedback.deliveryFeedback && (
+                      <p className="text-[#9ca3af] text-sm">{feedback.deliveryFeedback}</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="border-t border-[#3a3a3a] pt-4">
                   <h4 className="text-white font-medium mb-2">Suggestions:</h4>
                   <ul className="space-y-2">
@@ -343,6 +593,69 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
                 </div>
               </motion.div>
 
+              {/* Side by side with an earlier attempt on this topic */}
+              {(() => {
+                const earlier = selectedTopic
+                  ? topicAttempts(selectedTopic).filter(a => a.id !== currentAttemptId)
+                  : [];
+                const compared = earlier.find(a => a.id === compareAttemptId);
+                if (earlier.length === 0) return null;
+
+                return (
+                  <div className="p-6 bg-[#2a2a2a] rounded-lg border border-[#3a3a3a]">
+                    <div className="flex items-center justify-between mb-4 gap-4">
+                      <h3 className="text-xl font-semibold text-white">Compare with an earlier attempt</h3>
+                      <select
+                        value={compareAttemptId || ''}
+                        onChange={(e) => setCompareAttemptId(e.target.value || null)}
+                        className="px-3 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white text-sm"
+                      >
+                        <option value="">Choose an attempt...</option>
+                        {earlier.map(a => (
+                          <option key={a.id} value={a.id}>
+                            {a.createdAt.toLocaleDateString()} · {a.score}%
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {compared && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {[
+                          { label: `Earlier · ${compared.createdAt.toLocaleDateString()}`, text: compared.explanation, score: compared.score, gaps: compared.gaps },
+                          { label: 'This attempt', text: explanation, score: feedback.score, gaps: feedback.gaps },
+                        ].map(column => (
+                          <div key={column.label} className="p-4 bg-[#1a1a1a] rounded-lg border border-[#3a3a3a]">
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm text-[#9ca3af]">{column.label}</span>
+                              <span className="text-[#b85a3a] font-bold">{column.score}%</span>
+                            </div>
+                            <p className="text-white text-sm whitespace-pre-wrap mb-3">{column.text}</p>
+                            {column.gaps.length > 0 && (
+                              <p className="text-xs text-red-300">Missed: {column.gaps.join(', ')}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {compared && (
+                      <p className="text-sm text-[#9ca3af] mt-3">
+                        {feedback.score > compared.score
+                          ? `Up ${feedback.score - compared.score} points.`
+                          : feedback.score < compared.score
+                          ? `Down ${compared.score - feedback.score} points.`
+                          : 'Same score.'}
+                        {(() => {
+                          const fixed = compared.gaps.filter(
+                            gap => !feedback.gaps.some(g => feynmanService.getGapKey(g) === feynmanService.getGapKey(gap))
+                          );
+                          return fixed.length > 0 ? ` Now covered: ${fixed.join(', ')}.` : '';
+                        })()}
+                      </p>
+                    )}
+                  </div>
+                );
+              })()}
+
               <div className="flex gap-3">
                 <motion.button
                   whileHover={{ scale: 1.02 }}
@@ -358,6 +671,7 @@ Respond in JSON format: {"score": number (0-100), "feedback": "critical feedback
                   onClick={() => {
                     setFeedback(null);
                     setIsGettingFeedback(false);
+                    setCurrentAttemptId(null);
                   }}
                   className="flex-1 px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
                 >
@@ -1,15 +1,34 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { HiPlus, HiPencil, HiTrash, HiCheck, HiClock, HiArrowDownTray } from 'react-icons/hi2';
+import { HiPlus, HiPencil, HiTrash, HiCheck, HiClock, HiArrowDownTray, HiArrowUturnLeft, HiSparkles } from 'react-icons/hi2';
 import { openaiService } from '../../../services/openai';
+import { resolveModel } from '../../../services/aiGateway';
 import { studyContentService } from '../../../services/supabase';
 import { 
   spacedRepetitionService,
   type SpacedRepetitionCard 
 } from '../../../services/spacedRepetitionService';
 import { exportService } from '../../../services/exportService';
+import {
+  CARD_TYPES,
+  CARD_TYPE_LABELS,
+  expandFlashcard,
+  getClozeIndices,
+  getGroupId,
+  groupCards,
+  stripCloze,
+} from '../../../services/cardTypeService';
+import { FlashcardFace } from '../../shared/FlashcardFace';
+import { SourceLink } from '../SourceLink';
+import type { CardType } from '../../../types';
+import { reviewLogService } from '../../../services/reviewLogService';
+import { deckOptionsService } from '../../../services/deckOptionsService';
+import type { StoredDeckOptions } from '../../../services/deckOptionsService';
+import { examPlannerService } from '../../../services/examPlannerService';
+import type { ExamPlan } from '../../../services/examPlannerService';
 import { useAppData } from '../../../context/AppDataContext';
 import { useSettings } from '../../../context/SettingsContext';
+import { useAuth } from '../../../context/AuthContext';
 
 type View = 'management' | 'learning' | 'review' | 'results';
 
@@ -24,15 +43,28 @@ interface FlashcardsViewProps {
 }
 
 export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function FlashcardsView({ noteContent }) {
-  const { selectedNoteId, notes } = useAppData();
-  const { getPreference } = useSettings();
+  const { selectedNoteId, notes, allFolders } = useAppData();
+  const { user } = useAuth();
+  const { preferences, getPreference } = useSettings();
   const [view, setView] = useState<View>('management');
   const [flashcards, setFlashcards] = useState<SpacedRepetitionCard[]>([]);
   const [reviewCards, setReviewCards] = useState<SpacedRepetitionCard[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const isInitialLoad = React.useRef(true);
+  const [deckOptions, setDeckOptions] = useState<StoredDeckOptions[]>([]);
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
+
+  // Deck options decide the learning steps of this note's cards, exam dates cap their intervals
+  useEffect(() => {
+    if (!user) return;
+    deckOptionsService.getAllDeckOptions(user.id)
+      .then(setDeckOptions)
+      .catch((err) => console.error('Error loading deck options:', err));
+    examPlannerService.getExamPlans(user.id)
+      .then(setExamPlans)
+      .catch((err) => console.error('Error loading exam plans:', err));
+  }, [user]);
 
   // Load saved flashcards from Supabase - DO NOT auto-generate, only load from DB
   useEffect(() => {
@@ -45,19 +77,9 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
         if (studyContent.flashcards && studyContent.flashcards.length > 0) {
           // Upgrade old format to spaced repetition format if needed
           const currentNote = notes.find(n => n.id === selectedNoteId);
-          const upgradedCards = studyContent.flashcards.map((card: any) => {
-            if (card.easeFactor !== undefined) {
-              // Already has spaced repetition data - ensure note/folder IDs are set
-              return { ...card, noteId: selectedNoteId, folderId: currentNote?.folderId || undefined } as SpacedRepetitionCard;
-            } else {
-              // Upgrade old format
-              return spacedRepetitionService.upgradeToSpacedRepetition(
-                card,
-                selectedNoteId,
-                currentNote?.folderId || undefined
-              );
-            }
-          });
+          const upgradedCards = studyContent.flashcards.map((card: any) =>
+            spacedRepetitionService.normalizeCard(card, selectedNoteId, currentNote?.folderId || undefined)
+          );
           setFlashcards(upgradedCards);
           updateReviewQueue(upgradedCards);
         } else {
@@ -72,7 +94,6 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
         updateReviewQueue([]);
       } finally {
         setIsLoading(false);
-        isInitialLoad.current = false;
       }
     };
 
@@ -87,7 +108,7 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
     setReviewCards(sorted);
   }, []);
 
-  // Save flashcards to Supabase whenever they change
+  // Save flashcards to Supabase; every change to the cards saves them explicitly
   const saveFlashcards = useCallback(async (flashcardsToSave: SpacedRepetitionCard[]) => {
     if (!selectedNoteId) return;
     
@@ -101,14 +122,7 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
     }
   }, [selectedNoteId, updateReviewQueue]);
 
-  // Save whenever flashcards array changes (but not during initial load)
-  // Note: We explicitly save after generation, so this mainly handles user edits
-  useEffect(() => {
-    if (!isInitialLoad.current && !isGenerating && flashcards.length > 0) {
-      saveFlashcards(flashcards);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [flashcards]);
+  const [generateType, setGenerateType] = useState<CardType>('basic');
 
   const generateFlashcards = async () => {
     if (!noteContent.trim()) return;
@@ -117,25 +131,27 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
     setError(null);
     try {
       const count = getPreference('flashcardsCount');
-      const generated = await openaiService.generateFlashcards(noteContent, count);
+      const generated = await openaiService.generateFlashcards(noteContent, count, generateType);
       const currentNote = notes.find(n => n.id === selectedNoteId);
-      const newFlashcards = generated.map((card, idx) =>
-        spacedRepetitionService.initializeSpacedRepetitionCard(
-          `gen-${idx}`,
-          card.front,
-          card.back,
+      const batchId = Date.now();
+      const newFlashcards = generated.flatMap((card, idx) =>
+        expandFlashcard(
+          { id: `gen-${batchId}-${idx}`, ...card },
           selectedNoteId || undefined,
           currentNote?.folderId || undefined
         )
       );
-      setFlashcards(newFlashcards);
+      // Generated cards are added to the existing ones
+      const updatedFlashcards = [...flashcards, ...newFlashcards];
+      setFlashcards(updatedFlashcards);
       
       // Explicitly save after generation
       if (selectedNoteId) {
         await studyContentService.saveStudyContent(selectedNoteId, {
-          flashcards: newFlashcards,
-        });
+          flashcards: updatedFlashcards,
+        }, { author: 'ai', settings: { model: resolveModel(), count, cardType: generateType } });
       }
+      updateReviewQueue(updatedFlashcards);
     } catch (error) {
       console.error('Error generating flashcards:', error);
       setError(error instanceof Error ? error.message : 'Failed to generate flashcards');
@@ -149,15 +165,25 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
   const [answers, setAnswers] = useState<{ cardId: string; correct: boolean }[]>([]);
   const [results, setResults] = useState<StudyResult | null>(null);
   const [showAddCard, setShowAddCard] = useState(false);
-  const [newCard, setNewCard] = useState({ front: '', back: '' });
+  const [newCard, setNewCard] = useState<{ front: string; back: string; cardType: CardType }>({ front: '', back: '', cardType: 'basic' });
   const [editingCard, setEditingCard] = useState<string | null>(null);
-  const [editCard, setEditCard] = useState({ front: '', back: '' });
+  const [editCard, setEditCard] = useState<{ front: string; back: string; cardType: CardType }>({ front: '', back: '', cardType: 'basic' });
+  const [typedAnswer, setTypedAnswer] = useState('');
   const [cardsToStudy, setCardsToStudy] = useState<SpacedRepetitionCard[]>([]);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const cardShownAt = React.useRef(Date.now());
+
+  // Time each answer from the moment its card is shown
+  useEffect(() => {
+    cardShownAt.current = Date.now();
+    setTypedAnswer('');
+  }, [currentCard, view]);
 
   const handleStartLearning = () => {
-    if (flashcards.length === 0) return;
-    // Use all cards for regular learning mode
-    setCardsToStudy(flashcards);
+    const activeCards = spacedRepetitionService.getActiveCards(flashcards);
+    if (activeCards.length === 0) return;
+    // Use all cards that are not suspended for regular learning mode
+    setCardsToStudy(activeCards);
     setCurrentCard(0);
     setFlipped(false);
     setAnswers([]);
@@ -177,17 +203,22 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
   const handleAnswer = async (isCorrect: boolean, difficulty: 'easy' | 'normal' | 'hard' = 'normal') => {
     const card = cardsToStudy[currentCard];
     const quality = spacedRepetitionService.qualityFromResponse(isCorrect, difficulty);
-    
-    // Calculate next review using SM-2 algorithm
-    const nextReview = spacedRepetitionService.calculateNextReview(card, quality);
     const currentNote = notes.find(n => n.id === selectedNoteId);
+    const cardFolderId = card.folderId ?? currentNote?.folderId;
+    
+    // Schedule the next review with the scheduler and leech settings chosen in settings
+    const reviewedCard = spacedRepetitionService.reviewCard(card, quality, {
+      scheduler: preferences.scheduler,
+      desiredRetention: preferences.desiredRetention,
+      leechThreshold: preferences.leechThreshold,
+      leechAction: preferences.leechAction,
+      learningSteps: deckOptionsService.resolveDeckOptions(cardFolderId, deckOptions, allFolders).learningSteps,
+      examDate: examPlannerService.resolveExamDate(cardFolderId, examPlans, allFolders),
+    });
     
     // Update the card
     const updatedCard: SpacedRepetitionCard = {
-      ...card,
-      ...nextReview,
-      lastReviewed: new Date().toISOString(),
-      quality,
+      ...reviewedCard,
       noteId: selectedNoteId || card.noteId,
       folderId: currentNote?.folderId || card.folderId,
     };
@@ -208,6 +239,15 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
     
     // Save updated card
     await saveFlashcards(updatedCards);
+
+    // Record the review so it can be undone and used for retention analytics
+    if (user) {
+      try {
+        await reviewLogService.logReview(user.id, card, updatedCard, quality, Date.now() - cardShownAt.current);
+      } catch (err) {
+        console.error('Error logging review:', err);
+      }
+    }
     
     if (currentCard < cardsToStudy.length - 1) {
       setFlipped(false);
@@ -225,53 +265,100 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
     }
   };
 
+  const handleUndo = async () => {
+    const lastAnswer = answers[answers.length - 1];
+    const card = lastAnswer && flashcards.find(c => c.id === lastAnswer.cardId);
+    if (!user || !card || isUndoing) return;
+
+    setIsUndoing(true);
+    try {
+      const restoredCard = await reviewLogService.undoLastReview(user.id, card);
+      if (!restoredCard) return;
+
+      const updatedCards = flashcards.map(c => c.id === card.id ? restoredCard : c);
+      setFlashcards(updatedCards);
+      setCardsToStudy(cardsToStudy.map(c => c.id === card.id ? restoredCard : c));
+      setAnswers(answers.slice(0, -1));
+      setCurrentCard(Math.max(0, cardsToStudy.findIndex(c => c.id === card.id)));
+      setFlipped(false);
+      await saveFlashcards(updatedCards);
+    } catch (err) {
+      console.error('Error undoing review:', err);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  // Cloze cards need at least one deletion; their back ("extra") is optional
+  const isValidCard = (card: { front: string; back: string; cardType: CardType }) =>
+    card.cardType === 'cloze'
+      ? getClozeIndices(card.front).length > 0
+      : card.front.trim() !== '' && card.back.trim() !== '';
+
   const handleAddCard = () => {
-    if (newCard.front.trim() && newCard.back.trim()) {
+    if (isValidCard(newCard)) {
       const currentNote = notes.find(n => n.id === selectedNoteId);
-      const card = spacedRepetitionService.initializeSpacedRepetitionCard(
-        Date.now().toString(),
-        newCard.front,
-        newCard.back,
+      const cards = expandFlashcard(
+        { id: Date.now().toString(), ...newCard },
         selectedNoteId || undefined,
         currentNote?.folderId || undefined
       );
-      const updatedFlashcards = [...flashcards, card];
+      const updatedFlashcards = [...flashcards, ...cards];
       setFlashcards(updatedFlashcards);
       saveFlashcards(updatedFlashcards);
-      setNewCard({ front: '', back: '' });
+      setNewCard({ front: '', back: '', cardType: newCard.cardType });
       setShowAddCard(false);
     }
   };
 
-  const handleDeleteCard = (id: string) => {
-    const updatedFlashcards = flashcards.filter(c => c.id !== id);
+  // Deleting or editing a card applies to all of its siblings
+  const handleDeleteCard = (groupId: string) => {
+    const updatedFlashcards = flashcards.filter(c => getGroupId(c) !== groupId);
     setFlashcards(updatedFlashcards);
     saveFlashcards(updatedFlashcards);
   };
 
-  const handleEditCard = (id: string) => {
-    const card = flashcards.find(c => c.id === id);
+  const handleEditCard = (groupId: string) => {
+    const card = flashcards.find(c => getGroupId(c) === groupId);
     if (card) {
-      setEditingCard(id);
-      setEditCard({ front: card.front, back: card.back });
+      setEditingCard(groupId);
+      setEditCard({ front: card.front, back: card.back, cardType: card.cardType || 'basic' });
     }
   };
 
-  const handleSaveEdit = (id: string) => {
-    if (editCard.front.trim() && editCard.back.trim()) {
-      const updatedFlashcards = flashcards.map(c =>
-        c.id === id ? { ...c, front: editCard.front, back: editCard.back } : c
+  const handleSaveEdit = (groupId: string) => {
+    if (isValidCard(editCard)) {
+      const siblings = flashcards.filter(c => getGroupId(c) === groupId);
+      const currentNote = notes.find(n => n.id === selectedNoteId);
+      const editedCards = expandFlashcard(
+        { id: groupId, ...editCard },
+        selectedNoteId || undefined,
+        currentNote?.folderId || undefined,
+        siblings
       );
+      const insertAt = flashcards.findIndex(c => getGroupId(c) === groupId);
+      const updatedFlashcards = flashcards.filter(c => getGroupId(c) !== groupId);
+      updatedFlashcards.splice(insertAt, 0, ...editedCards);
       setFlashcards(updatedFlashcards);
       saveFlashcards(updatedFlashcards);
       setEditingCard(null);
-      setEditCard({ front: '', back: '' });
+      setEditCard({ front: '', back: '', cardType: 'basic' });
+    }
+  };
+
+  const handleExport = async () => {
+    const currentNote = notes.find(n => n.id === selectedNoteId);
+    try {
+      await exportService.exportToApkg(flashcards, allFolders, currentNote?.title || 'flashcards');
+    } catch (err) {
+      console.error('Error exporting flashcards:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export flashcards');
     }
   };
 
   const handleCancelEdit = () => {
     setEditingCard(null);
-    setEditCard({ front: '', back: '' });
+    setEditCard({ front: '', back: '', cardType: 'basic' });
   };
 
   if (isLoading) {
@@ -314,9 +401,32 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                   Retry
                 </motion.button>
               </>
-            ) : flashcards.length > 0 && (
+            ) : (
               <div className="flex gap-3">
-                {reviewCards.length > 0 && (
+                {noteContent.trim() && (
+                  <div className="flex">
+                    <select
+                      value={generateType}
+                      onChange={(e) => setGenerateType(e.target.value as CardType)}
+                      className="px-3 py-3 bg-[#2a2a2a] border border-[#3a3a3a] rounded-l-lg text-white text-sm focus:outline-none focus:border-[#b85a3a]"
+                      title="Card type to generate"
+                    >
+                      {CARD_TYPES.map((type) => (
+                        <option key={type} value={type}>{CARD_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={generateFlashcards}
+                      className="px-4 py-3 bg-[#3a3a3a] rounded-r-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2"
+                    >
+                      <HiSparkles className="w-5 h-5" />
+                      Generate
+                    </motion.button>
+                  </div>
+                )}
+                {flashcards.length > 0 && reviewCards.length > 0 && (
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
@@ -327,6 +437,8 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                     Review Due ({reviewCards.length})
                   </motion.button>
                 )}
+                {flashcards.length > 0 && (
+                  <>
               <motion.button
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
@@ -339,13 +451,15 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={() => exportService.exportToAnki(flashcards, 'csv')}
+                  onClick={handleExport}
                   className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2"
-                  title="Export to Anki"
+                  title="Export to Anki (.apkg)"
                 >
                   <HiArrowDownTray className="w-5 h-5" />
                   Export
               </motion.button>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -367,21 +481,44 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
               <h3 className="text-xl font-semibold text-white mb-4">Add New Flashcard</h3>
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">Front</label>
+                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">Card Type</label>
+                  <select
+                    value={newCard.cardType}
+                    onChange={(e) => setNewCard({ ...newCard, cardType: e.target.value as CardType })}
+                    className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white focus:outline-none focus:border-[#b85a3a]"
+                  >
+                    {CARD_TYPES.map((type) => (
+                      <option key={type} value={type}>{CARD_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">
+                    {newCard.cardType === 'cloze' ? 'Text' : 'Front'}
+                  </label>
                   <textarea
                     value={newCard.front}
                     onChange={(e) => setNewCard({ ...newCard, front: e.target.value })}
-                    placeholder="Question or term..."
+                    placeholder={newCard.cardType === 'cloze'
+                      ? 'The {{c1::mitochondria}} is the {{c2::powerhouse}} of the cell...'
+                      : 'Question or term...'}
                     className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] resize-none"
                     rows={3}
                   />
+                  {newCard.cardType === 'cloze' && (
+                    <p className="text-xs text-[#6b7280] mt-1">
+                      Wrap each deletion in {'{{c1::...}}'}. Every cloze number becomes its own card.
+                    </p>
+                  )}
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">Back</label>
+                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">
+                    {newCard.cardType === 'cloze' ? 'Extra (optional)' : 'Back'}
+                  </label>
                   <textarea
                     value={newCard.back}
                     onChange={(e) => setNewCard({ ...newCard, back: e.target.value })}
-                    placeholder="Answer or definition..."
+                    placeholder={newCard.cardType === 'cloze' ? 'Shown with the answer...' : 'Answer or definition...'}
                     className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] resize-none"
                     rows={3}
                   />
@@ -420,17 +557,35 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
               </motion.button>
             )}
 
-            {flashcards.map((card) => (
+            {groupCards(flashcards).map((group) => {
+              const card = group[0];
+              const groupId = getGroupId(card);
+              const cardType = card.cardType || 'basic';
+              return (
               <motion.div
-                key={card.id}
+                key={groupId}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="p-4 bg-[#2a2a2a] rounded-lg border border-[#3a3a3a] hover:border-[#b85a3a] transition-all"
               >
-                {editingCard === card.id ? (
+                {editingCard === groupId ? (
                   <div className="space-y-4">
                     <div>
-                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">Front</label>
+                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">Card Type</label>
+                      <select
+                        value={editCard.cardType}
+                        onChange={(e) => setEditCard({ ...editCard, cardType: e.target.value as CardType })}
+                        className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white focus:outline-none focus:border-[#b85a3a]"
+                      >
+                        {CARD_TYPES.map((type) => (
+                          <option key={type} value={type}>{CARD_TYPE_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">
+                        {editCard.cardType === 'cloze' ? 'Text' : 'Front'}
+                      </label>
                       <textarea
                         value={editCard.front}
                         onChange={(e) => setEditCard({ ...editCard, front: e.target.value })}
@@ -440,7 +595,9 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">Back</label>
+                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">
+                        {editCard.cardType === 'cloze' ? 'Extra (optional)' : 'Back'}
+                      </label>
                       <textarea
                         value={editCard.back}
                         onChange={(e) => setEditCard({ ...editCard, back: e.target.value })}
@@ -453,7 +610,7 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                       <motion.button
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
-                        onClick={() => handleSaveEdit(card.id)}
+                        onClick={() => handleSaveEdit(groupId)}
                         className="px-4 py-2 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
                       >
                         Save
@@ -469,10 +626,34 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                 ) : (
                   <div className="flex items-start gap-4">
                     <div className="flex-1">
-                      <p className="text-white font-medium mb-2">Q: {card.front}</p>
-                      <p className="text-[#9ca3af] mb-2">A: {card.back}</p>
+                      {group.some(c => c.leech) && (
+                        <span className="inline-block mb-2 mr-2 px-2 py-0.5 text-xs rounded bg-[#ef4444]/20 text-[#ef4444]">
+                          Leech{group.some(c => c.suspended) && ' • suspended'}
+                        </span>
+                      )}
+                      {cardType !== 'basic' && (
+                        <span className="inline-block mb-2 px-2 py-0.5 text-xs rounded bg-[#3a3a3a] text-[#d4a944]">
+                          {CARD_TYPE_LABELS[cardType]}
+                          {group.length > 1 && ` • ${group.length} cards`}
+                        </span>
+                      )}
+                      {cardType === 'cloze' ? (
+                        <>
+                          <p className="text-white font-medium mb-2">{stripCloze(card.front)}</p>
+                          {card.back && <p className="text-[#9ca3af] mb-2">{card.back}</p>}
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-white font-medium mb-2">Q: {card.front}</p>
+                          <p className="text-[#9ca3af] mb-2">A: {card.back}</p>
+                        </>
+                      )}
                       <div className="flex gap-4 text-xs text-[#6b7280]">
-                        <span>Ease: {card.easeFactor.toFixed(2)}</span>
+                        {card.scheduler === 'fsrs' && card.stability !== undefined ? (
+                          <span>Stability: {card.stability.toFixed(1)}d</span>
+                        ) : (
+                          <span>Ease: {card.easeFactor.toFixed(2)}</span>
+                        )}
                         <span>Reps: {card.repetitions}</span>
                         {card.nextReviewDate && (
                           <span>
@@ -481,7 +662,7 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                                 ? `${Math.ceil((new Date(card.nextReviewDate).getTime() - Date.now()) / 60000)}m`
                                 : new Date(card.nextReviewDate).toLocaleDateString()
                             }
-                            {reviewCards.some(c => c.id === card.id) && (
+                            {reviewCards.some(c => getGroupId(c) === groupId) && (
                               <span className="ml-1 text-[#10b981]">(Due)</span>
                             )}
                           </span>
@@ -490,13 +671,13 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                     </div>
                     <div className="flex gap-2">
                       <button
-                        onClick={() => handleEditCard(card.id)}
+                        onClick={() => handleEditCard(groupId)}
                         className="p-2 hover:bg-[#3a3a3a] rounded-lg transition-colors"
                       >
                         <HiPencil className="w-5 h-5 text-[#9ca3af]" />
                       </button>
                       <button
-                        onClick={() => handleDeleteCard(card.id)}
+                        onClick={() => handleDeleteCard(groupId)}
                         className="p-2 hover:bg-[#3a3a3a] rounded-lg transition-colors"
                       >
                         <HiTrash className="w-5 h-5 text-[#ef4444]" />
@@ -505,7 +686,8 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                   </div>
                 )}
               </motion.div>
-            ))}
+              );
+            })}
           </div>
         </div>
       </div>
@@ -559,9 +741,13 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                 style={{ backfaceVisibility: 'hidden' }}
               >
                 <div className="w-full h-full bg-[#2a2a2a] rounded-lg p-8 flex items-center justify-center border border-[#3a3a3a]">
-                  <p className="text-white text-2xl font-medium text-center">
-                    {card.front}
-                  </p>
+                  <FlashcardFace
+                    card={card}
+                    side="front"
+                    typedAnswer={typedAnswer}
+                    onTypedAnswerChange={setTypedAnswer}
+                    onSubmitTypedAnswer={() => setFlipped(true)}
+                  />
                 </div>
               </div>
 
@@ -572,9 +758,9 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
                 style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}
               >
                 <div className="w-full h-full bg-[#1a1a1a] rounded-lg p-8 flex items-center justify-center border border-[#b85a3a]">
-                  <p className="text-white text-xl leading-relaxed text-center" style={{ transform: 'rotateY(180deg)' }}>
-                    {card.back}
-                  </p>
+                  <div className="w-full" style={{ transform: 'rotateY(180deg)' }}>
+                    <FlashcardFace card={card} side="back" typedAnswer={typedAnswer} />
+                  </div>
                 </div>
               </div>
             </motion.div>
@@ -587,6 +773,11 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
               animate={{ opacity: 1, y: 0 }}
               className="space-y-3"
             >
+              {card.source && (
+                <div className="flex justify-center">
+                  <SourceLink source={card.source} />
+                </div>
+              )}
               <div className="flex gap-3">
               <motion.button
                 whileHover={{ scale: 1.05 }}
@@ -656,8 +847,18 @@ export const FlashcardsView: React.FC<FlashcardsViewProps> = React.memo(function
             </div>
           )}
 
-          {/* Exit Button */}
-          <div className="mt-4 flex justify-center">
+          {/* Exit & Undo Buttons */}
+          <div className="mt-4 flex justify-center gap-2">
+            {answers.length > 0 && (
+              <button
+                onClick={handleUndo}
+                disabled={isUndoing}
+                className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors flex items-center gap-2 disabled:opacity-30"
+              >
+                <HiArrowUturnLeft className="w-4 h-4" />
+                Undo
+              </button>
+            )}
             <button
               onClick={() => setView('management')}
               className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors"
@@ -1,39 +1,122 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { HiPlus, HiPencil, HiTrash, HiCheck } from 'react-icons/hi2';
+import { HiPlus, HiPencil, HiTrash, HiCheck, HiSparkles, HiRectangleStack, HiArrowTrendingUp } from 'react-icons/hi2';
 import { openaiService } from '../../../services/openai';
+import { resolveModel } from '../../../services/aiGateway';
 import { studyContentService } from '../../../services/supabase';
 import { analyticsService } from '../../../services/analyticsService';
+import { quizAnswerService } from '../../../services/quizAnswerService';
+import { flashcardsService } from '../../../services/flashcardsService';
+import { expandFlashcard } from '../../../services/cardTypeService';
+import {
+  MASTERY_THRESHOLD,
+  MAX_ADAPTIVE_QUESTIONS,
+  answersToObservations,
+  computeTopicMastery,
+  getOverallMastery,
+  getQuestionTopic,
+  getTopics,
+  isMastered,
+  pickNextQuestion,
+} from '../../../services/adaptiveQuizService';
+import type { MasteryObservation, TopicMastery } from '../../../services/adaptiveQuizService';
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  convertQuestion,
+  createEmptyAnswer,
+  formatCorrectAnswer,
+  getQuestionType,
+  isAnswerComplete,
+  isQuestionValid,
+  normalizeQuestion,
+  questionToFlashcard,
+  scoreAnswer,
+} from '../../../services/quizQuestionService';
+import type { QuizAnswer } from '../../../services/quizQuestionService';
+import { QuizQuestionInput } from '../../shared/QuizQuestionInput';
+import { QuizQuestionEditor } from '../../shared/QuizQuestionEditor';
+import { SourceLink } from '../SourceLink';
 import { useAppData } from '../../../context/AppDataContext';
 import { useSettings } from '../../../context/SettingsContext';
 import { useAuth } from '../../../context/AuthContext';
+import type { QuestionType, QuizQuestion } from '../../../types';
 
-interface Question {
-  id: string;
-  question: string;
-  options: string[];
-  correct: number;
-}
+type View = 'management' | 'quiz' | 'results' | 'review';
 
-type View = 'management' | 'quiz' | 'results';
+interface AnsweredQuestion {
+  questionId: string;
+  answer: QuizAnswer;
+  score: number; // 0 (wrong) to 1 (right); partial credit in between
+  feedback?: string; // AI feedback on short answers
+  answeredAt: Date;
+}
 
 interface QuizResult {
   correct: number;
   incorrect: number;
   total: number;
-  answers: { questionId: string; isCorrect: boolean }[];
+  score: number; // Percentage, with partial credit
+  answers: AnsweredQuestion[];
+  mastery?: TopicMastery[]; // Adaptive quizzes: mastery per topic at the end
 }
 
+const createEmptyQuestion = (type: QuestionType = 'multiple-choice'): QuizQuestion =>
+  convertQuestion({ id: '', question: '', options: [], correct: 0 }, type);
+
+/**
+ * What to show once a question is answered: AI feedback, the right answer when the
+ * answer was not fully right, the explanation and the passage of the note it is based on
+ */
+const AnswerFeedback: React.FC<{ question: QuizQuestion; answered: AnsweredQuestion }> = ({ question, answered }) => {
+  const showCorrectAnswer = answered.score < 1;
+  if (!showCorrectAnswer && !answered.feedback && !question.explanation && !question.sourceExcerpt) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-4 p-4 bg-blue-500/20 border border-blue-500 rounded-lg space-y-3"
+    >
+      {answered.feedback && (
+        <p className="text-blue-200">
+          <span className="font-semibold">Score: {Math.round(answered.score * 100)}%.</span> {answered.feedback}
+        </p>
+      )}
+      {showCorrectAnswer && (
+        <div>
+          <p className="text-blue-300 font-semibold mb-1">
+            {getQuestionType(question) === 'short-answer' ? 'Model Answer:' : 'Correct Answer:'}
+          </p>
+          <p className="text-blue-200">{formatCorrectAnswer(question)}</p>
+        </div>
+      )}
+      {question.explanation && (
+        <div>
+          <p className="text-blue-300 font-semibold mb-1">Explanation:</p>
+          <p className="text-blue-200">{question.explanation}</p>
+        </div>
+      )}
+      {question.sourceExcerpt && (
+        <blockquote className="border-l-2 border-blue-400 pl-3 text-sm text-blue-200/80 italic">
+          “{question.sourceExcerpt}”
+        </blockquote>
+      )}
+      {question.source && <SourceLink source={question.source} />}
+    </motion.div>
+  );
+};
+
 interface QuizViewProps {
   noteContent: string;
 }
 
 export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({ noteContent }) {
-  const { selectedNoteId } = useAppData();
+  const { selectedNoteId, notes } = useAppData();
   const { getPreference } = useSettings();
   const { user } = useAuth();
   const [view, setView] = useState<View>('management');
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -49,7 +132,7 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
         const studyContent = await studyContentService.getStudyContent(selectedNoteId);
         
         if (studyContent.quizQuestions && studyContent.quizQuestions.length > 0) {
-          setQuestions(studyContent.quizQuestions);
+          setQuestions(studyContent.quizQuestions.map((q: QuizQuestion, idx: number) => normalizeQuestion(q, `q-${idx}`)));
         } else {
           // No saved questions - set empty array, user can manually generate if needed
           setQuestions([]);
@@ -69,7 +152,7 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
   }, [selectedNoteId]);
 
   // Save questions to Supabase whenever they change
-  const saveQuestions = useCallback(async (questionsToSave: Question[]) => {
+  const saveQuestions = useCallback(async (questionsToSave: QuizQuestion[]) => {
     if (!selectedNoteId) return;
     
     try {
@@ -90,6 +173,8 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [questions]);
 
+  const [generateType, setGenerateType] = useState<QuestionType | 'mixed'>('multiple-choice');
+
   const generateQuiz = async () => {
     if (!noteContent.trim()) return;
     
@@ -97,20 +182,20 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
     setError(null);
     try {
       const count = getPreference('quizCount');
-      const generated = await openaiService.generateQuiz(noteContent, count);
-      const newQuestions = generated.map((q, idx) => ({
-        id: `gen-${idx}`,
-        question: q.question,
-        options: q.options,
-        correct: q.correctAnswer,
-      }));
-      setQuestions(newQuestions);
+      const generated = await openaiService.generateQuiz(noteContent, count, generateType);
+      const batchId = Date.now();
+      // Generated questions are added to the existing ones
+      const updatedQuestions = [
+        ...questions,
+        ...generated.map((q, idx) => ({ ...q, id: `gen-${batchId}-${idx}` })),
+      ];
+      setQuestions(updatedQuestions);
       
       // Explicitly save after generation
       if (selectedNoteId) {
         await studyContentService.saveStudyContent(selectedNoteId, {
-          quizQuestions: newQuestions,
-        });
+          quizQuestions: updatedQuestions,
+        }, { author: 'ai', settings: { model: resolveModel(), count, questionType: generateType } });
       }
     } catch (error: any) {
       console.error('Error generating quiz:', error);
@@ -127,82 +212,263 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
   };
 
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [answer, setAnswer] = useState<QuizAnswer>({});
   const [showResult, setShowResult] = useState(false);
-  const [answers, setAnswers] = useState<{ questionId: string; isCorrect: boolean }[]>([]);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingError, setGradingError] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<AnsweredQuestion[]>([]);
   const [results, setResults] = useState<QuizResult | null>(null);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [flashcardsCreated, setFlashcardsCreated] = useState<string[]>([]);
+  const [creatingFlashcard, setCreatingFlashcard] = useState(false);
+  // Questions of the running quiz; adaptive quizzes add them one at a time
+  const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
+  const [isAdaptive, setIsAdaptive] = useState(false);
+  const [masteryHistory, setMasteryHistory] = useState<MasteryObservation[]>([]);
+  const [isPickingQuestion, setIsPickingQuestion] = useState(false);
+  const [adaptiveMessage, setAdaptiveMessage] = useState<string | null>(null);
   const [showAddQuestion, setShowAddQuestion] = useState(false);
-  const [newQuestion, setNewQuestion] = useState({ question: '', options: ['', '', '', ''], correct: 0 });
+  const [newQuestion, setNewQuestion] = useState<QuizQuestion>(() => createEmptyQuestion());
   const [editingQuestion, setEditingQuestion] = useState<string | null>(null);
-  const [editQuestion, setEditQuestion] = useState({ question: '', options: ['', '', '', ''], correct: 0 });
+  const [editQuestion, setEditQuestion] = useState<QuizQuestion>(() => createEmptyQuestion());
+
+  const goToQuestion = (index: number, sessionQuestions: QuizQuestion[] = quizQuestions) => {
+    setCurrentQuestion(index);
+    setAnswer(createEmptyAnswer(sessionQuestions[index]));
+    setShowResult(false);
+    setGradingError(null);
+  };
 
   const handleStartQuiz = () => {
     if (questions.length === 0) return;
-    setCurrentQuestion(0);
-    setSelectedAnswer(null);
-    setShowResult(false);
+    setQuizQuestions(questions);
+    setIsAdaptive(false);
+    goToQuestion(0, questions);
     setAnswers([]);
     quizStartTimeRef.current = new Date();
     setView('quiz');
   };
 
-  const handleSubmit = () => {
+  // Mastery per topic from earlier quizzes plus the answers of this one
+  const getSessionMastery = (
+    bank: QuizQuestion[] = questions,
+    history: MasteryObservation[] = masteryHistory,
+    sessionAnswers: AnsweredQuestion[] = answers
+  ): TopicMastery[] => {
+    const sessionObservations = sessionAnswers.flatMap(a => {
+      const question = quizQuestions.find(q => q.id === a.questionId);
+      return question
+        ? [{ topic: getQuestionTopic(question), difficulty: question.difficulty, score: a.score, answeredAt: a.answeredAt }]
+        : [];
+    });
+    return computeTopicMastery([...history, ...sessionObservations], getTopics(bank));
+  };
+
+  // The next question for the weakest topic; generated when the note has no unasked one left
+  const findAdaptiveQuestion = async (
+    bank: QuizQuestion[],
+    mastery: TopicMastery[],
+    askedIds: string[]
+  ): Promise<QuizQuestion | null> => {
+    const pick = pickNextQuestion(bank, mastery, askedIds, { canGenerate: !!noteContent.trim() });
+    if (!pick) return null;
+    if (pick.question) return pick.question;
+
+    try {
+      const generated = await openaiService.generateAdaptiveQuestion(
+        noteContent,
+        pick.topic,
+        pick.difficulty,
+        bank.filter(q => getQuestionTopic(q) === pick.topic).map(q => q.question)
+      );
+      if (generated) {
+        const question = { ...generated, id: `adaptive-${Date.now()}` };
+        // Generated questions join the note's question bank
+        setQuestions(prev => [...prev, question]);
+        return question;
+      }
+    } catch (err) {
+      console.error('Error generating adaptive question:', err);
+    }
+
+    return pickNextQuestion(bank, mastery, askedIds, { canGenerate: false })?.question ?? null;
+  };
+
+  const handleStartAdaptive = async () => {
+    if (questions.length === 0) return;
+
+    setIsPickingQuestion(true);
+    setAdaptiveMessage(null);
+    try {
+      let bank = questions;
+
+      // Questions need a topic to track mastery; let AI sort untagged ones
+      if (noteContent.trim() && questions.some(q => !q.topic)) {
+        try {
+          const tags = await openaiService.tagQuizQuestions(noteContent, questions);
+          bank = questions.map(q => {
+            const tag = tags.find(t => t.id === q.id);
+            return tag && !q.topic ? { ...q, topic: tag.topic, difficulty: q.difficulty ?? tag.difficulty } : q;
+          });
+          setQuestions(bank);
+        } catch (err) {
+          console.error('Error tagging quiz topics:', err);
+        }
+      }
+
+      let history: MasteryObservation[] = [];
+      if (user && selectedNoteId) {
+        try {
+          const entries = await quizAnswerService.getUserQuizAnswers(user.id, selectedNoteId);
+          history = answersToObservations(entries, bank);
+        } catch (err) {
+          console.error('Error loading quiz answers:', err);
+        }
+      }
+      setMasteryHistory(history);
+
+      const mastery = getSessionMastery(bank, history, []);
+      const first = isMastered(mastery) ? null : await findAdaptiveQuestion(bank, mastery, []);
+      if (!first) {
+        setAdaptiveMessage(`You have reached ${Math.round(MASTERY_THRESHOLD * 100)}% mastery on every topic of this note.`);
+        return;
+      }
+
+      setQuizQuestions([first]);
+      setIsAdaptive(true);
+      goToQuestion(0, [first]);
+      setAnswers([]);
+      quizStartTimeRef.current = new Date();
+      setView('quiz');
+    } finally {
+      setIsPickingQuestion(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const question = quizQuestions[currentQuestion];
+    let score = scoreAnswer(question, answer);
+    let feedback: string | undefined;
+
+    // Short answers are graded by AI against the model answer
+    if (score === null) {
+      setIsGrading(true);
+      setGradingError(null);
+      try {
+        const graded = await openaiService.gradeShortAnswer(question.question, question.modelAnswer || '', answer.text || '');
+        score = graded.score;
+        feedback = graded.feedback;
+      } catch (err) {
+        setGradingError(err instanceof Error ? err.message : 'Failed to grade your answer');
+        return;
+      } finally {
+        setIsGrading(false);
+      }
+    }
+
     setShowResult(true);
-    const isCorrect = selectedAnswer === questions[currentQuestion].correct;
-    setAnswers([...answers, { questionId: questions[currentQuestion].id, isCorrect }]);
+    setAnswers([
+      ...answers.filter(a => a.questionId !== question.id),
+      { questionId: question.id, answer, score, feedback, answeredAt: new Date() },
+    ]);
+  };
+
+  const finishQuiz = async () => {
+    // Calculate final results
+    const correctCount = answers.filter(a => a.score >= 1).length;
+    const totalCount = answers.length;
+    
+    setResults({
+      correct: correctCount,
+      incorrect: answers.filter(a => a.score <= 0).length,
+      total: totalCount,
+      score: totalCount > 0 ? (answers.reduce((sum, a) => sum + a.score, 0) / totalCount) * 100 : 0,
+      answers,
+      mastery: isAdaptive ? getSessionMastery() : undefined,
+    });
+    
+    // Track quiz result and every answer in analytics
+    if (user && quizStartTimeRef.current) {
+      try {
+        const timeTaken = Math.floor((new Date().getTime() - quizStartTimeRef.current.getTime()) / 1000);
+        const savedResult = await analyticsService.saveQuizResult(
+          user.id,
+          selectedNoteId || null,
+          answers.map(a => a.score),
+          timeTaken
+        );
+        await quizAnswerService.saveQuizAnswers(
+          user.id,
+          savedResult.id,
+          selectedNoteId || null,
+          answers.flatMap(a => {
+            const question = quizQuestions.find(q => q.id === a.questionId);
+            return question ? [{ question, answer: a.answer, score: a.score, feedback: a.feedback }] : [];
+          })
+        );
+      } catch (error) {
+        console.error('Error saving quiz result:', error);
+      }
+    }
+    
+    setReviewIndex(0);
+    setFlashcardsCreated([]);
+    setView('results');
   };
 
   const handleNext = async () => {
-    if (currentQuestion < questions.length - 1) {
-      setCurrentQuestion(currentQuestion + 1);
-      setSelectedAnswer(null);
-      setShowResult(false);
-    } else {
-      // Calculate final results
-      const finalAnswer = selectedAnswer === questions[currentQuestion].correct;
-      const allAnswers = [...answers, { questionId: questions[currentQuestion].id, isCorrect: finalAnswer }];
-      const correctCount = allAnswers.filter(a => a.isCorrect).length;
-      const totalCount = allAnswers.length;
-      
-      setResults({
-        correct: correctCount,
-        incorrect: totalCount - correctCount,
-        total: totalCount,
-        answers: allAnswers,
-      });
-      
-      // Track quiz result in analytics
-      if (user && quizStartTimeRef.current) {
-        try {
-          const timeTaken = Math.floor((new Date().getTime() - quizStartTimeRef.current.getTime()) / 1000);
-          await analyticsService.saveQuizResult(
-            user.id,
-            selectedNoteId || null,
-            totalCount,
-            correctCount,
-            timeTaken
-          );
-        } catch (error) {
-          console.error('Error saving quiz result:', error);
+    if (currentQuestion < quizQuestions.length - 1) {
+      goToQuestion(currentQuestion + 1);
+      return;
+    }
+
+    if (isAdaptive) {
+      // Keep asking until every topic is mastered or the quiz gets too long
+      const mastery = getSessionMastery();
+      if (!isMastered(mastery) && quizQuestions.length < MAX_ADAPTIVE_QUESTIONS) {
+        setIsPickingQuestion(true);
+        const next = await findAdaptiveQuestion(questions, mastery, quizQuestions.map(q => q.id));
+        setIsPickingQuestion(false);
+        if (next) {
+          const updated = [...quizQuestions, next];
+          setQuizQuestions(updated);
+          goToQuestion(updated.length - 1, updated);
+          return;
         }
       }
-      
-      setView('results');
+    }
+
+    await finishQuiz();
+  };
+
+  // Turn a missed question into a basic flashcard of this note
+  const handleCreateFlashcard = async (question: QuizQuestion) => {
+    if (!selectedNoteId) return;
+
+    setCreatingFlashcard(true);
+    try {
+      const currentNote = notes.find(n => n.id === selectedNoteId);
+      const [card] = expandFlashcard(
+        { id: `quiz-${question.id}-${Date.now()}`, ...questionToFlashcard(question), cardType: 'basic' },
+        selectedNoteId,
+        currentNote?.folderId || undefined
+      );
+      await flashcardsService.saveFlashcard(card);
+      setFlashcardsCreated([...flashcardsCreated, question.id]);
+    } catch (error) {
+      console.error('Error creating flashcard:', error);
+    } finally {
+      setCreatingFlashcard(false);
     }
   };
 
   const handleAddQuestion = () => {
-    if (newQuestion.question.trim() && newQuestion.options.every(o => o.trim())) {
-      const question: Question = {
-        id: Date.now().toString(),
-        question: newQuestion.question,
-        options: newQuestion.options,
-        correct: newQuestion.correct,
-      };
+    const question: QuizQuestion = { ...newQuestion, id: Date.now().toString() };
+    if (isQuestionValid(question)) {
       const updatedQuestions = [...questions, question];
       setQuestions(updatedQuestions);
       saveQuestions(updatedQuestions);
-      setNewQuestion({ question: '', options: ['', '', '', ''], correct: 0 });
+      setNewQuestion(createEmptyQuestion(getQuestionType(newQuestion)));
       setShowAddQuestion(false);
     }
   };
@@ -217,31 +483,23 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
     const question = questions.find(q => q.id === id);
     if (question) {
       setEditingQuestion(id);
-      setEditQuestion({
-        question: question.question,
-        options: question.options,
-        correct: question.correct,
-      });
+      setEditQuestion(question);
     }
   };
 
   const handleSaveEdit = (id: string) => {
-    if (editQuestion.question.trim() && editQuestion.options.every(o => o.trim())) {
-      const updatedQuestions = questions.map(q =>
-        q.id === id
-          ? { ...q, question: editQuestion.question, options: editQuestion.options, correct: editQuestion.correct }
-          : q
-      );
+    if (isQuestionValid(editQuestion)) {
+      const updatedQuestions = questions.map(q => (q.id === id ? { ...editQuestion, id } : q));
       setQuestions(updatedQuestions);
       saveQuestions(updatedQuestions);
       setEditingQuestion(null);
-      setEditQuestion({ question: '', options: ['', '', '', ''], correct: 0 });
+      setEditQuestion(createEmptyQuestion());
     }
   };
 
   const handleCancelEdit = () => {
     setEditingQuestion(null);
-    setEditQuestion({ question: '', options: ['', '', '', ''], correct: 0 });
+    setEditQuestion(createEmptyQuestion());
   };
 
   if (isLoading) {
@@ -275,16 +533,57 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
                 <HiCheck className="w-5 h-5" />
                 Retry
               </motion.button>
-            ) : questions.length > 0 && (
-              <motion.button
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={handleStartQuiz}
-                className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors flex items-center gap-2"
-              >
-                <HiCheck className="w-5 h-5" />
-                Start Quiz
-              </motion.button>
+            ) : (
+              <div className="flex gap-3">
+                {noteContent.trim() && (
+                  <div className="flex">
+                    <select
+                      value={generateType}
+                      onChange={(e) => setGenerateType(e.target.value as QuestionType | 'mixed')}
+                      className="px-3 py-3 bg-[#2a2a2a] border border-[#3a3a3a] rounded-l-lg text-white text-sm focus:outline-none focus:border-[#b85a3a]"
+                      title="Question type to generate"
+                    >
+                      <option value="mixed">Mixed types</option>
+                      {QUESTION_TYPES.map((type) => (
+                        <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={generateQuiz}
+                      className="px-4 py-3 bg-[#3a3a3a] rounded-r-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2"
+                    >
+                      <HiSparkles className="w-5 h-5" />
+                      Generate
+                    </motion.button>
+                  </div>
+                )}
+                {questions.length > 0 && (
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleStartAdaptive}
+                    disabled={isPickingQuestion}
+                    className="px-4 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2 disabled:opacity-50"
+                    title="Ask questions on your weakest topics until you master them"
+                  >
+                    <HiArrowTrendingUp className="w-5 h-5" />
+                    {isPickingQuestion ? 'Preparing...' : 'Adaptive'}
+                  </motion.button>
+                )}
+                {questions.length > 0 && (
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleStartQuiz}
+                    className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors flex items-center gap-2"
+                  >
+                    <HiCheck className="w-5 h-5" />
+                    Start Quiz
+                  </motion.button>
+                )}
+              </div>
             )}
           </div>
 
@@ -295,6 +594,12 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
             </div>
           )}
 
+          {adaptiveMessage && (
+            <div className="mb-6 p-4 bg-green-500/20 border border-green-500 rounded-lg">
+              <p className="text-green-400 text-sm">{adaptiveMessage}</p>
+            </div>
+          )}
+
           {/* Add Question Form */}
           {showAddQuestion && (
             <motion.div
@@ -304,46 +609,14 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
             >
               <h3 className="text-xl font-semibold text-white mb-4">Add New Question</h3>
               <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">Question</label>
-                  <textarea
-                    value={newQuestion.question}
-                    onChange={(e) => setNewQuestion({ ...newQuestion, question: e.target.value })}
-                    placeholder="Enter your question..."
-                    className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] resize-none"
-                    rows={2}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-[#9ca3af] mb-2">Options</label>
-                  {newQuestion.options.map((option, idx) => (
-                    <div key={idx} className="flex items-center gap-3 mb-2">
-                      <input
-                        type="radio"
-                        checked={newQuestion.correct === idx}
-                        onChange={() => setNewQuestion({ ...newQuestion, correct: idx })}
-                        className="w-4 h-4"
-                      />
-                      <input
-                        type="text"
-                        value={option}
-                        onChange={(e) => {
-                          const newOptions = [...newQuestion.options];
-                          newOptions[idx] = e.target.value;
-                          setNewQuestion({ ...newQuestion, options: newOptions });
-                        }}
-                        placeholder={`Option ${idx + 1}`}
-                        className="flex-1 p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a]"
-                      />
-                    </div>
-                  ))}
-                </div>
+                <QuizQuestionEditor value={newQuestion} onChange={setNewQuestion} />
                 <div className="flex gap-3">
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={handleAddQuestion}
-                    className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+                    disabled={!isQuestionValid(newQuestion)}
+                    className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     Add Question
                   </motion.button>
@@ -381,46 +654,14 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
               >
                 {editingQuestion === q.id ? (
                   <div className="space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">Question</label>
-                      <textarea
-                        value={editQuestion.question}
-                        onChange={(e) => setEditQuestion({ ...editQuestion, question: e.target.value })}
-                        placeholder="Enter your question..."
-                        className="w-full p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] resize-none"
-                        rows={2}
-                      />
-                    </div>
-                    <div>
-                      <label className="block text-sm font-medium text-[#9ca3af] mb-2">Options</label>
-                      {editQuestion.options.map((option, idx) => (
-                        <div key={idx} className="flex items-center gap-3 mb-2">
-                          <input
-                            type="radio"
-                            checked={editQuestion.correct === idx}
-                            onChange={() => setEditQuestion({ ...editQuestion, correct: idx })}
-                            className="w-4 h-4"
-                          />
-                          <input
-                            type="text"
-                            value={option}
-                            onChange={(e) => {
-                              const newOptions = [...editQuestion.options];
-                              newOptions[idx] = e.target.value;
-                              setEditQuestion({ ...editQuestion, options: newOptions });
-                            }}
-                            placeholder={`Option ${idx + 1}`}
-                            className="flex-1 p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a]"
-                          />
-                        </div>
-                      ))}
-                    </div>
+                    <QuizQuestionEditor value={editQuestion} onChange={setEditQuestion} />
                     <div className="flex gap-2">
                       <motion.button
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
                         onClick={() => handleSaveEdit(q.id)}
-                        className="px-4 py-2 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+                        disabled={!isQuestionValid(editQuestion)}
+                        className="px-4 py-2 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         Save
                       </motion.button>
@@ -435,17 +676,40 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
                 ) : (
                   <div className="flex items-start gap-4">
                     <div className="flex-1">
-                      <p className="text-white font-medium mb-3">{q.question}</p>
-                      <div className="space-y-2">
-                        {q.options.map((option, idx) => (
-                          <div key={idx} className="flex items-center gap-2">
-                            {idx === q.correct && <HiCheck className="w-4 h-4 text-green-500" />}
-                            <span className={`text-sm ${idx === q.correct ? 'text-green-500 font-medium' : 'text-[#9ca3af]'}`}>
-                              {option}
-                            </span>
-                          </div>
-                        ))}
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        <span className="text-xs px-2 py-0.5 rounded bg-[#3a3a3a] text-[#9ca3af]">
+                          {QUESTION_TYPE_LABELS[getQuestionType(q)]}
+                        </span>
+                        {q.topic && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-[#3a3a3a] text-[#d4a944]">{q.topic}</span>
+                        )}
+                        {q.difficulty && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-[#3a3a3a] text-[#9ca3af] capitalize">{q.difficulty}</span>
+                        )}
                       </div>
+                      <p className="text-white font-medium mb-3">{q.question}</p>
+                      {['multiple-choice', 'true-false', 'multi-select'].includes(getQuestionType(q)) ? (
+                        <div className="space-y-2">
+                          {q.options.map((option, idx) => {
+                            const isRight = getQuestionType(q) === 'multi-select'
+                              ? (q.correctAnswers || []).includes(idx)
+                              : idx === q.correct;
+                            return (
+                              <div key={idx} className="flex items-center gap-2">
+                                {isRight && <HiCheck className="w-4 h-4 text-green-500" />}
+                                <span className={`text-sm ${isRight ? 'text-green-500 font-medium' : 'text-[#9ca3af]'}`}>
+                                  {option}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ) : (
+                        <div className="flex items-start gap-2">
+                          <HiCheck className="w-4 h-4 text-green-500 mt-0.5 flex-shrink-0" />
+                          <span className="text-sm text-green-500 font-medium">{formatCorrectAnswer(q)}</span>
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -472,19 +736,34 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
   }
 
   if (view === 'quiz') {
+    const sessionMastery = isAdaptive ? getSessionMastery() : [];
+    const overallMastery = getOverallMastery(sessionMastery);
+
   return (
       <div className="h-full overflow-y-auto p-8 pb-12">
     <div className="max-w-3xl mx-auto space-y-6">
       {/* Progress */}
       <div className="bg-[#2a2a2a] rounded-lg p-4">
         <div className="flex justify-between text-sm text-[#9ca3af] mb-2">
-          <span>Question {currentQuestion + 1} of {questions.length}</span>
-              <span>Correct: {answers.filter(a => a.isCorrect).length}</span>
+          {isAdaptive ? (
+            <span>Question {currentQuestion + 1} · {getQuestionTopic(quizQuestions[currentQuestion])}</span>
+          ) : (
+          <span>Question {currentQuestion + 1} of {quizQuestions.length}</span>
+          )}
+              <span>
+                {isAdaptive
+                  ? `Mastery: ${Math.round(overallMastery * 100)}% of ${Math.round(MASTERY_THRESHOLD * 100)}%`
+                  : `Correct: ${answers.filter(a => a.score >= 1).length}`}
+              </span>
         </div>
         <div className="w-full bg-[#1a1a1a] rounded-full h-2">
               <motion.div
                 initial={{ width: 0 }}
-                animate={{ width: `${((currentQuestion + 1) / questions.length) * 100}%` }}
+                animate={{
+                  width: isAdaptive
+                    ? `${Math.min(100, (overallMastery / MASTERY_THRESHOLD) * 100)}%`
+                    : `${((currentQuestion + 1) / quizQuestions.length) * 100}%`,
+                }}
                 className="h-2 bg-gradient-to-r from-[#b85a3a] to-[#d4a944] rounded-full transition-all"
           />
         </div>
@@ -493,61 +772,29 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
       {/* Question */}
       <div className="bg-[#2a2a2a] rounded-lg p-8">
         <h2 className="text-2xl font-bold text-white mb-6">
-          {questions[currentQuestion].question}
+          {getQuestionType(quizQuestions[currentQuestion]) === 'fill-blank'
+            ? 'Fill in the blanks'
+            : quizQuestions[currentQuestion].question}
         </h2>
 
-        <div className="space-y-3">
-          {questions[currentQuestion].options.map((option, index) => {
-            const isCorrect = index === questions[currentQuestion].correct;
-            const isSelected = selectedAnswer === index;
-            const isWrong = showResult && isSelected && !isCorrect;
-            const showCorrect = showResult && isWrong && isCorrect;
-            
-            return (
-              <motion.button
-                key={index}
-                whileHover={{ scale: 1.02, x: 4 }}
-                whileTap={{ scale: 0.98 }}
-                onClick={() => !showResult && setSelectedAnswer(index)}
-                className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
-                  !showResult && isSelected
-                    ? 'border-[#b85a3a] bg-[#3a3a3a]'
-                    : !showResult
-                    ? 'border-[#3a3a3a] hover:border-[#4a4a4a]'
-                    : isCorrect
-                    ? 'border-green-500 bg-green-500/10'
-                    : isWrong
-                    ? 'border-red-500 bg-red-500/10'
-                    : 'border-[#3a3a3a]'
-                }`}
-              >
-                <div className="flex items-center justify-between">
-                  <span className="text-white">{option}</span>
-                  {showResult && isCorrect && (
-                    <span className="text-green-500 font-semibold ml-2">✓ Correct</span>
-                  )}
-                  {showResult && isWrong && (
-                    <span className="text-red-500 font-semibold ml-2">✗ Wrong</span>
-                  )}
-                </div>
-              </motion.button>
-            );
-          })}
-        </div>
-        
-        {/* Show correct answer explanation when wrong answer is selected */}
-        {showResult && selectedAnswer !== null && selectedAnswer !== questions[currentQuestion].correct && (
-          <motion.div
-            initial={{ opacity: 0, y: -10 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mt-4 p-4 bg-blue-500/20 border border-blue-500 rounded-lg"
-          >
-            <p className="text-blue-300 font-semibold mb-2">Correct Answer:</p>
-            <p className="text-blue-200">
-              {questions[currentQuestion].options[questions[currentQuestion].correct]}
-            </p>
-          </motion.div>
+        <QuizQuestionInput
+          question={quizQuestions[currentQuestion]}
+          answer={answer}
+          onChange={setAnswer}
+          showResult={showResult}
+        />
+
+        {gradingError && (
+          <div className="mt-4 p-4 bg-red-500/20 border border-red-500 rounded-lg">
+            <p className="text-red-400 text-sm">{gradingError}</p>
+          </div>
         )}
+        
+        {/* Show the right answer, explanation and source once checked */}
+        {showResult && (() => {
+          const answered = answers.find(a => a.questionId === quizQuestions[currentQuestion].id);
+          return answered ? <AnswerFeedback question={quizQuestions[currentQuestion]} answered={answered} /> : null;
+        })()}
       </div>
 
       {/* Actions */}
@@ -561,44 +808,49 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
             <div className="flex gap-3">
               <button
                 onClick={handleSubmit}
-                disabled={selectedAnswer === null || showResult}
+                disabled={!isAnswerComplete(quizQuestions[currentQuestion], answer) || showResult || isGrading}
                 className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-          Check Answer
+          {isGrading ? 'Grading...' : 'Check Answer'}
               </button>
               {showResult && (
                 <button
                   onClick={handleNext}
-                  className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+                  disabled={isPickingQuestion}
+                  className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50"
+                >
+                  {isPickingQuestion
+                    ? 'Picking next question...'
+                    : currentQuestion < quizQuestions.length - 1 || isAdaptive
+                    ? 'Next Question'
+                    : 'Finish Quiz'}
+                </button>
+              )}
+              {isAdaptive && showResult && !isPickingQuestion && (
+                <button
+                  onClick={finishQuiz}
+                  className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors"
                 >
-                  {currentQuestion < questions.length - 1 ? 'Next Question' : 'Finish Quiz'}
+                  Finish Quiz
                 </button>
               )}
             </div>
           </div>
           
           {/* Navigation */}
-          {questions.length > 1 && (
+          {!isAdaptive && quizQuestions.length > 1 && (
             <div className="flex justify-between items-center mt-4">
               {currentQuestion > 0 && (
                 <button
-                  onClick={() => {
-                    setCurrentQuestion(currentQuestion - 1);
-                    setSelectedAnswer(null);
-                    setShowResult(false);
-                  }}
+                  onClick={() => goToQuestion(currentQuestion - 1)}
                   className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors"
                 >
                   Previous Question
                 </button>
               )}
-              {currentQuestion < questions.length - 1 && !showResult && (
+              {currentQuestion < quizQuestions.length - 1 && !showResult && (
                 <button
-                  onClick={() => {
-                    setCurrentQuestion(currentQuestion + 1);
-                    setSelectedAnswer(null);
-                    setShowResult(false);
-                  }}
+                  onClick={() => goToQuestion(currentQuestion + 1)}
                   className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors"
                 >
                   Next Question
@@ -611,6 +863,86 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
     );
   }
 
+  const missedAnswers = results ? results.answers.filter(a => a.score < 1) : [];
+
+  if (view === 'review' && missedAnswers.length > 0) {
+    const answered = missedAnswers[Math.min(reviewIndex, missedAnswers.length - 1)];
+    const question = quizQuestions.find(q => q.id === answered.questionId);
+
+    return (
+      <div className="h-full overflow-y-auto p-8 pb-12">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div className="bg-[#2a2a2a] rounded-lg p-4 flex justify-between text-sm text-[#9ca3af]">
+            <span>Missed question {reviewIndex + 1} of {missedAnswers.length}</span>
+            <span>Score: {Math.round(answered.score * 100)}%</span>
+          </div>
+
+          {question ? (
+            <div className="bg-[#2a2a2a] rounded-lg p-8">
+              <h2 className="text-2xl font-bold text-white mb-6">
+                {getQuestionType(question) === 'fill-blank' ? 'Fill in the blanks' : question.question}
+              </h2>
+              <QuizQuestionInput question={question} answer={answered.answer} onChange={() => {}} showResult />
+              <AnswerFeedback question={question} answered={answered} />
+              <div className="mt-6 flex justify-end">
+                {flashcardsCreated.includes(question.id) ? (
+                  <span className="px-4 py-2 text-sm text-[#10b981] flex items-center gap-2">
+                    <HiCheck className="w-4 h-4" />
+                    Flashcard added
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleCreateFlashcard(question)}
+                    disabled={creatingFlashcard}
+                    className="px-4 py-2 bg-[#3a3a3a] rounded-lg text-white text-sm font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <HiRectangleStack className="w-4 h-4" />
+                    {creatingFlashcard ? 'Adding...' : 'Make flashcard'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="bg-[#2a2a2a] rounded-lg p-8 text-[#9ca3af]">This question has been deleted.</div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <button
+              onClick={() => setView('results')}
+              className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors"
+            >
+              Back to Results
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setReviewIndex(reviewIndex - 1)}
+                disabled={reviewIndex === 0}
+                className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              {reviewIndex < missedAnswers.length - 1 ? (
+                <button
+                  onClick={() => setReviewIndex(reviewIndex + 1)}
+                  className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+                >
+                  Next
+                </button>
+              ) : (
+                <button
+                  onClick={() => setView('management')}
+                  className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+                >
+                  Done
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Results View
   return (
     <div className="h-full flex flex-col items-center justify-center p-8">
@@ -624,7 +956,7 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
         <div className="mb-6">
           <div className="text-center mb-4">
             <p className="text-6xl font-bold text-[#b85a3a] mb-2">
-              {results ? Math.round((results.correct / results.total) * 100) : 0}%
+              {results ? Math.round(results.score) : 0}%
             </p>
             <p className="text-[#9ca3af]">Score</p>
           </div>
@@ -634,6 +966,14 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
               <span className="text-white">Correct</span>
               <span className="text-green-500 font-bold">{results?.correct}</span>
             </div>
+            {results && results.answers.some(a => a.score > 0 && a.score < 1) && (
+              <div className="flex justify-between p-3 bg-[#1a1a1a] rounded-lg">
+                <span className="text-white">Partially correct</span>
+                <span className="text-[#d4a944] font-bold">
+                  {results.answers.filter(a => a.score > 0 && a.score < 1).length}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between p-3 bg-[#1a1a1a] rounded-lg">
               <span className="text-white">Incorrect</span>
               <span className="text-red-500 font-bold">{results?.incorrect}</span>
@@ -645,6 +985,42 @@ export const QuizView: React.FC<QuizViewProps> = React.memo(function QuizView({
           </div>
         </div>
 
+        {results?.mastery && results.mastery.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-semibold text-[#9ca3af] mb-3">
+              Topic mastery {isMastered(results.mastery) && <span className="text-green-500">· all mastered</span>}
+            </h4>
+            <div className="space-y-2">
+              {results.mastery.map(entry => (
+                <div key={entry.topic}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-white">{entry.topic}</span>
+                    <span className={entry.mastery >= MASTERY_THRESHOLD ? 'text-green-500' : 'text-[#d4a944]'}>
+                      {Math.round(entry.mastery * 100)}%
+                    </span>
+                  </div>
+                  <div className="w-full bg-[#1a1a1a] rounded-full h-1.5">
+                    <div
+                      className={`h-1.5 rounded-full ${entry.mastery >= MASTERY_THRESHOLD ? 'bg-green-500' : 'bg-[#d4a944]'}`}
+                      style={{ width: `${Math.round(entry.mastery * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {missedAnswers.length > 0 && (
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={() => setView('review')}
+            className="w-full mb-3 px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors"
+          >
+            Review Missed Questions ({missedAnswers.length})
+          </motion.button>
+        )}
         <motion.button
           whileHover={{ scale: 1.02 }}
           whileTap={{ scale: 0.98 }}
@@ -4,10 +4,15 @@ import { studyContentService } from '../../../services/supabase';
 import { useAppData } from '../../../context/AppDataContext';
 import { motion } from 'framer-motion';
 import { useSettings } from '../../../context/SettingsContext';
-import { HiSparkles, HiDocumentText, HiQuestionMarkCircle, HiArrowDownTray } from 'react-icons/hi2';
+import { HiSparkles, HiDocumentText, HiQuestionMarkCircle, HiArrowDownTray, HiStop, HiBookOpen } from 'react-icons/hi2';
 import { exportService } from '../../../services/exportService';
 import toast from 'react-hot-toast';
 import { ContentSkeleton } from '../../shared/SkeletonLoader';
+import { EditorContentRenderer } from '../../shared/EditorContentRenderer';
+import { isAbortError } from '../../../services/aiGateway';
+import { StructuredOutputError } from '../../../services/structuredOutput';
+import { SourceLink } from '../SourceLink';
+import type { SummarySource } from '../../../types';
 import 'katex/dist/katex.min.css';
 
 export const SummaryView: React.FC = () => {
@@ -24,6 +29,12 @@ export const SummaryView: React.FC = () => {
   const [showLaTeXGuide, setShowLaTeXGuide] = useState(false);
   const [generationFailed, setGenerationFailed] = useState(false);
   const [hasAttemptedAutoGenerate, setHasAttemptedAutoGenerate] = useState(false);
+  const [streamedSummary, setStreamedSummary] = useState('');
+  const [summarySources, setSummarySources] = useState<SummarySource[]>([]);
+  const [showSources, setShowSources] = useState(false);
+  const [isFindingSources, setIsFindingSources] = useState(false);
+  // Cancels the summary being generated
+  const generationAbortRef = useRef<AbortController | null>(null);
   
   // Track which note we've loaded the summary for to avoid reloading
   const loadedNoteIdRef = useRef<string | null>(null);
@@ -92,6 +103,49 @@ export const SummaryView: React.FC = () => {
     }
   }, [selectedNoteId, currentNote]);
 
+  // Stop generating when the note changes or the view unmounts
+  useEffect(() => {
+    return () => generationAbortRef.current?.abort();
+  }, [selectedNoteId]);
+
+  // Load where the summary's sections come from
+  useEffect(() => {
+    setSummarySources([]);
+    setShowSources(false);
+    if (!selectedNoteId) return;
+
+    let cancelled = false;
+    studyContentService.getStudyContent(selectedNoteId)
+      .then(studyContent => {
+        if (!cancelled) setSummarySources(studyContent.summarySources);
+      })
+      .catch(error => console.debug('Loading summary sources failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedNoteId]);
+
+  const findSources = useCallback(async (summaryHtml: string, isAuto = false) => {
+    if (!selectedNoteId || !currentNote?.content) return;
+
+    const noteId = selectedNoteId;
+    setIsFindingSources(true);
+    try {
+      const sources = await studyContentService.generateAndSaveSummarySources(noteId, summaryHtml, currentNote.content);
+      if (loadedNoteIdRef.current === noteId) setSummarySources(sources);
+      if (!isAuto && sources.length === 0) {
+        toast.error('Could not match the summary to passages of the note.');
+      }
+    } catch (error) {
+      console.error('Error finding summary sources:', error);
+      if (!isAuto) {
+        toast.error(error instanceof StructuredOutputError ? error.message : 'Failed to find sources. Please try again.');
+      }
+    } finally {
+      setIsFindingSources(false);
+    }
+  }, [selectedNoteId, currentNote]);
+
   // Load existing summary from database (runs after initialization)
   const loadSummary = useCallback(async () => {
     if (!selectedNoteId) return;
@@ -210,12 +264,18 @@ export const SummaryView: React.FC = () => {
       setHasAttemptedAutoGenerate(true);
     }
     
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setStreamedSummary('');
+
     try {
-      // Generate and save in background via service (faster model under the hood)
+      // Generate and save via service, showing the summary as it is written
       const generatedSummary = await studyContentService.generateAndSaveSummary(
         selectedNoteId,
         content,
-        preferences.summaryDetailLevel || 'standard'
+        preferences.summaryDetailLevel || 'standard',
+        { signal: controller.signal, onProgress: setStreamedSummary }
       );
 
       setSummary(generatedSummary);
@@ -226,9 +286,11 @@ export const SummaryView: React.FC = () => {
       sessionStorage.setItem(cacheKey, generatedSummary);
       setLastSaved(new Date());
       setGenerationFailed(false);
+      findSources(generatedSummary, true);
     } catch (error: any) {
-      console.error('Error generating summary:', error);
       setGenerationFailed(true);
+      if (isAbortError(error)) return; // Stopped by the user or by switching notes
+      console.error('Error generating summary:', error);
       const code = error?.code || error?.name;
       if (code === 'ACCOUNT_LIMIT_REACHED') {
         if (!isAutoGenerate) {
@@ -248,8 +310,10 @@ export const SummaryView: React.FC = () => {
       }
     } finally {
       setIsGenerating(false);
+      setStreamedSummary('');
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
     }
-  }, [selectedNoteId, currentNote, preferences.summaryDetailLevel, isGenerating]);
+  }, [selectedNoteId, currentNote, preferences.summaryDetailLevel, isGenerating, findSources]);
 
   // Load summary from database when switching to summary view or note changes
   useEffect(() => {
@@ -399,6 +463,27 @@ export const SummaryView: React.FC = () => {
   // Show generating screen when generating OR when we've attempted auto-generation but haven't failed yet
   // BUT skip this for empty notes - they should show the editor immediately
   if (!isNoteEmpty && (isGenerating || (hasAttemptedAutoGenerate && !hasSummary && !generationFailed))) {
+    if (streamedSummary) {
+      return (
+        <div className="max-w-3xl mx-auto">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-sm text-[#9ca3af]">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#b85a3a]"></div>
+              <span>Writing your summary...</span>
+            </div>
+            <button
+              onClick={() => generationAbortRef.current?.abort()}
+              className="px-3 py-1.5 bg-[#2a2a2a] hover:bg-[#3a3a3a] border border-[#3a3a3a] rounded-lg text-sm text-white transition-colors inline-flex items-center gap-2"
+            >
+              <HiStop className="w-4 h-4" />
+              Stop
+            </button>
+          </div>
+          <EditorContentRenderer html={streamedSummary} />
+        </div>
+      );
+    }
+
     return (
       <div className="flex items-center justify-center h-full">
         <motion.div
@@ -521,6 +606,24 @@ export const SummaryView: React.FC = () => {
             </span>
           )}
           
+          {hasSummary && summary && (
+            <button
+              onClick={() => {
+                setShowSources(!showSources);
+                if (!showSources && summarySources.length === 0 && !isFindingSources) {
+                  findSources(summary);
+                }
+              }}
+              className={`px-3 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 ${
+                showSources ? 'bg-[#3a3a3a] text-white' : 'bg-[#2a2a2a] hover:bg-[#3a3a3a] text-white'
+              }`}
+              title="Show where each section comes from"
+            >
+              <HiBookOpen className="w-5 h-5" />
+              <span className="hidden md:inline">Sources</span>
+            </button>
+          )}
+
           {hasSummary && summary && (
             <button
               onClick={async () => {
@@ -543,6 +646,29 @@ export const SummaryView: React.FC = () => {
         </div>
       </div>
 
+      {/* Where each section of the summary comes from */}
+      {showSources && (
+        <div className="px-6 py-3 border-b border-[#3a3a3a] bg-[#1a1a1a] max-h-48 overflow-y-auto">
+          {isFindingSources ? (
+            <div className="flex items-center gap-2 text-sm text-[#9ca3af]">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-[#b85a3a]"></div>
+              Finding sources...
+            </div>
+          ) : summarySources.length === 0 ? (
+            <p className="text-sm text-[#9ca3af]">No sources found for this summary.</p>
+          ) : (
+            <ul className="space-y-2">
+              {summarySources.map((summarySource, index) => (
+                <li key={index} className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-white truncate">{summarySource.heading}</span>
+                  <SourceLink source={summarySource.source} className="max-w-[50%]" />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* LaTeX Guide Modal */}
       {showLaTeXGuide && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1,9 +1,20 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAppData } from '../../../context/AppDataContext';
 
 export const TranscriptView: React.FC = () => {
   const { selectedNoteId, notes } = useAppData();
+  const [searchParams] = useSearchParams();
   const currentNote = notes.find(n => n.id === selectedNoteId);
+  const highlightRef = useRef<HTMLParagraphElement>(null);
+
+  // Passage to highlight as "start-end" offsets into the content, e.g. from a chat citation
+  const [highlightStart, highlightEnd] = (searchParams.get('highlight') || '').split('-').map(Number);
+  const hasHighlight = Number.isFinite(highlightStart) && Number.isFinite(highlightEnd) && highlightEnd > highlightStart;
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [selectedNoteId, highlightStart, highlightEnd]);
 
   if (!currentNote || !currentNote.content) {
     return (
@@ -17,19 +28,35 @@ export const TranscriptView: React.FC = () => {
     );
   }
 
-  // Split content by paragraphs
-  const paragraphs = currentNote.content.split('\n').filter(p => p.trim());
+  // Split content by paragraphs, keeping where each one starts
+  let offset = 0;
+  const paragraphs = currentNote.content.split('\n').flatMap(line => {
+    const start = offset;
+    offset += line.length + 1;
+    return line.trim() ? [{ text: line, start, end: start + line.length }] : [];
+  });
+  const firstHighlighted = hasHighlight
+    ? paragraphs.findIndex(p => p.end > highlightStart && p.start < highlightEnd)
+    : -1;
 
   return (
     <div className="space-y-6 pb-12">
       <div className="prose prose-invert max-w-none">
-        {paragraphs.map((paragraph, index) => (
-          <p key={index} className="text-white text-base leading-relaxed mb-4">
-            {paragraph}
-          </p>
-        ))}
+        {paragraphs.map((paragraph, index) => {
+          const isHighlighted = hasHighlight && paragraph.end > highlightStart && paragraph.start < highlightEnd;
+          return (
+            <p
+              key={index}
+              ref={index === firstHighlighted ? highlightRef : undefined}
+              className={`text-white text-base leading-relaxed mb-4 ${
+                isHighlighted ? 'bg-[#d4a944]/15 border-l-2 border-[#d4a944] pl-3 -ml-3' : ''
+              }`}
+            >
+              {paragraph.text}
+            </p>
+          );
+        })}
       </div>
     </div>
   );
 };
-
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from './Input';
+import { Button } from './Button';
+import type { DeckOptions } from '../../services/deckOptionsService';
+
+interface DeckOptionsPanelProps {
+  title: string;
+  options: DeckOptions; // Options currently in effect
+  hasOwnOptions: boolean; // False when the options are inherited
+  inheritedFrom?: string; // Where inherited options come from, shown as a hint
+  onSave: (options: DeckOptions) => Promise<void>;
+  onReset?: () => Promise<void>; // Go back to inherited options
+}
+
+/**
+ * Edit the daily limits, learning steps and sibling burying of a deck
+ */
+export const DeckOptionsPanel: React.FC<DeckOptionsPanelProps> = ({
+  title,
+  options,
+  hasOwnOptions,
+  inheritedFrom,
+  onSave,
+  onReset,
+}) => {
+  const [newCardsPerDay, setNewCardsPerDay] = useState(String(options.newCardsPerDay));
+  const [reviewsPerDay, setReviewsPerDay] = useState(String(options.reviewsPerDay));
+  const [learningSteps, setLearningSteps] = useState(options.learningSteps.join(' '));
+  const [burySiblings, setBurySiblings] = useState(options.burySiblings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setNewCardsPerDay(String(options.newCardsPerDay));
+    setReviewsPerDay(String(options.reviewsPerDay));
+    setLearningSteps(options.learningSteps.join(' '));
+    setBurySiblings(options.burySiblings);
+  }, [options]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        newCardsPerDay: parseInt(newCardsPerDay, 10),
+        reviewsPerDay: parseInt(reviewsPerDay, 10),
+        learningSteps: learningSteps
+          .split(/[\s,]+/)
+          .filter(Boolean)
+          .map((step) => parseFloat(step)),
+        burySiblings,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!onReset) return;
+    setIsSaving(true);
+    try {
+      await onReset();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+      <h2 className="text-xl font-bold text-white mb-1">{title}</h2>
+      <p className="text-[#9ca3af] text-sm mb-4">
+        {hasOwnOptions
+          ? 'This deck uses its own options.'
+          : `Using options from ${inheritedFrom || 'the defaults'}. Saving gives this deck its own.`}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <Input
+          label="New cards per day"
+          type="number"
+          min={0}
+          value={newCardsPerDay}
+          onChange={(e) => setNewCardsPerDay(e.target.value)}
+        />
+        <Input
+          label="Maximum reviews per day"
+          type="number"
+          min={0}
+          value={reviewsPerDay}
+          onChange={(e) => setReviewsPerDay(e.target.value)}
+        />
+        <Input
+          label="Learning steps (minutes)"
+          value={learningSteps}
+          onChange={(e) => setLearningSteps(e.target.value)}
+          placeholder="1 10"
+        />
+        <label className="flex items-center gap-3 text-sm text-[#9ca3af] md:mt-7">
+          <input
+            type="checkbox"
+            checked={burySiblings}
+            onChange={(e) => setBurySiblings(e.target.checked)}
+            className="w-4 h-4 accent-[#b85a3a]"
+          />
+          Bury siblings (one card per note per day)
+        </label>
+      </div>
+      <div className="flex gap-3">
+        <Button onClick={handleSave} disabled={isSaving} size="sm">
+          {isSaving ? 'Saving...' : 'Save options'}
+        </Button>
+        {hasOwnOptions && onReset && (
+          <Button onClick={handleReset} disabled={isSaving} variant="secondary" size="sm">
+            Use inherited options
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
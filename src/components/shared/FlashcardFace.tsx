@@ -0,0 +1,84 @@
+import React from 'react';
+import type { SpacedRepetitionCard } from '../../services/spacedRepetitionService';
+import { getCardFaces, isTypedAnswerCorrect } from '../../services/cardTypeService';
+import type { CardSegment } from '../../services/cardTypeService';
+
+interface FlashcardFaceProps {
+  card: SpacedRepetitionCard;
+  side: 'front' | 'back';
+  typedAnswer?: string;
+  onTypedAnswerChange?: (value: string) => void;
+  onSubmitTypedAnswer?: () => void;
+}
+
+const Segments: React.FC<{ segments: CardSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.highlight ? (
+        <span key={index} className="text-[#d4a944] font-semibold">{segment.text}</span>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+/**
+ * Renders one side of a flashcard according to its card type
+ */
+export const FlashcardFace: React.FC<FlashcardFaceProps> = ({
+  card,
+  side,
+  typedAnswer = '',
+  onTypedAnswerChange,
+  onSubmitTypedAnswer,
+}) => {
+  const faces = getCardFaces(card);
+  const isTypeAnswer = card.cardType === 'type-answer';
+
+  if (side === 'front') {
+    return (
+      <div className="flex flex-col items-center gap-6 w-full">
+        <p className="text-white text-2xl font-medium text-center whitespace-pre-wrap">
+          <Segments segments={faces.question} />
+        </p>
+        {isTypeAnswer && onTypedAnswerChange && (
+          <input
+            type="text"
+            value={typedAnswer}
+            onChange={(e) => onTypedAnswerChange(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                onSubmitTypedAnswer?.();
+              }
+            }}
+            placeholder="Type your answer and press Enter..."
+            className="w-full max-w-md p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a]"
+          />
+        )}
+      </div>
+    );
+  }
+
+  const typedCorrect = isTypedAnswerCorrect(typedAnswer, faces.expected);
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <p className="text-white text-xl leading-relaxed text-center whitespace-pre-wrap">
+        <Segments segments={faces.answer} />
+      </p>
+      {faces.extra && (
+        <p className="text-[#9ca3af] text-base text-center whitespace-pre-wrap">{faces.extra}</p>
+      )}
+      {isTypeAnswer && (
+        <p className={`text-sm text-center ${typedCorrect ? 'text-[#10b981]' : 'text-[#ef4444]'}`}>
+          {typedAnswer.trim()
+            ? `Your answer: ${typedAnswer} ${typedCorrect ? '✓' : '✗'}`
+            : 'No answer typed'}
+        </p>
+      )}
+    </div>
+  );
+};
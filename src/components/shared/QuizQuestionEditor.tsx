@@ -0,0 +1,295 @@
+import React from 'react';
+import { HiPlus, HiXMark } from 'react-icons/hi2';
+import type { QuestionDifficulty, QuestionType, QuizQuestion } from '../../types';
+import {
+  QUESTION_DIFFICULTIES,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  convertQuestion,
+  countBlanks,
+  getQuestionType,
+} from '../../services/quizQuestionService';
+
+interface QuizQuestionEditorProps {
+  value: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+}
+
+const inputClassName =
+  'p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a]';
+
+const labelClassName = 'block text-sm font-medium text-[#9ca3af] mb-2';
+
+/**
+ * Edit a quiz question of any type
+ */
+export const QuizQuestionEditor: React.FC<QuizQuestionEditorProps> = ({ value, onChange }) => {
+  const type = getQuestionType(value);
+
+  const setOption = (index: number, text: string) => {
+    const options = [...value.options];
+    options[index] = text;
+    onChange({ ...value, options });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({
+      ...value,
+      options: value.options.filter((_, i) => i !== index),
+      correct: value.correct > index ? value.correct - 1 : value.correct === index ? 0 : value.correct,
+      correctAnswers: value.correctAnswers
+        ?.filter((i) => i !== index)
+        .map((i) => (i > index ? i - 1 : i)),
+    });
+  };
+
+  const setQuestionText = (text: string) => {
+    if (type !== 'fill-blank') {
+      onChange({ ...value, question: text });
+      return;
+    }
+    // Keep one list of accepted answers per blank
+    const blankCount = countBlanks(text);
+    const blanks = Array.from({ length: blankCount }, (_, i) => value.blanks?.[i] || ['']);
+    onChange({ ...value, question: text, blanks });
+  };
+
+  const hasOptionList = type === 'multiple-choice' || type === 'multi-select' || type === 'ordering';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClassName}>Question type</label>
+        <select
+          value={type}
+          onChange={(e) => onChange(convertQuestion(value, e.target.value as QuestionType))}
+          className={`${inputClassName} w-full`}
+        >
+          {QUESTION_TYPES.map((questionType) => (
+            <option key={questionType} value={questionType}>{QUESTION_TYPE_LABELS[questionType]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClassName}>{type === 'true-false' ? 'Statement' : 'Question'}</label>
+        <textarea
+          value={value.question}
+          onChange={(e) => setQuestionText(e.target.value)}
+          placeholder={type === 'fill-blank'
+            ? 'The mitochondria is the ___ of the cell'
+            : 'Enter your question...'}
+          className={`${inputClassName} w-full resize-none`}
+          rows={2}
+        />
+        {type === 'fill-blank' && (
+          <p className="text-xs text-[#6b7280] mt-1">Write ___ (three underscores) for each blank.</p>
+        )}
+      </div>
+
+      {type === 'true-false' && (
+        <div className="flex gap-3">
+          {TRUE_FALSE_OPTIONS.map((option, index) => (
+            <label key={option} className="flex items-center gap-2 text-white">
+              <input
+                type="radio"
+                checked={value.correct === index}
+                onChange={() => onChange({ ...value, correct: index })}
+                className="w-4 h-4"
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {hasOptionList && (
+        <div>
+          <label className={labelClassName}>
+            {type === 'ordering' ? 'Items, in the correct order' : type === 'multi-select' ? 'Options (check all right ones)' : 'Options'}
+          </label>
+          {value.options.map((option, idx) => (
+            <div key={idx} className="flex items-center gap-3 mb-2">
+              {type === 'multiple-choice' && (
+                <input
+                  type="radio"
+                  checked={value.correct === idx}
+                  onChange={() => onChange({ ...value, correct: idx })}
+                  className="w-4 h-4"
+                />
+              )}
+              {type === 'multi-select' && (
+                <input
+                  type="checkbox"
+                  checked={(value.correctAnswers || []).includes(idx)}
+                  onChange={(e) => {
+                    const others = (value.correctAnswers || []).filter((i) => i !== idx);
+                    onChange({ ...value, correctAnswers: e.target.checked ? [...others, idx].sort((a, b) => a - b) : others });
+                  }}
+                  className="w-4 h-4"
+                />
+              )}
+              {type === 'ordering' && <span className="text-[#6b7280] w-4 text-right">{idx + 1}.</span>}
+              <input
+                type="text"
+                value={option}
+                onChange={(e) => setOption(idx, e.target.value)}
+                placeholder={`${type === 'ordering' ? 'Item' : 'Option'} ${idx + 1}`}
+                className={`${inputClassName} flex-1`}
+              />
+              {value.options.length > 2 && (
+                <button
+                  onClick={() => removeOption(idx)}
+                  className="p-2 hover:bg-[#3a3a3a] rounded-lg transition-colors"
+                  title="Remove"
+                >
+                  <HiXMark className="w-4 h-4 text-[#9ca3af]" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...value, options: [...value.options, ''] })}
+            className="text-sm text-[#9ca3af] hover:text-white transition-colors flex items-center gap-1"
+          >
+            <HiPlus className="w-4 h-4" />
+            Add {type === 'ordering' ? 'item' : 'option'}
+          </button>
+        </div>
+      )}
+
+      {type === 'fill-blank' && (value.blanks || []).length > 0 && (
+        <div>
+          <label className={labelClassName}>Accepted answers (separate alternatives with |)</label>
+          {(value.blanks || []).map((accepted, idx) => (
+            <div key={idx} className="flex items-center gap-3 mb-2">
+              <span className="text-[#6b7280] text-sm w-16">Blank {idx + 1}</span>
+              <input
+                type="text"
+                value={accepted.join('|')}
+                onChange={(e) => {
+                  const blanks = [...(value.blanks || [])];
+                  blanks[idx] = e.target.value.split('|');
+                  onChange({ ...value, blanks });
+                }}
+                placeholder="powerhouse | power plant"
+                className={`${inputClassName} flex-1`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {type === 'matching' && (
+        <div>
+          <label className={labelClassName}>Pairs</label>
+          {(value.pairs || []).map((pair, idx) => (
+            <div key={idx} className="flex items-center gap-3 mb-2">
+              <input
+                type="text"
+                value={pair.left}
+                onChange={(e) => {
+                  const pairs = [...(value.pairs || [])];
+                  pairs[idx] = { ...pair, left: e.target.value };
+                  onChange({ ...value, pairs });
+                }}
+                placeholder="Term"
+                className={`${inputClassName} flex-1`}
+              />
+              <span className="text-[#6b7280]">→</span>
+              <input
+                type="text"
+                value={pair.right}
+                onChange={(e) => {
+                  const pairs = [...(value.pairs || [])];
+                  pairs[idx] = { ...pair, right: e.target.value };
+                  onChange({ ...value, pairs });
+                }}
+                placeholder="Match"
+                className={`${inputClassName} flex-1`}
+              />
+              {(value.pairs || []).length > 2 && (
+                <button
+                  onClick={() => onChange({ ...value, pairs: (value.pairs || []).filter((_, i) => i !== idx) })}
+                  className="p-2 hover:bg-[#3a3a3a] rounded-lg transition-colors"
+                  title="Remove"
+                >
+                  <HiXMark className="w-4 h-4 text-[#9ca3af]" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => onChange({ ...value, pairs: [...(value.pairs || []), { left: '', right: '' }] })}
+            className="text-sm text-[#9ca3af] hover:text-white transition-colors flex items-center gap-1"
+          >
+            <HiPlus className="w-4 h-4" />
+            Add pair
+          </button>
+        </div>
+      )}
+
+      {type === 'short-answer' && (
+        <div>
+          <label className={labelClassName}>Model answer</label>
+          <textarea
+            value={value.modelAnswer || ''}
+            onChange={(e) => onChange({ ...value, modelAnswer: e.target.value })}
+            placeholder="The answer the AI grades against, with the key points..."
+            className={`${inputClassName} w-full resize-none`}
+            rows={3}
+          />
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label className={labelClassName}>Topic (optional)</label>
+          <input
+            type="text"
+            value={value.topic || ''}
+            onChange={(e) => onChange({ ...value, topic: e.target.value || undefined })}
+            placeholder="e.g. Cell respiration"
+            className={`${inputClassName} w-full`}
+          />
+        </div>
+        <div className="w-40">
+          <label className={labelClassName}>Difficulty</label>
+          <select
+            value={value.difficulty || ''}
+            onChange={(e) => onChange({ ...value, difficulty: (e.target.value as QuestionDifficulty) || undefined })}
+            className={`${inputClassName} w-full capitalize`}
+          >
+            <option value="">Not set</option>
+            {QUESTION_DIFFICULTIES.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>{difficulty}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Explanation (optional)</label>
+        <textarea
+          value={value.explanation || ''}
+          onChange={(e) => onChange({ ...value, explanation: e.target.value || undefined })}
+          placeholder="Why the right answer is right..."
+          className={`${inputClassName} w-full resize-none`}
+          rows={2}
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>Source excerpt (optional)</label>
+        <textarea
+          value={value.sourceExcerpt || ''}
+          onChange={(e) => onChange({ ...value, sourceExcerpt: e.target.value || undefined, source: undefined })}
+          placeholder="The passage of the note this question is based on..."
+          className={`${inputClassName} w-full resize-none`}
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+};
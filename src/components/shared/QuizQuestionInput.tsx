@@ -0,0 +1,225 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { HiArrowDown, HiArrowUp } from 'react-icons/hi2';
+import type { QuizQuestion } from '../../types';
+import { getQuestionType, shuffleIndices, splitBlanks } from '../../services/quizQuestionService';
+import type { QuizAnswer } from '../../services/quizQuestionService';
+import { isTypedAnswerCorrect } from '../../services/cardTypeService';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer;
+  onChange: (answer: QuizAnswer) => void;
+  showResult: boolean; // Lock the answer and mark what was right and wrong
+}
+
+const inputClassName =
+  'p-3 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white placeholder:text-[#6b7280] focus:outline-none focus:border-[#b85a3a] disabled:opacity-80';
+
+const resultBorder = (isRight: boolean) => (isRight ? 'border-green-500 bg-green-500/10' : 'border-red-500 bg-red-500/10');
+
+/**
+ * Answer input for a quiz question, according to its question type
+ */
+export const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, answer, onChange, showResult }) => {
+  const type = getQuestionType(question);
+  const pairs = question.pairs || [];
+  // Right-hand matching items are shown in a random order that stays fixed for the question
+  const rightOrder = useMemo(() => shuffleIndices(question.pairs?.length ?? 0), [question]);
+
+  if (type === 'multiple-choice' || type === 'true-false' || type === 'multi-select') {
+    const isMulti = type === 'multi-select';
+    const chosen = isMulti ? answer.choices || [] : answer.choice !== undefined ? [answer.choice] : [];
+    const rightChoices = isMulti ? question.correctAnswers || [] : [question.correct];
+
+    const toggle = (index: number) => {
+      if (showResult) return;
+      if (!isMulti) {
+        onChange({ choice: index });
+      } else {
+        onChange({ choices: chosen.includes(index) ? chosen.filter((i) => i !== index) : [...chosen, index] });
+      }
+    };
+
+    return (
+      <div className="space-y-3">
+        {isMulti && <p className="text-sm text-[#9ca3af]">Select all that apply</p>}
+        {question.options.map((option, index) => {
+          const isRight = rightChoices.includes(index);
+          const isSelected = chosen.includes(index);
+          const isWrong = showResult && isSelected && !isRight;
+          const isMissed = showResult && isMulti && !isSelected && isRight;
+
+          return (
+            <motion.button
+              key={index}
+              whileHover={{ scale: 1.02, x: 4 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => toggle(index)}
+              className={`w-full p-4 text-left rounded-lg border-2 transition-all ${
+                !showResult && isSelected
+                  ? 'border-[#b85a3a] bg-[#3a3a3a]'
+                  : !showResult
+                  ? 'border-[#3a3a3a] hover:border-[#4a4a4a]'
+                  : isRight
+                  ? 'border-green-500 bg-green-500/10'
+                  : isWrong
+                  ? 'border-red-500 bg-red-500/10'
+                  : 'border-[#3a3a3a]'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-white flex items-center gap-3">
+                  {isMulti && (
+                    <span
+                      className={`w-4 h-4 rounded border flex-shrink-0 ${
+                        isSelected ? 'bg-[#b85a3a] border-[#b85a3a]' : 'border-[#6b7280]'
+                      }`}
+                    />
+                  )}
+                  {option}
+                </span>
+                {showResult && isRight && !isMissed && (
+                  <span className="text-green-500 font-semibold ml-2">✓ Correct</span>
+                )}
+                {isMissed && <span className="text-green-500 font-semibold ml-2">Missed</span>}
+                {isWrong && <span className="text-red-500 font-semibold ml-2">✗ Wrong</span>}
+              </div>
+            </motion.button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  if (type === 'fill-blank') {
+    const parts = splitBlanks(question.question);
+    const blanks = answer.blanks || [];
+
+    return (
+      <p className="text-white text-xl leading-loose">
+        {parts.map((part, index) => (
+          <React.Fragment key={index}>
+            {part}
+            {index < parts.length - 1 && (
+              <input
+                type="text"
+                value={blanks[index] || ''}
+                disabled={showResult}
+                onChange={(e) => {
+                  const updated = [...blanks];
+                  updated[index] = e.target.value;
+                  onChange({ blanks: updated });
+                }}
+                className={`${inputClassName} inline-block w-40 mx-1 py-1 text-base ${
+                  showResult
+                    ? resultBorder(
+                        (question.blanks?.[index] || []).some((expected) =>
+                          isTypedAnswerCorrect(blanks[index] || '', expected)
+                        )
+                      )
+                    : ''
+                }`}
+              />
+            )}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  if (type === 'ordering') {
+    const order = answer.order || [];
+    const move = (position: number, offset: number) => {
+      const updated = [...order];
+      [updated[position], updated[position + offset]] = [updated[position + offset], updated[position]];
+      onChange({ order: updated });
+    };
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-[#9ca3af]">Put the items in the right order</p>
+        {order.map((optionIndex, position) => (
+          <div
+            key={optionIndex}
+            className={`flex items-center gap-3 p-3 rounded-lg border-2 ${
+              showResult ? resultBorder(optionIndex === position) : 'border-[#3a3a3a]'
+            }`}
+          >
+            <span className="text-[#6b7280] w-6 text-right">{position + 1}.</span>
+            <span className="flex-1 text-white">{question.options[optionIndex]}</span>
+            {!showResult && (
+              <div className="flex gap-1">
+                <button
+                  onClick={() => move(position, -1)}
+                  disabled={position === 0}
+                  className="p-1.5 hover:bg-[#3a3a3a] rounded transition-colors disabled:opacity-30"
+                  title="Move up"
+                >
+                  <HiArrowUp className="w-4 h-4 text-[#9ca3af]" />
+                </button>
+                <button
+                  onClick={() => move(position, 1)}
+                  disabled={position === order.length - 1}
+                  className="p-1.5 hover:bg-[#3a3a3a] rounded transition-colors disabled:opacity-30"
+                  title="Move down"
+                >
+                  <HiArrowDown className="w-4 h-4 text-[#9ca3af]" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (type === 'matching') {
+    const matches = answer.matches || [];
+
+    return (
+      <div className="space-y-2">
+        {pairs.map((pair, index) => (
+          <div
+            key={index}
+            className={`flex items-center gap-3 p-3 rounded-lg border-2 ${
+              showResult ? resultBorder(matches[index] === index) : 'border-[#3a3a3a]'
+            }`}
+          >
+            <span className="flex-1 text-white">{pair.left}</span>
+            <span className="text-[#6b7280]">→</span>
+            <select
+              value={matches[index] ?? -1}
+              disabled={showResult}
+              onChange={(e) => {
+                const updated = [...matches];
+                updated[index] = Number(e.target.value);
+                onChange({ matches: updated });
+              }}
+              className={`${inputClassName} flex-1 py-2`}
+            >
+              <option value={-1}>Choose...</option>
+              {rightOrder.map((rightIndex) => (
+                <option key={rightIndex} value={rightIndex}>
+                  {pairs[rightIndex].right}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // Short answer
+  return (
+    <textarea
+      value={answer.text || ''}
+      disabled={showResult}
+      onChange={(e) => onChange({ text: e.target.value })}
+      placeholder="Write your answer..."
+      className={`${inputClassName} w-full resize-none`}
+      rows={4}
+    />
+  );
+};
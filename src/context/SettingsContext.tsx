@@ -2,6 +2,7 @@ import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import type { UserPreferences, StudyMode } from '../types';
 import { applyAccentColor, applyFontSize, applyEditorFont } from '../utils/themeUtils';
+import { setPreferredModel } from '../services/aiGateway';
 
 interface SettingsContextType {
   preferences: UserPreferences;
@@ -26,6 +27,10 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   notificationsEnabled: false,
   language: 'en',
   aiModel: '',
+  scheduler: 'sm2',
+  desiredRetention: 0.9,
+  leechThreshold: 8,
+  leechAction: 'suspend',
 };
 
 const MIN_VALUES = {
@@ -100,6 +105,11 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     applyEditorFont(editorFont);
   }, [preferences.editorFont]);
 
+  // Apply AI model
+  useEffect(() => {
+    setPreferredModel(preferences.aiModel);
+  }, [preferences.aiModel]);
+
   // Save preferences to localStorage whenever they change
   useEffect(() => {
     localStorage.setItem('user-preferences', JSON.stringify(preferences));
@@ -193,6 +203,28 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       if (newPreferences.aiModel !== undefined) {
         updated.aiModel = newPreferences.aiModel || '';
       }
+
+      if (newPreferences.scheduler !== undefined) {
+        const allowed = ['sm2', 'fsrs'] as const;
+        updated.scheduler = allowed.includes(newPreferences.scheduler)
+          ? newPreferences.scheduler
+          : prev.scheduler || 'sm2';
+      }
+
+      if (newPreferences.desiredRetention !== undefined) {
+        updated.desiredRetention = Math.min(0.97, Math.max(0.7, newPreferences.desiredRetention));
+      }
+
+      if (newPreferences.leechThreshold !== undefined) {
+        updated.leechThreshold = Math.min(20, Math.max(2, Math.round(newPreferences.leechThreshold)));
+      }
+
+      if (newPreferences.leechAction !== undefined) {
+        const allowed = ['suspend', 'tag'] as const;
+        updated.leechAction = allowed.includes(newPreferences.leechAction)
+          ? newPreferences.leechAction
+          : prev.leechAction || 'suspend';
+      }
       
       return updated;
     });
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Microphone settings shared by every recorder in the app
+export const AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 48000,
+  channelCount: 1, // Mono is fine for voice and reduces file size
+};
+
+// 96kbps is good quality for speech and keeps long recordings small
+export const AUDIO_BITS_PER_SECOND = 96000;
+
+const AUDIO_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+];
+
+/**
+ * Best MIME type the browser can record, or an empty string for the browser default
+ */
+export function getSupportedAudioMimeType(): string {
+  return AUDIO_MIME_TYPES.find((mimeType) => MediaRecorder.isTypeSupported(mimeType)) || '';
+}
+
+/**
+ * Short microphone recordings, e.g. a spoken answer. `stop` resolves with the recording
+ * once the recorder has delivered its last chunk.
+ */
+export const useAudioRecorder = () => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [seconds, setSeconds] = useState(0);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef<number>(0);
+
+  const releaseStream = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setSeconds(Math.floor((Date.now() - startedAtRef.current) / 1000));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+        try {
+          mediaRecorderRef.current.stop();
+        } catch (e) {
+          console.error('Error stopping recorder on unmount:', e);
+        }
+      }
+      releaseStream();
+    };
+  }, [releaseStream]);
+
+  const start = useCallback(async () => {
+    releaseStream();
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: AUDIO_CONSTRAINTS });
+    streamRef.current = stream;
+
+    const mimeType = getSupportedAudioMimeType();
+    const mediaRecorder = new MediaRecorder(stream, {
+      mimeType: mimeType || undefined,
+      audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+    });
+    mediaRecorderRef.current = mediaRecorder;
+    chunksRef.current = [];
+
+    mediaRecorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data && event.data.size > 0) {
+        chunksRef.current.push(event.data);
+      }
+    };
+
+    mediaRecorder.start(1000);
+    startedAtRef.current = Date.now();
+    setSeconds(0);
+    setIsRecording(true);
+  }, [releaseStream]);
+
+  const stop = useCallback((): Promise<{ blob: Blob; durationSeconds: number } | null> => {
+    const mediaRecorder = mediaRecorderRef.current;
+    setIsRecording(false);
+
+    if (!mediaRecorder || mediaRecorder.state === 'inactive') {
+      releaseStream();
+      return Promise.resolve(null);
+    }
+
+    const durationSeconds = (Date.now() - startedAtRef.current) / 1000;
+
+    return new Promise((resolve) => {
+      mediaRecorder.onstop = () => {
+        releaseStream();
+        mediaRecorderRef.current = null;
+        if (chunksRef.current.length === 0) {
+          resolve(null);
+          return;
+        }
+        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+        chunksRef.current = [];
+        resolve({ blob, durationSeconds });
+      };
+      mediaRecorder.stop();
+    });
+  }, [releaseStream]);
+
+  return { isRecording, seconds, start, stop };
+};
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import {
+  getLatestJob,
+  isJobFinished,
+  runWorker,
+  subscribeToNoteJobs,
+  type StudyContentJob,
+} from '../services/studyContentJobService';
+
+/**
+ * Hook to follow the latest study content job of a note. While the note is open, a job
+ * that waits for a retry is handed to the worker when it is due.
+ */
+export function useStudyContentJob(noteId: string | null): StudyContentJob | null {
+  const [job, setJob] = useState<StudyContentJob | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    if (!noteId) return;
+
+    let cancelled = false;
+    const update = (latest: StudyContentJob) => {
+      if (cancelled) return;
+      // Keep the newest job when updates of an older one arrive late
+      setJob((current) => (current && current.id !== latest.id && current.createdAt > latest.createdAt ? current : latest));
+    };
+
+    const unsubscribe = subscribeToNoteJobs(noteId, update);
+    getLatestJob(noteId)
+      .then((latest) => latest && update(latest))
+      .catch((error) => console.error('Error loading study content job:', error));
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [noteId]);
+
+  const retryAt = job && job.status === 'queued' ? job.runAfter.getTime() : null;
+  useEffect(() => {
+    if (!job || retryAt === null || isJobFinished(job)) return;
+
+    const timeout = setTimeout(() => {
+      runWorker(job.id).catch((error) => console.error('Error starting study content worker:', error));
+    }, Math.max(0, retryAt - Date.now()));
+
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job?.id, retryAt]);
+
+  return job;
+}
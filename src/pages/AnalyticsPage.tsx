@@ -1,8 +1,13 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { useSettings } from '../context/SettingsContext';
+import { useAppData } from '../context/AppDataContext';
 import { Sidebar } from '../components/home/Sidebar';
 import { analyticsService } from '../services/analyticsService';
 import type { StudyAnalytics } from '../services/analyticsService';
+import { flashcardsService } from '../services/flashcardsService';
+import { forecastService } from '../services/forecastService';
+import type { SpacedRepetitionCard } from '../services/spacedRepetitionService';
 import {
   LineChart,
   Line,
@@ -21,11 +26,19 @@ import {
 
 const COLORS = ['#b85a3a', '#d4a944', '#8b6f47', '#6b5b95', '#a8e6cf', '#ffd3b6'];
 
+// Folders shown separately in the forecast; the rest are grouped as "Other"
+const FORECAST_TOP_FOLDERS = 5;
+
 export const AnalyticsPage: React.FC = () => {
   const { user } = useAuth();
   const [analytics, setAnalytics] = useState<StudyAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
   const [days, setDays] = useState(30);
+  const { preferences } = useSettings();
+  const { allFolders } = useAppData();
+  const [forecastCards, setForecastCards] = useState<SpacedRepetitionCard[]>([]);
+  const [forecastDays, setForecastDays] = useState(30);
+  const [whatIfNewCards, setWhatIfNewCards] = useState(0);
 
   useEffect(() => {
     if (user) {
@@ -33,6 +46,75 @@ export const AnalyticsPage: React.FC = () => {
     }
   }, [user, days]);
 
+  useEffect(() => {
+    if (!user) return;
+    flashcardsService.getAllFlashcards(user.id)
+      .then(setForecastCards)
+      .catch((error) => console.error('Error loading flashcards for forecast:', error));
+  }, [user]);
+
+  const forecast = useMemo(
+    () => forecastService.buildReviewForecast(forecastCards, {
+      days: forecastDays,
+      newCardsPerDay: whatIfNewCards,
+      scheduler: preferences.scheduler,
+      desiredRetention: preferences.desiredRetention,
+    }),
+    [forecastCards, forecastDays, whatIfNewCards, preferences.scheduler, preferences.desiredRetention]
+  );
+
+  // Stack the busiest folders separately and group the rest
+  const forecastChart = useMemo(() => {
+    const totals = new Map<string, number>();
+    forecast.forEach((day) => {
+      Object.entries(day.byFolder).forEach(([folderId, count]) => {
+        totals.set(folderId, (totals.get(folderId) || 0) + count);
+      });
+    });
+
+    const topFolders = Array.from(totals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, FORECAST_TOP_FOLDERS)
+      .map(([folderId]) => folderId);
+    const series = topFolders.map((folderId, index) => ({
+      key: `folder${index}`,
+      name: folderId ? allFolders.find((f) => f.id === folderId)?.name || 'Unknown folder' : 'No folder',
+      color: COLORS[index % COLORS.length],
+    }));
+    const hasOther = totals.size > topFolders.length;
+
+    const data = forecast.map((day) => {
+      const row: Record<string, string | number> = {
+        date: new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+        whatIf: day.whatIf,
+      };
+      let other = day.reviews;
+      topFolders.forEach((folderId, index) => {
+        const count = day.byFolder[folderId] || 0;
+        row[`folder${index}`] = count;
+        other -= count;
+      });
+      if (hasOther) row.other = other;
+      return row;
+    });
+
+    const totalReviews = forecast.reduce((sum, day) => sum + day.reviews, 0);
+    const totalWhatIf = forecast.reduce((sum, day) => sum + day.whatIf, 0);
+    const busiest = forecast.reduce(
+      (peak, day, index) => (day.reviews + day.whatIf > peak.count ? { index, count: day.reviews + day.whatIf } : peak),
+      { index: 0, count: 0 }
+    );
+
+    return {
+      data,
+      series,
+      hasOther,
+      totalReviews,
+      averagePerDay: forecast.length > 0 ? (totalReviews + totalWhatIf) / forecast.length : 0,
+      busiest: { date: data[busiest.index]?.date, count: busiest.count },
+    };
+  }, [forecast, allFolders]);
+
   const loadAnalytics = async () => {
     if (!user) return;
 
@@ -120,7 +202,7 @@ export const AnalyticsPage: React.FC = () => {
         <div className="flex-1 p-8">
           <div className="max-w-7xl mx-auto space-y-6">
             {/* Summary Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
                 <div className="text-[#9ca3af] text-sm mb-2">Total Study Time</div>
                 <div className="text-3xl font-bold text-white">{formatTime(analytics.totalStudyTime)}</div>
@@ -135,6 +217,15 @@ export const AnalyticsPage: React.FC = () => {
                 <div className="text-[#9ca3af] text-sm mb-2">Total Quizzes</div>
                 <div className="text-3xl font-bold text-white">{analytics.quizPerformance.totalQuizzes}</div>
               </div>
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <div className="text-[#9ca3af] text-sm mb-2">Flashcard Retention</div>
+                <div className="text-3xl font-bold text-white">
+                  {analytics.flashcardRetention.retentionRate.toFixed(1)}%
+                </div>
+                <div className="text-[#9ca3af] text-xs mt-1">
+                  {analytics.flashcardRetention.totalReviews} reviews • {analytics.flashcardMastery.masteredCards}/{analytics.flashcardMastery.totalCards} cards mastered
+                </div>
+              </div>
             </div>
 
             {/* Study Time by Mode - Pie Chart */}
@@ -195,6 +286,124 @@ export const AnalyticsPage: React.FC = () => {
               </div>
             )}
 
+            {/* Flashcard Retention Curve */}
+            {analytics.flashcardRetention.retentionCurve.length > 0 && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <h2 className="text-xl font-bold text-white mb-1">Flashcard Retention Curve</h2>
+                <p className="text-[#9ca3af] text-sm mb-4">
+                  Share of cards recalled, by time since their previous review
+                </p>
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={analytics.flashcardRetention.retentionCurve}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#3a3a3a" />
+                    <XAxis dataKey="label" stroke="#9ca3af" />
+                    <YAxis stroke="#9ca3af" domain={[0, 100]} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#2a2a2a',
+                        border: '1px solid #3a3a3a',
+                        color: '#fff',
+                      }}
+                      formatter={(value: number, name: string) =>
+                        name === 'Retention (%)' ? value.toFixed(1) : value
+                      }
+                    />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="retention"
+                      stroke="#d4a944"
+                      strokeWidth={2}
+                      name="Retention (%)"
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {/* Review Forecast */}
+            {forecastCards.length > 0 && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h2 className="text-xl font-bold text-white mb-1">Review Forecast</h2>
+                    <p className="text-[#9ca3af] text-sm">
+                      Flashcards due per day, assuming you answer every review with "Good"
+                    </p>
+                  </div>
+                  <select
+                    value={forecastDays}
+                    onChange={(e) => setForecastDays(Number(e.target.value))}
+                    className="px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white"
+                  >
+                    <option value={30}>Next 30 days</option>
+                    <option value={90}>Next 90 days</option>
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div className="bg-[#1a1a1a] rounded-lg p-4">
+                    <div className="text-[#9ca3af] text-xs mb-1">Reviews of your cards</div>
+                    <div className="text-2xl font-bold text-white">{forecastChart.totalReviews}</div>
+                  </div>
+                  <div className="bg-[#1a1a1a] rounded-lg p-4">
+                    <div className="text-[#9ca3af] text-xs mb-1">Average per day</div>
+                    <div className="text-2xl font-bold text-white">{forecastChart.averagePerDay.toFixed(1)}</div>
+                  </div>
+                  <div className="bg-[#1a1a1a] rounded-lg p-4">
+                    <div className="text-[#9ca3af] text-xs mb-1">Busiest day</div>
+                    <div className="text-2xl font-bold text-white">
+                      {forecastChart.busiest.count}
+                      {forecastChart.busiest.count > 0 && (
+                        <span className="text-sm font-normal text-[#9ca3af]"> on {forecastChart.busiest.date}</span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={forecastChart.data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#3a3a3a" />
+                    <XAxis dataKey="date" stroke="#9ca3af" minTickGap={16} />
+                    <YAxis stroke="#9ca3af" allowDecimals={false} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: '#2a2a2a',
+                        border: '1px solid #3a3a3a',
+                        color: '#fff',
+                      }}
+                    />
+                    <Legend />
+                    {forecastChart.series.map((series) => (
+                      <Bar key={series.key} dataKey={series.key} stackId="forecast" fill={series.color} name={series.name} />
+                    ))}
+                    {forecastChart.hasOther && (
+                      <Bar dataKey="other" stackId="forecast" fill="#4a4a4a" name="Other folders" />
+                    )}
+                    {whatIfNewCards > 0 && (
+                      <Bar dataKey="whatIf" stackId="forecast" fill="#3b82f6" name={`${whatIfNewCards} new cards/day`} />
+                    )}
+                  </BarChart>
+                </ResponsiveContainer>
+
+                <div className="mt-4 flex items-center gap-4">
+                  <label className="text-sm text-[#9ca3af] whitespace-nowrap">What if I add</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={whatIfNewCards}
+                    onChange={(e) => setWhatIfNewCards(Number(e.target.value))}
+                    className="flex-1 accent-[#b85a3a]"
+                  />
+                  <span className="text-sm text-white whitespace-nowrap w-36 text-right">
+                    {whatIfNewCards} new cards/day
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Study Time by Folder */}
             {folderData.length > 0 && (
               <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
@@ -0,0 +1,358 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { HiAcademicCap, HiCheckCircle, HiPlay, HiTrash } from 'react-icons/hi2';
+import { useAuth } from '../context/AuthContext';
+import { useSettings } from '../context/SettingsContext';
+import { useAppData } from '../context/AppDataContext';
+import { Sidebar } from '../components/home/Sidebar';
+import { examPlannerService } from '../services/examPlannerService';
+import type { ExamPlan, FolderStudyMaterial, PlannedTask } from '../services/examPlannerService';
+import { analyticsService } from '../services/analyticsService';
+import type { StudySession } from '../services/analyticsService';
+
+function toInputDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export const ExamPlannerPage: React.FC = () => {
+  const { user } = useAuth();
+  const { preferences } = useSettings();
+  const { allFolders } = useAppData();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const folderId = searchParams.get('folder');
+
+  const [plans, setPlans] = useState<ExamPlan[]>([]);
+  const [material, setMaterial] = useState<FolderStudyMaterial | null>(null);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [examDateInput, setExamDateInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const plan = plans.find((p) => p.folderId === folderId);
+  const planDate = plan ? toInputDate(plan.examDate) : '';
+  const folderName = (id: string) => allFolders.find((f) => f.id === id)?.name || 'Folder';
+
+  const loadPlans = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      setPlans(await examPlannerService.getExamPlans(user.id));
+    } catch (error) {
+      console.error('Error loading exam plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  const loadMaterial = useCallback(async (examPlan: ExamPlan) => {
+    if (!user || !folderId) return;
+
+    try {
+      const [folderMaterial, startedSessions] = await Promise.all([
+        examPlannerService.getFolderStudyMaterial(user.id, folderId, allFolders),
+        analyticsService.getStudySessions(user.id, examPlan.createdAt),
+      ]);
+      setMaterial(folderMaterial);
+      setSessions(startedSessions);
+    } catch (error) {
+      console.error('Error loading study material:', error);
+    }
+  }, [user, folderId, allFolders]);
+
+  useEffect(() => {
+    if (user) {
+      loadPlans();
+    }
+  }, [user, loadPlans]);
+
+  useEffect(() => {
+    setExamDateInput(planDate);
+  }, [folderId, planDate]);
+
+  useEffect(() => {
+    if (user && plan) {
+      loadMaterial(plan);
+    } else {
+      setMaterial(null);
+    }
+  }, [user, plan, loadMaterial]);
+
+  const studyPlan = useMemo(
+    () =>
+      material && plan
+        ? examPlannerService.buildStudyPlan(material, plan, sessions, {
+            scheduler: preferences.scheduler,
+            desiredRetention: preferences.desiredRetention,
+          })
+        : [],
+    [material, plan, sessions, preferences.scheduler, preferences.desiredRetention]
+  );
+
+  const handleSave = async () => {
+    if (!user || !folderId || !examDateInput) return;
+
+    const examDate = new Date(`${examDateInput}T00:00:00`);
+    if (examPlannerService.getDaysUntilExam(examDate) <= 0) {
+      toast.error('Pick an exam date after today');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await examPlannerService.saveExamPlan(user.id, folderId, examDate);
+      setPlans([...plans.filter((p) => p.folderId !== saved.folderId), saved]);
+      toast.success('Exam date saved');
+    } catch (error) {
+      console.error('Error saving exam date:', error);
+      toast.error('Failed to save exam date');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!user || !folderId) return;
+
+    setIsSaving(true);
+    try {
+      await examPlannerService.deleteExamPlan(user.id, folderId);
+      setPlans(plans.filter((p) => p.folderId !== folderId));
+    } catch (error) {
+      console.error('Error removing exam date:', error);
+      toast.error('Failed to remove exam date');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStartTask = async (task: PlannedTask) => {
+    if (!user) return;
+
+    try {
+      const session = await examPlannerService.startPlannedTask(user.id, task);
+      setSessions([...sessions, session]);
+    } catch (error) {
+      // Still open the note; the task just stays open in the plan
+      console.error('Error starting study session:', error);
+    }
+    navigate(`/note?id=${task.noteId}&mode=${task.type}`);
+  };
+
+  const daysLeft = plan ? examPlannerService.getDaysUntilExam(plan.examDate) : 0;
+  const totals = studyPlan.reduce(
+    (sum, day) => ({
+      newCards: sum.newCards + day.newCards,
+      reviews: sum.reviews + day.reviews,
+      tasks: sum.tasks + day.tasks.filter((task) => !task.done).length,
+    }),
+    { newCards: 0, reviews: 0, tasks: 0 }
+  );
+
+  return (
+    <div className="flex h-screen bg-[#1a1a1a]">
+      <Sidebar activePage="exam-planner" />
+      <div className="flex-1 flex flex-col overflow-y-auto">
+        {/* Header */}
+        <div className="bg-[#2a2a2a] px-8 py-4 border-b border-[#3a3a3a] sticky top-0 z-10">
+          <h1 className="text-2xl font-bold text-white">Exam Planner</h1>
+          <p className="text-[#9ca3af] mt-1">
+            Spread a folder's flashcards, quizzes and exercises over the days before its exam
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 p-8">
+          <div className="max-w-4xl mx-auto space-y-6">
+            {/* Exam date */}
+            <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+              <h2 className="text-xl font-bold text-white mb-4">Exam date</h2>
+              <div className="flex flex-col md:flex-row gap-3">
+                <select
+                  value={folderId || ''}
+                  onChange={(e) => setSearchParams(e.target.value ? { folder: e.target.value } : {})}
+                  className="flex-1 px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white"
+                >
+                  <option value="">Select a folder...</option>
+                  {allFolders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={examDateInput}
+                  min={toInputDate(new Date(Date.now() + 24 * 60 * 60 * 1000))}
+                  onChange={(e) => setExamDateInput(e.target.value)}
+                  disabled={!folderId}
+                  className="px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white disabled:opacity-50"
+                />
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={handleSave}
+                  disabled={!folderId || !examDateInput || isSaving}
+                  className="px-6 py-2 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </motion.button>
+                {plan && (
+                  <button
+                    onClick={handleRemove}
+                    disabled={isSaving}
+                    className="p-2 text-[#9ca3af] hover:text-[#ef4444] transition-colors"
+                    title="Remove exam date"
+                  >
+                    <HiTrash className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-[#6b7280] mt-3">
+                Until the exam, flashcard intervals of this folder are shortened so every card is reviewed before it.
+              </p>
+
+              {plans.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {plans.map((p) => (
+                    <button
+                      key={p.folderId}
+                      onClick={() => setSearchParams({ folder: p.folderId })}
+                      className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                        p.folderId === folderId
+                          ? 'bg-[#b85a3a] text-white'
+                          : 'bg-[#1a1a1a] text-[#9ca3af] hover:bg-[#3a3a3a]'
+                      }`}
+                    >
+                      {folderName(p.folderId)} · {p.examDate.toLocaleDateString()}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {loading && <div className="text-white text-center">Loading exam plans...</div>}
+
+            {plan && daysLeft <= 0 && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a] text-[#9ca3af] text-center">
+                {daysLeft === 0 ? 'The exam is today. Good luck!' : 'This exam is over. Set a new date to plan again.'}
+              </div>
+            )}
+
+            {plan && daysLeft > 0 && material && (
+              <>
+                {/* Summary */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                    <div className="text-[#9ca3af] text-sm mb-2">Days Left</div>
+                    <div className="text-3xl font-bold text-white">{daysLeft}</div>
+                  </div>
+                  <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                    <div className="text-[#9ca3af] text-sm mb-2">New Cards</div>
+                    <div className="text-3xl font-bold text-[#3b82f6]">{totals.newCards}</div>
+                  </div>
+                  <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                    <div className="text-[#9ca3af] text-sm mb-2">Reviews (est.)</div>
+                    <div className="text-3xl font-bold text-[#10b981]">{totals.reviews}</div>
+                  </div>
+                  <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                    <div className="text-[#9ca3af] text-sm mb-2">Quizzes & Exercises</div>
+                    <div className="text-3xl font-bold text-[#d4a944]">{totals.tasks}</div>
+                  </div>
+                </div>
+
+                {/* Daily plan */}
+                <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                  <h2 className="text-xl font-bold text-white mb-4">Daily plan</h2>
+                  <div className="space-y-3">
+                    {studyPlan.map((day, index) => {
+                      const hasFlashcards = day.newCards > 0 || day.reviews > 0;
+                      return (
+                        <div
+                          key={day.date}
+                          className={`rounded-lg p-4 border ${
+                            index === 0 ? 'bg-[#1a1a1a] border-[#b85a3a]' : 'bg-[#1a1a1a] border-[#3a3a3a]'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="text-white font-medium">
+                              {index === 0
+                                ? 'Today'
+                                : new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+                                    weekday: 'short',
+                                    month: 'short',
+                                    day: 'numeric',
+                                  })}
+                              {day.isReviewDay && (
+                                <span className="ml-2 text-xs px-2 py-0.5 rounded bg-[#3a3a3a] text-[#d4a944]">
+                                  Review day
+                                </span>
+                              )}
+                            </div>
+                            {index === 0 && hasFlashcards && (
+                              <button
+                                onClick={() => navigate(`/learn-flashcards?folder=${folderId}`)}
+                                className="px-3 py-1.5 bg-[#10b981] hover:bg-[#059669] rounded-lg text-white text-sm font-medium flex items-center gap-2 transition-colors"
+                              >
+                                <HiAcademicCap className="w-4 h-4" />
+                                Study flashcards
+                              </button>
+                            )}
+                          </div>
+                          {hasFlashcards && (
+                            <p className="text-sm text-[#9ca3af]">
+                              {day.newCards > 0 && `${day.newCards} new cards`}
+                              {day.newCards > 0 && day.reviews > 0 && ' · '}
+                              {day.reviews > 0 && `~${day.reviews} reviews`}
+                            </p>
+                          )}
+                          {day.tasks.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                              {day.tasks.map((task) => (
+                                <li key={`${task.type}-${task.noteId}`} className="flex items-center gap-2 text-sm">
+                                  {task.done ? (
+                                    <HiCheckCircle className="w-4 h-4 text-[#10b981] flex-shrink-0" />
+                                  ) : (
+                                    <span className="w-4 h-4 flex-shrink-0" />
+                                  )}
+                                  <span className={task.done ? 'text-[#6b7280] line-through' : 'text-white'}>
+                                    {task.type === 'quiz' ? 'Quiz' : 'Exercises'}: {task.title}
+                                  </span>
+                                  <span className="text-[#6b7280]">
+                                    ({task.count} {task.type === 'quiz' ? 'questions' : 'exercises'})
+                                  </span>
+                                  {index === 0 && !task.done && (
+                                    <button
+                                      onClick={() => handleStartTask(task)}
+                                      className="ml-auto p-1 text-[#9ca3af] hover:text-[#b85a3a] transition-colors"
+                                      title="Start"
+                                    >
+                                      <HiPlay className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {!hasFlashcards && day.tasks.length === 0 && (
+                            <p className="text-sm text-[#6b7280]">Nothing planned</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
+import { useSettings } from '../context/SettingsContext';
+import { useAppData } from '../context/AppDataContext';
 import { Sidebar } from '../components/home/Sidebar';
 import { flashcardsService } from '../services/flashcardsService';
 import { 
   spacedRepetitionService,
   type SpacedRepetitionCard 
 } from '../services/spacedRepetitionService';
-import { HiArrowLeft, HiClock, HiFire, HiCheckCircle, HiArrowDownTray } from 'react-icons/hi2';
+import { HiArrowLeft, HiClock, HiFire, HiCheckCircle, HiArrowDownTray, HiArrowUturnLeft, HiBugAnt, HiSparkles, HiPlay, HiArrowUpTray, HiCog6Tooth } from 'react-icons/hi2';
 import { exportService } from '../services/exportService';
+import { reviewLogService } from '../services/reviewLogService';
+import { openaiService } from '../services/openai';
+import { ankiPackageService } from '../services/ankiPackageService';
+import { deckOptionsService } from '../services/deckOptionsService';
+import { examPlannerService } from '../services/examPlannerService';
+import type { ExamPlan } from '../services/examPlannerService';
+import type { DeckOptions, StoredDeckOptions, StudiedToday } from '../services/deckOptionsService';
+import { DeckOptionsPanel } from '../components/shared/DeckOptionsPanel';
+import { noteService } from '../services/supabase';
+import { expandFlashcard, getGroupId, stripCloze } from '../services/cardTypeService';
+import { FlashcardFace } from '../components/shared/FlashcardFace';
 
-type FilterType = 'all' | 'due' | 'hard' | 'new';
+type FilterType = 'all' | 'due' | 'hard' | 'new' | 'leeches';
 
 export const LearnFlashcardsPage: React.FC = () => {
   const { user } = useAuth();
+  const { preferences } = useSettings();
+  const { allFolders, refreshData } = useAppData();
   const [searchParams] = useSearchParams();
   const folderId = searchParams.get('folder');
   const [flashcards, setFlashcards] = useState<SpacedRepetitionCard[]>([]);
@@ -23,21 +39,46 @@ export const LearnFlashcardsPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [currentCard, setCurrentCard] = useState(0);
   const [flipped, setFlipped] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
   const [view, setView] = useState<'selection' | 'learning' | 'results'>('selection');
   const [answers, setAnswers] = useState<{ cardId: string; correct: boolean }[]>([]);
   const [results, setResults] = useState<{ correct: number; incorrect: number; total: number } | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [rewritingCardId, setRewritingCardId] = useState<string | null>(null);
+  const [leechError, setLeechError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const cardShownAt = useRef(Date.now());
+  const [deckOptions, setDeckOptions] = useState<StoredDeckOptions[]>([]);
+  const [studiedToday, setStudiedToday] = useState<Map<string, StudiedToday>>(new Map());
+  const [showDeckOptions, setShowDeckOptions] = useState(false);
+  const [examPlans, setExamPlans] = useState<ExamPlan[]>([]);
 
-  useEffect(() => {
-    if (user) {
-      loadFlashcards();
-    }
-  }, [user, folderId]);
+  // Options of the deck being viewed (the folder, or the defaults for all cards)
+  const currentDeckOptions = useMemo(
+    () => deckOptionsService.resolveDeckOptions(folderId, deckOptions, allFolders),
+    [folderId, deckOptions, allFolders]
+  );
+
+  const getDeckOptions = useCallback(
+    (cardFolderId?: string): DeckOptions => deckOptionsService.resolveDeckOptions(cardFolderId, deckOptions, allFolders),
+    [deckOptions, allFolders]
+  );
 
+  // Folders with an exam plan may need more new cards a day than their deck options allow
+  const plannedNewCards = useMemo(
+    () => examPlannerService.getPlannedNewCardsPerDay(flashcards, examPlans, allFolders, studiedToday),
+    [flashcards, examPlans, allFolders, studiedToday]
+  );
+
+  // Time each answer from the moment its card is shown
   useEffect(() => {
-    applyFilter();
-  }, [flashcards, filter]);
+    cardShownAt.current = Date.now();
+    setTypedAnswer('');
+  }, [currentCard, view]);
 
-  const loadFlashcards = async () => {
+  const loadFlashcards = useCallback(async () => {
     if (!user) return;
     
     try {
@@ -51,32 +92,63 @@ export const LearnFlashcardsPage: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [user, folderId]);
+
+  const loadStudyLimits = useCallback(async () => {
+    if (!user) return;
 
-  const applyFilter = () => {
+    try {
+      const [limits, plans] = await Promise.all([
+        deckOptionsService.getStudyLimits(user.id),
+        examPlannerService.getExamPlans(user.id),
+      ]);
+      setDeckOptions(limits.deckOptions);
+      setStudiedToday(limits.studiedToday);
+      setExamPlans(plans);
+    } catch (error) {
+      console.error('Error loading deck options:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadFlashcards();
+      loadStudyLimits();
+    }
+  }, [user, loadFlashcards, loadStudyLimits]);
+
+  const applyFilter = useCallback(() => {
     let filtered: SpacedRepetitionCard[] = [];
 
     switch (filter) {
       case 'all':
-        filtered = [...flashcards];
+        filtered = spacedRepetitionService.getActiveCards(flashcards);
         break;
       case 'due':
-        filtered = spacedRepetitionService.getCardsDueForReview(flashcards);
-        break;
+        // Today's queue, limited by the deck options of each folder
+        setFilteredCards(deckOptionsService.buildDueQueue(flashcards, getDeckOptions, studiedToday, plannedNewCards));
+        return;
       case 'hard':
         filtered = spacedRepetitionService.getHardCards(flashcards);
         break;
       case 'new':
-        filtered = flashcards.filter(card => 
+        filtered = spacedRepetitionService.getActiveCards(flashcards).filter(card => 
           card.repetitions === 0 && !card.lastReviewed
         );
         break;
+      case 'leeches':
+        filtered = spacedRepetitionService.getLeechCards(flashcards);
+        break;
     }
 
     // Sort by priority (due soonest first)
     filtered = spacedRepetitionService.sortCardsByPriority(filtered);
     setFilteredCards(filtered);
-  };
+  }, [filter, flashcards, getDeckOptions, studiedToday, plannedNewCards]);
+
+  useEffect(() => {
+    applyFilter();
+  }, [applyFilter]);
 
   const handleStartLearning = () => {
     if (filteredCards.length === 0) return;
@@ -90,16 +162,15 @@ export const LearnFlashcardsPage: React.FC = () => {
     const card = filteredCards[currentCard];
     const quality = spacedRepetitionService.qualityFromResponse(isCorrect, difficulty);
     
-    // Calculate next review using SM-2 algorithm
-    const nextReview = spacedRepetitionService.calculateNextReview(card, quality);
-    
-    // Update the card
-    const updatedCard: SpacedRepetitionCard = {
-      ...card,
-      ...nextReview,
-      lastReviewed: new Date().toISOString(),
-      quality,
-    };
+    // Schedule the next review with the scheduler and leech settings chosen in settings
+    const updatedCard = spacedRepetitionService.reviewCard(card, quality, {
+      scheduler: preferences.scheduler,
+      desiredRetention: preferences.desiredRetention,
+      leechThreshold: preferences.leechThreshold,
+      leechAction: preferences.leechAction,
+      learningSteps: getDeckOptions(card.folderId).learningSteps,
+      examDate: examPlannerService.resolveExamDate(card.folderId, examPlans, allFolders),
+    });
     
     // Update local state
     const updatedCards = flashcards.map(c => 
@@ -121,6 +192,15 @@ export const LearnFlashcardsPage: React.FC = () => {
         console.error('Error saving flashcard:', error);
       }
     }
+
+    // Record the review so it can be undone and used for retention analytics
+    if (user) {
+      try {
+        await reviewLogService.logReview(user.id, card, updatedCard, quality, Date.now() - cardShownAt.current);
+      } catch (error) {
+        console.error('Error logging review:', error);
+      }
+    }
     
     if (currentCard < filteredCards.length - 1) {
       setFlipped(false);
@@ -135,6 +215,151 @@ export const LearnFlashcardsPage: React.FC = () => {
         total,
       });
       setView('results');
+      loadStudyLimits();
+    }
+  };
+
+  const handleUndo = async () => {
+    const lastAnswer = answers[answers.length - 1];
+    const card = lastAnswer && filteredCards.find(c => c.id === lastAnswer.cardId);
+    if (!user || !card || isUndoing) return;
+
+    setIsUndoing(true);
+    try {
+      const restoredCard = await reviewLogService.undoLastReview(user.id, card);
+      if (!restoredCard) return;
+
+      setFlashcards(flashcards.map(c => c.id === card.id ? restoredCard : c));
+      setFilteredCards(filteredCards.map(c => c.id === card.id ? restoredCard : c));
+      setAnswers(answers.slice(0, -1));
+      setCurrentCard(Math.max(0, filteredCards.findIndex(c => c.id === card.id)));
+      setFlipped(false);
+
+      if (restoredCard.noteId) {
+        await flashcardsService.saveFlashcard(restoredCard);
+      }
+    } catch (error) {
+      console.error('Error undoing review:', error);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const handleUnsuspend = async (card: SpacedRepetitionCard) => {
+    const updatedCard = spacedRepetitionService.unsuspendCard(card);
+    setFlashcards(flashcards.map(c => c.id === card.id && c.noteId === card.noteId ? updatedCard : c));
+
+    try {
+      await flashcardsService.saveFlashcard(updatedCard);
+    } catch (error) {
+      console.error('Error unsuspending flashcard:', error);
+    }
+  };
+
+  // Replace a leech (and its siblings) with simpler cards written by the AI from the note
+  const handleRewriteLeech = async (card: SpacedRepetitionCard) => {
+    if (!user || !card.noteId || rewritingCardId) return;
+
+    setRewritingCardId(card.id);
+    setLeechError(null);
+    try {
+      const note = await noteService.getNoteById(card.noteId, user.id);
+      const rewritten = await openaiService.rewriteLeechCard(card, note?.content || '');
+      if (rewritten.length === 0) {
+        setLeechError('The AI did not return any cards. Please try again.');
+        return;
+      }
+
+      const groupId = getGroupId(card);
+      const batchId = Date.now();
+      const newCards = rewritten.flatMap((rewrittenCard, idx) =>
+        expandFlashcard(
+          { id: `${groupId}-rw${batchId}-${idx}`, ...rewrittenCard },
+          card.noteId,
+          card.folderId
+        )
+      );
+
+      await flashcardsService.replaceCardGroup(card.noteId, groupId, newCards);
+      setFlashcards([
+        ...flashcards.filter(c => c.noteId !== card.noteId || getGroupId(c) !== groupId),
+        ...newCards,
+      ]);
+    } catch (error) {
+      console.error('Error rewriting leech:', error);
+      setLeechError(error instanceof Error ? error.message : 'Failed to rewrite flashcard');
+    } finally {
+      setRewritingCardId(null);
+    }
+  };
+
+  // Name of the folder (or defaults) the current deck inherits its options from
+  const getInheritedFrom = (): string | undefined => {
+    const seen = new Set<string>();
+    let parentId = allFolders.find(f => f.id === folderId)?.parentId ?? null;
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = allFolders.find(f => f.id === parentId);
+      if (deckOptions.some(o => o.folderId === parentId)) return `"${parent?.name || 'parent folder'}"`;
+      parentId = parent?.parentId ?? null;
+    }
+    return deckOptions.some(o => o.folderId === null) ? 'your default options' : undefined;
+  };
+
+  const handleSaveDeckOptions = async (options: DeckOptions) => {
+    if (!user) return;
+
+    try {
+      const saved = await deckOptionsService.saveDeckOptions(user.id, folderId, options);
+      setDeckOptions([...deckOptions.filter(o => o.folderId !== saved.folderId), saved]);
+      toast.success('Deck options saved');
+    } catch (error) {
+      console.error('Error saving deck options:', error);
+      toast.error('Failed to save deck options');
+    }
+  };
+
+  const handleResetDeckOptions = async () => {
+    if (!user || !folderId) return;
+
+    try {
+      await deckOptionsService.deleteDeckOptions(user.id, folderId);
+      setDeckOptions(deckOptions.filter(o => o.folderId !== folderId));
+    } catch (error) {
+      console.error('Error resetting deck options:', error);
+      toast.error('Failed to reset deck options');
+    }
+  };
+
+  const handleExportApkg = async () => {
+    setIsExporting(true);
+    try {
+      const folderName = folderId ? allFolders.find(f => f.id === folderId)?.name : undefined;
+      await exportService.exportToApkg(filteredCards, allFolders, folderName || 'flashcards');
+    } catch (error) {
+      console.error('Error exporting flashcards:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to export flashcards');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportAnki = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!user || !file) return;
+
+    setIsImporting(true);
+    try {
+      const result = await ankiPackageService.importAnkiPackage(user.id, file);
+      toast.success(`Imported ${result.cards} cards into ${result.notes} ${result.notes === 1 ? 'note' : 'notes'}`);
+      await refreshData();
+      await loadFlashcards();
+    } catch (error) {
+      console.error('Error importing Anki package:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import Anki package');
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -152,9 +377,18 @@ export const LearnFlashcardsPage: React.FC = () => {
   if (view === 'selection') {
     const stats = {
       total: flashcards.length,
-      due: spacedRepetitionService.getCardsDueForReview(flashcards).length,
+      due: deckOptionsService.buildDueQueue(flashcards, getDeckOptions, studiedToday, plannedNewCards).length,
+      allDue: spacedRepetitionService.getCardsDueForReview(flashcards).length,
       hard: spacedRepetitionService.getHardCards(flashcards).length,
-      new: flashcards.filter(c => c.repetitions === 0 && !c.lastReviewed).length,
+      new: spacedRepetitionService.getActiveCards(flashcards).filter(c => c.repetitions === 0 && !c.lastReviewed).length,
+      leeches: spacedRepetitionService.getLeechCards(flashcards).length,
+    };
+    const filterCounts: Record<FilterType, number> = {
+      due: stats.due,
+      hard: stats.hard,
+      new: stats.new,
+      leeches: stats.leeches,
+      all: spacedRepetitionService.getActiveCards(flashcards).length,
     };
 
     return (
@@ -184,6 +418,9 @@ export const LearnFlashcardsPage: React.FC = () => {
                 <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
                   <div className="text-[#9ca3af] text-sm mb-2">Due Now</div>
                   <div className="text-3xl font-bold text-[#10b981]">{stats.due}</div>
+                  {stats.allDue > stats.due && (
+                    <div className="text-xs text-[#6b7280] mt-1">{stats.allDue} due, limited by deck options</div>
+                  )}
                 </div>
                 <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
                   <div className="text-[#9ca3af] text-sm mb-2">Hard Cards</div>
@@ -195,11 +432,54 @@ export const LearnFlashcardsPage: React.FC = () => {
                 </div>
               </div>
 
+              {/* Import & Deck Options */}
+              <div className="flex justify-end gap-3">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => setShowDeckOptions(!showDeckOptions)}
+                  className={`px-4 py-2 border rounded-lg text-white text-sm font-medium transition-colors flex items-center gap-2 ${
+                    showDeckOptions ? 'bg-[#b85a3a] border-[#b85a3a]' : 'bg-[#2a2a2a] border-[#3a3a3a] hover:border-[#b85a3a]'
+                  }`}
+                >
+                  <HiCog6Tooth className="w-4 h-4" />
+                  Deck options
+                </motion.button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".apkg,.colpkg"
+                  onChange={handleImportAnki}
+                  className="hidden"
+                />
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="px-4 py-2 bg-[#2a2a2a] border border-[#3a3a3a] rounded-lg text-white text-sm font-medium hover:border-[#b85a3a] transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <HiArrowUpTray className="w-4 h-4" />
+                  {isImporting ? 'Importing...' : 'Import Anki deck (.apkg)'}
+                </motion.button>
+              </div>
+
+              {showDeckOptions && (
+                <DeckOptionsPanel
+                  title={folderId ? `Deck options: ${allFolders.find(f => f.id === folderId)?.name || 'Folder'}` : 'Default deck options'}
+                  options={currentDeckOptions}
+                  hasOwnOptions={deckOptions.some(o => o.folderId === (folderId ?? null))}
+                  inheritedFrom={getInheritedFrom()}
+                  onSave={handleSaveDeckOptions}
+                  onReset={folderId ? handleResetDeckOptions : undefined}
+                />
+              )}
+
               {/* Filter Buttons */}
               <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
                 <h2 className="text-xl font-bold text-white mb-4">Filter Cards</h2>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                  {(['due', 'hard', 'new', 'all'] as FilterType[]).map((f) => (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {(['due', 'hard', 'new', 'leeches', 'all'] as FilterType[]).map((f) => (
                     <motion.button
                       key={f}
                       whileHover={{ scale: 1.02 }}
@@ -214,7 +494,8 @@ export const LearnFlashcardsPage: React.FC = () => {
                       {f === 'due' && <HiClock className="inline w-5 h-5 mr-2" />}
                       {f === 'hard' && <HiFire className="inline w-5 h-5 mr-2" />}
                       {f === 'new' && <HiCheckCircle className="inline w-5 h-5 mr-2" />}
-                      {f.charAt(0).toUpperCase() + f.slice(1)} ({f === 'due' ? stats.due : f === 'hard' ? stats.hard : f === 'new' ? stats.new : stats.total})
+                      {f === 'leeches' && <HiBugAnt className="inline w-5 h-5 mr-2" />}
+                      {f.charAt(0).toUpperCase() + f.slice(1)} ({filterCounts[f]})
                     </motion.button>
                   ))}
                 </div>
@@ -235,19 +516,86 @@ export const LearnFlashcardsPage: React.FC = () => {
                   >
                     Start Learning ({filteredCards.length} cards)
                   </motion.button>
-                  <motion.button
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    onClick={() => exportService.exportToAnki(filteredCards, 'csv')}
-                    className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2"
-                    title="Export filtered cards to Anki"
-                  >
-                    <HiArrowDownTray className="w-5 h-5" />
-                    Export to Anki ({filteredCards.length} cards)
-                  </motion.button>
+                  <div className="flex items-center gap-3">
+                    <motion.button
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                      onClick={handleExportApkg}
+                      disabled={isExporting}
+                      className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2 disabled:opacity-50"
+                      title="Export filtered cards as an Anki deck, with folders and review progress"
+                    >
+                      <HiArrowDownTray className="w-5 h-5" />
+                      {isExporting ? 'Exporting...' : `Export to Anki (${filteredCards.length} cards)`}
+                    </motion.button>
+                    <button
+                      onClick={() => exportService.exportToAnki(filteredCards, 'csv')}
+                      className="px-4 py-3 text-sm text-[#9ca3af] hover:text-white transition-colors"
+                      title="Export filtered cards as CSV (text only)"
+                    >
+                      CSV
+                    </button>
+                  </div>
                 </motion.div>
               )}
 
+              {/* Leeches */}
+              {filter === 'leeches' && filteredCards.length > 0 && (
+                <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                  <h2 className="text-xl font-bold text-white mb-1">Leeches</h2>
+                  <p className="text-[#9ca3af] text-sm mb-4">
+                    Cards you keep forgetting. Rewrite them into simpler cards, or unsuspend them to keep reviewing as they are.
+                  </p>
+                  {leechError && (
+                    <div className="mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg">
+                      <p className="text-red-400 text-sm">{leechError}</p>
+                    </div>
+                  )}
+                  <div className="space-y-3">
+                    {filteredCards.map((card) => (
+                      <div
+                        key={`${card.noteId}-${card.id}`}
+                        className="p-4 bg-[#1a1a1a] rounded-lg border border-[#3a3a3a] flex items-start gap-4"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-white font-medium mb-1">
+                            {card.cardType === 'cloze' ? stripCloze(card.front) : card.front}
+                          </p>
+                          {card.back && <p className="text-[#9ca3af] text-sm mb-2">{card.back}</p>}
+                          <div className="flex gap-4 text-xs text-[#6b7280]">
+                            <span>Lapses: {card.lapses ?? 0}</span>
+                            {card.suspended && <span className="text-[#ef4444]">Suspended</span>}
+                          </div>
+                        </div>
+                        <div className="flex flex-col gap-2">
+                          <motion.button
+                            whileHover={{ scale: 1.02 }}
+                            whileTap={{ scale: 0.98 }}
+                            onClick={() => handleRewriteLeech(card)}
+                            disabled={!card.noteId || rewritingCardId !== null}
+                            className="px-3 py-2 bg-[#b85a3a] rounded-lg text-white text-sm font-medium hover:bg-[#a04a2a] transition-colors flex items-center gap-2 disabled:opacity-50"
+                          >
+                            <HiSparkles className="w-4 h-4" />
+                            {rewritingCardId === card.id ? 'Rewriting...' : 'Rewrite with AI'}
+                          </motion.button>
+                          {card.suspended && (
+                            <motion.button
+                              whileHover={{ scale: 1.02 }}
+                              whileTap={{ scale: 0.98 }}
+                              onClick={() => handleUnsuspend(card)}
+                              className="px-3 py-2 bg-[#3a3a3a] rounded-lg text-white text-sm font-medium hover:bg-[#4a4a4a] transition-colors flex items-center gap-2"
+                            >
+                              <HiPlay className="w-4 h-4" />
+                              Unsuspend
+                            </motion.button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {filteredCards.length === 0 && (
                 <div className="text-center py-12">
                   <p className="text-[#9ca3af] text-lg">No flashcards match your filter.</p>
@@ -311,9 +659,13 @@ export const LearnFlashcardsPage: React.FC = () => {
                   style={{ backfaceVisibility: 'hidden' }}
                 >
                   <div className="w-full h-full bg-[#2a2a2a] rounded-lg p-8 flex items-center justify-center border border-[#3a3a3a]">
-                    <p className="text-white text-2xl font-medium text-center">
-                      {card.front}
-                    </p>
+                    <FlashcardFace
+                      card={card}
+                      side="front"
+                      typedAnswer={typedAnswer}
+                      onTypedAnswerChange={setTypedAnswer}
+                      onSubmitTypedAnswer={() => setFlipped(true)}
+                    />
                   </div>
                 </div>
 
@@ -322,9 +674,9 @@ export const LearnFlashcardsPage: React.FC = () => {
                   style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}
                 >
                   <div className="w-full h-full bg-[#1a1a1a] rounded-lg p-8 flex items-center justify-center border border-[#b85a3a]">
-                    <p className="text-white text-xl leading-relaxed text-center" style={{ transform: 'rotateY(180deg)' }}>
-                      {card.back}
-                    </p>
+                    <div className="w-full" style={{ transform: 'rotateY(180deg)' }}>
+                      <FlashcardFace card={card} side="back" typedAnswer={typedAnswer} />
+                    </div>
                   </div>
                 </div>
               </motion.div>
@@ -376,8 +728,18 @@ export const LearnFlashcardsPage: React.FC = () => {
               </motion.div>
             )}
 
-            {/* Exit Button */}
-            <div className="mt-4 flex justify-center">
+            {/* Exit & Undo Buttons */}
+            <div className="mt-4 flex justify-center gap-2">
+              {answers.length > 0 && (
+                <button
+                  onClick={handleUndo}
+                  disabled={isUndoing}
+                  className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors flex items-center gap-2 disabled:opacity-30"
+                >
+                  <HiArrowUturnLeft className="w-4 h-4" />
+                  Undo
+                </button>
+              )}
               <button
                 onClick={() => setView('selection')}
                 className="px-6 py-2 text-[#9ca3af] hover:text-white transition-colors flex items-center gap-2"
@@ -0,0 +1,557 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { HiCheckCircle, HiClock, HiXCircle } from 'react-icons/hi2';
+import { useAuth } from '../context/AuthContext';
+import { useAppData } from '../context/AppDataContext';
+import { Sidebar } from '../components/home/Sidebar';
+import { QuizQuestionInput } from '../components/shared/QuizQuestionInput';
+import { mockExamService, DEFAULT_NOTE_WEIGHT } from '../services/mockExamService';
+import type { MockExamNote, MockExamQuestion, MockExamReport } from '../services/mockExamService';
+import { analyticsService } from '../services/analyticsService';
+import type { MockExamResult } from '../services/analyticsService';
+import { quizAnswerService } from '../services/quizAnswerService';
+import { openaiService } from '../services/openai';
+import {
+  createEmptyAnswer,
+  formatCorrectAnswer,
+  getQuestionType,
+  isAnswerComplete,
+  scoreAnswer,
+} from '../services/quizQuestionService';
+import type { QuizAnswer } from '../services/quizQuestionService';
+
+type Phase = 'setup' | 'exam' | 'report';
+
+interface GradedQuestion {
+  score: number;
+  feedback?: string;
+}
+
+function formatDuration(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export const MockExamPage: React.FC = () => {
+  const { user } = useAuth();
+  const { allFolders } = useAppData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const folderId = searchParams.get('folder');
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [notes, setNotes] = useState<MockExamNote[]>([]);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [questionCount, setQuestionCount] = useState(20);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(30);
+  const [pastResults, setPastResults] = useState<MockExamResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [exam, setExam] = useState<MockExamQuestion[]>([]);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [confirmSubmit, setConfirmSubmit] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const startedAtRef = useRef<Date | null>(null);
+  const submittingRef = useRef(false);
+
+  const [graded, setGraded] = useState<GradedQuestion[]>([]);
+  const [report, setReport] = useState<MockExamReport | null>(null);
+  const [timeTaken, setTimeTaken] = useState(0);
+
+  const availableQuestions = notes.reduce(
+    (sum, note) => sum + ((weights[note.id] ?? DEFAULT_NOTE_WEIGHT) > 0 ? note.questions.length : 0),
+    0
+  );
+  const allocation = mockExamService.allocateQuestions(notes, questionCount, weights);
+  const noteTitle = (id: string) => notes.find((n) => n.id === id)?.title || 'Note';
+
+  useEffect(() => {
+    if (user && folderId) {
+      loadFolder();
+    } else {
+      setNotes([]);
+      setPastResults([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, folderId, allFolders]);
+
+  const loadFolder = async () => {
+    if (!user || !folderId) return;
+
+    try {
+      setLoading(true);
+      const [folderNotes, results] = await Promise.all([
+        mockExamService.getFolderQuizQuestions(user.id, folderId, allFolders),
+        analyticsService.getMockExamResults(user.id, folderId),
+      ]);
+      setNotes(folderNotes);
+      setPastResults(results);
+      setWeights({});
+    } catch (error) {
+      console.error('Error loading folder questions:', error);
+      toast.error('Failed to load the questions of this folder');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = () => {
+    const built = mockExamService.buildMockExam(notes, questionCount, weights);
+    if (built.length === 0) return;
+
+    setExam(built);
+    setAnswers(built.map((item) => createEmptyAnswer(item.question)));
+    setCurrentIndex(0);
+    setConfirmSubmit(false);
+    setSecondsLeft(timeLimitMinutes > 0 ? timeLimitMinutes * 60 : null);
+    startedAtRef.current = new Date();
+    submittingRef.current = false;
+    setPhase('exam');
+  };
+
+  const handleSubmit = async () => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    setIsSubmitting(true);
+
+    const taken = startedAtRef.current
+      ? Math.floor((Date.now() - startedAtRef.current.getTime()) / 1000)
+      : 0;
+
+    // Unanswered questions score 0; short answers are graded by AI
+    const results: GradedQuestion[] = [];
+    for (let index = 0; index < exam.length; index++) {
+      const { question } = exam[index];
+      const answer = answers[index];
+      if (!isAnswerComplete(question, answer)) {
+        results.push({ score: 0 });
+        continue;
+      }
+
+      const score = scoreAnswer(question, answer);
+      if (score !== null) {
+        results.push({ score });
+        continue;
+      }
+
+      try {
+        results.push(await openaiService.gradeShortAnswer(question.question, question.modelAnswer || '', answer.text || ''));
+      } catch (error) {
+        console.error('Error grading answer:', error);
+        results.push({ score: 0, feedback: 'This answer could not be graded.' });
+      }
+    }
+
+    const examReport = mockExamService.gradeMockExam(exam, results.map((r) => r.score), notes);
+    setGraded(results);
+    setReport(examReport);
+    setTimeTaken(taken);
+    setIsSubmitting(false);
+    setPhase('report');
+
+    if (user) {
+      try {
+        const saved = await analyticsService.saveMockExamResult(user.id, {
+          folderId,
+          ...examReport,
+          timeLimitSeconds: timeLimitMinutes > 0 ? timeLimitMinutes * 60 : null,
+          timeTakenSeconds: taken,
+        });
+        setPastResults([saved, ...pastResults]);
+        await quizAnswerService.saveQuizAnswers(
+          user.id,
+          null,
+          null,
+          exam.map((item, index) => ({
+            question: item.question,
+            noteId: item.noteId,
+            answer: answers[index],
+            score: results[index].score,
+            feedback: results[index].feedback,
+          }))
+        );
+      } catch (error) {
+        console.error('Error saving mock exam result:', error);
+        toast.error('Failed to save the exam result');
+      }
+    }
+  };
+
+  // The timer submits the exam when time runs out
+  const submitRef = useRef(handleSubmit);
+  submitRef.current = handleSubmit;
+  const hasTimeLimit = phase === 'exam' && secondsLeft !== null;
+
+  useEffect(() => {
+    if (!hasTimeLimit) return;
+
+    const timer = setInterval(() => {
+      setSecondsLeft((seconds) => (seconds !== null ? Math.max(0, seconds - 1) : null));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [hasTimeLimit]);
+
+  useEffect(() => {
+    if (phase === 'exam' && secondsLeft === 0) {
+      submitRef.current();
+    }
+  }, [phase, secondsLeft]);
+
+  const unanswered = exam.filter((item, index) => !isAnswerComplete(item.question, answers[index] || {})).length;
+
+  if (phase === 'exam' && exam.length > 0) {
+    const item = exam[currentIndex];
+
+    return (
+      <div className="flex h-screen bg-[#1a1a1a]">
+        <Sidebar activePage="mock-exam" />
+        <div className="flex-1 flex flex-col overflow-y-auto">
+          {/* Header */}
+          <div className="bg-[#2a2a2a] px-8 py-4 border-b border-[#3a3a3a] sticky top-0 z-10 flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-white">Mock Exam</h1>
+              <p className="text-[#9ca3af] mt-1">
+                Question {currentIndex + 1} of {exam.length} · {exam.length - unanswered} answered
+              </p>
+            </div>
+            {secondsLeft !== null && (
+              <div
+                className={`flex items-center gap-2 text-2xl font-bold ${
+                  secondsLeft <= 60 ? 'text-[#ef4444]' : 'text-white'
+                }`}
+              >
+                <HiClock className="w-6 h-6" />
+                {formatDuration(secondsLeft)}
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 p-8">
+            <div className="max-w-3xl mx-auto space-y-6">
+              {/* Question navigator */}
+              <div className="flex flex-wrap gap-2">
+                {exam.map((examItem, index) => (
+                  <button
+                    key={`${examItem.noteId}-${examItem.question.id}`}
+                    onClick={() => setCurrentIndex(index)}
+                    className={`w-9 h-9 rounded-lg text-sm font-medium transition-colors ${
+                      index === currentIndex
+                        ? 'bg-[#b85a3a] text-white'
+                        : isAnswerComplete(examItem.question, answers[index] || {})
+                        ? 'bg-[#3a3a3a] text-white'
+                        : 'bg-[#2a2a2a] text-[#6b7280] border border-[#3a3a3a]'
+                    }`}
+                  >
+                    {index + 1}
+                  </button>
+                ))}
+              </div>
+
+              <div className="bg-[#2a2a2a] rounded-xl p-8 border border-[#3a3a3a]">
+                <p className="text-xs text-[#6b7280] mb-2">{noteTitle(item.noteId)}</p>
+                <h2 className="text-2xl font-bold text-white mb-6">
+                  {getQuestionType(item.question) === 'fill-blank' ? 'Fill in the blanks' : item.question.question}
+                </h2>
+                <QuizQuestionInput
+                  key={`${item.noteId}-${item.question.id}`}
+                  question={item.question}
+                  answer={answers[currentIndex]}
+                  onChange={(answer) => setAnswers(answers.map((a, index) => (index === currentIndex ? answer : a)))}
+                  showResult={false}
+                />
+              </div>
+
+              <div className="flex justify-between items-center">
+                <button
+                  onClick={() => setCurrentIndex(currentIndex - 1)}
+                  disabled={currentIndex === 0}
+                  className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Previous
+                </button>
+                <div className="flex gap-3">
+                  {currentIndex < exam.length - 1 && (
+                    <button
+                      onClick={() => setCurrentIndex(currentIndex + 1)}
+                      className="px-6 py-3 bg-[#3a3a3a] rounded-lg text-white font-medium hover:bg-[#4a4a4a] transition-colors"
+                    >
+                      Next
+                    </button>
+                  )}
+                  <button
+                    onClick={() => (unanswered > 0 && !confirmSubmit ? setConfirmSubmit(true) : handleSubmit())}
+                    disabled={isSubmitting}
+                    className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50"
+                  >
+                    {isSubmitting
+                      ? 'Grading...'
+                      : confirmSubmit && unanswered > 0
+                      ? `Submit with ${unanswered} unanswered`
+                      : 'Submit Exam'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'report' && report) {
+    return (
+      <div className="flex h-screen bg-[#1a1a1a]">
+        <Sidebar activePage="mock-exam" />
+        <div className="flex-1 flex flex-col overflow-y-auto">
+          <div className="bg-[#2a2a2a] px-8 py-4 border-b border-[#3a3a3a] sticky top-0 z-10">
+            <h1 className="text-2xl font-bold text-white">Mock Exam Report</h1>
+            <p className="text-[#9ca3af] mt-1">
+              {allFolders.find((f) => f.id === folderId)?.name || 'Folder'} · {new Date().toLocaleDateString()}
+            </p>
+          </div>
+
+          <div className="flex-1 p-8">
+            <div className="max-w-4xl mx-auto space-y-6">
+              {/* Summary */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                  <div className="text-[#9ca3af] text-sm mb-2">Score</div>
+                  <div className="text-3xl font-bold text-[#b85a3a]">{Math.round(report.scorePercentage)}%</div>
+                </div>
+                <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                  <div className="text-[#9ca3af] text-sm mb-2">Correct</div>
+                  <div className="text-3xl font-bold text-[#10b981]">
+                    {report.correctAnswers} / {report.totalQuestions}
+                  </div>
+                </div>
+                <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                  <div className="text-[#9ca3af] text-sm mb-2">Time</div>
+                  <div className="text-3xl font-bold text-white">{formatDuration(timeTaken)}</div>
+                </div>
+              </div>
+
+              {/* Per note */}
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <h2 className="text-xl font-bold text-white mb-4">By note</h2>
+                <div className="space-y-3">
+                  {report.byNote.map((entry) => (
+                    <div key={entry.noteId}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-white">{entry.title}</span>
+                        <span className="text-[#9ca3af]">
+                          {entry.correctAnswers}/{entry.totalQuestions} · {Math.round(entry.scorePercentage)}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-[#1a1a1a] rounded-full h-2">
+                        <div
+                          className="h-2 bg-gradient-to-r from-[#b85a3a] to-[#d4a944] rounded-full"
+                          style={{ width: `${Math.round(entry.scorePercentage)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Questions */}
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <h2 className="text-xl font-bold text-white mb-4">Questions</h2>
+                <div className="space-y-6">
+                  {exam.map((examItem, index) => {
+                    const result = graded[index];
+                    return (
+                      <div key={`${examItem.noteId}-${examItem.question.id}`} className="border-b border-[#3a3a3a] pb-6 last:border-0">
+                        <div className="flex items-start gap-2 mb-3">
+                          {result.score >= 1 ? (
+                            <HiCheckCircle className="w-5 h-5 text-[#10b981] flex-shrink-0 mt-0.5" />
+                          ) : (
+                            <HiXCircle
+                              className={`w-5 h-5 flex-shrink-0 mt-0.5 ${result.score > 0 ? 'text-[#d4a944]' : 'text-[#ef4444]'}`}
+                            />
+                          )}
+                          <div>
+                            <p className="text-white font-medium">
+                              {index + 1}. {examItem.question.question}
+                            </p>
+                            <p className="text-xs text-[#6b7280]">
+                              {noteTitle(examItem.noteId)} · {Math.round(result.score * 100)}%
+                            </p>
+                          </div>
+                        </div>
+                        <QuizQuestionInput
+                          question={examItem.question}
+                          answer={answers[index]}
+                          onChange={() => {}}
+                          showResult
+                        />
+                        {result.score < 1 && (
+                          <p className="text-sm text-[#9ca3af] mt-3">
+                            <span className="font-semibold text-white">Correct answer:</span>{' '}
+                            {formatCorrectAnswer(examItem.question)}
+                          </p>
+                        )}
+                        {result.feedback && <p className="text-sm text-[#9ca3af] mt-2">{result.feedback}</p>}
+                        {examItem.question.explanation && (
+                          <p className="text-sm text-[#9ca3af] mt-2">{examItem.question.explanation}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => setPhase('setup')}
+                className="w-full px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors"
+              >
+                New Mock Exam
+              </motion.button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen bg-[#1a1a1a]">
+      <Sidebar activePage="mock-exam" />
+      <div className="flex-1 flex flex-col overflow-y-auto">
+        {/* Header */}
+        <div className="bg-[#2a2a2a] px-8 py-4 border-b border-[#3a3a3a] sticky top-0 z-10">
+          <h1 className="text-2xl font-bold text-white">Mock Exam</h1>
+          <p className="text-[#9ca3af] mt-1">
+            A timed exam from the quiz questions of every note in a folder, graded when you submit
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 p-8">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+              <h2 className="text-xl font-bold text-white mb-4">Exam settings</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <select
+                  value={folderId || ''}
+                  onChange={(e) => setSearchParams(e.target.value ? { folder: e.target.value } : {})}
+                  className="px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white"
+                >
+                  <option value="">Select a folder...</option>
+                  {allFolders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-[#9ca3af]">
+                  Questions
+                  <input
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={questionCount}
+                    onChange={(e) => setQuestionCount(Math.max(1, Number(e.target.value) || 1))}
+                    className="flex-1 px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-[#9ca3af]">
+                  Minutes
+                  <input
+                    type="number"
+                    min={0}
+                    max={600}
+                    value={timeLimitMinutes}
+                    onChange={(e) => setTimeLimitMinutes(Math.max(0, Number(e.target.value) || 0))}
+                    className="flex-1 px-4 py-2 bg-[#1a1a1a] border border-[#3a3a3a] rounded-lg text-white"
+                    title="0 = no time limit"
+                  />
+                </label>
+              </div>
+              <p className="text-xs text-[#6b7280] mt-3">
+                Includes the notes of all subfolders. Set minutes to 0 for no time limit. You see which answers
+                were right only after submitting.
+              </p>
+            </div>
+
+            {loading && <div className="text-white text-center">Loading questions...</div>}
+
+            {folderId && !loading && notes.some((note) => note.questions.length > 0) && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <h2 className="text-xl font-bold text-white mb-1">Weight per note</h2>
+                <p className="text-sm text-[#9ca3af] mb-4">
+                  Notes with a higher weight get more questions. Weight 0 leaves a note out.
+                </p>
+                <div className="space-y-3">
+                  {notes.map((note) => (
+                    <div key={note.id} className="flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white truncate">{note.title}</p>
+                        <p className="text-xs text-[#6b7280]">
+                          {note.questions.length} questions · {allocation[note.id] || 0} in the exam
+                        </p>
+                      </div>
+                      <input
+                        type="range"
+                        min={0}
+                        max={5}
+                        value={weights[note.id] ?? DEFAULT_NOTE_WEIGHT}
+                        onChange={(e) => setWeights({ ...weights, [note.id]: Number(e.target.value) })}
+                        disabled={note.questions.length === 0}
+                        className="w-40 accent-[#b85a3a]"
+                      />
+                      <span className="w-6 text-right text-white">{weights[note.id] ?? DEFAULT_NOTE_WEIGHT}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between mt-6">
+                  <p className="text-sm text-[#9ca3af]">
+                    {Math.min(questionCount, availableQuestions)} of {availableQuestions} available questions
+                  </p>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={handleStart}
+                    disabled={availableQuestions === 0}
+                    className="px-6 py-3 bg-[#b85a3a] rounded-lg text-white font-medium hover:bg-[#a04a2a] transition-colors disabled:opacity-50"
+                  >
+                    Start Exam
+                  </motion.button>
+                </div>
+              </div>
+            )}
+
+            {folderId && !loading && notes.every((note) => note.questions.length === 0) && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a] text-[#9ca3af] text-center">
+                The notes of this folder have no quiz questions yet. Create them in the Quiz tab of each note.
+              </div>
+            )}
+
+            {pastResults.length > 0 && (
+              <div className="bg-[#2a2a2a] rounded-xl p-6 border border-[#3a3a3a]">
+                <h2 className="text-xl font-bold text-white mb-4">Past mock exams</h2>
+                <div className="space-y-2">
+                  {pastResults.map((result) => (
+                    <div key={result.id} className="flex items-center justify-between p-3 bg-[#1a1a1a] rounded-lg">
+                      <span className="text-white">{result.completedAt.toLocaleDateString()}</span>
+                      <span className="text-sm text-[#9ca3af]">
+                        {result.correctAnswers}/{result.totalQuestions} correct
+                        {result.timeTakenSeconds !== null && ` · ${formatDuration(result.timeTakenSeconds)}`}
+                      </span>
+                      <span className="font-bold text-[#b85a3a]">{Math.round(result.scorePercentage)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import { IoStop, IoMic, IoArrowBack } from 'react-icons/io5';
 import { useAppData } from '../context/AppDataContext';
 import { useAuth } from '../context/AuthContext';
 import toast from 'react-hot-toast';
+import { AUDIO_BITS_PER_SECOND, AUDIO_CONSTRAINTS, getSupportedAudioMimeType } from '../hooks/useAudioRecorder';
 
 const MAX_RECORDING_DURATION = 7200; // 2 hours in seconds
 
@@ -89,16 +90,7 @@ export const RecordAudioPage: React.FC = () => {
 
       // Request microphone with constraints optimized for long recordings
       // Note: Some browsers have autostop features, but these shouldn't trigger for active recordings
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          // Explicitly request sample rate and channel count for compatibility
-          sampleRate: 48000,
-          channelCount: 1, // Mono is fine for voice and reduces file size
-        } 
-      });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: AUDIO_CONSTRAINTS });
       
       // Log stream info for debugging
       stream.getAudioTracks().forEach(track => {
@@ -113,27 +105,14 @@ export const RecordAudioPage: React.FC = () => {
       streamRef.current = stream;
 
       // Find the best supported MIME type for long recordings
-      const mimeTypes = [
-        'audio/webm;codecs=opus',
-        'audio/webm',
-        'audio/ogg;codecs=opus',
-        'audio/mp4',
-      ];
-      
-      let selectedMimeType = '';
-      for (const mimeType of mimeTypes) {
-        if (MediaRecorder.isTypeSupported(mimeType)) {
-          selectedMimeType = mimeType;
-          break;
-        }
-      }
+      const selectedMimeType = getSupportedAudioMimeType();
 
       // Use lower bitrate for longer recordings to reduce file size
       // 96kbps is still good quality for speech and reduces file size significantly
       // IMPORTANT: No silence detection - record continuously regardless of speech pauses
       const options: MediaRecorderOptions = {
         mimeType: selectedMimeType || undefined,
-        audioBitsPerSecond: 96000, // Reduced from 128kbps to reduce file size for long recordings
+        audioBitsPerSecond: AUDIO_BITS_PER_SECOND, // Reduced from 128kbps to reduce file size for long recordings
         // Explicitly ensure no auto-stop on silence
         // MediaRecorder doesn't have silence detection built-in, but we ensure continuous recording
       };
@@ -263,8 +242,8 @@ export const RecordAudioPage: React.FC = () => {
           // Calculate expected blob size based on recording duration
           // At 96kbps, expected size = (bitrate * duration_in_seconds) / 8
           // Add 20% overhead for container format
-          const expectedMinSize = (96000 * seconds) / 8 * 0.8; // 80% of expected as minimum
-          const expectedMaxSize = (96000 * seconds) / 8 * 1.5; // 150% of expected as maximum
+          const expectedMinSize = (AUDIO_BITS_PER_SECOND * seconds) / 8 * 0.8; // 80% of expected as minimum
+          const expectedMaxSize = (AUDIO_BITS_PER_SECOND * seconds) / 8 * 1.5; // 150% of expected as maximum
           
           // Log chunk collection info
           const totalChunkSize = chunksRef.current.reduce((sum, chunk) => sum + chunk.size, 0);
@@ -420,7 +399,7 @@ export const RecordAudioPage: React.FC = () => {
         const currentChunks = chunksRef.current.length;
         const currentSize = chunksRef.current.reduce((sum, c) => sum + c.size, 0);
         const expectedChunks = seconds;
-        const expectedSize = (96000 * seconds) / 8;
+        const expectedSize = (AUDIO_BITS_PER_SECOND * seconds) / 8;
         
         // Log diagnostic info every 10 seconds
         if (seconds > 0 && seconds % 10 === 0) {
@@ -487,7 +466,7 @@ export const RecordAudioPage: React.FC = () => {
           const totalChunks = chunksRef.current.length;
           const totalSize = chunksRef.current.reduce((sum, c) => sum + c.size, 0);
           const expectedChunks = Math.floor(seconds);
-          const expectedSize = (96000 * seconds) / 8;
+          const expectedSize = (AUDIO_BITS_PER_SECOND * seconds) / 8;
           
           console.log(`[Health Check #${healthCheckCount}] State: ${currentState}, Seconds: ${seconds}, Chunks: ${totalChunks} (expected: ~${expectedChunks}), Size: ${totalSize} bytes (expected: ~${Math.round(expectedSize)} bytes)`);
           
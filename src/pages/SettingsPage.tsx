@@ -8,6 +8,7 @@ import { HiUser, HiKey, HiMoon, HiSun, HiAcademicCap, HiPaintBrush } from 'react
 import { HiLogout } from 'react-icons/hi';
 import type { StudyMode } from '../types';
 import { requestNotificationPermission, isNotificationPermissionGranted } from '../utils/notificationUtils';
+import { AI_MODEL_OPTIONS } from '../services/aiGateway';
 
 // Predefined accent color palette
 const ACCENT_COLORS = [
@@ -218,6 +219,51 @@ export const SettingsPage: React.FC = () => {
                   </select>
                   <p className="text-xs text-text-tertiary">Controls how thorough AI summaries are. Longer summaries cost more; choose Concise for cheaper/faster output.</p>
                 </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-text-secondary">Flashcard scheduler</label>
+                  <select
+                    value={localPreferences.scheduler || 'sm2'}
+                    onChange={(e) => handlePreferenceChange('scheduler', e.target.value as 'sm2' | 'fsrs')}
+                    className="w-full px-3 py-2 bg-bg-primary border border-border-primary rounded-lg text-text-primary text-sm transition-all focus:outline-none focus:border-accent focus:ring-2 focus:ring-accent/20"
+                  >
+                    <option value="sm2">SM-2 (default)</option>
+                    <option value="fsrs">FSRS</option>
+                  </select>
+                  <p className="text-xs text-text-tertiary">SM-2 grows intervals with a per-card ease factor. FSRS models how well you remember each card and schedules reviews to hit your target retention. Switching keeps your review history.</p>
+                </div>
+
+                {(localPreferences.scheduler || 'sm2') === 'fsrs' && (
+                  <NumberSlider
+                    label="Target retention"
+                    value={Math.round((localPreferences.desiredRetention || 0.9) * 100)}
+                    onChange={(value) => handlePreferenceChange('desiredRetention', value / 100)}
+                    min={70}
+                    max={97}
+                    unit="%"
+                  />
+                )}
+
+                <NumberSlider
+                  label="Leech threshold (lapses)"
+                  value={localPreferences.leechThreshold || 8}
+                  onChange={(value) => handlePreferenceChange('leechThreshold', value)}
+                  min={2}
+                  max={20}
+                />
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-text-secondary">When a card becomes a leech</label>
+                  <select
+                    value={localPreferences.leechAction || 'suspend'}
+                    onChange={(e) => handlePreferenceChange('leechAction', e.target.value as 'suspend' | 'tag')}
+                    className="w-full px-3 py-2 bg-bg-primary border border-border-primary rounded-lg text-text-primary text-sm transition-all focus:outline-none focus:border-accent focus:ring-2 focus:ring-accent/20"
+                  >
+                    <option value="suspend">Suspend it (default)</option>
+                    <option value="tag">Only tag it as a leech</option>
+                  </select>
+                  <p className="text-xs text-text-tertiary">A card you keep forgetting after learning it is a leech. Suspended leeches leave your reviews until you rewrite or unsuspend them in Learn Flashcards.</p>
+                </div>
               </div>
             </div>
 
@@ -461,7 +507,7 @@ export const SettingsPage: React.FC = () => {
                   </p>
                 </div>
 
-                {/* AI Model (Future-proofing placeholder) */}
+                {/* AI Model */}
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-text-secondary">
                     AI Model
@@ -469,13 +515,14 @@ export const SettingsPage: React.FC = () => {
                   <select
                     value={localPreferences.aiModel || ''}
                     onChange={(e) => handlePreferenceChange('aiModel', e.target.value)}
-                    className="w-full px-3 py-2 bg-bg-primary border border-border-primary rounded-lg text-text-primary text-sm transition-all focus:outline-none focus:border-accent focus:ring-2 focus:ring-accent/20 opacity-60"
-                    disabled
+                    className="w-full px-3 py-2 bg-bg-primary border border-border-primary rounded-lg text-text-primary text-sm transition-all focus:outline-none focus:border-accent focus:ring-2 focus:ring-accent/20"
                   >
-                    <option value="">Default</option>
+                    {AI_MODEL_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
                   </select>
                   <p className="text-xs text-text-tertiary">
-                    Model selection coming soon.
+                    Used for summaries, flashcards, quizzes and chat. Models from a provider the server is not set up for use the default instead.
                   </p>
                 </div>
               </div>
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  answersToObservations,
+  computeTopicMastery,
+  getTargetDifficulty,
+  isMastered,
+  pickNextQuestion,
+} from './adaptiveQuizService';
+import type { MasteryObservation, TopicMastery } from './adaptiveQuizService';
+import type { QuestionDifficulty, QuizQuestion } from '../types';
+import type { QuizAnswerEntry } from './quizAnswerService';
+
+const NOW = new Date('2026-06-10T12:00:00Z');
+
+function answer(topic: string, score: number, minutesAgo: number, difficulty?: QuestionDifficulty): MasteryObservation {
+  return { topic, score, difficulty, answeredAt: new Date(NOW.getTime() - minutesAgo * 60 * 1000) };
+}
+
+function question(id: string, topic?: string, difficulty?: QuestionDifficulty): QuizQuestion {
+  return { id, question: id, options: ['A', 'B'], correct: 0, topic, difficulty };
+}
+
+function masteryOf(observations: MasteryObservation[], topic = 'Cells'): number {
+  return computeTopicMastery(observations, [topic])[0].mastery;
+}
+
+describe('computeTopicMastery', () => {
+  it('starts every topic at the neutral prior', () => {
+    expect(computeTopicMastery([], ['Cells', 'Genes'])).toEqual([
+      { topic: 'Cells', mastery: 0.5, attempts: 0 },
+      { topic: 'Genes', mastery: 0.5, attempts: 0 },
+    ]);
+  });
+
+  it('weighs the prior as two answers', () => {
+    expect(masteryOf([answer('Cells', 1, 1)])).toBeCloseTo(2 / 3, 10);
+    expect(masteryOf([answer('Cells', 0, 1)])).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('weighs recent answers more than older ones', () => {
+    const improved = masteryOf([answer('Cells', 0, 10), answer('Cells', 1, 1)]);
+    const declined = masteryOf([answer('Cells', 1, 10), answer('Cells', 0, 1)]);
+    expect(improved).toBeGreaterThan(declined);
+    expect(improved).toBeCloseTo(2 / 3.85, 10);
+  });
+
+  it('weighs harder questions more', () => {
+    const hard = masteryOf([answer('Cells', 1, 1, 'hard')]);
+    const medium = masteryOf([answer('Cells', 1, 1, 'medium')]);
+    const easy = masteryOf([answer('Cells', 1, 1, 'easy')]);
+    expect(hard).toBeGreaterThan(medium);
+    expect(medium).toBeGreaterThan(easy);
+    expect(hard).toBeCloseTo(2.25 / 3.25, 10);
+  });
+
+  it('keeps scores between 0 and 1 and ignores topics it was not asked about', () => {
+    expect(masteryOf([answer('Cells', 3, 1), answer('Genes', 0, 2)])).toBeCloseTo(2 / 3, 10);
+  });
+
+  it('lists the weakest topic first, then the one with fewer answers', () => {
+    const masteries = computeTopicMastery(
+      [answer('Cells', 1, 1), answer('Genes', 0, 1), answer('Atoms', 1, 3), answer('Atoms', 0, 2)],
+      ['Cells', 'Genes', 'Atoms', 'Stars']
+    );
+    expect(masteries.map((entry) => [entry.topic, entry.attempts])).toEqual([
+      ['Genes', 1],
+      ['Atoms', 2],
+      ['Stars', 0],
+      ['Cells', 1],
+    ]);
+  });
+});
+
+describe('isMastered', () => {
+  it('needs four right answers in a row on a new topic', () => {
+    const rightAnswers = (count: number) => Array.from({ length: count }, (_, index) => answer('Cells', 1, index));
+    expect(isMastered(computeTopicMastery(rightAnswers(3), ['Cells']))).toBe(false);
+    expect(isMastered(computeTopicMastery(rightAnswers(4), ['Cells']))).toBe(true);
+  });
+
+  it('needs every topic at the threshold', () => {
+    const masteries: TopicMastery[] = [
+      { topic: 'Cells', mastery: 0.9, attempts: 5 },
+      { topic: 'Genes', mastery: 0.79, attempts: 5 },
+    ];
+    expect(isMastered(masteries)).toBe(false);
+    expect(isMastered(masteries, 0.75)).toBe(true);
+    expect(isMastered([])).toBe(false);
+  });
+});
+
+describe('getTargetDifficulty', () => {
+  it('asks harder questions as mastery grows', () => {
+    expect([0.3, 0.5, 0.69, 0.7].map(getTargetDifficulty)).toEqual(['easy', 'medium', 'medium', 'hard']);
+  });
+});
+
+describe('answersToObservations', () => {
+  it('uses the current topic of a question over the one it was asked with', () => {
+    const asked = question('q1', 'Old topic', 'easy');
+    const entry = { questionId: 'q1', question: asked, score: 1, answeredAt: NOW } as QuizAnswerEntry;
+    const deleted = { questionId: 'gone', question: question('gone'), score: 0, answeredAt: NOW } as QuizAnswerEntry;
+
+    expect(answersToObservations([entry, deleted], [question('q1', 'Cells', 'hard')])).toEqual([
+      { topic: 'Cells', difficulty: 'hard', score: 1, answeredAt: NOW },
+      { topic: 'General', difficulty: undefined, score: 0, answeredAt: NOW },
+    ]);
+  });
+});
+
+describe('pickNextQuestion', () => {
+  const questions = [
+    question('cells-easy', 'Cells', 'easy'),
+    question('cells-hard', 'Cells', 'hard'),
+    question('genes-medium', 'Genes', 'medium'),
+  ];
+  const masteries: TopicMastery[] = [
+    { topic: 'Genes', mastery: 0.3, attempts: 2 },
+    { topic: 'Cells', mastery: 0.75, attempts: 4 },
+    { topic: 'Atoms', mastery: 0.9, attempts: 6 },
+  ];
+
+  it('asks about the weakest topic, as close as possible to the difficulty that suits it', () => {
+    expect(pickNextQuestion(questions, masteries, [], { canGenerate: false })).toEqual({
+      topic: 'Genes',
+      difficulty: 'easy',
+      question: questions[2],
+    });
+    expect(pickNextQuestion(questions, masteries, ['genes-medium'], { canGenerate: false })).toEqual({
+      topic: 'Cells',
+      difficulty: 'hard',
+      question: questions[1],
+    });
+  });
+
+  it('asks for a generated question when the weakest topic has none left', () => {
+    expect(pickNextQuestion(questions, masteries, ['genes-medium'], { canGenerate: true })).toEqual({
+      topic: 'Genes',
+      difficulty: 'easy',
+      question: null,
+    });
+  });
+
+  it('stops when every topic is mastered or out of questions', () => {
+    const asked = questions.map((q) => q.id);
+    expect(pickNextQuestion(questions, masteries, asked, { canGenerate: false })).toBeNull();
+    expect(pickNextQuestion(questions, masteries, [], { canGenerate: true, threshold: 0.2 })).toBeNull();
+  });
+});
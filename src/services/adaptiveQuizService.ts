@@ -0,0 +1,161 @@
+/**
+ * Adaptive Quiz Service
+ * Estimates how well a student masters each topic of a note from their stored quiz answers
+ * and picks the next question for the weakest topic. The estimate is a weighted average of
+ * answer scores that starts from a neutral prior, so a topic needs several right answers
+ * before it counts as mastered. Recent answers and harder questions weigh more.
+ */
+
+import type { QuestionDifficulty, QuizQuestion } from '../types';
+import type { QuizAnswerEntry } from './quizAnswerService';
+
+export const DEFAULT_TOPIC = 'General';
+export const MASTERY_THRESHOLD = 0.8;
+export const MAX_ADAPTIVE_QUESTIONS = 20;
+
+const PRIOR_SCORE = 0.5; // Mastery of a topic without any answers
+const PRIOR_WEIGHT = 2; // How many answers the prior is worth
+const RECENCY_DECAY = 0.85; // Weight of an answer relative to the next newer one on the same topic
+const DIFFICULTY_WEIGHTS: Record<QuestionDifficulty, number> = { easy: 0.75, medium: 1, hard: 1.25 };
+const DIFFICULTY_RANK: Record<QuestionDifficulty, number> = { easy: 0, medium: 1, hard: 2 };
+
+export interface MasteryObservation {
+  topic: string;
+  difficulty?: QuestionDifficulty;
+  score: number; // 0-1
+  answeredAt: Date;
+}
+
+export interface TopicMastery {
+  topic: string;
+  mastery: number; // 0-1
+  attempts: number;
+}
+
+export interface AdaptivePick {
+  topic: string;
+  difficulty: QuestionDifficulty;
+  question: QuizQuestion | null; // null: no unasked question fits, generate one
+}
+
+export function getQuestionTopic(question: Pick<QuizQuestion, 'topic'>): string {
+  return question.topic?.trim() || DEFAULT_TOPIC;
+}
+
+/**
+ * Topics of a question bank, in the order they first appear
+ */
+export function getTopics(questions: QuizQuestion[]): string[] {
+  return Array.from(new Set(questions.map(getQuestionTopic)));
+}
+
+/**
+ * Observations from stored answers. The topic of the question as it is now takes
+ * precedence, so re-tagging a question also moves its history.
+ */
+export function answersToObservations(entries: QuizAnswerEntry[], questions: QuizQuestion[]): MasteryObservation[] {
+  const byId = new Map(questions.map((question) => [question.id, question]));
+
+  return entries.map((entry) => {
+    const question = byId.get(entry.questionId) ?? entry.question;
+    return {
+      topic: getQuestionTopic(question),
+      difficulty: question.difficulty,
+      score: entry.score,
+      answeredAt: entry.answeredAt,
+    };
+  });
+}
+
+/**
+ * Mastery estimate per topic, weakest first. Topics without answers are included at the prior.
+ */
+export function computeTopicMastery(observations: MasteryObservation[], topics: string[]): TopicMastery[] {
+  const byTopic = new Map<string, MasteryObservation[]>(topics.map((topic) => [topic, []]));
+  for (const observation of observations) {
+    const list = byTopic.get(observation.topic);
+    if (list) list.push(observation);
+  }
+
+  return Array.from(byTopic.entries())
+    .map(([topic, list]) => {
+      const newestFirst = [...list].sort((a, b) => b.answeredAt.getTime() - a.answeredAt.getTime());
+      let weightedScore = PRIOR_SCORE * PRIOR_WEIGHT;
+      let totalWeight = PRIOR_WEIGHT;
+
+      newestFirst.forEach((observation, index) => {
+        const weight = Math.pow(RECENCY_DECAY, index) * DIFFICULTY_WEIGHTS[observation.difficulty ?? 'medium'];
+        weightedScore += weight * Math.min(1, Math.max(0, observation.score));
+        totalWeight += weight;
+      });
+
+      return { topic, mastery: weightedScore / totalWeight, attempts: list.length };
+    })
+    .sort((a, b) => a.mastery - b.mastery || a.attempts - b.attempts);
+}
+
+/**
+ * Overall mastery: the average over all topics
+ */
+export function getOverallMastery(masteries: TopicMastery[]): number {
+  if (masteries.length === 0) return 0;
+  return masteries.reduce((sum, entry) => sum + entry.mastery, 0) / masteries.length;
+}
+
+export function isMastered(masteries: TopicMastery[], threshold: number = MASTERY_THRESHOLD): boolean {
+  return masteries.length > 0 && masteries.every((entry) => entry.mastery >= threshold);
+}
+
+/**
+ * Question difficulty that suits a mastery level
+ */
+export function getTargetDifficulty(mastery: number): QuestionDifficulty {
+  if (mastery < 0.5) return 'easy';
+  if (mastery < 0.7) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Choose the next question: an unasked question of the weakest topic that is not yet
+ * mastered, as close as possible to the difficulty that suits it. When that topic has no
+ * unasked questions left, the pick has no question so one can be generated; without
+ * generation the next weakest topic is tried. Returns null when nothing is left to ask.
+ */
+export function pickNextQuestion(
+  questions: QuizQuestion[],
+  masteries: TopicMastery[],
+  askedIds: string[],
+  options: { canGenerate: boolean; threshold?: number }
+): AdaptivePick | null {
+  const threshold = options.threshold ?? MASTERY_THRESHOLD;
+  const unasked = questions.filter((question) => !askedIds.includes(question.id));
+
+  for (const entry of masteries) {
+    if (entry.mastery >= threshold) continue;
+
+    const difficulty = getTargetDifficulty(entry.mastery);
+    const candidates = unasked
+      .filter((question) => getQuestionTopic(question) === entry.topic)
+      .sort(
+        (a, b) =>
+          Math.abs(DIFFICULTY_RANK[a.difficulty ?? 'medium'] - DIFFICULTY_RANK[difficulty]) -
+          Math.abs(DIFFICULTY_RANK[b.difficulty ?? 'medium'] - DIFFICULTY_RANK[difficulty])
+      );
+
+    if (candidates.length > 0) return { topic: entry.topic, difficulty, question: candidates[0] };
+    if (options.canGenerate) return { topic: entry.topic, difficulty, question: null };
+  }
+
+  return null;
+}
+
+export const adaptiveQuizService = {
+  getQuestionTopic,
+  getTopics,
+  answersToObservations,
+  computeTopicMastery,
+  getOverallMastery,
+  isMastered,
+  getTargetDifficulty,
+  pickNextQuestion,
+};
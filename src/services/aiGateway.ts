@@ -94,17 +94,117 @@ export async function checkRateLimit(userId: string, userEmail?: string): Promis
   }
 }
 
+/**
+ * Models that can be chosen in the settings. Ids are "provider:model"; the edge function
+ * falls back to its default provider when the chosen one is not configured. `vision`: the
+ * model also reads images.
+ */
+export const AI_MODEL_OPTIONS: Array<{ id: string; label: string; vision: boolean }> = [
+  { id: '', label: 'Default', vision: true },
+  { id: 'openai:gpt-4o-mini', label: 'OpenAI GPT-4o mini', vision: true },
+  { id: 'openai:gpt-4o', label: 'OpenAI GPT-4o', vision: true },
+  { id: 'azure:gpt-4o-mini', label: 'Azure OpenAI GPT-4o mini', vision: true },
+  { id: 'anthropic:claude-3-5-haiku-latest', label: 'Anthropic Claude 3.5 Haiku', vision: false },
+  { id: 'anthropic:claude-3-7-sonnet-latest', label: 'Anthropic Claude 3.7 Sonnet', vision: true },
+  { id: 'local:', label: 'Local model (Ollama, llama.cpp)', vision: false },
+  ...(import.meta.env.DEV ? [{ id: 'mock:', label: 'Mock (offline)', vision: true }] : []),
+];
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_VISION_MODEL = 'gpt-4o';
+
+// Model from the user's preferences; used by calls that do not ask for a model themselves
+let preferredModel = '';
+
+export function setPreferredModel(model: string | undefined): void {
+  preferredModel = model || '';
+}
+
+/**
+ * Model a request is sent with: the one the caller asks for, else the user's preferred
+ * model, else the default
+ */
+export function resolveModel(model?: string): string {
+  return model || preferredModel || DEFAULT_CHAT_MODEL;
+}
+
+/**
+ * Model an image is analysed with: the user's preferred model if it reads images, else the
+ * vision default
+ */
+function resolveVisionModel(): string {
+  const preferred = AI_MODEL_OPTIONS.find((option) => option.id === preferredModel);
+  return preferredModel && preferred?.vision ? preferredModel : DEFAULT_VISION_MODEL;
+}
+
+/**
+ * JSON schema a response must follow (structured output), see structuredOutput.ts
+ */
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Options for a streamed chat completion
+ */
+export interface StreamOptions {
+  model?: string;
+  temperature?: number;
+  signal?: AbortSignal; // Abort to stop generating; the text so far is kept
+  onDelta?: (delta: string, text: string) => void; // Called per chunk with the text so far
+}
+
+/**
+ * True for the error fetch throws when its AbortSignal fires
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+interface LimitErrorBody {
+  code?: string;
+  message?: string;
+  limit?: number;
+  remaining?: number;
+  resetAt?: string;
+  usedAt?: string;
+}
+
+function rateLimitErrorFromBody(status: number, errBody: LimitErrorBody | undefined): RateLimitError | null {
+  const errorCode = status === 429 && !errBody?.code ? 'DAILY_LIMIT_REACHED' : errBody?.code;
+
+  if (errorCode === 'DAILY_LIMIT_REACHED') {
+    return new RateLimitError(errBody?.message || 'Daily limit reached', {
+      limit: errBody?.limit ?? 150,
+      remaining: errBody?.remaining ?? 0,
+      resetAt: errBody?.resetAt ?? new Date().toISOString(),
+      code: 'DAILY_LIMIT_REACHED',
+    });
+  }
+  if (errorCode === 'ACCOUNT_LIMIT_REACHED') {
+    return new RateLimitError(errBody?.message || 'Account limit reached - you have already used your one-time AI generation quota', {
+      limit: 1,
+      remaining: 0,
+      code: 'ACCOUNT_LIMIT_REACHED',
+      usedAt: errBody?.usedAt,
+    });
+  }
+  return null;
+}
+
 export const aiGateway = {
   async chatCompletion(
     messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
-    options?: { model?: string; temperature?: number }
+    options?: { model?: string; temperature?: number; responseFormat?: ResponseFormat }
   ): Promise<string> {
     const { data, error } = await supabase.functions.invoke('ai-generate', {
       body: {
         type: 'chat',
         messages,
-        model: options?.model || 'gpt-4o-mini',
+        model: resolveModel(options?.model),
         temperature: options?.temperature ?? 0.7,
+        responseFormat: options?.responseFormat,
       },
     } as any);
 
@@ -147,6 +247,100 @@ export const aiGateway = {
     return (data as any)?.content ?? '';
   },
 
+  /**
+   * Chat completion streamed as server-sent events from the edge function. Resolves with
+   * the full text; when aborted it resolves with the text received so far.
+   */
+  async streamChatCompletion(
+    messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
+    options: StreamOptions = {}
+  ): Promise<string> {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    let response: Response;
+    try {
+      response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+          Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+        },
+        body: JSON.stringify({
+          type: 'chat',
+          stream: true,
+          messages,
+          model: resolveModel(options.model),
+          temperature: options.temperature ?? 0.7,
+        }),
+        signal: options.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return '';
+      throw error;
+    }
+
+    if (!response.ok || !response.body) {
+      const errBody = await response.json().catch(() => ({}));
+      const limitError = rateLimitErrorFromBody(response.status, errBody);
+      if (limitError) throw limitError;
+      throw new Error(errBody?.error || `AI request failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const event of events) {
+          const data = event.split('\n').find(line => line.startsWith('data:'))?.slice(5).trim();
+          if (!data) continue;
+
+          const payload = JSON.parse(data);
+          if (payload.error) throw new Error(payload.error);
+          if (payload.delta) {
+            text += payload.delta;
+            options.onDelta?.(payload.delta, text);
+          }
+        }
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+    }
+
+    // Dispatch event to refresh token meter
+    window.dispatchEvent(new CustomEvent('ai-request-complete'));
+
+    return text;
+  },
+
+  /**
+   * Embedding vectors (text-embedding-3-small) for up to 100 texts, in input order
+   */
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    const { data, error } = await supabase.functions.invoke('ai-generate', {
+      body: { type: 'embeddings', input: texts },
+    });
+
+    if (error) {
+      const { status, context } = error as { status?: number; context?: LimitErrorBody };
+      const limitError = rateLimitErrorFromBody(status ?? 0, context);
+      if (limitError) throw limitError;
+      throw error;
+    }
+
+    return (data as { embeddings?: number[][] })?.embeddings ?? [];
+  },
+
   async transcribeAudio(audioBlob: Blob, storagePath?: string, userId?: string): Promise<string> {
     // Threshold for using storage-based transcription (2MB - safe for direct base64)
     // Files larger than this will use storage-based approach
@@ -477,12 +671,14 @@ export const aiGateway = {
     }
   },
 
-  async analyzeImage(base64Image: string, prompt: string): Promise<string> {
+  async analyzeImage(base64Image: string, prompt: string, responseFormat?: ResponseFormat): Promise<string> {
     const { data, error } = await supabase.functions.invoke('ai-generate', {
       body: {
         type: 'vision',
         imageBase64: base64Image,
         prompt,
+        model: resolveVisionModel(),
+        responseFormat,
       },
     } as any);
 
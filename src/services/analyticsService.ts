@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { reviewLogService } from './reviewLogService';
+import type { ReviewLogEntry } from './reviewLogService';
 
 export type StudySession = {
   id: string;
@@ -26,6 +28,27 @@ export type QuizResult = {
   createdAt: Date;
 };
 
+export type MockExamNoteScore = {
+  noteId: string;
+  title: string;
+  totalQuestions: number;
+  correctAnswers: number;
+  scorePercentage: number;
+};
+
+export type MockExamResult = {
+  id: string;
+  userId: string;
+  folderId: string | null;
+  totalQuestions: number;
+  correctAnswers: number;
+  scorePercentage: number;
+  timeLimitSeconds: number | null;
+  timeTakenSeconds: number | null;
+  byNote: MockExamNoteScore[];
+  completedAt: Date;
+};
+
 export type StudyAnalytics = {
   totalStudyTime: number; // in minutes
   studyTimeByMode: Record<string, number>;
@@ -40,10 +63,97 @@ export type StudyAnalytics = {
     masteredCards: number;
     masteryRate: number;
   };
+  flashcardRetention: {
+    totalReviews: number;
+    retentionRate: number; // % of reviews of already-studied cards that were recalled
+    retentionCurve: Array<{ label: string; elapsedDays: number; retention: number; reviews: number }>;
+  };
   mostStudiedTopics: Array<{ noteId: string; title: string; studyCount: number }>;
   weeklyHeatmap: Array<{ date: string; minutes: number }>;
 };
 
+// A card counts as mastered once it is recalled and scheduled at least this far out
+const MASTERY_INTERVAL_DAYS = 21;
+
+// Lower bounds (in days since the previous review) of the retention curve buckets
+const RETENTION_BUCKETS = [0, 1, 2, 4, 8, 16, 32, 64];
+
+function isRecalled(entry: ReviewLogEntry): boolean {
+  return entry.rating >= 3;
+}
+
+function buildFlashcardStats(reviews: ReviewLogEntry[]): Pick<StudyAnalytics, 'flashcardMastery' | 'flashcardRetention'> {
+  // Latest review per card (reviews are sorted newest first)
+  const latestByCard = new Map<string, ReviewLogEntry>();
+  reviews.forEach((entry) => {
+    const key = `${entry.noteId ?? ''}:${entry.cardId}`;
+    if (!latestByCard.has(key)) latestByCard.set(key, entry);
+  });
+
+  const masteredCards = Array.from(latestByCard.values()).filter(
+    (entry) => isRecalled(entry) && entry.newIntervalType === 'days' && entry.newInterval >= MASTERY_INTERVAL_DAYS
+  ).length;
+
+  // Only reviews of cards seen before say anything about memory retention
+  const repeatReviews = reviews.filter((entry) => entry.elapsedDays !== null);
+  const recalled = repeatReviews.filter(isRecalled).length;
+
+  const retentionCurve = RETENTION_BUCKETS.map((lower, index) => {
+    const upper = RETENTION_BUCKETS[index + 1] ?? Infinity;
+    const inBucket = repeatReviews.filter((entry) => {
+      const elapsed = entry.elapsedDays ?? 0;
+      return elapsed >= lower && elapsed < upper;
+    });
+    return {
+      label: upper === Infinity ? `${lower}d+` : `${lower}-${upper}d`,
+      elapsedDays: lower,
+      retention: inBucket.length > 0 ? (inBucket.filter(isRecalled).length / inBucket.length) * 100 : 0,
+      reviews: inBucket.length,
+    };
+  }).filter((bucket) => bucket.reviews > 0);
+
+  return {
+    flashcardMastery: {
+      totalCards: latestByCard.size,
+      masteredCards,
+      masteryRate: latestByCard.size > 0 ? (masteredCards / latestByCard.size) * 100 : 0,
+    },
+    flashcardRetention: {
+      totalReviews: reviews.length,
+      retentionRate: repeatReviews.length > 0 ? (recalled / repeatReviews.length) * 100 : 0,
+      retentionCurve,
+    },
+  };
+}
+
+interface MockExamRow {
+  id: string;
+  user_id: string;
+  folder_id: string | null;
+  total_questions: number;
+  correct_answers: number;
+  score_percentage: number | string;
+  time_limit_seconds: number | null;
+  time_taken_seconds: number | null;
+  by_note: MockExamNoteScore[] | null;
+  completed_at: string;
+}
+
+function mapMockExamRow(row: MockExamRow): MockExamResult {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    folderId: row.folder_id,
+    totalQuestions: row.total_questions,
+    correctAnswers: row.correct_answers,
+    scorePercentage: Number(row.score_percentage),
+    timeLimitSeconds: row.time_limit_seconds,
+    timeTakenSeconds: row.time_taken_seconds,
+    byNote: row.by_note || [],
+    completedAt: new Date(row.completed_at),
+  };
+}
+
 export const analyticsService = {
   // Start a study session
   async startStudySession(
@@ -125,15 +235,43 @@ export const analyticsService = {
     };
   },
 
-  // Save quiz result
+  // Get the study sessions started since a date
+  async getStudySessions(userId: string, since: Date): Promise<StudySession[]> {
+    const { data, error } = await supabase
+      .from('study_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('started_at', since.toISOString())
+      .order('started_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((session) => ({
+      id: session.id,
+      userId: session.user_id,
+      noteId: session.note_id,
+      folderId: session.folder_id,
+      studyMode: session.study_mode,
+      startedAt: new Date(session.started_at),
+      endedAt: session.ended_at ? new Date(session.ended_at) : null,
+      durationSeconds: session.duration_seconds,
+      createdAt: new Date(session.created_at),
+    }));
+  },
+
+  // Save quiz result. Each question scores from 0 to 1 (partial credit counts towards
+  // the percentage, only fully right answers count as correct)
   async saveQuizResult(
     userId: string,
     noteId: string | null,
-    totalQuestions: number,
-    correctAnswers: number,
+    questionScores: number[],
     timeTakenSeconds?: number
   ): Promise<QuizResult> {
-    const scorePercentage = (correctAnswers / totalQuestions) * 100;
+    const totalQuestions = questionScores.length;
+    const correctAnswers = questionScores.filter((score) => score >= 1).length;
+    const scorePercentage = totalQuestions > 0
+      ? (questionScores.reduce((sum, score) => sum + Math.min(1, Math.max(0, score)), 0) / totalQuestions) * 100
+      : 0;
 
     const { data, error } = await supabase
       .from('quiz_results')
@@ -167,6 +305,48 @@ export const analyticsService = {
     };
   },
 
+  // Save a graded mock exam with its score per note
+  async saveMockExamResult(
+    userId: string,
+    result: Omit<MockExamResult, 'id' | 'userId' | 'completedAt'>
+  ): Promise<MockExamResult> {
+    const { data, error } = await supabase
+      .from('mock_exam_results')
+      .insert({
+        user_id: userId,
+        folder_id: result.folderId,
+        total_questions: result.totalQuestions,
+        correct_answers: result.correctAnswers,
+        score_percentage: result.scorePercentage,
+        time_limit_seconds: result.timeLimitSeconds,
+        time_taken_seconds: result.timeTakenSeconds,
+        by_note: result.byNote,
+        completed_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapMockExamRow(data);
+  },
+
+  // Get mock exam results, newest first, optionally for one folder only
+  async getMockExamResults(userId: string, folderId?: string): Promise<MockExamResult[]> {
+    let query = supabase
+      .from('mock_exam_results')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (folderId) query = query.eq('folder_id', folderId);
+
+    const { data, error } = await query.order('completed_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(mapMockExamRow);
+  },
+
   // Get comprehensive analytics
   async getStudyAnalytics(userId: string, days: number = 30): Promise<StudyAnalytics> {
     const startDate = new Date();
@@ -287,6 +467,15 @@ export const analyticsService = {
       minutes,
     }));
 
+    // Flashcard mastery and retention from the review log
+    let flashcardReviews: ReviewLogEntry[] = [];
+    try {
+      flashcardReviews = await reviewLogService.getReviewLog(userId, days);
+    } catch (error) {
+      console.error('Error loading flashcard reviews:', error);
+    }
+    const flashcardStats = buildFlashcardStats(flashcardReviews);
+
     return {
       totalStudyTime: totalStudyTimeMinutes,
       studyTimeByMode,
@@ -296,11 +485,7 @@ export const analyticsService = {
         totalQuizzes: quizResultsData.length,
         scoresOverTime,
       },
-      flashcardMastery: {
-        totalCards: 0, // Will be calculated from study_content
-        masteredCards: 0, // Will be calculated from spaced repetition data
-        masteryRate: 0,
-      },
+      ...flashcardStats,
       mostStudiedTopics,
       weeklyHeatmap: heatmapArray,
     };
@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { buildApkg, parseAnkiPackage } from './ankiPackageService';
+import { expandFlashcard } from './cardTypeService';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import type { Folder } from '../types';
+
+vi.mock('./supabase', () => ({ folderService: {}, noteService: {}, studyContentService: {} }));
+// Vite serves the SQLite module from node_modules; tests load it from disk
+vi.mock('sql.js/dist/sql-wasm.wasm?url', () => ({ default: 'node_modules/sql.js/dist/sql-wasm.wasm' }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// jsdom's Blob has no arrayBuffer(); read it the way browsers without it do
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+function folder(id: string, name: string, parentId: string | null = null): Folder {
+  return { id, name, parentId } as Folder;
+}
+
+function daysFromNow(days: number): string {
+  return new Date(Date.now() + days * DAY_MS).toISOString();
+}
+
+describe('buildApkg and parseAnkiPackage', () => {
+  it('read back the decks, cards and review progress they were written with', async () => {
+    const folders = [folder('biology', 'Biology'), folder('cells', 'Cells', 'biology')];
+    const [basic] = expandFlashcard({ id: 'basic', front: 'What is ATP?', back: 'Energy <carrier> & more', cardType: 'basic' }, 'note-1', 'cells');
+    const reviewed: SpacedRepetitionCard = {
+      ...basic,
+      easeFactor: 2.3,
+      interval: 12,
+      repetitions: 4,
+      lapses: 1,
+      nextReviewDate: daysFromNow(5),
+      lastReviewed: daysFromNow(-7),
+      leech: true,
+      suspended: true,
+    };
+    const reverse = expandFlashcard({ id: 'reverse', front: 'Nucleus', back: 'Holds the DNA', cardType: 'reverse' }, 'note-1', 'cells');
+    const cloze = expandFlashcard({ id: 'cloze', front: '{{c1::Mitochondria}} make {{c2::ATP}}', back: 'Extra', cardType: 'cloze' }, 'note-2');
+
+    const decks = await parseAnkiPackage(await buildApkg([reviewed, ...reverse, ...cloze], folders));
+
+    expect(decks.map((deck) => deck.path)).toEqual([['Biology', 'Cells'], ['Default']]);
+    const [cells, defaultDeck] = decks;
+
+    expect(cells.cards.map((card) => [card.cardType, card.front, card.back, !!card.reversed])).toEqual([
+      ['basic', 'What is ATP?', 'Energy <carrier> & more', false],
+      ['reverse', 'Nucleus', 'Holds the DNA', false],
+      ['reverse', 'Nucleus', 'Holds the DNA', true],
+    ]);
+    expect(cells.cards[0]).toMatchObject({ easeFactor: 2.3, interval: 12, intervalType: 'days', lapses: 1, leech: true, suspended: true });
+    expect(new Date(cells.cards[0].nextReviewDate).getTime() - new Date(reviewed.nextReviewDate).getTime()).toBeLessThan(DAY_MS);
+    expect(cells.cards[1]).toMatchObject({ repetitions: 0, interval: 0 });
+
+    expect(defaultDeck.cards.map((card) => [card.cardType, card.clozeIndex, card.front, card.back])).toEqual([
+      ['cloze', 1, '{{c1::Mitochondria}} make {{c2::ATP}}', 'Extra'],
+      ['cloze', 2, '{{c1::Mitochondria}} make {{c2::ATP}}', 'Extra'],
+    ]);
+    // Siblings stay one note, so they are still grouped after the import
+    expect(new Set(defaultDeck.cards.map((card) => card.groupId)).size).toBe(1);
+  });
+
+  it('rejects a zip without a collection', async () => {
+    const { default: JSZip } = await import('jszip');
+    const zip = new JSZip();
+    zip.file('media', '{}');
+    const file = await zip.generateAsync({ type: 'blob' });
+
+    await expect(parseAnkiPackage(file)).rejects.toThrow('newest Anki package format');
+  });
+});
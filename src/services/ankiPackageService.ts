@@ -0,0 +1,645 @@
+/**
+ * Anki Package Service
+ * Reads and writes Anki packages (.apkg / .colpkg): a zip holding an SQLite collection
+ * (collection.anki2 or collection.anki21) and a media map.
+ * - Each folder becomes a deck, nested folders become subdecks ("Parent::Child")
+ * - Sibling cards (reverse / cloze) become one Anki note with one card per sibling
+ * - SM-2 state (ease, interval, due date, lapses, suspension) is kept in both directions
+ */
+
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import type { CardType, Folder } from '../types';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import { expandFlashcard, getGroupId, groupCards, stripCloze } from './cardTypeService';
+import { folderService, noteService, studyContentService } from './supabase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const DEFAULT_DECK_ID = 1;
+const DEFAULT_DECK_NAME = 'Default';
+const LEECH_TAG = 'leech';
+
+// Fixed note type ids, so exporting twice updates the same note types in Anki
+const MODEL_IDS: Record<CardType, number> = {
+  basic: 1700000000001,
+  reverse: 1700000000002,
+  cloze: 1700000000003,
+  'type-answer': 1700000000004,
+};
+
+// Anki card types and queues (cards.type / cards.queue)
+const CARD_TYPE_NEW = 0;
+const CARD_TYPE_LEARNING = 1;
+const CARD_TYPE_REVIEW = 2;
+const CARD_TYPE_RELEARNING = 3;
+const QUEUE_SUSPENDED = -1;
+const QUEUE_LEARNING = 1;
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer PRIMARY KEY, crt integer NOT NULL, mod integer NOT NULL, scm integer NOT NULL,
+  ver integer NOT NULL, dty integer NOT NULL, usn integer NOT NULL, ls integer NOT NULL,
+  conf text NOT NULL, models text NOT NULL, decks text NOT NULL, dconf text NOT NULL, tags text NOT NULL
+);
+CREATE TABLE notes (
+  id integer PRIMARY KEY, guid text NOT NULL, mid integer NOT NULL, mod integer NOT NULL,
+  usn integer NOT NULL, tags text NOT NULL, flds text NOT NULL, sfld integer NOT NULL,
+  csum integer NOT NULL, flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE cards (
+  id integer PRIMARY KEY, nid integer NOT NULL, did integer NOT NULL, ord integer NOT NULL,
+  mod integer NOT NULL, usn integer NOT NULL, type integer NOT NULL, queue integer NOT NULL,
+  due integer NOT NULL, ivl integer NOT NULL, factor integer NOT NULL, reps integer NOT NULL,
+  lapses integer NOT NULL, left integer NOT NULL, odue integer NOT NULL, odid integer NOT NULL,
+  flags integer NOT NULL, data text NOT NULL
+);
+CREATE TABLE revlog (
+  id integer PRIMARY KEY, cid integer NOT NULL, usn integer NOT NULL, ease integer NOT NULL,
+  ivl integer NOT NULL, lastIvl integer NOT NULL, factor integer NOT NULL, time integer NOT NULL,
+  type integer NOT NULL
+);
+CREATE TABLE graves (usn integer NOT NULL, oid integer NOT NULL, type integer NOT NULL);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+interface AnkiTemplate {
+  name: string;
+  ord: number;
+  qfmt: string;
+  afmt: string;
+}
+
+interface AnkiModel {
+  id: number;
+  name: string;
+  type: number; // 0 = standard, 1 = cloze
+  flds: Array<{ name: string; ord: number }>;
+  tmpls: AnkiTemplate[];
+}
+
+interface AnkiDeck {
+  id: number;
+  name: string;
+}
+
+interface AnkiCardRow {
+  id: number;
+  nid: number;
+  did: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+/**
+ * A deck read from an Anki package, with its cards converted to our format
+ */
+export interface ImportedDeck {
+  path: string[]; // Deck name split on "::"
+  cards: SpacedRepetitionCard[];
+}
+
+export interface AnkiImportResult {
+  folders: number;
+  notes: number;
+  cards: number;
+}
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the SQLite WebAssembly module once, on first use
+ */
+function loadSql(): Promise<SqlJsStatic> {
+  if (!sqlPromise) {
+    sqlPromise = initSqlJs({ locateFile: () => sqlWasmUrl });
+  }
+  return sqlPromise;
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Turn an Anki field (HTML) into the plain text our cards use
+ */
+function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Stable 32-bit hash, used for note GUIDs
+ */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Anki's duplicate-check checksum: first 8 hex digits of the SHA-1 of the sort field
+ */
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return parseInt(hex, 16);
+}
+
+function buildModel(cardType: CardType, mod: number): Record<string, unknown> {
+  const isCloze = cardType === 'cloze';
+  const fieldNames = isCloze ? ['Text', 'Back Extra'] : ['Front', 'Back'];
+  const answerRule = '\n\n<hr id=answer>\n\n';
+
+  let name: string;
+  let templates: AnkiTemplate[];
+  switch (cardType) {
+    case 'reverse':
+      name = 'Basic (and reversed card)';
+      templates = [
+        { name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: `{{FrontSide}}${answerRule}{{Back}}` },
+        { name: 'Card 2', ord: 1, qfmt: '{{Back}}', afmt: `{{FrontSide}}${answerRule}{{Front}}` },
+      ];
+      break;
+    case 'cloze':
+      name = 'Cloze';
+      templates = [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>\n{{Back Extra}}' }];
+      break;
+    case 'type-answer':
+      name = 'Basic (type in the answer)';
+      templates = [
+        { name: 'Card 1', ord: 0, qfmt: '{{Front}}\n\n{{type:Back}}', afmt: `{{Front}}${answerRule}{{type:Back}}` },
+      ];
+      break;
+    default:
+      name = 'Basic';
+      templates = [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: `{{FrontSide}}${answerRule}{{Back}}` }];
+  }
+
+  return {
+    id: MODEL_IDS[cardType],
+    name,
+    type: isCloze ? 1 : 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: DEFAULT_DECK_ID,
+    tmpls: templates.map((template) => ({ ...template, bqfmt: '', bafmt: '', did: null, bfont: '', bsize: 0 })),
+    flds: fieldNames.map((fieldName, ord) => ({
+      name: fieldName,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    css: '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n.cloze {\n  font-weight: bold;\n  color: blue;\n}',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: templates.map((template) => [template.ord, 'any', [template.ord]]),
+    tags: [],
+    vers: [],
+  };
+}
+
+function buildDeck(id: number, name: string, mod: number): Record<string, unknown> {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  },
+};
+
+/**
+ * Deck name for a folder: its path from the root, joined with "::"
+ */
+function getDeckName(folderId: string, foldersById: Map<string, Folder>): string | null {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let folder = foldersById.get(folderId);
+  while (folder && !seen.has(folder.id)) {
+    seen.add(folder.id);
+    // "::" separates subdecks in Anki, so it cannot appear inside a deck name
+    names.unshift(folder.name.replace(/::/g, ':').trim() || 'Untitled');
+    folder = folder.parentId ? foldersById.get(folder.parentId) : undefined;
+  }
+  return names.length > 0 ? names.join('::') : null;
+}
+
+/**
+ * Anki template ordinal of a card: 1 for the reverse sibling, the cloze number - 1 for cloze cards
+ */
+function getCardOrd(card: SpacedRepetitionCard): number {
+  if (card.cardType === 'cloze') return Math.max(0, (card.clozeIndex ?? 1) - 1);
+  return card.reversed ? 1 : 0;
+}
+
+/**
+ * Anki scheduling columns for one of our cards
+ */
+function toAnkiSchedule(card: SpacedRepetitionCard, position: number, today: Date) {
+  const factor = Math.round(card.easeFactor * 1000);
+  const lapses = card.lapses ?? 0;
+  const nextReview = new Date(card.nextReviewDate);
+  let schedule: { type: number; queue: number; due: number; ivl: number };
+
+  if (card.repetitions === 0 && !card.lastReviewed) {
+    // New cards are ordered by position
+    schedule = { type: CARD_TYPE_NEW, queue: CARD_TYPE_NEW, due: position, ivl: 0 };
+  } else if (card.intervalType === 'minutes') {
+    // Learning and relearning cards are due at a timestamp (in seconds)
+    schedule = {
+      type: lapses > 0 ? CARD_TYPE_RELEARNING : CARD_TYPE_LEARNING,
+      queue: QUEUE_LEARNING,
+      due: Math.floor(nextReview.getTime() / 1000),
+      ivl: 0,
+    };
+  } else {
+    // Review cards are due on a day, counted from the collection's creation
+    schedule = {
+      type: CARD_TYPE_REVIEW,
+      queue: CARD_TYPE_REVIEW,
+      due: Math.round((startOfDay(nextReview).getTime() - today.getTime()) / DAY_MS),
+      ivl: Math.max(1, card.interval),
+    };
+  }
+
+  return {
+    ...schedule,
+    queue: card.suspended ? QUEUE_SUSPENDED : schedule.queue,
+    factor,
+    reps: card.repetitions + lapses,
+    lapses,
+  };
+}
+
+/**
+ * Build an .apkg file from cards. Cards are placed in the deck of their folder;
+ * cards without a folder go to Anki's Default deck.
+ */
+export async function buildApkg(cards: SpacedRepetitionCard[], folders: Folder[]): Promise<Blob> {
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const today = startOfDay(new Date(now));
+    const foldersById = new Map(folders.map((folder) => [folder.id, folder]));
+
+    // One deck per folder (including parent folders, so the hierarchy is complete)
+    const deckIds = new Map<string, number>([[DEFAULT_DECK_NAME, DEFAULT_DECK_ID]]);
+    const getDeckId = (deckName: string): number => {
+      const parts = deckName.split('::');
+      for (let i = 1; i <= parts.length; i++) {
+        const name = parts.slice(0, i).join('::');
+        if (!deckIds.has(name)) deckIds.set(name, now + deckIds.size);
+      }
+      return deckIds.get(deckName) ?? DEFAULT_DECK_ID;
+    };
+
+    const groups = groupCards(cards);
+    const usedTypes = new Set<CardType>();
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+
+    let cardCount = 0;
+    for (let index = 0; index < groups.length; index++) {
+      const group = groups[index];
+      const source = group[0];
+      const cardType = source.cardType || 'basic';
+      usedTypes.add(cardType);
+
+      const deckName = (source.folderId && getDeckName(source.folderId, foldersById)) || DEFAULT_DECK_NAME;
+      const deckId = getDeckId(deckName);
+      const noteId = now + index;
+      const sortField = cardType === 'cloze' ? stripCloze(source.front) : source.front;
+      const tags = group.some((card) => card.leech) ? ` ${LEECH_TAG} ` : '';
+
+      insertNote.run([
+        noteId,
+        hashString(`${source.noteId ?? ''}/${getGroupId(source)}`),
+        MODEL_IDS[cardType],
+        nowSeconds,
+        -1,
+        tags,
+        [escapeHTML(source.front), escapeHTML(source.back)].join(FIELD_SEPARATOR),
+        sortField,
+        await fieldChecksum(sortField),
+        0,
+        '',
+      ]);
+
+      for (const card of group) {
+        const schedule = toAnkiSchedule(card, index, today);
+        insertCard.run([
+          now + cardCount++,
+          noteId,
+          deckId,
+          getCardOrd(card),
+          nowSeconds,
+          -1,
+          schedule.type,
+          schedule.queue,
+          schedule.due,
+          schedule.ivl,
+          schedule.factor,
+          schedule.reps,
+          schedule.lapses,
+          0,
+          0,
+          0,
+          0,
+          '',
+        ]);
+      }
+    }
+
+    insertNote.free();
+    insertCard.free();
+
+    const models = Object.fromEntries(
+      Array.from(usedTypes).map((cardType) => [MODEL_IDS[cardType], buildModel(cardType, nowSeconds)])
+    );
+    const decks = Object.fromEntries(
+      Array.from(deckIds.entries()).map(([name, id]) => [id, buildDeck(id, name, nowSeconds)])
+    );
+    const conf = {
+      nextPos: groups.length + 1,
+      estTimes: true,
+      activeDecks: [DEFAULT_DECK_ID],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: DEFAULT_DECK_ID,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(MODEL_IDS.basic),
+      collapseTime: 1200,
+    };
+
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(today.getTime() / 1000),
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify(DEFAULT_DECK_CONFIG),
+      '{}',
+    ]);
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
+
+function queryRows(db: Database, sql: string): SqlValue[][] {
+  const [result] = db.exec(sql);
+  return result ? result.values : [];
+}
+
+/**
+ * Our card type for an Anki note type
+ */
+function getModelCardType(model: AnkiModel): CardType {
+  if (model.type === 1) return 'cloze';
+  if (model.tmpls.some((template) => template.qfmt.includes('{{type:'))) return 'type-answer';
+  if (model.tmpls.length >= 2) return 'reverse';
+  return 'basic';
+}
+
+/**
+ * Scheduling fields for one of our cards from an Anki card
+ */
+function fromAnkiSchedule(row: AnkiCardRow, collectionCreated: Date): Partial<SpacedRepetitionCard> {
+  const state: Partial<SpacedRepetitionCard> = {
+    lapses: row.lapses,
+    suspended: row.queue === QUEUE_SUSPENDED || undefined,
+  };
+
+  if (row.type === CARD_TYPE_NEW) return state;
+
+  const easeFactor = row.factor > 0 ? row.factor / 1000 : 2.5;
+  // Learning cards are due at a timestamp in seconds, review cards on a day number
+  const dueIsTimestamp = row.due > 1000000000;
+  const nextReview = dueIsTimestamp
+    ? new Date(row.due * 1000)
+    : new Date(collectionCreated.getTime() + row.due * DAY_MS);
+
+  if (row.type === CARD_TYPE_LEARNING || (row.type === CARD_TYPE_RELEARNING && dueIsTimestamp)) {
+    return {
+      ...state,
+      easeFactor,
+      interval: 10,
+      intervalType: 'minutes',
+      repetitions: 0,
+      nextReviewDate: nextReview.toISOString(),
+      lastReviewed: new Date(Math.min(Date.now(), nextReview.getTime())).toISOString(),
+    };
+  }
+
+  const interval = Math.max(1, row.ivl);
+  return {
+    ...state,
+    easeFactor,
+    interval,
+    intervalType: 'days',
+    repetitions: Math.max(1, row.reps - row.lapses),
+    nextReviewDate: nextReview.toISOString(),
+    lastReviewed: new Date(nextReview.getTime() - interval * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Read the decks and cards of an .apkg or .colpkg file
+ */
+export async function parseAnkiPackage(file: Blob): Promise<ImportedDeck[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2');
+
+  if (!collectionFile || (zip.file('collection.anki21b') && !zip.file('collection.anki21'))) {
+    // Newer Anki versions compress the collection with zstd unless exported for older versions
+    throw new Error('This file uses the newest Anki package format. In Anki, export it again with "Support older Anki versions" enabled.');
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(await collectionFile.async('uint8array'));
+
+  try {
+    const [colRow] = queryRows(db, 'SELECT crt, models, decks FROM col');
+    if (!colRow) throw new Error('This file does not contain an Anki collection.');
+
+    const collectionCreated = new Date(Number(colRow[0]) * 1000);
+    const models = JSON.parse(String(colRow[1])) as Record<string, AnkiModel>;
+    const decks = JSON.parse(String(colRow[2])) as Record<string, AnkiDeck>;
+
+    const cardsByNote = new Map<number, AnkiCardRow[]>();
+    queryRows(db, 'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord')
+      .forEach((values) => {
+        const [id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses] = values.map(Number);
+        const row: AnkiCardRow = { id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses };
+        cardsByNote.set(nid, [...(cardsByNote.get(nid) || []), row]);
+      });
+
+    const decksByName = new Map<string, ImportedDeck>();
+    queryRows(db, 'SELECT id, mid, flds, tags FROM notes ORDER BY id').forEach(([nid, mid, flds, tags]) => {
+      const model = models[String(mid)];
+      const ankiCards = cardsByNote.get(Number(nid)) || [];
+      if (!model || ankiCards.length === 0) return;
+
+      const cardType = getModelCardType(model);
+      const fields = String(flds).split(FIELD_SEPARATOR);
+      const fieldIndex = (name: string, fallback: number) => {
+        const field = model.flds.find((f) => f.name.toLowerCase() === name);
+        return field ? field.ord : fallback;
+      };
+      const front = htmlToText(fields[fieldIndex(cardType === 'cloze' ? 'text' : 'front', 0)] || '');
+      const back = htmlToText(fields[fieldIndex(cardType === 'cloze' ? 'back extra' : 'back', 1)] || '');
+      if (!front) return;
+
+      const isLeech = String(tags).toLowerCase().split(/\s+/).includes(LEECH_TAG);
+      const ankiCardsByOrd = new Map(ankiCards.map((card) => [card.ord, card]));
+      const cards = expandFlashcard({ id: `anki-${nid}`, front, back, cardType }).map((card) => {
+        const ankiCard = ankiCardsByOrd.get(getCardOrd(card));
+        return ankiCard
+          ? { ...card, ...fromAnkiSchedule(ankiCard, collectionCreated), leech: isLeech || undefined }
+          : card;
+      });
+
+      // A note belongs to the deck of its first card
+      const deckName = decks[String(ankiCards[0].did)]?.name || DEFAULT_DECK_NAME;
+      const deck = decksByName.get(deckName) || { path: deckName.split('::'), cards: [] };
+      deck.cards.push(...cards);
+      decksByName.set(deckName, deck);
+    });
+
+    return Array.from(decksByName.values());
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Import an .apkg or .colpkg file: every deck becomes a folder (subdecks become
+ * subfolders) holding one note with the deck's cards. Cards from Anki's Default
+ * deck go into a folder named after the file.
+ */
+export async function importAnkiPackage(userId: string, file: File): Promise<AnkiImportResult> {
+  const decks = await parseAnkiPackage(file);
+  const fileTitle = file.name.replace(/\.(apkg|colpkg)$/i, '') || 'Anki import';
+  const existingFolders = await folderService.getAllFolders(userId);
+  const createdFolders = new Map<string, string>();
+  const result: AnkiImportResult = { folders: 0, notes: 0, cards: 0 };
+
+  // Reuse folders with the same name and parent, create the missing ones
+  const ensureFolder = async (path: string[]): Promise<string | null> => {
+    let parentId: string | null = null;
+    for (let i = 0; i < path.length; i++) {
+      const key = path.slice(0, i + 1).join('::');
+      const cached = createdFolders.get(key);
+      if (cached) {
+        parentId = cached;
+        continue;
+      }
+      const existing = existingFolders.find((f) => f.name === path[i] && f.parentId === parentId);
+      const folder: Folder = existing || (await folderService.createFolder(userId, path[i], parentId));
+      if (!existing) result.folders++;
+      createdFolders.set(key, folder.id);
+      parentId = folder.id;
+    }
+    return parentId;
+  };
+
+  for (const deck of decks) {
+    if (deck.cards.length === 0) continue;
+
+    const path = deck.path.length === 1 && deck.path[0] === DEFAULT_DECK_NAME ? [fileTitle] : deck.path;
+    const folderId = await ensureFolder(path);
+    const note = await noteService.createNote(userId, path[path.length - 1], folderId);
+    const flashcards = deck.cards.map((card) => ({ ...card, noteId: note.id, folderId: folderId || undefined }));
+
+    await studyContentService.saveStudyContent(note.id, { flashcards }, { author: 'user', settings: { source: 'anki-import' } });
+    result.notes++;
+    result.cards += flashcards.length;
+  }
+
+  return result;
+}
+
+export const ankiPackageService = {
+  buildApkg,
+  parseAnkiPackage,
+  importAnkiPackage,
+};
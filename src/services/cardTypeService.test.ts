@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandFlashcard,
+  getCardFaces,
+  getClozeIndices,
+  isTypedAnswerCorrect,
+  renderCloze,
+  stripCloze,
+} from './cardTypeService';
+
+const SENTENCE = 'The {{c1::mitochondria}} is the {{c2::powerhouse::organ role}} of the {{c1::cell}}.';
+
+describe('getClozeIndices', () => {
+  it('lists every cloze number once, in ascending order', () => {
+    expect(getClozeIndices('{{c3::a}} {{c1::b}} {{c3::c}} {{c2::d}}')).toEqual([1, 2, 3]);
+  });
+
+  it('finds none in text without cloze deletions', () => {
+    expect(getClozeIndices('No {{deletions}} here, c1::either')).toEqual([]);
+  });
+});
+
+describe('renderCloze', () => {
+  it('hides the deletions of one cloze number and shows the others as text', () => {
+    expect(renderCloze(SENTENCE, 1, false)).toEqual([
+      { text: 'The ', highlight: false },
+      { text: '[...]', highlight: true },
+      { text: ' is the ', highlight: false },
+      { text: 'powerhouse', highlight: false },
+      { text: ' of the ', highlight: false },
+      { text: '[...]', highlight: true },
+      { text: '.', highlight: false },
+    ]);
+  });
+
+  it('shows the hint in place of a hidden deletion', () => {
+    expect(renderCloze(SENTENCE, 2, false)).toContainEqual({ text: '[organ role]', highlight: true });
+  });
+
+  it('reveals the answers', () => {
+    const revealed = renderCloze(SENTENCE, 1, true).filter((segment) => segment.highlight);
+    expect(revealed.map((segment) => segment.text)).toEqual(['mitochondria', 'cell']);
+  });
+});
+
+describe('stripCloze', () => {
+  it('keeps the answers and drops the markup and hints', () => {
+    expect(stripCloze(SENTENCE)).toBe('The mitochondria is the powerhouse of the cell.');
+  });
+});
+
+describe('getCardFaces', () => {
+  it('asks for the deletions of the card\'s cloze number', () => {
+    const [, second] = expandFlashcard({ id: 'card', front: SENTENCE, back: 'Biology', cardType: 'cloze' });
+    const faces = getCardFaces(second);
+    expect(faces.expected).toBe('powerhouse');
+    expect(faces.extra).toBe('Biology');
+  });
+
+  it('joins the answers of a cloze number that is used more than once', () => {
+    const [first] = expandFlashcard({ id: 'card', front: SENTENCE, back: '', cardType: 'cloze' });
+    const faces = getCardFaces(first);
+    expect(faces.expected).toBe('mitochondria, cell');
+    expect(faces.extra).toBeUndefined();
+  });
+});
+
+describe('expandFlashcard', () => {
+  it('makes one sibling card per cloze number', () => {
+    const cards = expandFlashcard({ id: 'card', front: SENTENCE, back: '', cardType: 'cloze' }, 'note-1');
+    expect(cards.map((card) => [card.id, card.clozeIndex, card.groupId, card.noteId])).toEqual([
+      ['card::c1', 1, 'card', 'note-1'],
+      ['card::c2', 2, 'card', 'note-1'],
+    ]);
+  });
+
+  it('keeps the review progress of siblings that already exist', () => {
+    const [first] = expandFlashcard({ id: 'card', front: SENTENCE, back: '', cardType: 'cloze' });
+    const reviewed = { ...first, interval: 6, repetitions: 2 };
+    const edited = 'The {{c1::mitochondrion}} is the {{c2::powerhouse}} of the {{c1::cell}}.';
+
+    const [updated] = expandFlashcard({ id: 'card', front: edited, back: '', cardType: 'cloze' }, undefined, undefined, [reviewed]);
+    expect(updated).toMatchObject({ front: edited, interval: 6, repetitions: 2 });
+  });
+});
+
+describe('isTypedAnswerCorrect', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(isTypedAnswerCorrect('  the Cell. ', 'The cell')).toBe(true);
+    expect(isTypedAnswerCorrect('nucleus', 'The cell')).toBe(false);
+    expect(isTypedAnswerCorrect('', '')).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Card Type Service
+ * Turns typed flashcards into the cards that are actually studied:
+ * - basic: one card, front -> back
+ * - reverse: two sibling cards, front -> back and back -> front
+ * - cloze: one sibling card per cloze number ({{c1::...}}, {{c2::...}}, ...)
+ * - type-the-answer: one card where the answer is typed in and checked
+ */
+
+import type { CardType, Flashcard } from '../types';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import { initializeSpacedRepetitionCard } from './spacedRepetitionService';
+
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  basic: 'Basic',
+  reverse: 'Basic + reverse',
+  cloze: 'Cloze',
+  'type-answer': 'Type the answer',
+};
+
+export const CARD_TYPES = Object.keys(CARD_TYPE_LABELS) as CardType[];
+
+// {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+/**
+ * A piece of card text; highlighted pieces are the part being asked for
+ */
+export interface CardSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface CardFaces {
+  question: CardSegment[];
+  answer: CardSegment[];
+  extra?: string; // Additional information shown with the answer (cloze "back extra")
+  expected: string; // Plain-text answer, used to check typed answers
+}
+
+/**
+ * Cloze numbers used in a text, in ascending order
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    indices.add(parseInt(match[1], 10));
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+/**
+ * Split a cloze text into segments, hiding (or revealing) the deletions for one cloze number.
+ * Deletions for other cloze numbers are shown as plain text.
+ */
+export function renderCloze(text: string, index: number, revealed: boolean): CardSegment[] {
+  const segments: CardSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), highlight: false });
+    }
+
+    const [, number, answer, hint] = match;
+    if (parseInt(number, 10) === index) {
+      segments.push({ text: revealed ? answer : `[${hint || '...'}]`, highlight: true });
+    } else {
+      segments.push({ text: answer, highlight: false });
+    }
+    lastIndex = start + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlight: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Remove the cloze markup from a text, keeping the answers
+ */
+export function stripCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _number, answer) => answer);
+}
+
+function getClozeAnswer(text: string, index: number): string {
+  return Array.from(text.matchAll(CLOZE_PATTERN))
+    .filter((match) => parseInt(match[1], 10) === index)
+    .map((match) => match[2])
+    .join(', ');
+}
+
+/**
+ * What to show on each side of a card, based on its type
+ */
+export function getCardFaces(card: SpacedRepetitionCard): CardFaces {
+  switch (card.cardType) {
+    case 'cloze': {
+      const index = card.clozeIndex ?? getClozeIndices(card.front)[0] ?? 1;
+      return {
+        question: renderCloze(card.front, index, false),
+        answer: renderCloze(card.front, index, true),
+        extra: card.back || undefined,
+        expected: getClozeAnswer(card.front, index),
+      };
+    }
+    case 'reverse':
+      if (card.reversed) {
+        return {
+          question: [{ text: card.back, highlight: false }],
+          answer: [{ text: card.front, highlight: false }],
+          expected: card.front,
+        };
+      }
+      break;
+  }
+
+  return {
+    question: [{ text: card.front, highlight: false }],
+    answer: [{ text: card.back, highlight: false }],
+    expected: card.back,
+  };
+}
+
+/**
+ * Sibling cards share a group; cards created before card types existed are their own group
+ */
+export function getGroupId(card: SpacedRepetitionCard): string {
+  return card.groupId ?? card.id;
+}
+
+/**
+ * Group cards by source flashcard, keeping the order in which groups first appear.
+ * Card ids are only unique within a note, so cards from different notes never share a group.
+ */
+export function groupCards(cards: SpacedRepetitionCard[]): SpacedRepetitionCard[][] {
+  const groups = new Map<string, SpacedRepetitionCard[]>();
+  cards.forEach((card) => {
+    const key = `${card.noteId ?? ''}/${getGroupId(card)}`;
+    groups.set(key, [...(groups.get(key) || []), card]);
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Create the cards to study for a typed flashcard.
+ * Siblings that already exist in `existing` (matched by id) keep their scheduling state,
+ * so editing a card does not reset its progress.
+ */
+export function expandFlashcard(
+  flashcard: Flashcard,
+  noteId?: string,
+  folderId?: string,
+  existing: SpacedRepetitionCard[] = []
+): SpacedRepetitionCard[] {
+  const cardType = flashcard.cardType || 'basic';
+
+  const build = (id: string, extra: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard => {
+    const previous = existing.find((card) => card.id === id);
+    const base = previous || initializeSpacedRepetitionCard(id, flashcard.front, flashcard.back, noteId, folderId);
+    return {
+      ...base,
+      front: flashcard.front,
+      back: flashcard.back,
+      cardType,
+      groupId: flashcard.id,
+      source: flashcard.source ?? base.source,
+      ...extra,
+    };
+  };
+
+  switch (cardType) {
+    case 'reverse':
+      return [build(flashcard.id), build(`${flashcard.id}::rev`, { reversed: true })];
+    case 'cloze':
+      return getClozeIndices(flashcard.front).map((index) =>
+        build(`${flashcard.id}::c${index}`, { clozeIndex: index })
+      );
+    default:
+      return [build(flashcard.id)];
+  }
+}
+
+function normalizeAnswer(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .toLowerCase()
+    .replace(/[.,;:!?"'()[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Compare a typed answer with the expected one, ignoring case, punctuation and spacing
+ */
+export function isTypedAnswerCorrect(typed: string, expected: string): boolean {
+  const normalizedTyped = normalizeAnswer(typed);
+  return normalizedTyped !== '' && normalizedTyped === normalizeAnswer(expected);
+}
+
+export const cardTypeService = {
+  getClozeIndices,
+  renderCloze,
+  stripCloze,
+  getCardFaces,
+  getGroupId,
+  groupCards,
+  expandFlashcard,
+  isTypedAnswerCorrect,
+};
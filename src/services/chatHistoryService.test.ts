@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getBranch, getLatestLeaf, getSiblings } from './chatHistoryService';
+import type { ChatMessage } from './chatHistoryService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+function message(id: string, parentId: string | null, minute: number): ChatMessage {
+  return {
+    id,
+    role: id.startsWith('q') ? 'user' : 'assistant',
+    content: id,
+    timestamp: new Date(Date.UTC(2026, 5, 10, 12, minute)),
+    parentId,
+  };
+}
+
+// q1 ─┬─ a1 ─┬─ q2 ── a2
+//     │      └─ q2-edited ── a2-edited   (question edited later)
+//     └─ a1-regenerated                  (answer regenerated later)
+const MESSAGES = [
+  message('q1', null, 0),
+  message('a1', 'q1', 1),
+  message('q2', 'a1', 2),
+  message('a2', 'q2', 3),
+  message('q2-edited', 'a1', 4),
+  message('a2-edited', 'q2-edited', 5),
+  message('a1-regenerated', 'q1', 6),
+];
+
+const ids = (messages: ChatMessage[]) => messages.map((m) => m.id);
+const byId = (id: string) => MESSAGES.find((m) => m.id === id)!;
+
+describe('getBranch', () => {
+  it('follows the parents of a message back to the start of the conversation', () => {
+    expect(ids(getBranch(MESSAGES, 'a2'))).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(ids(getBranch(MESSAGES, 'a2-edited'))).toEqual(['q1', 'a1', 'q2-edited', 'a2-edited']);
+    expect(ids(getBranch(MESSAGES, 'a1-regenerated'))).toEqual(['q1', 'a1-regenerated']);
+  });
+
+  it('is empty without a known message', () => {
+    expect(getBranch(MESSAGES, null)).toEqual([]);
+    expect(getBranch(MESSAGES, 'deleted')).toEqual([]);
+  });
+});
+
+describe('getSiblings', () => {
+  it('lists the versions of an edited question and of a regenerated answer, oldest first', () => {
+    expect(ids(getSiblings(MESSAGES, byId('q2-edited')))).toEqual(['q2', 'q2-edited']);
+    expect(ids(getSiblings(MESSAGES, byId('a1')))).toEqual(['a1', 'a1-regenerated']);
+  });
+
+  it('treats a missing parent like the start of the conversation', () => {
+    const legacy = { ...message('q0', null, -1), parentId: undefined };
+    expect(ids(getSiblings([legacy, ...MESSAGES], byId('q1')))).toEqual(['q0', 'q1']);
+  });
+});
+
+describe('getLatestLeaf', () => {
+  it('follows the newest version at every fork', () => {
+    expect(getLatestLeaf(MESSAGES, 'q1')).toBe('a1-regenerated');
+    expect(getLatestLeaf(MESSAGES, 'a1')).toBe('a2-edited');
+    expect(getLatestLeaf(MESSAGES, 'q2')).toBe('a2');
+  });
+
+  it('returns the message itself at the end of a branch', () => {
+    expect(getLatestLeaf(MESSAGES, 'a2')).toBe('a2');
+  });
+});
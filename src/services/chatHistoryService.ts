@@ -1,10 +1,20 @@
+/**
+ * Chat History Service
+ * Conversations are trees of messages: editing an earlier question or regenerating an
+ * answer adds a sibling message instead of replacing it, so every version stays available.
+ * Each conversation remembers the message at the end of the branch that is shown.
+ */
+
 import { supabase } from './supabase';
+import type { Citation } from './ragService';
 
 export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  citations?: Citation[]; // Sources an assistant answer cites
+  parentId?: string | null; // Message this one answers or follows; null for the first message
 }
 
 export interface ChatConversation {
@@ -13,7 +23,50 @@ export interface ChatConversation {
   title?: string;
   createdAt: Date;
   updatedAt: Date;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // The branch that is shown
+  activeMessageId?: string; // Last message of that branch
+}
+
+interface ChatMessageRow {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string;
+  citations: Citation[] | null;
+  parent_id: string | null;
+}
+
+function mapChatMessageRow(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role as 'user' | 'assistant',
+    content: row.content,
+    timestamp: new Date(row.created_at),
+    citations: row.citations || undefined,
+    parentId: row.parent_id ?? null,
+  };
+}
+
+/**
+ * Create a conversation, optionally attached to a note
+ */
+export async function createConversation(
+  userId: string,
+  noteId?: string,
+  title: string = noteId ? 'Chat' : 'New Conversation'
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert({
+      user_id: userId,
+      note_id: noteId || null,
+      title,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
 }
 
 /**
@@ -25,18 +78,7 @@ export async function getOrCreateConversation(
 ): Promise<string> {
   if (!noteId) {
     // Create a new conversation without a note
-    const { data, error } = await supabase
-      .from('chat_conversations')
-      .insert({
-        user_id: userId,
-        note_id: null,
-        title: 'New Conversation',
-      })
-      .select('id')
-      .single();
-
-    if (error) throw error;
-    return data.id;
+    return createConversation(userId);
   }
 
   // Try to find existing conversation for this note
@@ -56,22 +98,11 @@ export async function getOrCreateConversation(
   }
 
   // Create new conversation for this note
-  const { data: newConv, error: insertError } = await supabase
-    .from('chat_conversations')
-    .insert({
-      user_id: userId,
-      note_id: noteId,
-      title: 'Chat',
-    })
-    .select('id')
-    .single();
-
-  if (insertError) throw insertError;
-  return newConv.id;
+  return createConversation(userId, noteId);
 }
 
 /**
- * Load conversation messages
+ * Load all messages of a conversation, every branch, oldest first
  */
 export async function loadConversationMessages(
   conversationId: string
@@ -84,50 +115,130 @@ export async function loadConversationMessages(
 
   if (error) throw error;
 
-  return (data || []).map((msg) => ({
-    id: msg.id,
-    role: msg.role as 'user' | 'assistant',
-    content: msg.content,
-    timestamp: new Date(msg.created_at),
-  }));
+  return (data || []).map(mapChatMessageRow);
 }
 
 /**
- * Save a message to the conversation
+ * Load all messages of a conversation and the last message of the branch that is shown
+ */
+export async function loadConversation(
+  conversationId: string
+): Promise<{ messages: ChatMessage[]; activeMessageId: string | null }> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('active_message_id')
+    .eq('id', conversationId)
+    .single();
+
+  if (error) throw error;
+
+  const messages = await loadConversationMessages(conversationId);
+  const activeMessageId = messages.some((message) => message.id === data.active_message_id)
+    ? data.active_message_id
+    : messages[messages.length - 1]?.id ?? null;
+
+  return { messages, activeMessageId };
+}
+
+/**
+ * Save a message to the conversation after `parentId`, and show the branch it ends
  */
 export async function saveMessage(
   conversationId: string,
   role: 'user' | 'assistant',
-  content: string
-): Promise<void> {
-  const { error } = await supabase.from('chat_messages').insert({
-    conversation_id: conversationId,
-    role,
-    content,
-  });
+  content: string,
+  citations?: Citation[],
+  parentId: string | null = null
+): Promise<ChatMessage> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      conversation_id: conversationId,
+      role,
+      content,
+      parent_id: parentId,
+      // Only sent when there are citations, so chat keeps working before note-chunks-schema.sql is run
+      ...(citations && citations.length > 0 ? { citations } : {}),
+    })
+    .select('*')
+    .single();
 
   if (error) throw error;
 
   // Update conversation's updated_at timestamp
   const { error: updateError } = await supabase
     .from('chat_conversations')
-    .update({ updated_at: new Date().toISOString() })
+    .update({ updated_at: new Date().toISOString(), active_message_id: data.id })
     .eq('id', conversationId);
 
   if (updateError) throw updateError;
+  return mapChatMessageRow(data);
 }
 
 /**
- * Get recent conversations for a user
+ * Remember which branch of a conversation is shown
+ */
+export async function setActiveMessage(conversationId: string, messageId: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_conversations')
+    .update({ active_message_id: messageId })
+    .eq('id', conversationId);
+
+  if (error) throw error;
+}
+
+/**
+ * Messages from the start of the conversation to `messageId`
+ */
+export function getBranch(messages: ChatMessage[], messageId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: ChatMessage[] = [];
+  let current = messageId ? byId.get(messageId) : undefined;
+
+  while (current) {
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+/**
+ * Versions of a message: the messages that follow the same parent, oldest first
+ */
+export function getSiblings(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return messages
+    .filter((other) => (other.parentId ?? null) === (message.parentId ?? null) && other.role === message.role)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Last message of the newest branch continuing from `messageId`
+ */
+export function getLatestLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter((message) => message.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children.reduce((newest, child) => (child.timestamp > newest.timestamp ? child : newest)).id;
+  }
+}
+
+/**
+ * Get recent conversations for a user, optionally only those of one note
  */
 export async function getRecentConversations(
   userId: string,
-  limit: number = 10
+  limit: number = 10,
+  noteId?: string
 ): Promise<ChatConversation[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from('chat_conversations')
     .select('*')
-    .eq('user_id', userId)
+    .eq('user_id', userId);
+
+  if (noteId) query = query.eq('note_id', noteId);
+
+  const { data, error } = await query
     .order('updated_at', { ascending: false })
     .limit(limit);
 
@@ -137,13 +248,17 @@ export async function getRecentConversations(
   const conversations: ChatConversation[] = [];
   for (const conv of data || []) {
     const messages = await loadConversationMessages(conv.id);
+    const activeMessageId = messages.some((message) => message.id === conv.active_message_id)
+      ? conv.active_message_id
+      : messages[messages.length - 1]?.id;
     conversations.push({
       id: conv.id,
       noteId: conv.note_id || undefined,
       title: conv.title || undefined,
       createdAt: new Date(conv.created_at),
       updatedAt: new Date(conv.updated_at),
-      messages,
+      messages: getBranch(messages, activeMessageId ?? null),
+      activeMessageId: activeMessageId || undefined,
     });
   }
 
@@ -178,9 +293,15 @@ export async function updateConversationTitle(
 }
 
 export const chatHistoryService = {
+  createConversation,
   getOrCreateConversation,
   loadConversationMessages,
+  loadConversation,
   saveMessage,
+  setActiveMessage,
+  getBranch,
+  getSiblings,
+  getLatestLeaf,
   getRecentConversations,
   deleteConversation,
   updateConversationTitle,
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_DECK_OPTIONS, buildDueQueue } from './deckOptionsService';
+import type { DeckOptions, StudiedToday } from './deckOptionsService';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): string {
+  return new Date(NOW.getTime() - hours * HOUR_MS).toISOString();
+}
+
+function newCard(id: string, overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return {
+    id,
+    front: id,
+    back: id,
+    noteId: 'note-1',
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    nextReviewDate: hoursAgo(1),
+    intervalType: 'days',
+    ...overrides,
+  };
+}
+
+function reviewCard(id: string, overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return newCard(id, { interval: 3, repetitions: 2, lastReviewed: hoursAgo(72), ...overrides });
+}
+
+function learningCard(id: string, overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return newCard(id, { interval: 10, intervalType: 'minutes', lastReviewed: hoursAgo(2), ...overrides });
+}
+
+function options(overrides: Partial<DeckOptions> = {}): () => DeckOptions {
+  return () => ({ ...DEFAULT_DECK_OPTIONS, ...overrides });
+}
+
+function ids(cards: SpacedRepetitionCard[]): string[] {
+  return cards.map((card) => card.id);
+}
+
+describe('buildDueQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('puts learning cards first, then reviews, then new cards', () => {
+    const cards = [newCard('new'), reviewCard('review'), learningCard('learning')];
+    expect(ids(buildDueQueue(cards, options(), new Map(), new Map(), NOW))).toEqual(['learning', 'review', 'new']);
+  });
+
+  it('leaves out cards that are not due yet or suspended', () => {
+    const cards = [
+      reviewCard('due'),
+      reviewCard('later', { nextReviewDate: new Date(NOW.getTime() + HOUR_MS).toISOString() }),
+      reviewCard('suspended', { suspended: true }),
+    ];
+    expect(ids(buildDueQueue(cards, options(), new Map(), new Map(), NOW))).toEqual(['due']);
+  });
+
+  it('caps new cards and reviews by what is left of the daily limits', () => {
+    const cards = [
+      newCard('new-1', { nextReviewDate: hoursAgo(3) }),
+      newCard('new-2', { nextReviewDate: hoursAgo(2) }),
+      newCard('new-3', { nextReviewDate: hoursAgo(1) }),
+      reviewCard('review-1', { nextReviewDate: hoursAgo(2) }),
+      reviewCard('review-2', { nextReviewDate: hoursAgo(1) }),
+    ];
+    const studied = new Map<string, StudiedToday>([['', { newCards: 1, reviews: 0 }]]);
+
+    const queue = buildDueQueue(cards, options({ newCardsPerDay: 3, reviewsPerDay: 1 }), studied, new Map(), NOW);
+    expect(ids(queue)).toEqual(['review-1', 'new-1', 'new-2']);
+  });
+
+  it('raises the new card limit to the daily new cards of an exam plan', () => {
+    const cards = ['new-1', 'new-2', 'new-3'].map((id) => newCard(id, { folderId: 'exam' }));
+    const studied = new Map<string, StudiedToday>([['exam', { newCards: 1, reviews: 0 }]]);
+    const planned = new Map([['exam', 3]]);
+
+    expect(ids(buildDueQueue(cards, options({ newCardsPerDay: 1 }), studied, planned, NOW))).toEqual(['new-1', 'new-2']);
+    expect(ids(buildDueQueue(cards, options({ newCardsPerDay: 5 }), studied, planned, NOW))).toHaveLength(3);
+  });
+
+  it('never limits learning cards', () => {
+    const cards = [learningCard('learning-1'), learningCard('learning-2')];
+    const queue = buildDueQueue(cards, options({ newCardsPerDay: 0, reviewsPerDay: 0 }), new Map(), new Map(), NOW);
+    expect(ids(queue)).toEqual(['learning-1', 'learning-2']);
+  });
+
+  it('applies the limits of each folder separately', () => {
+    const cards = [newCard('a', { folderId: 'folder-a' }), newCard('b', { folderId: 'folder-b' })];
+    const getOptions = (folderId?: string) => ({ ...DEFAULT_DECK_OPTIONS, newCardsPerDay: folderId === 'folder-a' ? 0 : 5 });
+    expect(ids(buildDueQueue(cards, getOptions, new Map(), new Map(), NOW))).toEqual(['b']);
+  });
+
+  it('buries siblings that were studied today or are already queued', () => {
+    const cards = [
+      reviewCard('cloze::c1', { groupId: 'cloze', nextReviewDate: hoursAgo(2) }),
+      reviewCard('cloze::c2', { groupId: 'cloze', nextReviewDate: hoursAgo(1) }),
+      reviewCard('reverse', { groupId: 'reverse', nextReviewDate: hoursAgo(1) }),
+      reviewCard('reverse::rev', { groupId: 'reverse', lastReviewed: hoursAgo(1), nextReviewDate: hoursAgo(0.5) }),
+    ];
+
+    expect(ids(buildDueQueue(cards, options({ burySiblings: true }), new Map(), new Map(), NOW))).toEqual(['cloze::c1']);
+    expect(ids(buildDueQueue(cards, options({ burySiblings: false }), new Map(), new Map(), NOW))).toHaveLength(4);
+  });
+});
@@ -0,0 +1,288 @@
+import { supabase } from './supabase';
+import type { Folder } from '../types';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import { getCardsDueForReview, sortCardsByPriority } from './spacedRepetitionService';
+import { getGroupId } from './cardTypeService';
+import type { ReviewLogEntry } from './reviewLogService';
+import { getReviewLog } from './reviewLogService';
+
+/**
+ * Study options of a folder ("deck")
+ */
+export interface DeckOptions {
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  learningSteps: number[]; // Minutes
+  burySiblings: boolean; // Show at most one card of a note per day
+}
+
+/**
+ * Options stored for a folder, or for the user's defaults when folderId is null
+ */
+export interface StoredDeckOptions extends DeckOptions {
+  folderId: string | null;
+}
+
+/**
+ * Cards already studied today in one folder
+ */
+export interface StudiedToday {
+  newCards: number;
+  reviews: number;
+}
+
+interface DeckOptionsRow {
+  folder_id: string | null;
+  new_cards_per_day: number;
+  reviews_per_day: number;
+  learning_steps: number[] | null;
+  bury_siblings: boolean;
+}
+
+export const DEFAULT_DECK_OPTIONS: DeckOptions = {
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  learningSteps: [1, 10],
+  burySiblings: false,
+};
+
+const MAX_CARDS_PER_DAY = 9999;
+const MAX_STEP_MINUTES = 24 * 60;
+
+function mapDeckOptionsRow(row: DeckOptionsRow): StoredDeckOptions {
+  return {
+    folderId: row.folder_id,
+    newCardsPerDay: row.new_cards_per_day,
+    reviewsPerDay: row.reviews_per_day,
+    learningSteps: row.learning_steps || [],
+    burySiblings: row.bury_siblings,
+  };
+}
+
+/**
+ * Clamp options to valid values (non-negative limits, steps of 1 minute to 1 day)
+ */
+export function normalizeDeckOptions(options: Partial<DeckOptions>): DeckOptions {
+  const limit = (value: number | undefined, fallback: number) =>
+    value === undefined || !Number.isFinite(value)
+      ? fallback
+      : Math.min(MAX_CARDS_PER_DAY, Math.max(0, Math.round(value)));
+
+  return {
+    newCardsPerDay: limit(options.newCardsPerDay, DEFAULT_DECK_OPTIONS.newCardsPerDay),
+    reviewsPerDay: limit(options.reviewsPerDay, DEFAULT_DECK_OPTIONS.reviewsPerDay),
+    learningSteps: (options.learningSteps ?? DEFAULT_DECK_OPTIONS.learningSteps)
+      .filter((step) => Number.isFinite(step))
+      .map((step) => Math.min(MAX_STEP_MINUTES, Math.max(1, Math.round(step)))),
+    burySiblings: options.burySiblings ?? DEFAULT_DECK_OPTIONS.burySiblings,
+  };
+}
+
+/**
+ * Get all deck options of a user (one entry per folder that has its own options)
+ */
+export async function getAllDeckOptions(userId: string): Promise<StoredDeckOptions[]> {
+  const { data, error } = await supabase
+    .from('deck_options')
+    .select('folder_id, new_cards_per_day, reviews_per_day, learning_steps, bury_siblings')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(mapDeckOptionsRow);
+}
+
+/**
+ * Save the options of a folder (or the user's defaults when folderId is null)
+ */
+export async function saveDeckOptions(
+  userId: string,
+  folderId: string | null,
+  options: DeckOptions
+): Promise<StoredDeckOptions> {
+  const normalized = normalizeDeckOptions(options);
+
+  const { data, error } = await supabase
+    .from('deck_options')
+    .upsert(
+      {
+        user_id: userId,
+        folder_id: folderId,
+        new_cards_per_day: normalized.newCardsPerDay,
+        reviews_per_day: normalized.reviewsPerDay,
+        learning_steps: normalized.learningSteps,
+        bury_siblings: normalized.burySiblings,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,folder_id' }
+    )
+    .select('folder_id, new_cards_per_day, reviews_per_day, learning_steps, bury_siblings')
+    .single();
+
+  if (error) throw error;
+  return mapDeckOptionsRow(data);
+}
+
+/**
+ * Remove a folder's own options, so it inherits them again
+ */
+export async function deleteDeckOptions(userId: string, folderId: string): Promise<void> {
+  const { error } = await supabase
+    .from('deck_options')
+    .delete()
+    .eq('user_id', userId)
+    .eq('folder_id', folderId);
+
+  if (error) throw error;
+}
+
+/**
+ * Options that apply to a folder: its own, else those of the nearest parent folder
+ * that has options, else the user's defaults, else the built-in defaults.
+ */
+export function resolveDeckOptions(
+  folderId: string | null | undefined,
+  allOptions: StoredDeckOptions[],
+  folders: Folder[]
+): DeckOptions {
+  const seen = new Set<string>();
+  let currentId = folderId ?? null;
+
+  while (currentId && !seen.has(currentId)) {
+    seen.add(currentId);
+    const own = allOptions.find((options) => options.folderId === currentId);
+    if (own) return normalizeDeckOptions(own);
+    currentId = folders.find((folder) => folder.id === currentId)?.parentId ?? null;
+  }
+
+  const defaults = allOptions.find((options) => options.folderId === null);
+  return normalizeDeckOptions(defaults ?? DEFAULT_DECK_OPTIONS);
+}
+
+function isNewCard(card: { repetitions: number; lastReviewed?: string }): boolean {
+  return card.repetitions === 0 && !card.lastReviewed;
+}
+
+function startOfToday(now: Date): Date {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Count the new cards and reviews studied today, per folder ('' for cards without one).
+ * Learning steps are not counted, like in Anki.
+ */
+export function countStudiedToday(reviews: ReviewLogEntry[], now: Date = new Date()): Map<string, StudiedToday> {
+  const today = startOfToday(now);
+  const counts = new Map<string, StudiedToday>();
+
+  reviews
+    .filter((review) => review.reviewedAt >= today)
+    .forEach((review) => {
+      const key = review.previousState.folderId ?? '';
+      const count = counts.get(key) || { newCards: 0, reviews: 0 };
+      if (isNewCard(review.previousState)) {
+        count.newCards++;
+      } else if (review.previousIntervalType !== 'minutes') {
+        count.reviews++;
+      }
+      counts.set(key, count);
+    });
+
+  return counts;
+}
+
+/**
+ * Build today's study queue from the due cards and each folder's options:
+ * learning cards first (never limited), then reviews, then new cards, each
+ * capped by what is left of the folder's daily limits. A folder with an exam
+ * plan gets at least the plan's new cards per day (`plannedNewCards`, by folder
+ * id). With "bury siblings", a card is held back until tomorrow when a sibling
+ * was studied today or is already in the queue.
+ */
+export function buildDueQueue(
+  cards: SpacedRepetitionCard[],
+  getOptions: (folderId?: string) => DeckOptions,
+  studiedToday: Map<string, StudiedToday> = new Map(),
+  plannedNewCards: Map<string, number> = new Map(),
+  now: Date = new Date()
+): SpacedRepetitionCard[] {
+  const today = startOfToday(now);
+  const due = sortCardsByPriority(getCardsDueForReview(cards));
+  const siblingKey = (card: SpacedRepetitionCard) => `${card.noteId ?? ''}/${getGroupId(card)}`;
+
+  const studiedSiblings = new Set(
+    cards
+      .filter((card) => card.lastReviewed && new Date(card.lastReviewed) >= today)
+      .map(siblingKey)
+  );
+  const queuedSiblings = new Set<string>();
+  const remaining = new Map<string, StudiedToday>();
+
+  const learning: SpacedRepetitionCard[] = [];
+  const reviews: SpacedRepetitionCard[] = [];
+  const newCards: SpacedRepetitionCard[] = [];
+
+  due.forEach((card) => {
+    const folderKey = card.folderId ?? '';
+    const options = getOptions(card.folderId);
+
+    if (!remaining.has(folderKey)) {
+      const studied = studiedToday.get(folderKey) || { newCards: 0, reviews: 0 };
+      const newCardsPerDay = Math.max(options.newCardsPerDay, plannedNewCards.get(folderKey) ?? 0);
+      remaining.set(folderKey, {
+        newCards: Math.max(0, newCardsPerDay - studied.newCards),
+        reviews: Math.max(0, options.reviewsPerDay - studied.reviews),
+      });
+    }
+    const left = remaining.get(folderKey)!;
+
+    // Cards in the middle of learning steps always stay in the queue
+    if (card.intervalType === 'minutes' && !isNewCard(card)) {
+      learning.push(card);
+      queuedSiblings.add(siblingKey(card));
+      return;
+    }
+
+    const key = siblingKey(card);
+    if (options.burySiblings && (studiedSiblings.has(key) || queuedSiblings.has(key))) return;
+
+    if (isNewCard(card)) {
+      if (left.newCards === 0) return;
+      left.newCards--;
+      newCards.push(card);
+    } else {
+      if (left.reviews === 0) return;
+      left.reviews--;
+      reviews.push(card);
+    }
+    queuedSiblings.add(key);
+  });
+
+  return [...learning, ...reviews, ...newCards];
+}
+
+/**
+ * Load everything needed to build the due queue: the user's deck options and
+ * what has been studied today
+ */
+export async function getStudyLimits(
+  userId: string
+): Promise<{ deckOptions: StoredDeckOptions[]; studiedToday: Map<string, StudiedToday> }> {
+  const [deckOptions, reviews] = await Promise.all([
+    getAllDeckOptions(userId),
+    getReviewLog(userId, 1),
+  ]);
+  return { deckOptions, studiedToday: countStudiedToday(reviews) };
+}
+
+export const deckOptionsService = {
+  getAllDeckOptions,
+  saveDeckOptions,
+  deleteDeckOptions,
+  resolveDeckOptions,
+  normalizeDeckOptions,
+  countStudiedToday,
+  buildDueQueue,
+  getStudyLimits,
+};
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildStudyPlan,
+  getDaysUntilExam,
+  getFolderTreeIds,
+  getPlannedNewCardsPerDay,
+  resolveExamDate,
+} from './examPlannerService';
+import type { ExamPlan, FolderStudyMaterial } from './examPlannerService';
+import type { StudySession } from './analyticsService';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import type { Folder } from '../types';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+// Local times, so day boundaries do not depend on the time zone
+const NOW = new Date(2026, 5, 10, 12);
+const EXAM_DATE = new Date(2026, 5, 15);
+
+function folder(id: string, parentId: string | null = null): Folder {
+  return { id, name: id, parentId, createdAt: NOW };
+}
+
+function plan(folderId: string, examDate: Date = EXAM_DATE): ExamPlan {
+  return { folderId, examDate, createdAt: new Date(2026, 5, 7) };
+}
+
+function newCards(count: number, folderId?: string): SpacedRepetitionCard[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${folderId}-${index}`,
+    front: 'Front',
+    back: 'Back',
+    folderId,
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    nextReviewDate: NOW.toISOString(),
+    intervalType: 'days' as const,
+  }));
+}
+
+function session(studyMode: string, noteId: string, startedAt: Date): StudySession {
+  return { id: `${studyMode}-${noteId}`, userId: 'user-1', noteId, folderId: 'exam', studyMode, startedAt, endedAt: null, durationSeconds: null, createdAt: startedAt };
+}
+
+const FOLDERS = [folder('exam'), folder('chapter-1', 'exam'), folder('section-1', 'chapter-1'), folder('other')];
+
+describe('getFolderTreeIds', () => {
+  it('lists a folder and every folder below it', () => {
+    expect(getFolderTreeIds('exam', FOLDERS)).toEqual(['exam', 'chapter-1', 'section-1']);
+    expect(getFolderTreeIds('section-1', FOLDERS)).toEqual(['section-1']);
+  });
+
+  it('stops at folders that are their own ancestors', () => {
+    const cycle = [folder('a', 'b'), folder('b', 'a')];
+    expect(getFolderTreeIds('a', cycle)).toEqual(['a', 'b']);
+  });
+});
+
+describe('resolveExamDate', () => {
+  it('uses the exam date of the folder or its nearest parent', () => {
+    const plans = [plan('exam'), plan('chapter-1', new Date(2026, 5, 12))];
+    expect(resolveExamDate('section-1', plans, FOLDERS)).toEqual(new Date(2026, 5, 12));
+    expect(resolveExamDate('exam', plans, FOLDERS)).toEqual(EXAM_DATE);
+    expect(resolveExamDate('other', plans, FOLDERS)).toBeUndefined();
+    expect(resolveExamDate(undefined, plans, FOLDERS)).toBeUndefined();
+  });
+});
+
+describe('getDaysUntilExam', () => {
+  it('counts whole days, whatever the time of day', () => {
+    expect(getDaysUntilExam(EXAM_DATE, NOW)).toBe(5);
+    expect(getDaysUntilExam(EXAM_DATE, new Date(2026, 5, 15, 23))).toBe(0);
+    expect(getDaysUntilExam(EXAM_DATE, new Date(2026, 5, 16, 1))).toBe(-1);
+  });
+});
+
+describe('buildStudyPlan', () => {
+  const material: FolderStudyMaterial = {
+    cards: newCards(10, 'exam'),
+    notes: [
+      { id: 'cells', title: 'Cells', folderId: 'exam', quizQuestions: 5, exercises: 2 },
+      { id: 'genes', title: 'Genes', folderId: 'exam', quizQuestions: 4, exercises: 0 },
+      { id: 'proteins', title: 'Proteins', folderId: 'chapter-1', quizQuestions: 0, exercises: 3 },
+    ],
+  };
+
+  it('spreads new cards over the days before the review day', () => {
+    const days = buildStudyPlan(material, plan('exam'), [], { now: NOW });
+
+    expect(days.map((day) => day.date)).toEqual(['2026-06-10', '2026-06-11', '2026-06-12', '2026-06-13', '2026-06-14']);
+    expect(days.map((day) => day.newCards)).toEqual([3, 3, 3, 1, 0]);
+    expect(days.map((day) => day.isReviewDay)).toEqual([false, false, false, false, true]);
+  });
+
+  it('has no review day when the exam is less than three days away', () => {
+    const days = buildStudyPlan(material, plan('exam'), [], { now: new Date(2026, 5, 13, 12) });
+    expect(days.map((day) => day.newCards)).toEqual([5, 5]);
+    expect(days.some((day) => day.isReviewDay)).toBe(false);
+  });
+
+  it('plans exercises early and quizzes late, once per note', () => {
+    const days = buildStudyPlan(material, plan('exam'), [], { now: NOW });
+    const tasks = days.map((day) => day.tasks.map((task) => `${task.type}:${task.noteId}`));
+    expect(tasks).toEqual([['exercises:cells'], ['quiz:cells'], ['exercises:proteins'], ['quiz:genes'], []]);
+  });
+
+  it('shows tasks started today as done and drops those finished earlier', () => {
+    const sessions = [
+      session('quiz', 'genes', new Date(2026, 5, 10, 9)),
+      session('exercises', 'proteins', new Date(2026, 5, 9, 18)),
+      session('exercises', 'cells', new Date(2026, 5, 1)), // Before the plan was made
+    ];
+    const days = buildStudyPlan(material, plan('exam'), sessions, { now: NOW });
+
+    expect(days[0].tasks.map((task) => [task.type, task.noteId, task.done])).toEqual([
+      ['exercises', 'cells', false],
+      ['quiz', 'genes', true],
+    ]);
+    expect(days.flatMap((day) => day.tasks).map((task) => `${task.type}:${task.noteId}`)).toEqual([
+      'exercises:cells',
+      'quiz:genes',
+      'quiz:cells',
+    ]);
+  });
+
+  it('is empty once the exam day has come', () => {
+    expect(buildStudyPlan(material, plan('exam'), [], { now: new Date(2026, 5, 15, 8) })).toEqual([]);
+  });
+});
+
+describe('getPlannedNewCardsPerDay', () => {
+  it('gives each folder under an exam plan its share of new cards per day', () => {
+    const cards = [...newCards(10, 'exam'), ...newCards(3, 'section-1'), ...newCards(5, 'other'), ...newCards(2)];
+    const studiedToday = new Map([['exam', { newCards: 2, reviews: 4 }]]);
+
+    const planned = getPlannedNewCardsPerDay(cards, [plan('exam')], FOLDERS, studiedToday, NOW);
+    // 4 days before the review day: (10 + 2 studied today) / 4 and 3 / 4
+    expect(Object.fromEntries(planned)).toEqual({ exam: 3, 'section-1': 1 });
+  });
+
+  it('plans nothing once the exam is over', () => {
+    const planned = getPlannedNewCardsPerDay(newCards(4, 'exam'), [plan('exam', new Date(2026, 5, 9))], FOLDERS, new Map(), NOW);
+    expect(planned.size).toBe(0);
+  });
+});
@@ -0,0 +1,375 @@
+import { supabase } from './supabase';
+import type { Folder } from '../types';
+import type { SchedulerName, SpacedRepetitionCard } from './spacedRepetitionService';
+import { getActiveCards, normalizeCard } from './spacedRepetitionService';
+import { buildReviewForecast } from './forecastService';
+import { analyticsService } from './analyticsService';
+import type { StudySession } from './analyticsService';
+import type { StudiedToday } from './deckOptionsService';
+
+/**
+ * Exam date attached to a folder
+ */
+export interface ExamPlan {
+  folderId: string;
+  examDate: Date; // Local midnight of the exam day
+  createdAt: Date;
+}
+
+export type PlannedTaskType = 'quiz' | 'exercises';
+
+/**
+ * A quiz attempt or exercise set planned for one day
+ */
+export interface PlannedTask {
+  type: PlannedTaskType;
+  noteId: string;
+  folderId: string | null;
+  title: string;
+  count: number; // Questions or exercises in the note
+  done: boolean; // Started today (only today's tasks can be done)
+}
+
+export interface PlanDay {
+  date: string; // YYYY-MM-DD
+  newCards: number;
+  reviews: number; // Estimated, assuming every review is answered "Good"
+  tasks: PlannedTask[];
+  isReviewDay: boolean; // Last day before the exam, kept free for reviewing
+}
+
+/**
+ * Notes, flashcards and quizzes of a folder and its subfolders
+ */
+export interface FolderStudyMaterial {
+  cards: SpacedRepetitionCard[];
+  notes: Array<{
+    id: string;
+    title: string;
+    folderId: string | null;
+    quizQuestions: number;
+    exercises: number;
+  }>;
+}
+
+export interface StudyPlanOptions {
+  scheduler?: SchedulerName;
+  desiredRetention?: number;
+  now?: Date;
+}
+
+interface ExamPlanRow {
+  folder_id: string;
+  exam_date: string;
+  created_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keep the last day before the exam for reviews once there are at least this many days left
+const MIN_DAYS_FOR_REVIEW_DAY = 3;
+
+function parseDateKey(value: string): Date {
+  return new Date(`${value}T00:00:00`);
+}
+
+function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function mapExamPlanRow(row: ExamPlanRow): ExamPlan {
+  return {
+    folderId: row.folder_id,
+    examDate: parseDateKey(row.exam_date),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Get all exam dates of a user
+ */
+export async function getExamPlans(userId: string): Promise<ExamPlan[]> {
+  const { data, error } = await supabase
+    .from('exam_plans')
+    .select('folder_id, exam_date, created_at')
+    .eq('user_id', userId)
+    .order('exam_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapExamPlanRow);
+}
+
+/**
+ * Set the exam date of a folder
+ */
+export async function saveExamPlan(userId: string, folderId: string, examDate: Date): Promise<ExamPlan> {
+  const { data, error } = await supabase
+    .from('exam_plans')
+    .upsert(
+      {
+        user_id: userId,
+        folder_id: folderId,
+        exam_date: toDateKey(examDate),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,folder_id' }
+    )
+    .select('folder_id, exam_date, created_at')
+    .single();
+
+  if (error) throw error;
+  return mapExamPlanRow(data);
+}
+
+/**
+ * Remove the exam date of a folder
+ */
+export async function deleteExamPlan(userId: string, folderId: string): Promise<void> {
+  const { error } = await supabase
+    .from('exam_plans')
+    .delete()
+    .eq('user_id', userId)
+    .eq('folder_id', folderId);
+
+  if (error) throw error;
+}
+
+/**
+ * Ids of a folder and all folders below it
+ */
+export function getFolderTreeIds(folderId: string, folders: Folder[]): string[] {
+  const ids = [folderId];
+  for (let i = 0; i < ids.length; i++) {
+    folders
+      .filter((folder) => folder.parentId === ids[i] && !ids.includes(folder.id))
+      .forEach((folder) => ids.push(folder.id));
+  }
+  return ids;
+}
+
+/**
+ * Exam date that applies to a folder: its own, else that of the nearest parent folder
+ */
+export function resolveExamDate(
+  folderId: string | null | undefined,
+  plans: ExamPlan[],
+  folders: Folder[]
+): Date | undefined {
+  const seen = new Set<string>();
+  let currentId = folderId ?? null;
+
+  while (currentId && !seen.has(currentId)) {
+    seen.add(currentId);
+    const plan = plans.find((p) => p.folderId === currentId);
+    if (plan) return plan.examDate;
+    currentId = folders.find((folder) => folder.id === currentId)?.parentId ?? null;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whole days from today until the exam (0 on the exam day, negative once it is over)
+ */
+export function getDaysUntilExam(examDate: Date, now: Date = new Date()): number {
+  return Math.round((startOfDay(examDate).getTime() - startOfDay(now).getTime()) / DAY_MS);
+}
+
+/**
+ * Days to introduce new cards on: all days left, except the review day before the exam
+ */
+function getStudyDays(daysLeft: number): number {
+  return daysLeft >= MIN_DAYS_FOR_REVIEW_DAY ? daysLeft - 1 : daysLeft;
+}
+
+function isUnstudied(card: SpacedRepetitionCard): boolean {
+  return card.repetitions === 0 && !card.lastReviewed;
+}
+
+/**
+ * New cards per day each folder with an exam plan needs to get through its new cards
+ * before the review day, by folder id. New cards studied today count towards today's share.
+ */
+export function getPlannedNewCardsPerDay(
+  cards: SpacedRepetitionCard[],
+  plans: ExamPlan[],
+  folders: Folder[],
+  studiedToday: Map<string, StudiedToday> = new Map(),
+  now: Date = new Date()
+): Map<string, number> {
+  const newCards = new Map<string, number>();
+  getActiveCards(cards)
+    .filter((card) => card.folderId && isUnstudied(card))
+    .forEach((card) => newCards.set(card.folderId!, (newCards.get(card.folderId!) || 0) + 1));
+
+  const planned = new Map<string, number>();
+  newCards.forEach((count, folderId) => {
+    const examDate = resolveExamDate(folderId, plans, folders);
+    const daysLeft = examDate ? getDaysUntilExam(examDate, now) : 0;
+    if (daysLeft <= 0) return;
+    const studied = studiedToday.get(folderId)?.newCards ?? 0;
+    planned.set(folderId, Math.ceil((count + studied) / getStudyDays(daysLeft)));
+  });
+
+  return planned;
+}
+
+/**
+ * Load the flashcards, quizzes and exercises of a folder and its subfolders
+ */
+export async function getFolderStudyMaterial(
+  userId: string,
+  folderId: string,
+  folders: Folder[]
+): Promise<FolderStudyMaterial> {
+  const { data: notes, error: notesError } = await supabase
+    .from('notes')
+    .select('id, title, folder_id, created_at')
+    .eq('user_id', userId)
+    .in('folder_id', getFolderTreeIds(folderId, folders))
+    .order('created_at', { ascending: true });
+
+  if (notesError) throw notesError;
+  if (!notes || notes.length === 0) return { cards: [], notes: [] };
+
+  const { data: studyContent, error: studyError } = await supabase
+    .from('study_content')
+    .select('note_id, flashcards, quiz_questions, exercises')
+    .in('note_id', notes.map((n) => n.id));
+
+  if (studyError) throw studyError;
+
+  const cards: SpacedRepetitionCard[] = [];
+  const material: FolderStudyMaterial['notes'] = notes.map((note) => {
+    const content = (studyContent || []).find((sc) => sc.note_id === note.id);
+    (content?.flashcards || []).forEach((card: Parameters<typeof normalizeCard>[0]) => {
+      cards.push(normalizeCard(card, note.id, note.folder_id || undefined));
+    });
+
+    return {
+      id: note.id,
+      title: note.title,
+      folderId: note.folder_id,
+      quizQuestions: (content?.quiz_questions || []).length,
+      exercises: (content?.exercises || []).length,
+    };
+  });
+
+  return { cards, notes: material };
+}
+
+/**
+ * Day indexes that spread `count` items evenly over `days` days. With `fromEnd`,
+ * the last item lands on the last day instead of the first item on the first day.
+ */
+function spreadOverDays(count: number, days: number, fromEnd: boolean): number[] {
+  return Array.from({ length: count }, (_, index) =>
+    fromEnd ? Math.floor(((index + 1) * days) / count) - 1 : Math.floor((index * days) / count)
+  );
+}
+
+/**
+ * Plan the days left before an exam. New flashcards are spread evenly over the days
+ * before the review day, every note's exercises and a quiz attempt are planned once
+ * (exercises early, quizzes late), and the expected reviews come from a forecast with
+ * intervals compressed to the exam date. Tasks started since the plan was made are
+ * not planned again; those started today are shown as done. Recomputing every day
+ * moves whatever was skipped onto the days that are left.
+ */
+export function buildStudyPlan(
+  material: FolderStudyMaterial,
+  plan: ExamPlan,
+  sessions: StudySession[],
+  options: StudyPlanOptions = {}
+): PlanDay[] {
+  const now = options.now ?? new Date();
+  const today = startOfDay(now);
+  const daysLeft = getDaysUntilExam(plan.examDate, now);
+  if (daysLeft <= 0) return [];
+
+  const hasReviewDay = daysLeft >= MIN_DAYS_FOR_REVIEW_DAY;
+  const studyDays = getStudyDays(daysLeft);
+
+  const newCards = getActiveCards(material.cards).filter(isUnstudied);
+  const newCardsPerDay = Math.ceil(newCards.length / studyDays);
+
+  const forecast = buildReviewForecast(material.cards, {
+    days: daysLeft,
+    newCardsPerDay,
+    newCardDays: studyDays,
+    examDate: plan.examDate,
+    scheduler: options.scheduler,
+    desiredRetention: options.desiredRetention,
+    now,
+  });
+
+  let newCardsLeft = newCards.length;
+  const days: PlanDay[] = forecast.map((day, index) => {
+    const introduced = index < studyDays ? Math.min(newCardsLeft, newCardsPerDay) : 0;
+    newCardsLeft -= introduced;
+    return {
+      date: day.date,
+      newCards: introduced,
+      // The simulated new cards also count their first study, which is not a review
+      reviews: day.reviews + Math.max(0, day.whatIf - (index < studyDays ? newCardsPerDay : 0)),
+      tasks: [],
+      isReviewDay: hasReviewDay && index === daysLeft - 1,
+    };
+  });
+
+  const startedSince = (type: PlannedTaskType, noteId: string, since: Date) =>
+    sessions.some((s) => s.studyMode === type && s.noteId === noteId && s.startedAt >= since);
+
+  (['exercises', 'quiz'] as PlannedTaskType[]).forEach((type) => {
+    const notes = material.notes.filter((note) => (type === 'quiz' ? note.quizQuestions : note.exercises) > 0);
+    const toTask = (note: FolderStudyMaterial['notes'][number], done: boolean): PlannedTask => ({
+      type,
+      noteId: note.id,
+      folderId: note.folderId,
+      title: note.title,
+      count: type === 'quiz' ? note.quizQuestions : note.exercises,
+      done,
+    });
+
+    // Started before today: finished. Started today: done, but still shown today.
+    const remaining = notes.filter((note) => !startedSince(type, note.id, plan.createdAt) || startedSince(type, note.id, today));
+    const doneToday = remaining.filter((note) => startedSince(type, note.id, today));
+    const open = remaining.filter((note) => !doneToday.includes(note));
+
+    doneToday.forEach((note) => days[0].tasks.push(toTask(note, true)));
+    spreadOverDays(open.length, studyDays, type === 'quiz').forEach((dayIndex, index) => {
+      days[dayIndex].tasks.push(toTask(open[index], false));
+    });
+  });
+
+  return days;
+}
+
+/**
+ * Record the start of a planned quiz or exercise set, which also marks it as done in the plan
+ */
+export async function startPlannedTask(userId: string, task: PlannedTask): Promise<StudySession> {
+  return analyticsService.startStudySession(userId, task.noteId, task.folderId, task.type);
+}
+
+export const examPlannerService = {
+  getExamPlans,
+  saveExamPlan,
+  deleteExamPlan,
+  getFolderTreeIds,
+  resolveExamDate,
+  getDaysUntilExam,
+  getPlannedNewCardsPerDay,
+  getFolderStudyMaterial,
+  buildStudyPlan,
+  startPlannedTask,
+};
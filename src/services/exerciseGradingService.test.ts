@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MAX_HINTS, applyHintPenalty, buildExerciseGrade, getExerciseKey, normalizeRubric } from './exerciseGradingService';
+import type { RubricStep } from './exerciseGradingService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const RUBRIC: RubricStep[] = [
+  { description: 'Set up the equation', points: 2 },
+  { description: 'Solve for x', points: 3 },
+  { description: 'Check the result', points: 1 },
+];
+
+describe('getExerciseKey', () => {
+  it('is the same for the same question, whatever its case and surrounding spaces', () => {
+    expect(getExerciseKey('  Solve 2x = 4 ')).toBe(getExerciseKey('solve 2x = 4'));
+    expect(getExerciseKey('Solve 2x = 4')).not.toBe(getExerciseKey('Solve 2x = 6'));
+    expect(getExerciseKey('Solve 2x = 4')).toMatch(/^ex-[0-9a-f]+$/);
+  });
+});
+
+describe('normalizeRubric', () => {
+  it('drops steps without a description and gives every step at least one whole point', () => {
+    expect(normalizeRubric([
+      { description: ' Set up the equation ', points: 2.4 },
+      { description: '  ', points: 3 },
+      { points: 1 },
+      { description: 'Solve for x', points: 0 },
+      { description: 'Check the result' },
+    ])).toEqual([
+      { description: 'Set up the equation', points: 2 },
+      { description: 'Solve for x', points: 1 },
+      { description: 'Check the result', points: 1 },
+    ]);
+  });
+});
+
+describe('buildExerciseGrade', () => {
+  it('scores the points awarded out of the rubric total and finds the first mistake', () => {
+    const grade = buildExerciseGrade(RUBRIC, [
+      { awarded: 2, attempted: true, feedback: 'Good' },
+      { awarded: 1, attempted: true, feedback: 'Sign error' },
+      { awarded: 0, attempted: true },
+    ], 'Close');
+
+    expect(grade.steps.map((step) => [step.awarded, step.status])).toEqual([
+      [2, 'correct'],
+      [1, 'partial'],
+      [0, 'wrong'],
+    ]);
+    expect(grade.score).toBe(50);
+    expect(grade.rawScore).toBe(50);
+    expect(grade.firstErrorStep).toBe(1);
+    expect(grade).toMatchObject({ hintsUsed: 0, feedback: 'Close' });
+  });
+
+  it('clamps awarded points to each step and counts skipped steps as missing', () => {
+    const grade = buildExerciseGrade(RUBRIC, [{ awarded: 5, attempted: true }, { awarded: -1 }], '');
+
+    expect(grade.steps.map((step) => [step.awarded, step.status, step.feedback])).toEqual([
+      [2, 'correct', ''],
+      [0, 'missing', ''],
+      [0, 'missing', ''],
+    ]);
+    expect(grade.score).toBeCloseTo(100 / 3, 10);
+  });
+
+  it('has no first mistake when every step is right', () => {
+    const grade = buildExerciseGrade(RUBRIC, RUBRIC.map((step) => ({ awarded: step.points })), '');
+    expect(grade.score).toBe(100);
+    expect(grade.firstErrorStep).toBeNull();
+  });
+
+  it('scores an empty rubric as 0', () => {
+    expect(buildExerciseGrade([], [], '').score).toBe(0);
+  });
+});
+
+describe('applyHintPenalty', () => {
+  const grade = buildExerciseGrade(RUBRIC, RUBRIC.map((step) => ({ awarded: step.points })), '');
+
+  it('takes 10% of the rubric score per hint used', () => {
+    expect(applyHintPenalty(grade, 0)).toMatchObject({ score: 100, rawScore: 100, hintsUsed: 0 });
+    expect(applyHintPenalty(grade, 2)).toMatchObject({ score: 80, rawScore: 100, hintsUsed: 2 });
+  });
+
+  it('counts at most the hints an exercise has', () => {
+    expect(applyHintPenalty(grade, MAX_HINTS + 2)).toMatchObject({ score: 70, hintsUsed: MAX_HINTS });
+    expect(applyHintPenalty(grade, -1).hintsUsed).toBe(0);
+  });
+
+  it('is applied to the rubric score, not to an already lowered one', () => {
+    expect(applyHintPenalty(applyHintPenalty(grade, 3), 1).score).toBe(90);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Exercise Grading Service
+ * Exercises are graded step by step: the stored solution is broken into rubric steps worth
+ * a number of points, and every attempt earns points per step. Every hint revealed before
+ * checking lowers the score. Attempts are stored so the progress on each exercise is
+ * visible over time.
+ */
+
+import { supabase } from './supabase';
+import { MAX_HINTS } from '../../supabase/functions/_shared/studyPrompts.ts';
+
+export { MAX_HINTS };
+export const HINT_PENALTY = 0.1; // Share of the score lost per hint used
+
+export interface RubricStep {
+  description: string; // What a correct attempt does in this step
+  points: number;
+}
+
+export type StepStatus = 'correct' | 'partial' | 'wrong' | 'missing';
+
+export interface StepGrade extends RubricStep {
+  awarded: number; // 0 to points
+  status: StepStatus;
+  feedback: string;
+}
+
+export interface ExerciseGrade {
+  steps: StepGrade[];
+  score: number; // 0-100, after the hint penalty
+  rawScore: number; // 0-100, from the rubric alone
+  hintsUsed: number;
+  feedback: string; // Overall feedback
+  firstErrorStep: number | null; // Index of the first step that was not fully right
+}
+
+export interface ExerciseAttempt {
+  id: string;
+  noteId: string | null;
+  exerciseKey: string;
+  answerText: string | null;
+  hasImage: boolean;
+  score: number; // 0-100
+  rawScore: number; // 0-100, before the hint penalty
+  hintsUsed: number;
+  steps: StepGrade[];
+  feedback: string | null;
+  createdAt: Date;
+}
+
+interface ExerciseAttemptRow {
+  id: string;
+  note_id: string | null;
+  exercise_key: string;
+  answer_text: string | null;
+  has_image: boolean;
+  score: number | string;
+  raw_score: number | string | null;
+  hints_used: number | null;
+  steps: StepGrade[] | null;
+  feedback: string | null;
+  created_at: string;
+}
+
+function mapExerciseAttemptRow(row: ExerciseAttemptRow): ExerciseAttempt {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    exerciseKey: row.exercise_key,
+    answerText: row.answer_text,
+    hasImage: row.has_image,
+    score: Number(row.score),
+    rawScore: row.raw_score !== null && row.raw_score !== undefined ? Number(row.raw_score) : Number(row.score),
+    hintsUsed: row.hints_used || 0,
+    steps: row.steps || [],
+    feedback: row.feedback,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Stable key of an exercise, from its question. Exercises have no ids of their own.
+ */
+export function getExerciseKey(question: string): string {
+  let hash = 5381;
+  const text = question.trim().toLowerCase();
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `ex-${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Keep rubric steps that make sense, with at least one point each
+ */
+export function normalizeRubric(steps: Array<Partial<RubricStep>>): RubricStep[] {
+  return steps
+    .filter((step) => typeof step.description === 'string' && step.description.trim())
+    .map((step) => ({
+      description: (step.description as string).trim(),
+      points: Math.max(1, Math.round(Number(step.points) || 1)),
+    }));
+}
+
+function getStepStatus(awarded: number, points: number, attempted: boolean): StepStatus {
+  if (awarded >= points) return 'correct';
+  if (awarded > 0) return 'partial';
+  return attempted ? 'wrong' : 'missing';
+}
+
+/**
+ * Turn the points the grader gave per step into a grade. Points are clamped to each
+ * step's maximum, and steps the grader skipped count as missing.
+ */
+export function buildExerciseGrade(
+  rubric: RubricStep[],
+  results: Array<{ awarded?: number; attempted?: boolean; feedback?: string } | undefined>,
+  feedback: string
+): ExerciseGrade {
+  const steps = rubric.map((step, index) => {
+    const result = results[index];
+    const awarded = Math.min(step.points, Math.max(0, Number(result?.awarded) || 0));
+    return {
+      ...step,
+      awarded,
+      status: getStepStatus(awarded, step.points, result?.attempted ?? awarded > 0),
+      feedback: result?.feedback || '',
+    };
+  });
+
+  const totalPoints = steps.reduce((sum, step) => sum + step.points, 0);
+  const awardedPoints = steps.reduce((sum, step) => sum + step.awarded, 0);
+  const firstErrorStep = steps.findIndex((step) => step.status !== 'correct');
+
+  const score = totalPoints > 0 ? (awardedPoints / totalPoints) * 100 : 0;
+
+  return {
+    steps,
+    score,
+    rawScore: score,
+    hintsUsed: 0,
+    feedback,
+    firstErrorStep: firstErrorStep === -1 ? null : firstErrorStep,
+  };
+}
+
+/**
+ * Lower a grade by HINT_PENALTY of its rubric score for every hint used
+ */
+export function applyHintPenalty(grade: ExerciseGrade, hintsUsed: number): ExerciseGrade {
+  const used = Math.min(MAX_HINTS, Math.max(0, hintsUsed));
+  return {
+    ...grade,
+    hintsUsed: used,
+    score: grade.rawScore * (1 - HINT_PENALTY * used),
+  };
+}
+
+/**
+ * Save a graded attempt
+ */
+export async function saveExerciseAttempt(
+  userId: string,
+  noteId: string | null,
+  exerciseKey: string,
+  attempt: { answerText?: string; hasImage: boolean; grade: ExerciseGrade }
+): Promise<ExerciseAttempt> {
+  const { data, error } = await supabase
+    .from('exercise_attempts')
+    .insert({
+      user_id: userId,
+      note_id: noteId,
+      exercise_key: exerciseKey,
+      answer_text: attempt.answerText || null,
+      has_image: attempt.hasImage,
+      score: Math.round(attempt.grade.score * 100) / 100,
+      raw_score: Math.round(attempt.grade.rawScore * 100) / 100,
+      hints_used: attempt.grade.hintsUsed,
+      steps: attempt.grade.steps,
+      feedback: attempt.grade.feedback || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapExerciseAttemptRow(data);
+}
+
+/**
+ * Get the attempts on a note's exercises, oldest first
+ */
+export async function getExerciseAttempts(userId: string, noteId: string): Promise<ExerciseAttempt[]> {
+  const { data, error } = await supabase
+    .from('exercise_attempts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapExerciseAttemptRow);
+}
+
+export const exerciseGradingService = {
+  getExerciseKey,
+  normalizeRubric,
+  buildExerciseGrade,
+  applyHintPenalty,
+  saveExerciseAttempt,
+  getExerciseAttempts,
+};
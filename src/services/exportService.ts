@@ -1,5 +1,16 @@
 import TurndownService from 'turndown';
 import type { SpacedRepetitionCard } from './spacedRepetitionService';
+import type { CardType, Folder } from '../types';
+import { groupCards } from './cardTypeService';
+import { buildApkg } from './ankiPackageService';
+
+// Names of Anki's built-in note types for each card type
+const ANKI_NOTE_TYPES: Record<CardType, string> = {
+  basic: 'Basic',
+  reverse: 'Basic (and reversed card)',
+  cloze: 'Cloze',
+  'type-answer': 'Basic (type in the answer)',
+};
 
 /**
  * Escape a field for CSV format
@@ -21,8 +32,8 @@ function escapeTSVField(field: string): string {
 /**
  * Download a file with the given content
  */
-function downloadFile(content: string, filename: string, mimeType: string): void {
-  const blob = new Blob([content], { type: mimeType });
+function downloadFile(content: string | Blob, filename: string, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
@@ -36,6 +47,8 @@ function downloadFile(content: string, filename: string, mimeType: string): void
 export const exportService = {
   /**
    * Export flashcards to Anki format (CSV or TSV)
+   * Sibling cards (reverse / cloze) are exported once as a single Anki note, and the
+   * note type column lets Anki recreate the same card types on import.
    */
   exportToAnki(cards: SpacedRepetitionCard[], format: 'csv' | 'tsv' = 'csv'): void {
     if (cards.length === 0) {
@@ -43,27 +56,52 @@ export const exportService = {
       return;
     }
 
+    const notes = groupCards(cards).map(([card]) => ({
+      noteType: ANKI_NOTE_TYPES[card.cardType || 'basic'],
+      front: card.front,
+      back: card.back,
+    }));
+
     if (format === 'csv') {
-      const csvRows = cards.map(card => {
-        const front = escapeCSVField(card.front);
-        const back = escapeCSVField(card.back);
-        return `${front},${back}`;
+      const csvRows = notes.map(note => {
+        const noteType = escapeCSVField(note.noteType);
+        const front = escapeCSVField(note.front);
+        const back = escapeCSVField(note.back);
+        return `${noteType},${front},${back}`;
       });
 
-      const csvContent = csvRows.join('\n');
+      const csvContent = ['#separator:Comma', '#html:true', '#notetype column:1', ...csvRows].join('\n');
       downloadFile(csvContent, 'flashcards.csv', 'text/csv');
     } else {
-      const tsvRows = cards.map(card => {
-        const front = escapeTSVField(card.front);
-        const back = escapeTSVField(card.back);
-        return `${front}\t${back}`;
+      const tsvRows = notes.map(note => {
+        const front = escapeTSVField(note.front);
+        const back = escapeTSVField(note.back);
+        return `${note.noteType}\t${front}\t${back}`;
       });
 
-      const tsvContent = tsvRows.join('\n');
+      const tsvContent = ['#separator:Tab', '#html:true', '#notetype column:1', ...tsvRows].join('\n');
       downloadFile(tsvContent, 'flashcards.tsv', 'text/tab-separated-values');
     }
   },
 
+  /**
+   * Export flashcards as an Anki package (.apkg)
+   * Unlike CSV, this keeps the deck-per-folder hierarchy, note grouping and SM-2 scheduling state.
+   */
+  async exportToApkg(cards: SpacedRepetitionCard[], folders: Folder[], fileName: string = 'flashcards'): Promise<void> {
+    if (cards.length === 0) {
+      alert('No flashcards to export');
+      return;
+    }
+
+    try {
+      const apkg = await buildApkg(cards, folders);
+      downloadFile(apkg, `${fileName.replace(/[^a-z0-9]/gi, '_')}.apkg`, 'application/octet-stream');
+    } catch (error) {
+      console.error('Error exporting to Anki package:', error);
+      throw new Error('Failed to export flashcards as an Anki package');
+    }
+  },
 
   /**
    * Export note as Markdown
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EXPLANATION_WORD_RANGE, analyzeDelivery, findRecurringGaps, getGapKey } from './feynmanService';
+import type { FeynmanAttempt } from './feynmanService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+function attempt(id: string, topicTitle: string, day: number, gaps: string[]): FeynmanAttempt {
+  return {
+    id,
+    noteId: 'note',
+    topicId: topicTitle.toLowerCase(),
+    topicTitle,
+    explanation: '',
+    score: 50,
+    feedback: '',
+    suggestions: [],
+    gaps,
+    createdAt: new Date(2026, 5, day, 12),
+  };
+}
+
+describe('getGapKey', () => {
+  it('ignores case and extra spaces', () => {
+    expect(getGapKey('  Active   Transport ')).toBe('active transport');
+  });
+});
+
+describe('findRecurringGaps', () => {
+  const attempts = [
+    attempt('1', 'Membranes', 1, ['Active transport', 'Osmosis', 'active  transport']),
+    attempt('2', 'Membranes', 2, ['Osmosis', ' ']),
+    attempt('3', 'Transport', 3, ['ACTIVE TRANSPORT', 'Diffusion']),
+    attempt('4', 'Transport', 4, ['Osmosis']),
+  ];
+
+  it('counts a concept once per attempt and keeps its first wording', () => {
+    expect(findRecurringGaps(attempts)).toEqual([
+      { concept: 'Osmosis', key: 'osmosis', count: 3, topicTitles: ['Membranes', 'Transport'], lastMissedAt: new Date(2026, 5, 4, 12) },
+      { concept: 'Active transport', key: 'active transport', count: 2, topicTitles: ['Membranes', 'Transport'], lastMissedAt: new Date(2026, 5, 3, 12) },
+    ]);
+  });
+
+  it('lists the most often missed first, then the most recently missed', () => {
+    expect(findRecurringGaps(attempts, 1).map((gap) => gap.key)).toEqual(['osmosis', 'active transport', 'diffusion']);
+    expect(findRecurringGaps(attempts.slice(2), 1).map((gap) => gap.key)).toEqual(['osmosis', 'active transport', 'diffusion']);
+  });
+});
+
+describe('analyzeDelivery', () => {
+  const words = (count: number) => Array.from({ length: count }, () => 'cell').join(' ');
+
+  it('counts filler words and phrases, most used first, but not words that contain them', () => {
+    const stats = analyzeDelivery('Um, so the cell, you know, basically... um, uses ATP. Umbrella humming actually.');
+    expect(stats.fillers).toEqual([
+      { word: 'um', count: 2 },
+      { word: 'you know', count: 1 },
+      { word: 'basically', count: 1 },
+      { word: 'actually', count: 1 },
+    ]);
+    expect(stats.fillerCount).toBe(5);
+    expect(stats.wordCount).toBe(13);
+    expect(stats.fillerRate).toBeCloseTo((5 / 13) * 100, 10);
+  });
+
+  it('leaves "like" alone, since it introduces analogies', () => {
+    expect(analyzeDelivery('A cell is like a factory').fillerCount).toBe(0);
+  });
+
+  it('flags explanations outside the word range', () => {
+    expect(analyzeDelivery(words(EXPLANATION_WORD_RANGE.min - 1)).length).toBe('short');
+    expect(analyzeDelivery(words(EXPLANATION_WORD_RANGE.min)).length).toBe('good');
+    expect(analyzeDelivery(words(EXPLANATION_WORD_RANGE.max + 1)).length).toBe('long');
+  });
+
+  it('works out the speaking rate of recordings only', () => {
+    expect(analyzeDelivery(words(150), 60)).toMatchObject({ durationSeconds: 60, wordsPerMinute: 150 });
+    expect(analyzeDelivery(words(100), 45).wordsPerMinute).toBe(133);
+    expect(analyzeDelivery(words(100)).wordsPerMinute).toBeNull();
+    expect(analyzeDelivery('', 0)).toMatchObject({ wordCount: 0, fillerRate: 0, wordsPerMinute: null });
+  });
+});
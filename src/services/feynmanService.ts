@@ -0,0 +1,240 @@
+/**
+ * Feynman Service
+ * Stores every Feynman explanation with its score and the concepts it missed, and finds
+ * the concepts a student keeps missing across attempts so they can be turned into
+ * flashcards or exercises. Spoken explanations are also checked for filler words and length.
+ */
+
+import { supabase } from './supabase';
+
+export const GAP_REPEAT_THRESHOLD = 2; // Misses before a concept becomes a flashcard or exercise
+
+// "like" is left out on purpose: it introduces the analogies the technique asks for
+export const FILLER_WORDS = ['um', 'uh', 'erm', 'hmm', 'you know', 'i mean', 'basically', 'actually', 'sort of', 'kind of', 'literally'];
+export const EXPLANATION_WORD_RANGE = { min: 60, max: 400 };
+export const SPEAKING_RATE_RANGE = { min: 110, max: 170 }; // Words per minute that are easy to follow
+
+export interface FeynmanAttempt {
+  id: string;
+  noteId: string;
+  topicId: string;
+  topicTitle: string;
+  explanation: string;
+  score: number; // 0-100
+  feedback: string;
+  suggestions: string[];
+  gaps: string[]; // Concepts missed or explained wrongly
+  createdAt: Date;
+}
+
+export interface RecurringGap {
+  concept: string; // As first written by the grader
+  key: string; // Lowercased, for matching
+  count: number;
+  topicTitles: string[];
+  lastMissedAt: Date;
+}
+
+export type GapConversion = 'flashcard' | 'exercise';
+
+export interface DeliveryStats {
+  wordCount: number;
+  length: 'short' | 'good' | 'long';
+  fillerCount: number;
+  fillers: Array<{ word: string; count: number }>; // Most used first
+  fillerRate: number; // Fillers per 100 words
+  durationSeconds: number | null; // Only for spoken explanations
+  wordsPerMinute: number | null;
+}
+
+/**
+ * Study material generated for a recurring gap
+ */
+export type GapStudyItem =
+  | { concept: string; kind: 'flashcard'; front: string; back: string }
+  | { concept: string; kind: 'exercise'; question: string; solution: string; notes: string };
+
+interface FeynmanAttemptRow {
+  id: string;
+  note_id: string;
+  topic_id: string;
+  topic_title: string;
+  explanation: string;
+  score: number;
+  feedback: string | null;
+  suggestions: string[] | null;
+  gaps: string[] | null;
+  created_at: string;
+}
+
+function mapFeynmanAttemptRow(row: FeynmanAttemptRow): FeynmanAttempt {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    topicId: row.topic_id,
+    topicTitle: row.topic_title,
+    explanation: row.explanation,
+    score: row.score,
+    feedback: row.feedback || '',
+    suggestions: row.suggestions || [],
+    gaps: row.gaps || [],
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export function getGapKey(concept: string): string {
+  return concept.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Filler words, length and (for recordings) speaking rate of an explanation
+ */
+export function analyzeDelivery(text: string, durationSeconds: number | null = null): DeliveryStats {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+  const wordCount = normalized.split(/\s+/).filter(Boolean).length;
+
+  const fillers = FILLER_WORDS.map((word) => ({
+    word,
+    count: (normalized.match(new RegExp(`(^|\\s)${escapeRegExp(word)}(?=\\s|$)`, 'g')) || []).length,
+  }))
+    .filter((filler) => filler.count > 0)
+    .sort((a, b) => b.count - a.count);
+  const fillerCount = fillers.reduce((sum, filler) => sum + filler.count, 0);
+
+  let length: DeliveryStats['length'] = 'good';
+  if (wordCount < EXPLANATION_WORD_RANGE.min) length = 'short';
+  else if (wordCount > EXPLANATION_WORD_RANGE.max) length = 'long';
+
+  return {
+    wordCount,
+    length,
+    fillerCount,
+    fillers,
+    fillerRate: wordCount > 0 ? (fillerCount / wordCount) * 100 : 0,
+    durationSeconds,
+    wordsPerMinute: durationSeconds && durationSeconds > 0 ? Math.round(wordCount / (durationSeconds / 60)) : null,
+  };
+}
+
+/**
+ * Save an explanation attempt
+ */
+export async function saveFeynmanAttempt(
+  userId: string,
+  attempt: Omit<FeynmanAttempt, 'id' | 'createdAt'>
+): Promise<FeynmanAttempt> {
+  const { data, error } = await supabase
+    .from('feynman_attempts')
+    .insert({
+      user_id: userId,
+      note_id: attempt.noteId,
+      topic_id: attempt.topicId,
+      topic_title: attempt.topicTitle,
+      explanation: attempt.explanation,
+      score: Math.round(Math.min(100, Math.max(0, attempt.score))),
+      feedback: attempt.feedback || null,
+      suggestions: attempt.suggestions,
+      gaps: attempt.gaps,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapFeynmanAttemptRow(data);
+}
+
+/**
+ * Get all explanation attempts for a note, oldest first
+ */
+export async function getFeynmanAttempts(userId: string, noteId: string): Promise<FeynmanAttempt[]> {
+  const { data, error } = await supabase
+    .from('feynman_attempts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapFeynmanAttemptRow);
+}
+
+/**
+ * Concepts missed in at least `minCount` attempts, most often missed first.
+ * A concept counts once per attempt.
+ */
+export function findRecurringGaps(
+  attempts: FeynmanAttempt[],
+  minCount: number = GAP_REPEAT_THRESHOLD
+): RecurringGap[] {
+  const gaps = new Map<string, RecurringGap>();
+
+  attempts.forEach((attempt) => {
+    new Set(attempt.gaps.map(getGapKey).filter(Boolean)).forEach((key) => {
+      const concept = attempt.gaps.find((gap) => getGapKey(gap) === key) || key;
+      const entry = gaps.get(key) || { concept, key, count: 0, topicTitles: [], lastMissedAt: attempt.createdAt };
+      entry.count += 1;
+      if (!entry.topicTitles.includes(attempt.topicTitle)) entry.topicTitles.push(attempt.topicTitle);
+      if (attempt.createdAt > entry.lastMissedAt) entry.lastMissedAt = attempt.createdAt;
+      gaps.set(key, entry);
+    });
+  });
+
+  return Array.from(gaps.values())
+    .filter((gap) => gap.count >= minCount)
+    .sort((a, b) => b.count - a.count || b.lastMissedAt.getTime() - a.lastMissedAt.getTime());
+}
+
+/**
+ * Concepts of a note that were already turned into flashcards or exercises, by gap key
+ */
+export async function getConvertedGaps(userId: string, noteId: string): Promise<Record<string, GapConversion>> {
+  const { data, error } = await supabase
+    .from('feynman_gaps')
+    .select('concept, converted_to')
+    .eq('user_id', userId)
+    .eq('note_id', noteId);
+
+  if (error) throw error;
+
+  const converted: Record<string, GapConversion> = {};
+  (data || []).forEach((row: { concept: string; converted_to: GapConversion }) => {
+    converted[row.concept] = row.converted_to;
+  });
+  return converted;
+}
+
+export async function markGapsConverted(
+  userId: string,
+  noteId: string,
+  conversions: Array<{ key: string; convertedTo: GapConversion }>
+): Promise<void> {
+  if (conversions.length === 0) return;
+
+  const { error } = await supabase
+    .from('feynman_gaps')
+    .upsert(
+      conversions.map((conversion) => ({
+        user_id: userId,
+        note_id: noteId,
+        concept: conversion.key,
+        converted_to: conversion.convertedTo,
+      })),
+      { onConflict: 'user_id,note_id,concept' }
+    );
+
+  if (error) throw error;
+}
+
+export const feynmanService = {
+  getGapKey,
+  analyzeDelivery,
+  saveFeynmanAttempt,
+  getFeynmanAttempts,
+  findRecurringGaps,
+  getConvertedGaps,
+  markGapsConverted,
+};
@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import type { SpacedRepetitionCard } from './spacedRepetitionService';
 import { spacedRepetitionService } from './spacedRepetitionService';
+import { getGroupId } from './cardTypeService';
 
 /**
  * Get all flashcards from all notes for a user
@@ -33,14 +34,9 @@ export async function getAllFlashcards(userId: string): Promise<SpacedRepetition
     
     flashcards.forEach((card: any) => {
       // Upgrade old format if needed
-      const spacedCard: SpacedRepetitionCard = card.easeFactor !== undefined
-        ? { ...card, noteId: sc.note_id, folderId: note?.folder_id || undefined }
-        : spacedRepetitionService.upgradeToSpacedRepetition(
-            card,
-            sc.note_id,
-            note?.folder_id || undefined
-          );
-      allCards.push(spacedCard);
+      allCards.push(
+        spacedRepetitionService.normalizeCard(card, sc.note_id, note?.folder_id || undefined)
+      );
     });
   });
 
@@ -76,14 +72,9 @@ export async function getFlashcardsByFolder(userId: string, folderId: string): P
     const flashcards = sc.flashcards || [];
     
     flashcards.forEach((card: any) => {
-      const spacedCard: SpacedRepetitionCard = card.easeFactor !== undefined
-        ? { ...card, noteId: sc.note_id, folderId: note?.folder_id || undefined }
-        : spacedRepetitionService.upgradeToSpacedRepetition(
-            card,
-            sc.note_id,
-            note?.folder_id || undefined
-          );
-      allCards.push(spacedCard);
+      allCards.push(
+        spacedRepetitionService.normalizeCard(card, sc.note_id, note?.folder_id || undefined)
+      );
     });
   });
 
@@ -104,11 +95,7 @@ export async function getFlashcardsByNote(noteId: string): Promise<SpacedRepetit
   if (!studyContent || !studyContent.flashcards) return [];
 
   const flashcards = studyContent.flashcards || [];
-  return flashcards.map((card: any) => {
-    return card.easeFactor !== undefined
-      ? { ...card, noteId }
-      : spacedRepetitionService.upgradeToSpacedRepetition(card, noteId);
-  });
+  return flashcards.map((card: any) => spacedRepetitionService.normalizeCard(card, noteId));
 }
 
 /**
@@ -165,10 +152,41 @@ export async function saveFlashcard(card: SpacedRepetitionCard): Promise<void> {
   if (updateError) throw updateError;
 }
 
+/**
+ * Replace a card and its siblings in a note with new cards (e.g. a rewritten leech)
+ * The new cards take the place of the old ones in the note's card order.
+ */
+export async function replaceCardGroup(
+  noteId: string,
+  groupId: string,
+  cards: SpacedRepetitionCard[]
+): Promise<void> {
+  const { data: studyContent, error: fetchError } = await supabase
+    .from('study_content')
+    .select('flashcards')
+    .eq('note_id', noteId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  const flashcards = (studyContent?.flashcards || []) as SpacedRepetitionCard[];
+  const insertAt = flashcards.findIndex(c => getGroupId(c) === groupId);
+  const updatedFlashcards = flashcards.filter(c => getGroupId(c) !== groupId);
+  updatedFlashcards.splice(insertAt >= 0 ? insertAt : updatedFlashcards.length, 0, ...cards);
+
+  const { error: updateError } = await supabase
+    .from('study_content')
+    .update({ flashcards: updatedFlashcards })
+    .eq('note_id', noteId);
+
+  if (updateError) throw updateError;
+}
+
 export const flashcardsService = {
   getAllFlashcards,
   getFlashcardsByFolder,
   getFlashcardsByNote,
   saveFlashcard,
+  replaceCardGroup,
 };
 
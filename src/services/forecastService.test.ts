@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { buildReviewForecast } from './forecastService';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+
+// Local noon, so day boundaries do not depend on the time zone
+const NOW = new Date(2026, 5, 10, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysFromNow(days: number): string {
+  return new Date(NOW.getTime() + days * DAY_MS).toISOString();
+}
+
+function card(id: string, overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return {
+    id,
+    front: id,
+    back: id,
+    easeFactor: 2.5,
+    interval: 6,
+    repetitions: 2,
+    nextReviewDate: daysFromNow(0),
+    lastReviewed: daysFromNow(-6),
+    intervalType: 'days',
+    ...overrides,
+  };
+}
+
+function reviewDays(forecast: ReturnType<typeof buildReviewForecast>, field: 'reviews' | 'whatIf' = 'reviews'): number[] {
+  return forecast.flatMap((day, index) => Array<number>(day[field]).fill(index));
+}
+
+describe('buildReviewForecast', () => {
+  it('has one entry per day, starting today', () => {
+    const forecast = buildReviewForecast([], { days: 3, now: NOW });
+    expect(forecast).toEqual([
+      { date: '2026-06-10', reviews: 0, byFolder: {}, whatIf: 0 },
+      { date: '2026-06-11', reviews: 0, byFolder: {}, whatIf: 0 },
+      { date: '2026-06-12', reviews: 0, byFolder: {}, whatIf: 0 },
+    ]);
+  });
+
+  it('follows each card through its growing intervals, answering every review "Good"', () => {
+    const forecast = buildReviewForecast([card('a')], { days: 30, now: NOW });
+    // 6 days * 2.5 = 15 days, then 38 days is past the forecast
+    expect(reviewDays(forecast)).toEqual([0, 15]);
+  });
+
+  it('counts overdue cards today and splits reviews by folder', () => {
+    const cards = [
+      card('overdue', { nextReviewDate: daysFromNow(-3), folderId: 'biology' }),
+      card('later', { nextReviewDate: daysFromNow(2), interval: 40, folderId: 'biology' }),
+      card('loose', { nextReviewDate: daysFromNow(2), interval: 40 }),
+    ];
+    const forecast = buildReviewForecast(cards, { days: 3, now: NOW });
+
+    expect(forecast.map((day) => day.reviews)).toEqual([1, 0, 2]);
+    expect(forecast[2].byFolder).toEqual({ biology: 1, '': 1 });
+  });
+
+  it('leaves out new and suspended cards', () => {
+    const cards = [
+      card('new', { repetitions: 0, interval: 0, lastReviewed: undefined }),
+      card('suspended', { suspended: true }),
+    ];
+    expect(reviewDays(buildReviewForecast(cards, { days: 10, now: NOW }))).toEqual([]);
+  });
+
+  it('adds the first study and reviews of the "what if" new cards', () => {
+    const forecast = buildReviewForecast([], { days: 10, newCardsPerDay: 3, newCardDays: 1, now: NOW });
+    // Studied today, then reviewed after 1 and 6 more days
+    expect(forecast.map((day) => day.whatIf)).toEqual([3, 3, 0, 0, 0, 0, 0, 3, 0, 0]);
+  });
+
+  it('introduces "what if" cards every day unless limited to the first days', () => {
+    const everyDay = buildReviewForecast([], { days: 3, newCardsPerDay: 2, now: NOW });
+    expect(everyDay.map((day) => day.whatIf)).toEqual([2, 4, 4]);
+  });
+
+  it('brings reviews that would skip the exam back to the day before it', () => {
+    const examDate = new Date(2026, 5, 15);
+    const forecast = buildReviewForecast([card('a')], { days: 5, examDate, now: NOW });
+    expect(reviewDays(forecast)).toEqual([0, 4]);
+  });
+});
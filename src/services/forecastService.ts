@@ -0,0 +1,131 @@
+/**
+ * Forecast Service
+ * Projects the flashcard review workload for the coming days from the current card states.
+ * Every review is assumed to be answered "Good", so each card follows the interval growth
+ * of the chosen scheduler. A "what if" scenario adds N new cards per day on top.
+ */
+
+import type { Quality, SchedulerName, SpacedRepetitionCard, SchedulingState } from './spacedRepetitionService';
+import { calculateNextReview, compressToExamDate, getActiveCards } from './spacedRepetitionService';
+
+export interface ForecastDay {
+  date: string; // YYYY-MM-DD
+  reviews: number; // Reviews of existing cards
+  byFolder: Record<string, number>; // Reviews of existing cards per folder id ('' = no folder)
+  whatIf: number; // Extra cards to study from the simulated new cards (first study + reviews)
+}
+
+export interface ForecastOptions {
+  days: number;
+  newCardsPerDay?: number; // "What if" new cards introduced each day
+  newCardDays?: number; // Introduce the "what if" cards only on the first N days (default: every day)
+  examDate?: Date; // Shorten intervals like reviews before an exam do
+  scheduler?: SchedulerName;
+  desiredRetention?: number;
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ASSUMED_QUALITY: Quality = 4; // Good
+const MAX_REVIEWS_PER_CARD = 200; // Guard against runaway loops with very short intervals
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Call `onReview` with the day index (0 = today) of every review of a card before the
+ * end of the forecast. Overdue cards are counted today.
+ */
+function simulateReviews(
+  card: SchedulingState,
+  firstReview: Date,
+  today: Date,
+  horizonEnd: Date,
+  options: ForecastOptions,
+  onReview: (dayIndex: number) => void
+): void {
+  const now = options.now ?? new Date();
+  let state = card;
+  let due = firstReview;
+
+  for (let count = 0; due < horizonEnd && count < MAX_REVIEWS_PER_CARD; count++) {
+    const reviewAt = due < now ? now : due;
+    onReview(Math.floor((startOfDay(reviewAt).getTime() - today.getTime()) / DAY_MS));
+
+    const scheduled = calculateNextReview(state, ASSUMED_QUALITY, {
+      scheduler: options.scheduler,
+      desiredRetention: options.desiredRetention,
+      now: reviewAt,
+    });
+    const result = options.examDate ? compressToExamDate(scheduled, options.examDate, reviewAt) : scheduled;
+    state = { ...state, ...result, lastReviewed: reviewAt.toISOString(), quality: ASSUMED_QUALITY };
+    due = new Date(result.nextReviewDate);
+  }
+}
+
+/**
+ * Cards due per day for the next `days` days, split by folder.
+ * Cards that have never been studied are left out: when they are introduced is decided
+ * by the daily new-card limit, which the "what if" scenario models instead.
+ */
+export function buildReviewForecast(cards: SpacedRepetitionCard[], options: ForecastOptions): ForecastDay[] {
+  const now = options.now ?? new Date();
+  const today = startOfDay(now);
+  const horizonEnd = new Date(today.getTime() + options.days * DAY_MS);
+
+  const forecast: ForecastDay[] = Array.from({ length: options.days }, (_, index) => ({
+    date: toDateKey(new Date(today.getTime() + index * DAY_MS)),
+    reviews: 0,
+    byFolder: {},
+    whatIf: 0,
+  }));
+
+  getActiveCards(cards)
+    .filter((card) => card.repetitions > 0 || card.lastReviewed)
+    .forEach((card) => {
+      const folderKey = card.folderId ?? '';
+      simulateReviews(card, new Date(card.nextReviewDate), today, horizonEnd, options, (dayIndex) => {
+        const day = forecast[dayIndex];
+        if (!day) return;
+        day.reviews++;
+        day.byFolder[folderKey] = (day.byFolder[folderKey] || 0) + 1;
+      });
+    });
+
+  // All simulated cards of a day behave the same, so simulate one and scale it
+  const newCardsPerDay = options.newCardsPerDay ?? 0;
+  if (newCardsPerDay > 0) {
+    const newCard: SchedulingState = {
+      easeFactor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      nextReviewDate: today.toISOString(),
+      intervalType: 'days',
+    };
+
+    const newCardDays = Math.min(options.days, options.newCardDays ?? options.days);
+    for (let introducedOn = 0; introducedOn < newCardDays; introducedOn++) {
+      const firstStudy = new Date(Math.max(now.getTime(), today.getTime() + introducedOn * DAY_MS));
+      simulateReviews(newCard, firstStudy, today, horizonEnd, options, (dayIndex) => {
+        const day = forecast[dayIndex];
+        if (day) day.whatIf += newCardsPerDay;
+      });
+    }
+  }
+
+  return forecast;
+}
+
+export const forecastService = {
+  buildReviewForecast,
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fsrsScheduler,
+  memoryStateFromSm2,
+  nextIntervalDays,
+  ratingFromQuality,
+  retrievability,
+} from './fsrsScheduler';
+import type { SchedulingState } from './spacedRepetitionService';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const options = { now: NOW, desiredRetention: 0.9 };
+
+function newCard(): SchedulingState {
+  return { easeFactor: 2.5, interval: 0, repetitions: 0, nextReviewDate: NOW.toISOString(), intervalType: 'days' };
+}
+
+function reviewedCard(stability: number, difficulty: number, daysAgo: number): SchedulingState {
+  return {
+    ...newCard(),
+    interval: Math.round(stability),
+    repetitions: 2,
+    lastReviewed: new Date(NOW.getTime() - daysAgo * DAY_MS).toISOString(),
+    stability,
+    difficulty,
+    scheduler: 'fsrs',
+  };
+}
+
+describe('ratingFromQuality', () => {
+  it('maps the 0-5 quality scale onto Again, Hard, Good and Easy', () => {
+    expect([0, 1, 2, 3, 4, 5].map((quality) => ratingFromQuality(quality as 0 | 1 | 2 | 3 | 4 | 5))).toEqual([1, 1, 2, 2, 3, 4]);
+  });
+});
+
+describe('retrievability', () => {
+  it('is 90% once the elapsed days equal the stability', () => {
+    expect(retrievability(12, 12)).toBeCloseTo(0.9, 10);
+  });
+
+  it('is 1 right after a review and decreases over time', () => {
+    expect(retrievability(0, 5)).toBe(1);
+    expect(retrievability(10, 5)).toBeLessThan(retrievability(5, 5));
+  });
+});
+
+describe('nextIntervalDays', () => {
+  it('equals the stability for a desired retention of 90%', () => {
+    expect(nextIntervalDays(10, 0.9)).toBe(10);
+  });
+
+  it('is shorter for a higher desired retention', () => {
+    expect(nextIntervalDays(10, 0.95)).toBeLessThan(nextIntervalDays(10, 0.9));
+    expect(nextIntervalDays(10, 0.8)).toBeGreaterThan(nextIntervalDays(10, 0.9));
+  });
+
+  it('stays between 1 day and 100 years', () => {
+    expect(nextIntervalDays(0.01, 0.99)).toBe(1);
+    expect(nextIntervalDays(1e9, 0.7)).toBe(36500);
+  });
+});
+
+describe('memoryStateFromSm2', () => {
+  it('takes the interval as stability and maps the ease factor onto difficulty', () => {
+    expect(memoryStateFromSm2({ ...newCard(), interval: 20, easeFactor: 2.5 })).toEqual({ stability: 20, difficulty: 5 });
+    expect(memoryStateFromSm2({ ...newCard(), interval: 20, easeFactor: 1.3 })).toEqual({ stability: 20, difficulty: 10 });
+  });
+
+  it('counts minute intervals as fractions of a day', () => {
+    const { stability } = memoryStateFromSm2({ ...newCard(), interval: 10, intervalType: 'minutes' });
+    expect(stability).toBeLessThan(1);
+  });
+});
+
+describe('fsrsScheduler', () => {
+  it('gives a new card the initial stability and difficulty of its rating', () => {
+    const good = fsrsScheduler.schedule(newCard(), 4, options);
+    expect(good).toMatchObject({ stability: 3.17, difficulty: 5.28, interval: 3, intervalType: 'days', repetitions: 1, scheduler: 'fsrs' });
+
+    const easy = fsrsScheduler.schedule(newCard(), 5, options);
+    expect(easy.stability).toBeGreaterThan(good.stability!);
+    expect(easy.difficulty).toBeLessThan(good.difficulty!);
+  });
+
+  it('sends a forgotten card into a 5 minute relearning step', () => {
+    const result = fsrsScheduler.schedule(reviewedCard(10, 5, 10), 0, options);
+    expect(result).toMatchObject({ interval: 5, intervalType: 'minutes', repetitions: 0 });
+    expect(new Date(result.nextReviewDate).getTime() - NOW.getTime()).toBe(5 * 60 * 1000);
+    expect(result.stability).toBeLessThan(10);
+    expect(result.difficulty).toBeGreaterThan(5);
+  });
+
+  it('grows the stability of a recalled card, more for easier ratings', () => {
+    const hard = fsrsScheduler.schedule(reviewedCard(10, 5, 10), 3, options);
+    const good = fsrsScheduler.schedule(reviewedCard(10, 5, 10), 4, options);
+    const easy = fsrsScheduler.schedule(reviewedCard(10, 5, 10), 5, options);
+
+    expect(hard.stability).toBeGreaterThan(10);
+    expect(good.stability).toBeGreaterThan(hard.stability!);
+    expect(easy.stability).toBeGreaterThan(good.stability!);
+    expect(good.interval).toBe(nextIntervalDays(good.stability!, 0.9));
+    expect(good.repetitions).toBe(3);
+  });
+
+  it('uses the short-term stability for a review on the same day', () => {
+    const sameDay = fsrsScheduler.schedule(reviewedCard(10, 5, 0.1), 4, options);
+    const nextDay = fsrsScheduler.schedule(reviewedCard(10, 5, 10), 4, options);
+    expect(sameDay.stability).toBeLessThan(nextDay.stability!);
+  });
+
+  it('derives the memory state of a card last reviewed with SM-2', () => {
+    const sm2Card: SchedulingState = {
+      ...newCard(),
+      interval: 6,
+      repetitions: 2,
+      lastReviewed: new Date(NOW.getTime() - 6 * DAY_MS).toISOString(),
+      scheduler: 'sm2',
+    };
+    const result = fsrsScheduler.schedule(sm2Card, 4, options);
+    // A card rated Good on time keeps more than its SM-2 interval of stability
+    expect(result.stability).toBeGreaterThan(6);
+    expect(result.easeFactor).toBe(2.5);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * FSRS Scheduler
+ * Implements the Free Spaced Repetition Scheduler (FSRS-5) memory model.
+ * Each card has a stability (days until recall probability drops to 90%) and a
+ * difficulty (1-10). Intervals are chosen so that the predicted probability of
+ * recall at review time equals the user's desired retention.
+ */
+
+import type { Quality, Scheduler, SchedulingState } from './spacedRepetitionService';
+
+type Rating = 1 | 2 | 3 | 4; // Again, Hard, Good, Easy
+
+// Default FSRS-5 parameters, fitted on the open-spaced-repetition review dataset
+const DEFAULT_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Chosen so that retrievability is exactly 0.9 when elapsed days == stability
+const MAX_INTERVAL_DAYS = 36500;
+const RELEARN_MINUTES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const w = DEFAULT_WEIGHTS;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Map the app's 0-5 quality scale onto the four FSRS ratings
+ */
+export function ratingFromQuality(quality: Quality): Rating {
+  if (quality <= 1) return 1;
+  if (quality <= 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+}
+
+/**
+ * Probability of recalling a card after `elapsedDays` with the given stability
+ */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+}
+
+/**
+ * Days until retrievability drops to the desired retention
+ */
+export function nextIntervalDays(stability: number, desiredRetention: number): number {
+  const interval = (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return clamp(Math.round(interval), 1, MAX_INTERVAL_DAYS);
+}
+
+function initialStability(rating: Rating): number {
+  return Math.max(w[rating - 1], 0.1);
+}
+
+function initialDifficulty(rating: Rating): number {
+  return clamp(w[4] - Math.exp(w[5] * (rating - 1)) + 1, 1, 10);
+}
+
+function nextDifficulty(difficulty: number, rating: Rating): number {
+  const delta = -w[6] * (rating - 3);
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  // Mean reversion towards the difficulty of a card first rated "Easy"
+  const reverted = w[7] * initialDifficulty(4) + (1 - w[7]) * damped;
+  return clamp(reverted, 1, 10);
+}
+
+function recallStability(difficulty: number, stability: number, r: number, rating: Rating): number {
+  const hardPenalty = rating === 2 ? w[15] : 1;
+  const easyBonus = rating === 4 ? w[16] : 1;
+  return stability * (
+    1 +
+    Math.exp(w[8]) *
+      (11 - difficulty) *
+      Math.pow(stability, -w[9]) *
+      (Math.exp((1 - r) * w[10]) - 1) *
+      hardPenalty *
+      easyBonus
+  );
+}
+
+function forgetStability(difficulty: number, stability: number, r: number): number {
+  const next =
+    w[11] *
+    Math.pow(difficulty, -w[12]) *
+    (Math.pow(stability + 1, w[13]) - 1) *
+    Math.exp((1 - r) * w[14]);
+  return Math.min(next, stability);
+}
+
+function shortTermStability(stability: number, rating: Rating): number {
+  return stability * Math.exp(w[17] * (rating - 3 + w[18]));
+}
+
+/**
+ * Derive an FSRS memory state from a card's SM-2 history so that cards reviewed
+ * before switching schedulers keep their progress. The current interval is taken
+ * as the stability, and the ease factor is mapped linearly onto difficulty
+ * (EF 2.5 -> 5, EF 1.3 -> 10).
+ */
+export function memoryStateFromSm2(card: SchedulingState): { stability: number; difficulty: number } {
+  const intervalDays = card.intervalType === 'minutes' ? card.interval / (24 * 60) : card.interval;
+  return {
+    stability: Math.max(intervalDays, w[0]),
+    difficulty: clamp(10 - ((card.easeFactor - 1.3) / 1.2) * 5, 1, 10),
+  };
+}
+
+export const fsrsScheduler: Scheduler = {
+  name: 'fsrs',
+
+  schedule(card, quality, { now, desiredRetention }) {
+    const rating = ratingFromQuality(quality);
+    const elapsedDays = card.lastReviewed
+      ? Math.max(0, (now.getTime() - new Date(card.lastReviewed).getTime()) / DAY_MS)
+      : 0;
+
+    const memory = card.stability !== undefined && card.difficulty !== undefined
+      ? { stability: card.stability, difficulty: card.difficulty }
+      : card.lastReviewed
+        ? memoryStateFromSm2(card)
+        : null;
+
+    let stability: number;
+    let difficulty: number;
+
+    if (!memory) {
+      // First review of a new card
+      stability = initialStability(rating);
+      difficulty = initialDifficulty(rating);
+    } else if (elapsedDays < 1) {
+      // Same-day review (e.g. relearning after a lapse)
+      stability = shortTermStability(memory.stability, rating);
+      difficulty = nextDifficulty(memory.difficulty, rating);
+    } else {
+      const r = retrievability(elapsedDays, memory.stability);
+      stability = rating === 1
+        ? forgetStability(memory.difficulty, memory.stability, r)
+        : recallStability(memory.difficulty, memory.stability, r, rating);
+      difficulty = nextDifficulty(memory.difficulty, rating);
+    }
+
+    // Lapses go back into a short relearning step, everything else gets a day interval
+    const lapsed = rating === 1;
+    const interval = lapsed ? RELEARN_MINUTES : nextIntervalDays(stability, desiredRetention);
+    const intervalType = lapsed ? 'minutes' : 'days';
+    const nextReviewDate = new Date(now);
+    if (lapsed) {
+      nextReviewDate.setMinutes(nextReviewDate.getMinutes() + interval);
+    } else {
+      nextReviewDate.setDate(nextReviewDate.getDate() + interval);
+    }
+
+    return {
+      easeFactor: card.easeFactor,
+      interval,
+      repetitions: lapsed ? 0 : card.repetitions + 1,
+      nextReviewDate: nextReviewDate.toISOString(),
+      intervalType,
+      stability: Math.round(stability * 100) / 100,
+      difficulty: Math.round(difficulty * 100) / 100,
+      scheduler: 'fsrs',
+    };
+  },
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { allocateQuestions, buildMockExam, gradeMockExam } from './mockExamService';
+import type { MockExamNote, MockExamQuestion } from './mockExamService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+function note(id: string, questionCount: number): MockExamNote {
+  return {
+    id,
+    title: `Note ${id}`,
+    folderId: null,
+    questions: Array.from({ length: questionCount }, (_, index) => ({
+      id: `${id}-${index}`,
+      question: `Question ${index} of ${id}`,
+      options: ['A', 'B'],
+      correct: 0,
+    })),
+  };
+}
+
+describe('allocateQuestions', () => {
+  it('divides questions by weight, handing out rounding leftovers by largest remainder', () => {
+    const notes = [note('a', 20), note('b', 20), note('c', 20)];
+    // Exact shares: 5, 3.33 and 1.67
+    expect(allocateQuestions(notes, 10, { a: 3, b: 2, c: 1 })).toEqual({ a: 5, b: 3, c: 2 });
+  });
+
+  it('weighs notes without a weight equally and leaves out notes weighted 0', () => {
+    const notes = [note('a', 20), note('b', 20), note('c', 20)];
+    expect(allocateQuestions(notes, 6, { c: 0 })).toEqual({ a: 3, b: 3, c: 0 });
+  });
+
+  it('gives what a note with too few questions cannot fill to the others', () => {
+    const notes = [note('a', 2), note('b', 20), note('c', 20)];
+    expect(allocateQuestions(notes, 12, {})).toEqual({ a: 2, b: 5, c: 5 });
+  });
+
+  it('never asks more questions than the notes have', () => {
+    expect(allocateQuestions([note('a', 2), note('b', 3), note('c', 0)], 10, {})).toEqual({ a: 2, b: 3, c: 0 });
+  });
+
+  it('gives tiny weights questions only once heavier notes run out', () => {
+    const notes = [note('a', 10), note('b', 10), note('c', 100)];
+    const weights = { a: 0.001, b: 0.001, c: 100 };
+    expect(allocateQuestions(notes, 3, weights)).toEqual({ a: 0, b: 0, c: 3 });
+    expect(allocateQuestions(notes, 102, weights)).toEqual({ a: 1, b: 1, c: 100 });
+  });
+});
+
+describe('buildMockExam', () => {
+  it('takes the allocated number of different questions from each note', () => {
+    const notes = [note('a', 5), note('b', 5)];
+    const exam = buildMockExam(notes, 6, { a: 2, b: 1 });
+
+    expect(exam.filter((item) => item.noteId === 'a')).toHaveLength(4);
+    expect(exam.filter((item) => item.noteId === 'b')).toHaveLength(2);
+    expect(new Set(exam.map((item) => item.question.id)).size).toBe(6);
+    exam.forEach((item) => expect(item.question.id.startsWith(item.noteId)).toBe(true));
+  });
+});
+
+describe('gradeMockExam', () => {
+  it('scores the exam overall and per note, counting only full marks as correct', () => {
+    const notes = [note('a', 3), note('b', 3), note('c', 3)];
+    const exam: MockExamQuestion[] = [
+      { noteId: 'a', question: notes[0].questions[0] },
+      { noteId: 'b', question: notes[1].questions[0] },
+      { noteId: 'a', question: notes[0].questions[1] },
+      { noteId: 'b', question: notes[1].questions[1] },
+    ];
+
+    // The last question was not answered
+    expect(gradeMockExam(exam, [1, 0.5, 0], notes)).toEqual({
+      totalQuestions: 4,
+      correctAnswers: 1,
+      scorePercentage: 37.5,
+      byNote: [
+        { noteId: 'a', title: 'Note a', totalQuestions: 2, correctAnswers: 1, scorePercentage: 50 },
+        { noteId: 'b', title: 'Note b', totalQuestions: 2, correctAnswers: 0, scorePercentage: 25 },
+      ],
+    });
+  });
+
+  it('scores an empty exam as 0', () => {
+    expect(gradeMockExam([], [], [note('a', 1)])).toEqual({ totalQuestions: 0, correctAnswers: 0, scorePercentage: 0, byNote: [] });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Mock Exam Service
+ * Builds a timed mock exam from the quiz questions of every note in a folder and its
+ * subfolders. Questions are divided over the notes by weight, and the exam is graded per
+ * note once it is submitted.
+ */
+
+import { supabase } from './supabase';
+import type { Folder, QuizQuestion } from '../types';
+import { getFolderTreeIds } from './examPlannerService';
+import { isQuestionValid, normalizeQuestion, shuffleIndices } from './quizQuestionService';
+import type { MockExamNoteScore } from './analyticsService';
+
+export interface MockExamNote {
+  id: string;
+  title: string;
+  folderId: string | null;
+  questions: QuizQuestion[];
+}
+
+export interface MockExamQuestion {
+  noteId: string;
+  question: QuizQuestion;
+}
+
+export interface MockExamReport {
+  totalQuestions: number;
+  correctAnswers: number;
+  scorePercentage: number;
+  byNote: MockExamNoteScore[];
+}
+
+export const DEFAULT_NOTE_WEIGHT = 1;
+
+/**
+ * Notes of a folder and its subfolders with their quiz questions
+ */
+export async function getFolderQuizQuestions(
+  userId: string,
+  folderId: string,
+  folders: Folder[]
+): Promise<MockExamNote[]> {
+  const { data: notes, error: notesError } = await supabase
+    .from('notes')
+    .select('id, title, folder_id, created_at')
+    .eq('user_id', userId)
+    .in('folder_id', getFolderTreeIds(folderId, folders))
+    .order('created_at', { ascending: true });
+
+  if (notesError) throw notesError;
+  if (!notes || notes.length === 0) return [];
+
+  const { data: studyContent, error: studyError } = await supabase
+    .from('study_content')
+    .select('note_id, quiz_questions')
+    .in('note_id', notes.map((n) => n.id));
+
+  if (studyError) throw studyError;
+
+  return notes.map((note) => {
+    const content = (studyContent || []).find((sc) => sc.note_id === note.id);
+    const questions = (content?.quiz_questions || [])
+      .map((question: QuizQuestion, index: number) => normalizeQuestion(question, `q-${index}`))
+      .filter(isQuestionValid);
+
+    return { id: note.id, title: note.title, folderId: note.folder_id, questions };
+  });
+}
+
+/**
+ * How many questions to take from each note: proportional to the note weights (largest
+ * remainder first), never more than a note has. What a note cannot fill goes to the others.
+ */
+export function allocateQuestions(
+  notes: MockExamNote[],
+  count: number,
+  weights: Record<string, number>
+): Record<string, number> {
+  const allocation: Record<string, number> = {};
+  notes.forEach((note) => (allocation[note.id] = 0));
+
+  let remaining = Math.min(count, notes.reduce((sum, note) => sum + note.questions.length, 0));
+  let open = notes.filter((note) => (weights[note.id] ?? DEFAULT_NOTE_WEIGHT) > 0 && note.questions.length > 0);
+
+  while (remaining > 0 && open.length > 0) {
+    const totalWeight = open.reduce((sum, note) => sum + (weights[note.id] ?? DEFAULT_NOTE_WEIGHT), 0);
+    const shares = open.map((note) => {
+      const exact = (remaining * (weights[note.id] ?? DEFAULT_NOTE_WEIGHT)) / totalWeight;
+      const room = note.questions.length - allocation[note.id];
+      return { note, whole: Math.min(Math.floor(exact), room), remainder: exact - Math.floor(exact), room };
+    });
+
+    let assigned = 0;
+    shares.forEach((share) => {
+      allocation[share.note.id] += share.whole;
+      assigned += share.whole;
+    });
+
+    // Hand out what the rounding left over, largest remainder first
+    shares
+      .filter((share) => share.room > share.whole)
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach((share) => {
+        if (assigned < remaining && share.remainder > 0) {
+          allocation[share.note.id] += 1;
+          assigned += 1;
+        }
+      });
+
+    // Small weights can round to nothing; give one question to the heaviest open note
+    if (assigned === 0) {
+      const heaviest = shares.reduce((best, share) =>
+        (weights[share.note.id] ?? DEFAULT_NOTE_WEIGHT) > (weights[best.note.id] ?? DEFAULT_NOTE_WEIGHT) ? share : best
+      );
+      allocation[heaviest.note.id] += 1;
+      assigned = 1;
+    }
+
+    remaining -= assigned;
+    open = open.filter((note) => allocation[note.id] < note.questions.length);
+  }
+
+  return allocation;
+}
+
+/**
+ * Random questions per note as allocated, in random order across notes
+ */
+export function buildMockExam(
+  notes: MockExamNote[],
+  count: number,
+  weights: Record<string, number>
+): MockExamQuestion[] {
+  const allocation = allocateQuestions(notes, count, weights);
+  const picked = notes.flatMap((note) =>
+    shuffleIndices(note.questions.length)
+      .slice(0, allocation[note.id])
+      .map((index) => ({ noteId: note.id, question: note.questions[index] }))
+  );
+
+  return shuffleIndices(picked.length).map((index) => picked[index]);
+}
+
+/**
+ * Score of the exam overall and per note, from each question's score (0-1)
+ */
+export function gradeMockExam(
+  exam: MockExamQuestion[],
+  scores: number[],
+  notes: MockExamNote[]
+): MockExamReport {
+  const percentage = (values: number[]) =>
+    values.length > 0 ? (values.reduce((sum, score) => sum + score, 0) / values.length) * 100 : 0;
+
+  const byNote = notes
+    .map((note) => {
+      const noteScores = exam.flatMap((item, index) => (item.noteId === note.id ? [scores[index] ?? 0] : []));
+      return {
+        noteId: note.id,
+        title: note.title,
+        totalQuestions: noteScores.length,
+        correctAnswers: noteScores.filter((score) => score >= 1).length,
+        scorePercentage: percentage(noteScores),
+      };
+    })
+    .filter((entry) => entry.totalQuestions > 0);
+
+  const allScores = exam.map((_, index) => scores[index] ?? 0);
+
+  return {
+    totalQuestions: exam.length,
+    correctAnswers: allScores.filter((score) => score >= 1).length,
+    scorePercentage: percentage(allScores),
+    byNote,
+  };
+}
+
+export const mockExamService = {
+  getFolderQuizQuestions,
+  allocateQuestions,
+  buildMockExam,
+  gradeMockExam,
+};
@@ -0,0 +1,97 @@
+/**
+ * Note Snapshot Service
+ * Earlier content of a note. The database keeps a snapshot before the content is
+ * overwritten (see note-snapshots-schema.sql); snapshots can be compared with the current
+ * content and restored.
+ */
+
+import { supabase, noteService } from './supabase';
+
+export type SnapshotReason = 'periodic' | 'large-deletion' | 'before-restore';
+
+export interface NoteSnapshot {
+  id: string;
+  noteId: string;
+  contentLength: number;
+  reason: SnapshotReason;
+  createdAt: Date;
+}
+
+interface NoteSnapshotRow {
+  id: string;
+  note_id: string;
+  content_length: number;
+  reason: SnapshotReason;
+  created_at: string;
+}
+
+function mapSnapshotRow(row: NoteSnapshotRow): NoteSnapshot {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    contentLength: row.content_length,
+    reason: row.reason,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Snapshots of a note, newest first, without their content
+ */
+export async function getSnapshots(noteId: string): Promise<NoteSnapshot[]> {
+  const { data, error } = await supabase
+    .from('note_snapshots')
+    .select('id, note_id, content_length, reason, created_at')
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as NoteSnapshotRow[]).map(mapSnapshotRow);
+}
+
+export async function getSnapshotContent(snapshotId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('note_snapshots')
+    .select('content')
+    .eq('id', snapshotId)
+    .single();
+
+  if (error) throw error;
+  return data.content as string;
+}
+
+/**
+ * Put the content of a snapshot back into its note. The content it replaces is kept as a
+ * snapshot first, so a restore can itself be undone.
+ */
+export async function restoreSnapshot(noteId: string, snapshotId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const [content, { data: note, error: noteError }] = await Promise.all([
+    getSnapshotContent(snapshotId),
+    supabase.from('notes').select('content').eq('id', noteId).single(),
+  ]);
+  if (noteError) throw noteError;
+
+  const currentContent = (note.content as string | null) || '';
+  if (currentContent === content) return;
+
+  if (currentContent) {
+    const { error } = await supabase.from('note_snapshots').insert({
+      user_id: user.id,
+      note_id: noteId,
+      content: currentContent,
+      reason: 'before-restore',
+    });
+    if (error) throw error;
+  }
+
+  await noteService.updateNote(noteId, { content });
+}
+
+export const noteSnapshotService = {
+  getSnapshots,
+  getSnapshotContent,
+  restoreSnapshot,
+};
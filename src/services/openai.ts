@@ -1,89 +1,94 @@
 import { aiGateway, DailyLimitError } from './aiGateway';
+import type { StreamOptions } from './aiGateway';
+import type { CardType, QuestionDifficulty, QuestionType, QuizQuestion, SourceSpan } from '../types';
+import { QUESTION_DIFFICULTIES, isQuestionValid, normalizeQuestion } from './quizQuestionService';
+import { buildExerciseGrade, normalizeRubric } from './exerciseGradingService';
+import { MAX_HINTS } from './exerciseGradingService';
+import type { ExerciseGrade, RubricStep } from './exerciseGradingService';
+import type { GapStudyItem } from './feynmanService';
+import { createExcerptLocator, locateExcerpt } from './sourceService';
+import { StructuredOutputError, analyzeImageStructured, generateStructured, s, structuredOutput } from './structuredOutput';
+import { buildBalancedContext, truncateContent } from '../../supabase/functions/_shared/noteContent.ts';
+import {
+  EXERCISES_OUTPUT,
+  FEYNMAN_TOPICS_OUTPUT,
+  FLASHCARDS_OUTPUT,
+  FLASHCARD_PROMPTS,
+  QUIZ_OUTPUT,
+  QUIZ_QUESTION_FORMATS,
+  QUIZ_QUESTION_SCHEMA,
+  exercisesPrompt,
+  feynmanTopicsPrompt,
+  flashcardsPrompt,
+  quizPrompt,
+} from '../../supabase/functions/_shared/studyPrompts.ts';
 
-// Helper function to truncate content to ~2000 tokens (approximately 1500 words)
-function truncateContent(content: string, maxWords: number = 1500): string {
-  const words = content.split(/\s+/);
-  if (words.length <= maxWords) {
-    return content;
-  }
-  
-  const truncated = words.slice(0, maxWords).join(' ');
-  return truncated + '\n\n[Content truncated for processing...]';
+// Read an image file as base64, without the data URL prefix
+function fileToBase64(file: File): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
 }
 
-// Helper: Build balanced context across multiple uploaded documents found in the note content
-// It detects sections introduced by lines like "--- Document: <name> ---" or "File: <name>"
-// and allocates an equal share of the word budget to each document to avoid biasing the first one.
-function buildBalancedContext(content: string, maxWords: number = 1500): string {
-  const lines = content.split(/\n+/);
-  const sections: Array<{ title: string; text: string }> = [];
-  let currentTitle = 'Document';
-  let currentBuffer: string[] = [];
-
-  const pushSection = () => {
-    const text = currentBuffer.join('\n').trim();
-    if (text) sections.push({ title: currentTitle, text });
-    currentBuffer = [];
-  };
-
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    const docHeaderMatch = line.match(/^---\s*Document:\s*(.+?)\s*---$/i);
-    const fileHeaderMatch = line.match(/^File:\s*(.+)$/i);
-    if (docHeaderMatch || fileHeaderMatch) {
-      // new section
-      pushSection();
-      currentTitle = `Document: ${docHeaderMatch ? docHeaderMatch[1] : (fileHeaderMatch ? fileHeaderMatch[1] : 'Unknown')}`;
-      continue;
-    }
-    currentBuffer.push(rawLine);
-  }
-  pushSection();
-
-  // If we did not detect sections, fall back to simple truncation
-  if (sections.length === 0) {
-    return truncateContent(content, maxWords);
-  }
-
-  const perSectionBase = Math.floor(maxWords / sections.length) || 1;
-  let remainder = maxWords - perSectionBase * sections.length;
-
-  const pickFromSection = (text: string, wordsToTake: number): string => {
-    const words = text.split(/\s+/).filter(Boolean);
-    if (words.length <= wordsToTake) return text.trim();
-    return words.slice(0, wordsToTake).join(' ') + '\n[truncated]';
-  };
-
-  const balancedParts: string[] = [];
-  for (const section of sections) {
-    let allocation = perSectionBase;
-    if (remainder > 0) {
-      allocation += 1;
-      remainder -= 1;
-    }
-    const picked = pickFromSection(section.text, allocation);
-    balancedParts.push(`${section.title}\n${picked}`.trim());
-  }
+// Structured output of the generators that only the app uses. Lists are wrapped in an
+// object, since structured output needs an object at the top level.
+const REWRITTEN_FLASHCARDS_OUTPUT = structuredOutput('rewritten_flashcards', 'flashcards', s.object({
+  flashcards: s.array(s.object({ front: s.string({ nonEmpty: true }), back: s.string() })),
+}));
 
-  return balancedParts.join('\n\n');
-}
+const QUIZ_QUESTION_OUTPUT = structuredOutput('quiz_question', 'a quiz question', QUIZ_QUESTION_SCHEMA);
+
+const QUESTION_TOPICS_OUTPUT = structuredOutput('question_topics', 'question topics', s.object({
+  tags: s.array(s.object({ id: s.string(), topic: s.string({ nonEmpty: true }), difficulty: s.enumOf(QUESTION_DIFFICULTIES) })),
+}));
+
+const SHORT_ANSWER_GRADE_OUTPUT = structuredOutput('short_answer_grade', 'a grade', s.object({
+  score: s.number(),
+  feedback: s.string(),
+}));
+
+const EXERCISE_HINTS_OUTPUT = structuredOutput('exercise_hints', 'hints', s.object({
+  hints: s.array(s.string()),
+}));
+
+const EXERCISE_RUBRIC_OUTPUT = structuredOutput('exercise_rubric', 'grading steps', s.object({
+  steps: s.array(s.object({ description: s.string({ nonEmpty: true }), points: s.number() })),
+}));
+
+const EXERCISE_GRADE_OUTPUT = structuredOutput('exercise_grade', 'a grade', s.object({
+  steps: s.array(s.object({ step: s.integer(), awarded: s.number(), attempted: s.boolean(), feedback: s.string() })),
+  feedback: s.string(),
+}));
+
+const GAP_STUDY_ITEMS_OUTPUT = structuredOutput('gap_study_items', 'study material', s.object({
+  items: s.array(s.object({
+    concept: s.string(),
+    kind: s.enumOf(['flashcard', 'exercise'] as const),
+    front: s.optional(s.string()),
+    back: s.optional(s.string()),
+    question: s.optional(s.string()),
+    solution: s.optional(s.string()),
+    notes: s.optional(s.string()),
+  })),
+}));
+
+const FEYNMAN_FEEDBACK_OUTPUT = structuredOutput('feynman_feedback', 'feedback', s.object({
+  score: s.number(),
+  feedback: s.string(),
+  suggestions: s.array(s.string()),
+  gaps: s.array(s.string()),
+  deliveryFeedback: s.string(),
+}));
 
-// Helper function to extract JSON from markdown code blocks
-export function extractJSON(text: string): string {
-  // Try to find JSON in markdown code blocks
-  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-  if (jsonMatch) {
-    return jsonMatch[1].trim();
-  }
-  
-  // Try to find JSON object/array directly
-  const directMatch = text.match(/(\[[\s\S]*\]|\{[\s\S]*\})/);
-  if (directMatch) {
-    return directMatch[1];
-  }
-  
-  // Return as-is if no JSON found
-  return text;
+// Errors that reach the caller unchanged: usage limits and responses in the wrong format
+function isPassThroughError(error: unknown): boolean {
+  return error instanceof DailyLimitError || error instanceof StructuredOutputError;
 }
 
 export const openaiService = {
@@ -106,63 +111,186 @@ export const openaiService = {
     }
   },
 
-  async generateFlashcards(text: string, count: number = 20): Promise<Array<{ front: string; back: string }>> {
+  async generateFlashcards(
+    text: string,
+    count: number = 20,
+    cardType: CardType = 'basic'
+  ): Promise<Array<{ front: string; back: string; cardType: CardType; source?: SourceSpan }>> {
+    try {
+      const { flashcards } = await generateStructured(flashcardsPrompt(text, count, cardType), FLASHCARDS_OUTPUT, { temperature: 0.7 });
+
+      const locate = createExcerptLocator(text);
+
+      // Ensure we return the requested count (if AI returns less, we take what we have; if more, we truncate)
+      return flashcards
+        .filter((card) => cardType !== 'cloze' || /\{\{c\d+::/.test(card.front))
+        .slice(0, count)
+        .map((card) => ({
+          front: card.front,
+          back: card.back,
+          cardType,
+          source: locate(card.sourceExcerpt) ?? undefined,
+        }));
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating flashcards:', error);
+      throw new Error('Failed to generate flashcards. Please try again or upload shorter content.');
+    }
+  },
+
+  async rewriteLeechCard(
+    card: { front: string; back: string; cardType?: CardType },
+    noteContent: string
+  ): Promise<Array<{ front: string; back: string; cardType: CardType }>> {
+    try {
+      const cardType = card.cardType || 'basic';
+      const prompt = FLASHCARD_PROMPTS[cardType];
+      const context = noteContent.trim() ? buildBalancedContext(noteContent, 800) : '';
+
+      const { flashcards } = await generateStructured([
+        {
+          role: 'system',
+          content: prompt.system,
+        },
+        {
+          role: 'user',
+          content: `A student keeps forgetting this flashcard:\nFront: ${card.front}\nBack: ${card.back}\n\nRewrite it so it is easier to remember. Requirements:\n1. If the card asks for more than one fact, split it into separate cards with one fact each (at most 4 cards)\n2. Use simpler, more concrete wording and keep answers short\n3. Stay faithful to the material; do not add facts that are not in it\n4. Card format: ${prompt.requirements}${context ? `\n\nMaterial the card was made from:\n${context}` : ''}\n\nReturn the new flashcards in the "flashcards" array of a JSON object, each with "front" and "back" properties.`,
+        },
+      ], REWRITTEN_FLASHCARDS_OUTPUT, { temperature: 0.5 });
+
+      return flashcards
+        .filter((rewritten) => cardType !== 'cloze' || /\{\{c\d+::/.test(rewritten.front))
+        .slice(0, 4)
+        .map((rewritten) => ({
+          front: rewritten.front,
+          back: rewritten.back,
+          cardType,
+        }));
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error rewriting flashcard:', error);
+      throw new Error('Failed to rewrite flashcard. Please try again.');
+    }
+  },
+
+  async generateQuiz(
+    text: string,
+    count: number = 15,
+    questionType: QuestionType | 'mixed' = 'multiple-choice'
+  ): Promise<QuizQuestion[]> {
+    try {
+      const { questions } = await generateStructured(quizPrompt(text, count, questionType), QUIZ_OUTPUT, { temperature: 0.7 });
+
+      const locate = createExcerptLocator(text);
+
+      // Drop questions the model got wrong for their type, then ensure we return the requested count
+      return questions
+        .map((question, index) => normalizeQuestion(question, `gen-${index}`))
+        .filter(isQuestionValid)
+        .slice(0, count)
+        .map((question) => ({ ...question, source: locate(question.sourceExcerpt) ?? undefined }));
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating quiz:', error);
+      throw new Error('Failed to generate quiz. Please try again or upload shorter content.');
+    }
+  },
+
+  async generateAdaptiveQuestion(
+    text: string,
+    topic: string,
+    difficulty: QuestionDifficulty,
+    askedQuestions: string[] = []
+  ): Promise<QuizQuestion | null> {
     try {
-      // Balance content across documents to avoid overweighting the first upload
       const balancedText = buildBalancedContext(text, 1500);
-      
-      const content = await aiGateway.chatCompletion([
+      const asked = askedQuestions.slice(-20).map((question) => `- ${question}`).join('\n');
+
+      const generated = await generateStructured([
         {
           role: 'system',
           content:
-            'You are a helpful assistant that creates educational flashcards. Return a JSON array of flashcards with "front" and "back" properties.',
+            'You are a helpful assistant that creates quiz questions. Return one question as a JSON object in exactly the requested format; set fields its type does not use to null.',
         },
         {
           role: 'user',
-          content: `Create EXACTLY ${count} flashcards from the following materials. Requirements:\n1. Give EQUAL coverage to all documents; do not focus only on early sections\n2. Progress difficulty (definitions/facts → concepts/relationships → applications)\n3. Ensure breadth across distinct topics; avoid redundancy\n4. If multiple documents state the same fact, MERGE that into one clear card (do not duplicate) and prefer the clearest wording\n\nMaterials (balanced excerpts from each document):\n${balancedText}\n\nReturn exactly ${count} flashcards as a JSON array with "front" and "back" properties.`,
+          content: `Create ONE ${difficulty} quiz question on the topic "${topic}" from the following materials. Requirements:\n1. Test the topic "${topic}" only; ${difficulty === 'easy' ? 'ask for recall of a key fact' : difficulty === 'medium' ? 'ask the student to apply or explain a concept' : 'ask the student to analyse, compare or reason through a less obvious case'}\n2. Make distractors plausible but clearly wrong\n3. Use one of these question types:\n${QUIZ_QUESTION_FORMATS['multiple-choice']}\n${QUIZ_QUESTION_FORMATS['multi-select']}\n${QUIZ_QUESTION_FORMATS['true-false']}\n${QUIZ_QUESTION_FORMATS['fill-blank']}\n4. The object also has "explanation" (1-2 sentences on why the right answer is right) and "sourceExcerpt" (the passage of the materials the question is based on, copied word for word, at most 40 words)${asked ? `\n5. Do not repeat or rephrase these questions:\n${asked}` : ''}\n\nMaterials:\n${balancedText}\n\nReturn the question as a JSON object.`,
         },
-      ], { model: 'gpt-4o-mini', temperature: 0.7 });
-      const jsonContent = extractJSON(content);
-      const flashcards = JSON.parse(jsonContent);
-      
-      // Ensure we return the requested count (if AI returns less, we take what we have; if more, we truncate)
-      return Array.isArray(flashcards) ? flashcards.slice(0, count) : [];
+      ], QUIZ_QUESTION_OUTPUT, { temperature: 0.8 });
+
+      const question = normalizeQuestion({ ...generated, topic, difficulty }, `adaptive-${Date.now()}`);
+      if (!isQuestionValid(question)) return null;
+      return { ...question, source: locateExcerpt(text, question.sourceExcerpt) ?? undefined };
     } catch (error) {
-      if (error instanceof DailyLimitError) throw error;
-      console.error('Error generating flashcards:', error);
-      throw new Error('Failed to generate flashcards. Please try again or upload shorter content.');
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating adaptive question:', error);
+      throw new Error('Failed to generate a question. Please try again.');
     }
   },
 
-  async generateQuiz(text: string, count: number = 15): Promise<Array<{ question: string; options: string[]; correctAnswer: number }>> {
+  async tagQuizQuestions(
+    text: string,
+    questions: QuizQuestion[]
+  ): Promise<Array<{ id: string; topic: string; difficulty?: QuestionDifficulty }>> {
     try {
-      // Balance content across documents to avoid overweighting the first upload
-      const balancedText = buildBalancedContext(text, 1500);
-      
-      const content = await aiGateway.chatCompletion([
+      const balancedText = buildBalancedContext(text, 800);
+      const list = questions.map((question) => `${question.id}: ${question.question}`).join('\n');
+      const knownTopics = Array.from(new Set(questions.map((question) => question.topic).filter(Boolean)));
+
+      const { tags } = await generateStructured([
         {
           role: 'system',
           content:
-            'You are a helpful assistant that creates quiz questions. Return a JSON array of questions with "question", "options" (array of 4 strings), and "correctAnswer" (index 0-3).',
+            'You sort quiz questions into the topics of a lecture. Return a JSON object whose "tags" array holds objects with "id", "topic" and "difficulty".',
         },
         {
           role: 'user',
-          content: `Create EXACTLY ${count} quiz questions from the following materials. Requirements:\n1. Give EQUAL coverage to all documents; do not bias earlier sections\n2. Mix difficulty (recall → application → analysis) and cover different topics\n3. Make distractors plausible but clearly wrong\n4. If multiple documents repeat the same fact, combine knowledge and avoid duplicate questions\n\nMaterials (balanced excerpts from each document):\n${balancedText}\n\nReturn exactly ${count} quiz questions as a JSON array with "question", "options" (array of 4 strings), and "correctAnswer" (index 0-3).`,
+          content: `Give each quiz question below a topic (a short name, 1-4 words) and a difficulty ("easy" for recall, "medium" for application, "hard" for analysis). Use 2-8 topics in total and the same name for questions on the same topic.${knownTopics.length > 0 ? ` Reuse these existing topic names where they fit: ${knownTopics.join(', ')}.` : ''}\n\nQuestions (id: question):\n${list}\n\nLecture materials:\n${balancedText}\n\nReturn a JSON object whose "tags" array holds {"id", "topic", "difficulty"} objects.`,
         },
-      ], { model: 'gpt-4o-mini', temperature: 0.7 });
-      const jsonContent = extractJSON(content);
-      const questions = JSON.parse(jsonContent);
-      
-      // Ensure we return the requested count
-      return Array.isArray(questions) ? questions.slice(0, count) : [];
+      ], QUESTION_TOPICS_OUTPUT, { temperature: 0 });
+
+      return tags.map((tag) => ({ id: tag.id, topic: tag.topic.trim(), difficulty: tag.difficulty }));
     } catch (error) {
-      if (error instanceof DailyLimitError) throw error;
-      console.error('Error generating quiz:', error);
-      throw new Error('Failed to generate quiz. Please try again or upload shorter content.');
+      if (isPassThroughError(error)) throw error;
+      console.error('Error tagging quiz questions:', error);
+      throw new Error('Failed to sort questions into topics. Please try again.');
     }
   },
 
-  async chatCompletions(messages: Array<{ role: 'user' | 'assistant'; content: string }>, context?: string): Promise<string> {
+  async gradeShortAnswer(
+    question: string,
+    modelAnswer: string,
+    answer: string
+  ): Promise<{ score: number; feedback: string }> {
+    try {
+      const result = await generateStructured([
+        {
+          role: 'system',
+          content:
+            'You are a fair examiner grading short answers. Return a JSON object with "score" (a number from 0 to 1) and "feedback" (one or two sentences addressed to the student).',
+        },
+        {
+          role: 'user',
+          content: `Question: ${question}\n\nModel answer: ${modelAnswer}\n\nStudent answer: ${answer}\n\nGrade the student answer against the key points of the model answer. Give full credit for correct answers in other words, partial credit for answers missing key points and 0 for wrong or empty answers. Ignore spelling and grammar. Return a JSON object with "score" and "feedback".`,
+        },
+      ], SHORT_ANSWER_GRADE_OUTPUT, { temperature: 0 });
+
+      return { score: Math.min(1, Math.max(0, result.score)), feedback: result.feedback };
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error grading answer:', error);
+      throw new Error('Failed to grade your answer. Please try again.');
+    }
+  },
+
+  /**
+   * Answer a study question. Pass `stream` to receive the answer as it is generated.
+   */
+  async chatCompletions(
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    context?: string,
+    stream?: Pick<StreamOptions, 'signal' | 'onDelta'>
+  ): Promise<string> {
     // Truncate context to avoid rate limits
     const truncatedContext = context ? truncateContent(context, 1000) : undefined;
     
@@ -177,51 +305,56 @@ Always use $...$ for inline formulas and $$...$$ for displayed equations.`
     };
 
     try {
-      return await aiGateway.chatCompletion([systemMessage as any, ...messages], { model: 'gpt-4o-mini', temperature: 0.7 });
+      if (stream) {
+        return await aiGateway.streamChatCompletion([systemMessage, ...messages], { temperature: 0.7, ...stream });
+      }
+      return await aiGateway.chatCompletion([systemMessage as any, ...messages], { temperature: 0.7 });
     } catch (error) {
       if (error instanceof DailyLimitError) throw error;
       throw error;
     }
   },
 
-  async generateExercise(text: string, count: number = 10): Promise<Array<{ question: string; solution: string; notes: string }>> {
+  /**
+   * Answer a question from numbered sources retrieved from the user's notes, citing them as [n]
+   */
+  async answerWithSources(
+    messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+    sourcesContext: string,
+    stream?: Pick<StreamOptions, 'signal' | 'onDelta'>
+  ): Promise<string> {
+    const systemMessage = {
+      role: 'system' as const,
+      content: `You are a helpful study assistant. Answer using the numbered sources below, which are excerpts from the student's own notes and documents.
+
+After every statement that uses a source, cite it with its number in square brackets, like [1] or [2, 3]. Only cite sources you actually used. If the sources do not cover the question, say so briefly and answer from general knowledge without citations.
+
+IMPORTANT: When writing mathematical formulas or equations, ALWAYS wrap them in dollar signs: $...$ for inline formulas and $$...$$ for displayed equations.
+
+Sources:
+${sourcesContext}`,
+    };
+
+    if (stream) {
+      return aiGateway.streamChatCompletion([systemMessage, ...messages], { temperature: 0.5, ...stream });
+    }
+    return aiGateway.chatCompletion([systemMessage, ...messages], { temperature: 0.5 });
+  },
+
+  async generateExercise(
+    text: string,
+    count: number = 10
+  ): Promise<Array<{ question: string; solution: string; notes: string; hints?: string[] }>> {
     try {
-      // Truncate content to avoid rate limits
-      const truncatedText = truncateContent(text);
-      
-      const content = await aiGateway.chatCompletion([
-        {
-          role: 'system',
-          content:
-            'You are a helpful assistant that creates practice exercises. Return a JSON array of exercises with "question", "solution", and "notes" properties.',
-        },
-        {
-          role: 'user',
-          content: `Create EXACTLY ${count} practice exercises from the following text. Make sure to:
-1. Cover ALL important concepts and key topics from the text comprehensively
-2. Create exercises in progressive difficulty (start with simpler applications, then more complex ones)
-3. Include a variety of exercise types:
-   - Problem-solving exercises
-   - Application of concepts
-   - Analysis and critical thinking
-   - Synthesis tasks
-4. Each exercise should have a clear, detailed solution
-5. Include helpful notes with tips or common pitfalls
-6. Ensure comprehensive coverage across different themes and topics
-
-Text:
-${truncatedText}
-
-Return exactly ${count} exercises as a JSON array with "question", "solution", and "notes" properties.`,
-        },
-      ], { model: 'gpt-4o-mini', temperature: 0.7 });
-      const jsonContent = extractJSON(content);
-      const exercises = JSON.parse(jsonContent);
-      
+      const { exercises } = await generateStructured(exercisesPrompt(text, count), EXERCISES_OUTPUT, { temperature: 0.7 });
+
       // Ensure we return the requested count
-      return Array.isArray(exercises) ? exercises.slice(0, count) : [];
+      return exercises.slice(0, count).map((exercise) => ({
+        ...exercise,
+        hints: exercise.hints.filter((hint) => hint.trim()).slice(0, MAX_HINTS),
+      }));
     } catch (error) {
-      if (error instanceof DailyLimitError) throw error;
+      if (isPassThroughError(error)) throw error;
       console.error('Error generating exercises:', error);
       throw new Error('Failed to generate exercises. Please try again or upload shorter content.');
     }
@@ -229,18 +362,7 @@ Return exactly ${count} exercises as a JSON array with "question", "solution", a
 
   async analyzeExerciseImage(imageFile: File, exerciseQuestion: string, correctSolution: string): Promise<string> {
     try {
-      // Convert image to base64
-      const base64Image = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          const result = reader.result as string;
-          // Remove data URL prefix
-          const base64 = result.split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(imageFile);
-      });
+      const base64Image = await fileToBase64(imageFile);
 
       const prompt = `You are a helpful teaching assistant. A student has uploaded a photo of their work for this exercise.
 
@@ -270,4 +392,190 @@ Be encouraging but honest. If the work is mostly correct, say so. If it's partia
       throw new Error('Failed to analyze image. Please try again.');
     }
   },
+
+  async generateExerciseHints(question: string, solution: string, notes?: string): Promise<string[]> {
+    try {
+      const { hints } = await generateStructured([
+        {
+          role: 'system',
+          content: 'You are a patient tutor. Return a JSON object whose "hints" array holds the hint strings.',
+        },
+        {
+          role: 'user',
+          content: `Write ${MAX_HINTS} hints for this exercise, from least to most specific:\n1. Point to the concept or idea the exercise is about\n2. Suggest the method or the first step\n3. Walk through the key step, but do not give the final answer\n\nExercise: ${question}\n\nSolution (do not reveal it):\n${solution}${notes ? `\n\nTeacher notes:\n${notes}` : ''}\n\nReturn the hints in the "hints" array of a JSON object.`,
+        },
+      ], EXERCISE_HINTS_OUTPUT, { temperature: 0.4 });
+
+      return hints.filter((hint) => hint.trim()).slice(0, MAX_HINTS);
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating hints:', error);
+      throw new Error('Failed to generate a hint. Please try again.');
+    }
+  },
+
+  async buildExerciseRubric(question: string, solution: string): Promise<RubricStep[]> {
+    try {
+      const { steps } = await generateStructured([
+        {
+          role: 'system',
+          content:
+            'You are an examiner writing marking schemes. Return a JSON object whose "steps" array holds rubric steps with "description" and "points".',
+        },
+        {
+          role: 'user',
+          content: `Break the solution of this exercise into the steps a grader checks, in the order they are done. Requirements:\n1. 2-6 steps; each step is one thing a correct attempt does (a method chosen, an intermediate result, a conclusion)\n2. "description" says what is expected in that step, specific enough to grade against\n3. "points" is 1-4, by how much the step matters\n\nExercise: ${question}\n\nSolution:\n${solution}\n\nReturn the steps in the "steps" array of a JSON object.`,
+        },
+      ], EXERCISE_RUBRIC_OUTPUT, { temperature: 0 });
+
+      return normalizeRubric(steps).slice(0, 6);
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error building exercise rubric:', error);
+      throw new Error('Failed to prepare the grading steps. Please try again.');
+    }
+  },
+
+  async gradeExerciseSteps(
+    question: string,
+    solution: string,
+    rubric: RubricStep[],
+    attempt: { text?: string; image?: File }
+  ): Promise<ExerciseGrade> {
+    try {
+      const steps = rubric
+        .map((step, index) => `${index + 1}. (${step.points} points) ${step.description}`)
+        .join('\n');
+      const prompt = `Grade a student's attempt at this exercise step by step against the rubric.
+
+Exercise Question: ${question}
+
+Correct Solution:
+${solution}
+
+Rubric:
+${steps}
+
+${attempt.image ? 'The attempt is in the attached photo of the student\'s work.' : `Student's Answer:\n${attempt.text || ''}`}
+
+For every rubric step, award 0 up to its points: full points when the step is done correctly (in any valid way), partial points when it is started but incomplete or has a small mistake, 0 when it is wrong or missing. A mistake carried over from an earlier step should only cost points in the step where it was made.
+
+Return JSON in this format:
+{
+  "steps": [{ "step": <step number>, "awarded": <points>, "attempted": <true/false>, "feedback": "<one sentence on this step>" }],
+  "feedback": "<encouraging overall feedback that names the step that went wrong first, if any>"
+}`;
+
+      const result = attempt.image
+        ? await analyzeImageStructured(await fileToBase64(attempt.image), prompt, EXERCISE_GRADE_OUTPUT)
+        : await generateStructured([
+            {
+              role: 'system',
+              content: 'You are a fair teaching assistant grading exercises with a rubric. Return only JSON.',
+            },
+            { role: 'user', content: prompt },
+          ], EXERCISE_GRADE_OUTPUT, { temperature: 0 });
+
+      return buildExerciseGrade(
+        rubric,
+        rubric.map((_, index) => result.steps.find((entry) => entry.step === index + 1) ?? result.steps[index]),
+        result.feedback
+      );
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error grading exercise:', error);
+      throw new Error('Failed to grade your work. Please try again.');
+    }
+  },
+
+  async generateGapStudyItems(
+    text: string,
+    concepts: string[]
+  ): Promise<GapStudyItem[]> {
+    try {
+      const balancedText = buildBalancedContext(text, 1200);
+
+      const { items } = await generateStructured([
+        {
+          role: 'system',
+          content:
+            'You are a helpful tutor who turns a student\'s knowledge gaps into study material. Return a JSON object whose "items" array holds the study items; set fields an item does not use to null.',
+        },
+        {
+          role: 'user',
+          content: `A student keeps missing these concepts when explaining the material:\n${concepts.map((concept) => `- ${concept}`).join('\n')}\n\nCreate ONE study item per concept. Requirements:\n1. For a fact, term or definition, make a flashcard: {"concept", "kind": "flashcard", "front": a clear question, "back": a short answer}\n2. For a process, relationship or something to apply or reason through, make an exercise: {"concept", "kind": "exercise", "question", "solution": a clear, detailed solution, "notes": a tip or common pitfall}\n3. "concept" is the concept exactly as listed above\n4. Stay faithful to the material\n\nMaterials:\n${balancedText}\n\nReturn the study items in the "items" array of a JSON object.`,
+        },
+      ], GAP_STUDY_ITEMS_OUTPUT, { temperature: 0.5 });
+
+      return items.flatMap((item): GapStudyItem[] => {
+        const concept = concepts.find((listed) => listed.trim().toLowerCase() === item.concept.trim().toLowerCase());
+        if (!concept) return [];
+        if (item.kind === 'flashcard' && item.front && item.back) {
+          return [{ concept, kind: 'flashcard', front: item.front, back: item.back }];
+        }
+        if (item.kind === 'exercise' && item.question && item.solution) {
+          return [{ concept, kind: 'exercise', question: item.question, solution: item.solution, notes: item.notes || '' }];
+        }
+        return [];
+      });
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating study items for gaps:', error);
+      throw new Error('Failed to create study material for your gaps. Please try again.');
+    }
+  },
+  async generateFeynmanTopics(text: string): Promise<Array<{ id: string; title: string; description: string }>> {
+    try {
+      const { topics } = await generateStructured(feynmanTopicsPrompt(text), FEYNMAN_TOPICS_OUTPUT, { temperature: 0.7 });
+
+      return topics.map((topic, index) => ({
+        id: (index + 1).toString(),
+        title: topic.title,
+        description: topic.description,
+      }));
+    } catch (error) {
+      if (isPassThroughError(error)) throw error;
+      console.error('Error generating Feynman topics:', error);
+      throw new Error('Failed to generate practice topics. Please try again.');
+    }
+  },
+
+  async gradeFeynmanExplanation(
+    noteContent: string,
+    explanation: string,
+    deliverySummary: string
+  ): Promise<{ score: number; feedback: string; suggestions: string[]; gaps: string[]; deliveryFeedback: string }> {
+    const feedbackPrompt = `You are a CRITICAL but fair teacher evaluating a student's explanation using the Feynman Technique. The goal is to ensure the explanation is so simple that a 5-year-old could understand it.
+
+Note content:\n${noteContent}
+
+Student explanation to evaluate:\n${explanation}
+
+Delivery:\n${deliverySummary}
+
+EVALUATION CRITERIA (BE STRICT):
+1. Language should be SIMPLE - no jargon, technical terms without explanation, or complex vocabulary
+2. Explanations should use ANALOGIES or real-world examples
+3. Concepts should be broken down into the SMALLEST possible pieces
+4. NO ASSUMPTIONS - the explanation should not assume prior knowledge
+5. It should be conversational and clear, like talking to a child
+
+Score harshly (20-40%) if: using jargon, technical terms without explanation, assuming knowledge, lacking analogies, too complex
+Score mediocre (50-70%) if: generally correct but could be simpler, missing key analogies, some complexity
+Score well (80-100%) if: truly simple, uses great analogies, breaks down perfectly, conversational
+
+Also list the concepts from the note content that the explanation leaves out or gets wrong, each as a short name (1-4 words) that would make sense on its own.
+
+Finally, comment in 1-2 sentences on the delivery: filler words and whether the length suits the topic (too short to cover it, or rambling). A spoken explanation is a transcript, so judge its wording rather than its punctuation.
+
+Respond with a JSON object: {"score": number (0-100), "feedback": "critical feedback string", "suggestions": ["string array of specific improvements"], "gaps": ["string array of missed or wrong concepts, empty if none"], "deliveryFeedback": "string"}`;
+
+    return generateStructured([
+      {
+        role: 'system',
+        content: 'You are a STRICT but constructive teacher who insists on truly simple explanations. You must be critical and demand explanations suitable for a 5-year-old. Do not give high scores unless the explanation is genuinely simple, uses analogies, avoids jargon, and breaks concepts into digestible pieces.',
+      },
+      { role: 'user', content: feedbackPrompt },
+    ], FEYNMAN_FEEDBACK_OUTPUT, { temperature: 0.7 });
+  },
 };
@@ -0,0 +1,128 @@
+import { supabase } from './supabase';
+import type { QuizQuestion } from '../types';
+import type { QuizAnswer } from './quizQuestionService';
+
+/**
+ * One answered question of a finished quiz
+ */
+export interface QuizAnswerEntry {
+  id: string;
+  userId: string;
+  quizResultId: string | null;
+  noteId: string | null;
+  questionId: string;
+  question: QuizQuestion; // The question as it was asked
+  answer: QuizAnswer;
+  score: number; // 0 (wrong) to 1 (right)
+  feedback: string | null;
+  answeredAt: Date;
+}
+
+/**
+ * An answer to save; the question carries its own note when quizzes span several notes
+ */
+export interface NewQuizAnswer {
+  question: QuizQuestion;
+  noteId?: string | null;
+  answer: QuizAnswer;
+  score: number;
+  feedback?: string;
+}
+
+interface QuizAnswerRow {
+  id: string;
+  user_id: string;
+  quiz_result_id: string | null;
+  note_id: string | null;
+  question_id: string;
+  question: QuizQuestion;
+  answer: QuizAnswer;
+  score: number | string;
+  feedback: string | null;
+  answered_at: string;
+}
+
+function mapQuizAnswerRow(row: QuizAnswerRow): QuizAnswerEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    quizResultId: row.quiz_result_id,
+    noteId: row.note_id,
+    questionId: row.question_id,
+    question: row.question,
+    answer: row.answer,
+    score: Number(row.score),
+    feedback: row.feedback,
+    answeredAt: new Date(row.answered_at),
+  };
+}
+
+/**
+ * Save the answers of a finished quiz
+ */
+export async function saveQuizAnswers(
+  userId: string,
+  quizResultId: string | null,
+  noteId: string | null,
+  answers: NewQuizAnswer[]
+): Promise<QuizAnswerEntry[]> {
+  if (answers.length === 0) return [];
+
+  const answeredAt = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('quiz_answers')
+    .insert(
+      answers.map((entry) => ({
+        user_id: userId,
+        quiz_result_id: quizResultId,
+        note_id: entry.noteId !== undefined ? entry.noteId : noteId,
+        question_id: entry.question.id,
+        question: entry.question,
+        answer: entry.answer,
+        score: Math.round(Math.min(1, Math.max(0, entry.score)) * 10000) / 10000,
+        feedback: entry.feedback || null,
+        answered_at: answeredAt,
+      }))
+    )
+    .select();
+
+  if (error) throw error;
+  return (data || []).map(mapQuizAnswerRow);
+}
+
+/**
+ * Get the answers of one quiz attempt, in the order they were saved
+ */
+export async function getQuizAnswers(quizResultId: string): Promise<QuizAnswerEntry[]> {
+  const { data, error } = await supabase
+    .from('quiz_answers')
+    .select('*')
+    .eq('quiz_result_id', quizResultId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapQuizAnswerRow);
+}
+
+/**
+ * Get a user's quiz answers, newest first, optionally for one note only
+ */
+export async function getUserQuizAnswers(userId: string, noteId?: string): Promise<QuizAnswerEntry[]> {
+  let query = supabase
+    .from('quiz_answers')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (noteId) query = query.eq('note_id', noteId);
+
+  const { data, error } = await query.order('answered_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(mapQuizAnswerRow);
+}
+
+export const quizAnswerService = {
+  saveQuizAnswers,
+  getQuizAnswers,
+  getUserQuizAnswers,
+};
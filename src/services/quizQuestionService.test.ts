@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countBlanks,
+  isAnswerComplete,
+  isQuestionValid,
+  normalizeQuestion,
+  scoreAnswer,
+  shuffleIndices,
+} from './quizQuestionService';
+import type { QuizQuestion } from '../types';
+
+function question(overrides: Partial<QuizQuestion>): QuizQuestion {
+  return { id: 'q', question: 'Question', options: ['A', 'B', 'C', 'D'], correct: 1, ...overrides };
+}
+
+describe('scoreAnswer', () => {
+  it('gives multiple choice and true/false questions full marks for the right choice only', () => {
+    expect(scoreAnswer(question({}), { choice: 1 })).toBe(1);
+    expect(scoreAnswer(question({}), { choice: 2 })).toBe(0);
+    expect(scoreAnswer(question({ type: 'true-false', options: ['True', 'False'], correct: 0 }), { choice: 0 })).toBe(1);
+  });
+
+  it('lets every wrong choice of a multi-select question cancel out a right one', () => {
+    const multiSelect = question({ type: 'multi-select', correctAnswers: [0, 2] });
+    expect(scoreAnswer(multiSelect, { choices: [0, 2] })).toBe(1);
+    expect(scoreAnswer(multiSelect, { choices: [0] })).toBe(0.5);
+    expect(scoreAnswer(multiSelect, { choices: [0, 1] })).toBe(0);
+    expect(scoreAnswer(multiSelect, { choices: [0, 1, 2, 3] })).toBe(0);
+  });
+
+  it('checks each blank against its accepted answers, ignoring case and punctuation', () => {
+    const fillBlank = question({ type: 'fill-blank', question: '___ is made in the ___.', blanks: [['ATP', 'adenosine triphosphate'], ['mitochondria']] });
+    expect(scoreAnswer(fillBlank, { blanks: ['Adenosine triphosphate', 'Mitochondria.'] })).toBe(1);
+    expect(scoreAnswer(fillBlank, { blanks: ['atp', 'nucleus'] })).toBe(0.5);
+    expect(scoreAnswer(fillBlank, {})).toBe(0);
+  });
+
+  it('gives ordering and matching questions credit per item in the right place', () => {
+    const ordering = question({ type: 'ordering' });
+    expect(scoreAnswer(ordering, { order: [0, 1, 2, 3] })).toBe(1);
+    expect(scoreAnswer(ordering, { order: [1, 0, 2, 3] })).toBe(0.5);
+
+    const matching = question({ type: 'matching', pairs: [{ left: 'H', right: 'Hydrogen' }, { left: 'O', right: 'Oxygen' }] });
+    expect(scoreAnswer(matching, { matches: [0, -1] })).toBe(0.5);
+    expect(scoreAnswer(matching, { matches: [1, 0] })).toBe(0);
+  });
+
+  it('leaves short answers to the AI grader', () => {
+    expect(scoreAnswer(question({ type: 'short-answer', modelAnswer: 'Because' }), { text: 'Because' })).toBeNull();
+  });
+});
+
+describe('isQuestionValid', () => {
+  it('needs the fields of the question type', () => {
+    expect(isQuestionValid(question({}))).toBe(true);
+    expect(isQuestionValid(question({ correct: 4 }))).toBe(false);
+    expect(isQuestionValid(question({ options: ['A', ' '] }))).toBe(false);
+    expect(isQuestionValid(question({ type: 'multi-select', correctAnswers: [] }))).toBe(false);
+    expect(isQuestionValid(question({ type: 'fill-blank', question: 'One ___ and two ___', blanks: [['a']] }))).toBe(false);
+    expect(isQuestionValid(question({ type: 'matching', pairs: [{ left: 'H', right: 'Hydrogen' }] }))).toBe(false);
+    expect(isQuestionValid(question({ type: 'short-answer' }))).toBe(false);
+    expect(isQuestionValid(question({ question: '  ' }))).toBe(false);
+  });
+});
+
+describe('isAnswerComplete', () => {
+  it('needs a choice, a filled blank, a full order or one match', () => {
+    expect(isAnswerComplete(question({}), {})).toBe(false);
+    expect(isAnswerComplete(question({}), { choice: 0 })).toBe(true);
+    expect(isAnswerComplete(question({ type: 'fill-blank', question: '___' }), { blanks: [' '] })).toBe(false);
+    expect(isAnswerComplete(question({ type: 'ordering' }), { order: [0, 1] })).toBe(false);
+    expect(isAnswerComplete(question({ type: 'matching' }), { matches: [-1, 1] })).toBe(true);
+  });
+});
+
+describe('normalizeQuestion', () => {
+  it('upgrades questions saved before question types existed', () => {
+    expect(normalizeQuestion({ question: 'Old', options: ['A', 'B'], correctAnswer: 1 }, 'fallback')).toMatchObject({
+      id: 'fallback',
+      type: 'multiple-choice',
+      correct: 1,
+    });
+  });
+
+  it('drops unknown types, blank topics and unknown difficulties', () => {
+    const raw = { id: 'q', question: 'Q', type: 'essay', topic: '  ', difficulty: 'extreme' } as unknown as Partial<QuizQuestion>;
+    expect(normalizeQuestion(raw, 'fallback')).toMatchObject({ type: 'multiple-choice', topic: undefined, difficulty: undefined });
+    expect(normalizeQuestion({ question: 'Q', type: 'true-false' }, 'q').options).toEqual(['True', 'False']);
+  });
+});
+
+describe('countBlanks', () => {
+  it('counts runs of three or more underscores', () => {
+    expect(countBlanks('The ___ of the _____ is __')).toBe(2);
+  });
+});
+
+describe('shuffleIndices', () => {
+  it('returns every index once, never in the original order', () => {
+    for (let i = 0; i < 20; i++) {
+      const shuffled = shuffleIndices(3);
+      expect([...shuffled].sort()).toEqual([0, 1, 2]);
+      expect(shuffled).not.toEqual([0, 1, 2]);
+    }
+  });
+});
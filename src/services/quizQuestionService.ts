@@ -0,0 +1,295 @@
+/**
+ * Quiz Question Service
+ * Checks and scores answers for every quiz question type:
+ * - multiple choice and true/false: one right choice
+ * - multi-select: all right choices, with partial credit
+ * - fill-in-the-blank: every ___ in the question against its accepted answers
+ * - ordering: items put back into their correct order
+ * - matching: every left item paired with its right item
+ * - short answer: free text, graded by AI against a model answer
+ */
+
+import type { QuestionType, QuizQuestion } from '../types';
+import { isTypedAnswerCorrect } from './cardTypeService';
+import { QUESTION_DIFFICULTIES } from '../../supabase/functions/_shared/studyPrompts.ts';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True / false',
+  'multi-select': 'Multi-select',
+  'fill-blank': 'Fill in the blank',
+  ordering: 'Ordering',
+  matching: 'Matching',
+  'short-answer': 'Short answer',
+};
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export { QUESTION_DIFFICULTIES };
+
+const BLANK_PATTERN = /_{3,}/g;
+
+/**
+ * What the student answered. Only the field of the question's type is set.
+ */
+export interface QuizAnswer {
+  choice?: number; // Multiple choice, true/false
+  choices?: number[]; // Multi-select
+  blanks?: string[]; // Fill-in-the-blank, one entry per blank
+  order?: number[]; // Ordering: option indexes in the order the student put them
+  matches?: number[]; // Matching: right-hand pair index chosen for each left item (-1 = none)
+  text?: string; // Short answer
+}
+
+export function getQuestionType(question: Pick<QuizQuestion, 'type'>): QuestionType {
+  return question.type ?? 'multiple-choice';
+}
+
+/**
+ * Parts of a fill-in-the-blank question around its blanks
+ */
+export function splitBlanks(text: string): string[] {
+  return text.split(BLANK_PATTERN);
+}
+
+export function countBlanks(text: string): number {
+  return splitBlanks(text).length - 1;
+}
+
+/**
+ * Bring a stored or generated question into the current format.
+ * Questions saved before question types existed used `correctAnswer`.
+ */
+export function normalizeQuestion(
+  raw: Partial<QuizQuestion> & { correctAnswer?: number },
+  fallbackId: string
+): QuizQuestion {
+  const type = raw.type && QUESTION_TYPES.includes(raw.type) ? raw.type : 'multiple-choice';
+
+  return {
+    ...raw,
+    id: raw.id || fallbackId,
+    question: raw.question || '',
+    type,
+    options: type === 'true-false' ? TRUE_FALSE_OPTIONS : raw.options || [],
+    correct: raw.correct ?? raw.correctAnswer ?? 0,
+    topic: typeof raw.topic === 'string' && raw.topic.trim() ? raw.topic.trim() : undefined,
+    difficulty: raw.difficulty && QUESTION_DIFFICULTIES.includes(raw.difficulty) ? raw.difficulty : undefined,
+  };
+}
+
+/**
+ * Turn a question into another type, keeping the question text and whatever still fits
+ */
+export function convertQuestion(question: QuizQuestion, type: QuestionType): QuizQuestion {
+  const options = question.options.length >= 2 && getQuestionType(question) !== 'true-false'
+    ? question.options
+    : ['', '', '', ''];
+
+  return {
+    id: question.id,
+    question: question.question,
+    type,
+    options: type === 'true-false' ? TRUE_FALSE_OPTIONS : options,
+    correct: type === 'true-false' ? Math.min(question.correct, 1) : question.correct,
+    correctAnswers: type === 'multi-select' ? question.correctAnswers || [] : undefined,
+    blanks: type === 'fill-blank'
+      ? Array.from({ length: countBlanks(question.question) }, (_, i) => question.blanks?.[i] || [''])
+      : undefined,
+    pairs: type === 'matching' ? question.pairs || [{ left: '', right: '' }, { left: '', right: '' }] : undefined,
+    modelAnswer: type === 'short-answer' ? question.modelAnswer || '' : undefined,
+    explanation: question.explanation,
+    sourceExcerpt: question.sourceExcerpt,
+    source: question.source,
+    topic: question.topic,
+    difficulty: question.difficulty,
+  };
+}
+
+/**
+ * Whether a question has everything its type needs to be asked and scored
+ */
+export function isQuestionValid(question: QuizQuestion): boolean {
+  if (!question.question.trim()) return false;
+  const filled = (items: string[]) => items.length >= 2 && items.every((item) => item.trim());
+
+  switch (getQuestionType(question)) {
+    case 'multiple-choice':
+      return filled(question.options) && question.correct >= 0 && question.correct < question.options.length;
+    case 'true-false':
+      return question.correct === 0 || question.correct === 1;
+    case 'multi-select':
+      return (
+        filled(question.options) &&
+        (question.correctAnswers || []).length > 0 &&
+        (question.correctAnswers || []).every((index) => index >= 0 && index < question.options.length)
+      );
+    case 'fill-blank': {
+      const blanks = question.blanks || [];
+      return (
+        countBlanks(question.question) > 0 &&
+        blanks.length === countBlanks(question.question) &&
+        blanks.every((accepted) => accepted.some((answer) => answer.trim()))
+      );
+    }
+    case 'ordering':
+      return filled(question.options);
+    case 'matching': {
+      const pairs = question.pairs || [];
+      return pairs.length >= 2 && pairs.every((pair) => pair.left.trim() && pair.right.trim());
+    }
+    case 'short-answer':
+      return !!question.modelAnswer?.trim();
+  }
+}
+
+/**
+ * An empty answer for a question. Ordering starts from a shuffled order,
+ * matching from no pairs chosen.
+ */
+export function createEmptyAnswer(question: QuizQuestion): QuizAnswer {
+  switch (getQuestionType(question)) {
+    case 'multi-select':
+      return { choices: [] };
+    case 'fill-blank':
+      return { blanks: Array(countBlanks(question.question)).fill('') };
+    case 'ordering':
+      return { order: shuffleIndices(question.options.length) };
+    case 'matching':
+      return { matches: Array((question.pairs || []).length).fill(-1) };
+    case 'short-answer':
+      return { text: '' };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Whether the student has answered enough to check the answer
+ */
+export function isAnswerComplete(question: QuizQuestion, answer: QuizAnswer): boolean {
+  switch (getQuestionType(question)) {
+    case 'multiple-choice':
+    case 'true-false':
+      return answer.choice !== undefined;
+    case 'multi-select':
+      return (answer.choices || []).length > 0;
+    case 'fill-blank':
+      return (answer.blanks || []).some((blank) => blank.trim());
+    case 'ordering':
+      return (answer.order || []).length === question.options.length;
+    case 'matching':
+      return (answer.matches || []).some((match) => match >= 0);
+    case 'short-answer':
+      return !!answer.text?.trim();
+  }
+}
+
+/**
+ * Score an answer from 0 (wrong) to 1 (fully right). Multi-select, fill-in-the-blank,
+ * ordering and matching give partial credit. Short answers need AI grading and
+ * return null here.
+ */
+export function scoreAnswer(question: QuizQuestion, answer: QuizAnswer): number | null {
+  const fraction = (right: number, total: number) => (total > 0 ? right / total : 0);
+
+  switch (getQuestionType(question)) {
+    case 'multiple-choice':
+    case 'true-false':
+      return answer.choice === question.correct ? 1 : 0;
+    case 'multi-select': {
+      // Every wrong choice cancels out a right one, so selecting everything scores 0
+      const correctAnswers = question.correctAnswers || [];
+      const chosen = answer.choices || [];
+      const right = chosen.filter((index) => correctAnswers.includes(index)).length;
+      const wrong = chosen.length - right;
+      return Math.max(0, fraction(right - wrong, correctAnswers.length));
+    }
+    case 'fill-blank': {
+      const blanks = question.blanks || [];
+      const right = blanks.filter((accepted, index) =>
+        accepted.some((expected) => isTypedAnswerCorrect(answer.blanks?.[index] || '', expected))
+      ).length;
+      return fraction(right, blanks.length);
+    }
+    case 'ordering': {
+      const order = answer.order || [];
+      return fraction(order.filter((optionIndex, position) => optionIndex === position).length, question.options.length);
+    }
+    case 'matching': {
+      const pairs = question.pairs || [];
+      return fraction((answer.matches || []).filter((match, index) => match === index).length, pairs.length);
+    }
+    case 'short-answer':
+      return null;
+  }
+}
+
+/**
+ * The right answer as text, shown after a question is checked
+ */
+export function formatCorrectAnswer(question: QuizQuestion): string {
+  switch (getQuestionType(question)) {
+    case 'multiple-choice':
+    case 'true-false':
+      return question.options[question.correct] || '';
+    case 'multi-select':
+      return (question.correctAnswers || []).map((index) => question.options[index]).join(', ');
+    case 'fill-blank':
+      return (question.blanks || []).map((accepted) => accepted[0]).join(', ');
+    case 'ordering':
+      return question.options.join(' → ');
+    case 'matching':
+      return (question.pairs || []).map((pair) => `${pair.left} → ${pair.right}`).join('; ');
+    case 'short-answer':
+      return question.modelAnswer || '';
+  }
+}
+
+/**
+ * Front and back of a basic flashcard that asks the same as a question
+ */
+export function questionToFlashcard(question: QuizQuestion): { front: string; back: string } {
+  const type = getQuestionType(question);
+  const front = type === 'true-false' ? `True or false: ${question.question}` : question.question;
+  const answer = formatCorrectAnswer(question);
+
+  return {
+    front,
+    back: question.explanation ? `${answer}\n\n${question.explanation}` : answer,
+  };
+}
+
+/**
+ * Indexes 0..count-1 in random order, never in their original order when count > 1
+ */
+export function shuffleIndices(count: number): number[] {
+  const indices = Array.from({ length: count }, (_, index) => index);
+  if (count < 2) return indices;
+
+  do {
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+  } while (indices.every((value, index) => value === index));
+
+  return indices;
+}
+
+export const quizQuestionService = {
+  getQuestionType,
+  splitBlanks,
+  countBlanks,
+  normalizeQuestion,
+  convertQuestion,
+  isQuestionValid,
+  createEmptyAnswer,
+  isAnswerComplete,
+  scoreAnswer,
+  formatCorrectAnswer,
+  questionToFlashcard,
+  shuffleIndices,
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CHUNK_OVERLAP_WORDS, CHUNK_WORDS, chunkNoteContent, extractCitations } from './ragService';
+import type { RetrievedChunk } from './ragService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const words = (prefix: string, count: number) => Array.from({ length: count }, (_, index) => `${prefix}${index}`).join(' ');
+
+function chunk(noteId: string, chunkIndex: number, content: string): RetrievedChunk {
+  return {
+    id: `${noteId}-${chunkIndex}`,
+    noteId,
+    noteTitle: `Note ${noteId}`,
+    chunkIndex,
+    source: 'Note',
+    content,
+    startOffset: chunkIndex * 100,
+    endOffset: chunkIndex * 100 + content.length,
+    similarity: 0.8,
+  };
+}
+
+describe('chunkNoteContent', () => {
+  it('cuts content into overlapping chunks that point back to where they came from', () => {
+    const content = `${words('n', 500)}\n`;
+    const chunks = chunkNoteContent('note', content);
+    const step = CHUNK_WORDS - CHUNK_OVERLAP_WORDS;
+
+    expect(chunks.map((c) => [c.chunkIndex, c.content.split(' ')[0], c.content.split(' ').length])).toEqual([
+      [0, 'n0', CHUNK_WORDS],
+      [1, `n${step}`, CHUNK_WORDS],
+      [2, `n${2 * step}`, 500 - 2 * step],
+    ]);
+    chunks.forEach((c) => {
+      expect(c).toMatchObject({ noteId: 'note', source: 'Note' });
+      expect(content.slice(c.startOffset, c.endOffset)).toBe(c.content);
+    });
+  });
+
+  it('keeps the note and each document in chunks of their own', () => {
+    const content = `Cells make   ATP.\n\n--- Document: Lecture 1.pdf ---\nMitochondria\nare the powerhouse.\n`;
+    const chunks = chunkNoteContent('note', content);
+
+    expect(chunks.map((c) => [c.source, c.content])).toEqual([
+      ['Note', 'Cells make   ATP.'],
+      ['Document: Lecture 1.pdf', 'Mitochondria\nare the powerhouse.'],
+    ]);
+    expect(content.slice(chunks[1].startOffset, chunks[1].endOffset)).toBe(chunks[1].content);
+  });
+
+  it('has no chunks for empty content', () => {
+    expect(chunkNoteContent('note', ' \n ')).toEqual([]);
+  });
+});
+
+describe('extractCitations', () => {
+  const chunks = [chunk('a', 0, 'Cells make ATP.'), chunk('b', 3, 'x'.repeat(250))];
+
+  it('cites each numbered source once, in order of its number', () => {
+    const citations = extractCitations('ATP comes from cells [2][1]. See also [1, 2] and [3].', chunks);
+
+    expect(citations.map((c) => [c.index, c.noteId, c.chunkIndex])).toEqual([
+      [1, 'a', 0],
+      [2, 'b', 3],
+    ]);
+    expect(citations[0]).toMatchObject({ noteTitle: 'Note a', source: 'Note', excerpt: 'Cells make ATP.', startOffset: 0, endOffset: 15 });
+  });
+
+  it('shortens long excerpts', () => {
+    expect(extractCitations('[2]', chunks)[0].excerpt).toBe(`${'x'.repeat(200)}…`);
+  });
+
+  it('ignores answers without citations', () => {
+    expect(extractCitations('No sources [0] or [a].', chunks)).toEqual([]);
+  });
+});
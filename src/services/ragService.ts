@@ -0,0 +1,270 @@
+/**
+ * RAG Service
+ * Retrieval for chat across a user's notes. Note content, including the text extracted from
+ * uploaded documents, is cut into overlapping chunks that are embedded and stored in
+ * note_chunks. A question is embedded too, and the closest chunks within the chosen scope
+ * (one note, a folder or the whole library) become the numbered sources the answer cites.
+ */
+
+import { supabase } from './supabase';
+import { aiGateway } from './aiGateway';
+import { getFolderTreeIds } from './examPlannerService';
+import { generateFileHash } from '../utils/hashUtils';
+import { splitNoteSections } from './sourceService';
+import type { Folder } from '../types';
+
+export const CHUNK_WORDS = 220;
+export const CHUNK_OVERLAP_WORDS = 40;
+export const RETRIEVAL_TOP_K = 6;
+const EMBEDDING_BATCH_SIZE = 64;
+
+export type ChatScope = 'note' | 'folder' | 'library';
+
+export interface NoteChunk {
+  noteId: string;
+  chunkIndex: number;
+  source: string; // 'Note' or 'Document: <name>'
+  content: string;
+  startOffset: number; // Position in the note content
+  endOffset: number;
+}
+
+export interface RetrievedChunk extends NoteChunk {
+  id: string;
+  noteTitle: string;
+  similarity: number;
+}
+
+/**
+ * A source an answer used, numbered as it is cited in the answer ([1], [2], ...)
+ */
+export interface Citation {
+  index: number;
+  noteId: string;
+  noteTitle: string;
+  chunkIndex: number;
+  source: string;
+  excerpt: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+interface ScopeNote {
+  id: string;
+  title: string;
+  content: string;
+}
+
+interface MatchRow {
+  id: string;
+  note_id: string;
+  chunk_index: number;
+  source: string;
+  content: string;
+  start_offset: number;
+  end_offset: number;
+  similarity: number;
+}
+
+/**
+ * Cut note content into chunks of CHUNK_WORDS words that overlap by CHUNK_OVERLAP_WORDS.
+ * Chunks never span two sections, so each one belongs to a single source.
+ */
+export function chunkNoteContent(noteId: string, content: string): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  const step = CHUNK_WORDS - CHUNK_OVERLAP_WORDS;
+
+  splitNoteSections(content).forEach((section) => {
+    const words = Array.from(content.slice(section.start, section.end).matchAll(/\S+/g));
+
+    for (let first = 0; first < words.length; first += step) {
+      const last = Math.min(first + CHUNK_WORDS, words.length) - 1;
+      const startOffset = section.start + (words[first].index ?? 0);
+      const endOffset = section.start + (words[last].index ?? 0) + words[last][0].length;
+
+      chunks.push({
+        noteId,
+        chunkIndex: chunks.length,
+        source: section.source,
+        content: content.slice(startOffset, endOffset),
+        startOffset,
+        endOffset,
+      });
+
+      if (last === words.length - 1) break;
+    }
+  });
+
+  return chunks;
+}
+
+async function hashContent(content: string): Promise<string> {
+  return generateFileHash(new Blob([content]));
+}
+
+async function embedAll(texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(...(await aiGateway.createEmbeddings(texts.slice(i, i + EMBEDDING_BATCH_SIZE))));
+  }
+  return embeddings;
+}
+
+/**
+ * Notes of a scope with their content: the note, its folder and subfolders, or all notes
+ */
+export async function getScopeNotes(
+  userId: string,
+  scope: ChatScope,
+  options: { noteId?: string | null; folderId?: string | null; folders?: Folder[] }
+): Promise<ScopeNote[]> {
+  let query = supabase.from('notes').select('id, title, content').eq('user_id', userId);
+
+  if (scope === 'note') {
+    if (!options.noteId) return [];
+    query = query.eq('id', options.noteId);
+  } else if (scope === 'folder') {
+    if (options.folderId) {
+      query = query.in('folder_id', getFolderTreeIds(options.folderId, options.folders || []));
+    } else {
+      query = query.is('folder_id', null);
+    }
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map((note) => ({ id: note.id, title: note.title || 'Untitled', content: note.content || '' }));
+}
+
+/**
+ * Embed the notes whose content changed since they were last indexed. Returns how many
+ * notes were (re)indexed.
+ */
+export async function ensureIndexed(userId: string, notes: ScopeNote[]): Promise<number> {
+  if (notes.length === 0) return 0;
+
+  const { data: indexed, error } = await supabase
+    .from('note_chunks')
+    .select('note_id, content_hash')
+    .eq('user_id', userId)
+    .eq('chunk_index', 0)
+    .in('note_id', notes.map((note) => note.id));
+
+  if (error) throw error;
+
+  const indexedHashes = new Map((indexed || []).map((row) => [row.note_id as string, row.content_hash as string]));
+  let count = 0;
+
+  for (const note of notes) {
+    const contentHash = await hashContent(note.content);
+    const chunks = chunkNoteContent(note.id, note.content);
+    if (indexedHashes.get(note.id) === contentHash || (chunks.length === 0 && !indexedHashes.has(note.id))) {
+      continue;
+    }
+
+    const { error: deleteError } = await supabase.from('note_chunks').delete().eq('note_id', note.id);
+    if (deleteError) throw deleteError;
+
+    if (chunks.length > 0) {
+      const embeddings = await embedAll(chunks.map((chunk) => chunk.content));
+      const { error: insertError } = await supabase.from('note_chunks').insert(
+        chunks.map((chunk, index) => ({
+          user_id: userId,
+          note_id: note.id,
+          chunk_index: chunk.chunkIndex,
+          source: chunk.source,
+          content: chunk.content,
+          start_offset: chunk.startOffset,
+          end_offset: chunk.endOffset,
+          content_hash: contentHash,
+          embedding: embeddings[index],
+        }))
+      );
+      if (insertError) throw insertError;
+    }
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * The chunks of some notes that are closest to a question, most similar first
+ */
+export async function retrieveChunks(
+  question: string,
+  notes: ScopeNote[],
+  topK: number = RETRIEVAL_TOP_K
+): Promise<RetrievedChunk[]> {
+  if (notes.length === 0) return [];
+
+  const [embedding] = await aiGateway.createEmbeddings([question]);
+  if (!embedding) return [];
+
+  const { data, error } = await supabase.rpc('match_note_chunks', {
+    query_embedding: embedding,
+    match_count: topK,
+    filter_note_ids: notes.map((note) => note.id),
+  });
+
+  if (error) throw error;
+
+  const titles = new Map(notes.map((note) => [note.id, note.title]));
+  return ((data || []) as MatchRow[]).map((row) => ({
+    id: row.id,
+    noteId: row.note_id,
+    noteTitle: titles.get(row.note_id) || 'Untitled',
+    chunkIndex: row.chunk_index,
+    source: row.source,
+    content: row.content,
+    startOffset: row.start_offset,
+    endOffset: row.end_offset,
+    similarity: row.similarity,
+  }));
+}
+
+/**
+ * Numbered source list for the prompt; source n is cited as [n]
+ */
+export function buildSourcesContext(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map((chunk, index) => `[${index + 1}] ${chunk.noteTitle} (${chunk.source})\n${chunk.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Citations for the sources an answer refers to with [n], in order of their number
+ */
+export function extractCitations(answer: string, chunks: RetrievedChunk[]): Citation[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach((n) => cited.add(Number(n.trim())));
+  }
+
+  return Array.from(cited)
+    .filter((n) => n >= 1 && n <= chunks.length)
+    .sort((a, b) => a - b)
+    .map((n) => {
+      const chunk = chunks[n - 1];
+      return {
+        index: n,
+        noteId: chunk.noteId,
+        noteTitle: chunk.noteTitle,
+        chunkIndex: chunk.chunkIndex,
+        source: chunk.source,
+        excerpt: chunk.content.length > 200 ? `${chunk.content.slice(0, 200)}…` : chunk.content,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+      };
+    });
+}
+
+export const ragService = {
+  chunkNoteContent,
+  getScopeNotes,
+  ensureIndexed,
+  retrieveChunks,
+  buildSourcesContext,
+  extractCitations,
+};
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getReviewLog, logReview, undoLastReview } from './reviewLogService';
+import type { SpacedRepetitionCard } from './spacedRepetitionService';
+
+const { from } = vi.hoisted(() => ({ from: vi.fn() }));
+
+vi.mock('./supabase', () => ({ supabase: { from } }));
+
+type QueryCall = [string, ...unknown[]];
+
+const QUERY_METHODS = ['select', 'insert', 'delete', 'eq', 'is', 'gte', 'order', 'range', 'limit', 'single', 'maybeSingle'];
+
+/**
+ * Query builder that records its calls and resolves to `result` when awaited
+ */
+function mockQuery(result: { data: unknown; error: unknown }): QueryCall[] {
+  const calls: QueryCall[] = [];
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve(result).then(resolve, reject),
+  };
+  QUERY_METHODS.forEach((method) => {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    };
+  });
+  from.mockReturnValueOnce(builder);
+  return calls;
+}
+
+function card(overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return {
+    id: 'card-1',
+    front: 'Front',
+    back: 'Back',
+    noteId: 'note-1',
+    easeFactor: 2.5,
+    interval: 6,
+    repetitions: 2,
+    nextReviewDate: '2026-03-10T12:00:00.000Z',
+    lastReviewed: '2026-03-04T12:00:00.000Z',
+    intervalType: 'days',
+    ...overrides,
+  };
+}
+
+function row(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    user_id: 'user-1',
+    note_id: 'note-1',
+    card_id: 'card-1',
+    reviewed_at: '2026-03-10T12:00:00.000Z',
+    rating: 4,
+    duration_ms: 3200,
+    elapsed_days: '6.0000',
+    previous_interval: 6,
+    previous_interval_type: 'days',
+    new_interval: 15,
+    new_interval_type: 'days',
+    scheduler: 'sm2',
+    previous_state: { interval: 6, repetitions: 2 },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  from.mockReset();
+});
+
+describe('logReview', () => {
+  it('records the rating, both intervals and the full schedule from before the review', async () => {
+    const calls = mockQuery({ data: row('review-1'), error: null });
+    const before = card();
+    const after = card({ interval: 15, repetitions: 3, lastReviewed: '2026-03-10T12:00:00.000Z', scheduler: 'sm2' });
+
+    const entry = await logReview('user-1', before, after, 4, 3200.4);
+
+    expect(from).toHaveBeenCalledWith('flashcard_reviews');
+    const [, inserted] = calls.find(([method]) => method === 'insert')!;
+    expect(inserted).toMatchObject({
+      user_id: 'user-1',
+      note_id: 'note-1',
+      card_id: 'card-1',
+      reviewed_at: '2026-03-10T12:00:00.000Z',
+      rating: 4,
+      duration_ms: 3200,
+      elapsed_days: 6,
+      previous_interval: 6,
+      new_interval: 15,
+      scheduler: 'sm2',
+      previous_state: { interval: 6, repetitions: 2, lastReviewed: '2026-03-04T12:00:00.000Z' },
+    });
+    expect(inserted).not.toHaveProperty('previous_state.front');
+    expect(entry).toMatchObject({ id: 'review-1', elapsedDays: 6, reviewedAt: new Date('2026-03-10T12:00:00.000Z') });
+  });
+
+  it('has no elapsed days for the first review of a card', async () => {
+    const calls = mockQuery({ data: row('review-1', { elapsed_days: null }), error: null });
+    const before = card({ lastReviewed: undefined, noteId: undefined, repetitions: 0, interval: 0 });
+
+    const entry = await logReview('user-1', before, card(), 4);
+
+    const [, inserted] = calls.find(([method]) => method === 'insert')!;
+    expect(inserted).toMatchObject({ note_id: null, elapsed_days: null, duration_ms: null });
+    expect(entry.elapsedDays).toBeNull();
+  });
+
+  it('throws the database error', async () => {
+    const error = new Error('insert failed');
+    mockQuery({ data: null, error });
+    await expect(logReview('user-1', card(), card(), 4)).rejects.toBe(error);
+  });
+});
+
+describe('getReviewLog', () => {
+  it('reads the log in pages of 1000 rows until a page is not full', async () => {
+    const firstPage = mockQuery({ data: Array.from({ length: 1000 }, (_, index) => row(`review-${index}`)), error: null });
+    const secondPage = mockQuery({ data: [row('review-1000')], error: null });
+
+    const entries = await getReviewLog('user-1');
+
+    expect(entries).toHaveLength(1001);
+    expect(entries[1000].id).toBe('review-1000');
+    expect(firstPage).toContainEqual(['range', 0, 999]);
+    expect(secondPage).toContainEqual(['range', 1000, 1999]);
+    expect(from).toHaveBeenCalledTimes(2);
+  });
+
+  it('orders newest first with a stable tie-break and limits the log to recent days', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-06-20T12:00:00.000Z'));
+    const calls = mockQuery({ data: [], error: null });
+
+    await expect(getReviewLog('user-1', 7)).resolves.toEqual([]);
+    vi.useRealTimers();
+
+    expect(calls).toContainEqual(['eq', 'user_id', 'user-1']);
+    expect(calls).toContainEqual(['gte', 'reviewed_at', '2026-06-13T12:00:00.000Z']);
+    expect(calls).toContainEqual(['order', 'reviewed_at', { ascending: false }]);
+    expect(calls).toContainEqual(['order', 'id', { ascending: true }]);
+  });
+});
+
+describe('undoLastReview', () => {
+  it('deletes the latest review and restores the schedule from before it', async () => {
+    const latest = mockQuery({
+      data: row('review-2', { previous_state: { noteId: 'note-1', interval: 6, repetitions: 2, easeFactor: 2.5 } }),
+      error: null,
+    });
+    const deleted = mockQuery({ data: null, error: null });
+
+    const restored = await undoLastReview('user-1', card({ interval: 15, repetitions: 3 }));
+
+    expect(restored).toEqual({ id: 'card-1', front: 'Front', back: 'Back', noteId: 'note-1', interval: 6, repetitions: 2, easeFactor: 2.5 });
+    expect(latest).toContainEqual(['eq', 'note_id', 'note-1']);
+    expect(latest).toContainEqual(['order', 'reviewed_at', { ascending: false }]);
+    expect(deleted).toEqual([['delete'], ['eq', 'id', 'review-2']]);
+  });
+
+  it('returns null without deleting anything when the card has no reviews', async () => {
+    const latest = mockQuery({ data: null, error: null });
+
+    await expect(undoLastReview('user-1', card({ noteId: undefined }))).resolves.toBeNull();
+    expect(latest).toContainEqual(['is', 'note_id', null]);
+    expect(from).toHaveBeenCalledTimes(1);
+  });
+});
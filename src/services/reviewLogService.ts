@@ -0,0 +1,212 @@
+import { supabase } from './supabase';
+import type {
+  Quality,
+  SchedulerName,
+  SchedulingState,
+  SpacedRepetitionCard,
+} from './spacedRepetitionService';
+import { getSchedulingState } from './spacedRepetitionService';
+
+export interface ReviewLogEntry {
+  id: string;
+  userId: string;
+  noteId: string | null;
+  cardId: string;
+  reviewedAt: Date;
+  rating: Quality;
+  durationMs: number | null;
+  elapsedDays: number | null;
+  previousInterval: number;
+  previousIntervalType: 'minutes' | 'days';
+  newInterval: number;
+  newIntervalType: 'minutes' | 'days';
+  scheduler: SchedulerName | null;
+  previousState: SchedulingState;
+}
+
+interface ReviewLogRow {
+  id: string;
+  user_id: string;
+  note_id: string | null;
+  card_id: string;
+  reviewed_at: string;
+  rating: number;
+  duration_ms: number | null;
+  elapsed_days: number | string | null;
+  previous_interval: number;
+  previous_interval_type: 'minutes' | 'days';
+  new_interval: number;
+  new_interval_type: 'minutes' | 'days';
+  scheduler: SchedulerName | null;
+  previous_state: SchedulingState;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mapReviewRow(row: ReviewLogRow): ReviewLogEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    noteId: row.note_id,
+    cardId: row.card_id,
+    reviewedAt: new Date(row.reviewed_at),
+    rating: row.rating as Quality,
+    durationMs: row.duration_ms,
+    elapsedDays: row.elapsed_days !== null ? Number(row.elapsed_days) : null,
+    previousInterval: row.previous_interval,
+    previousIntervalType: row.previous_interval_type,
+    newInterval: row.new_interval,
+    newIntervalType: row.new_interval_type,
+    scheduler: row.scheduler,
+    previousState: row.previous_state,
+  };
+}
+
+/**
+ * Record a grading of a flashcard
+ * `before` is the card as it was shown, `after` the card with its new schedule.
+ */
+export async function logReview(
+  userId: string,
+  before: SpacedRepetitionCard,
+  after: SpacedRepetitionCard,
+  rating: Quality,
+  durationMs?: number
+): Promise<ReviewLogEntry> {
+  const reviewedAt = after.lastReviewed ? new Date(after.lastReviewed) : new Date();
+  const elapsedDays = before.lastReviewed
+    ? (reviewedAt.getTime() - new Date(before.lastReviewed).getTime()) / DAY_MS
+    : null;
+
+  const { data, error } = await supabase
+    .from('flashcard_reviews')
+    .insert({
+      user_id: userId,
+      note_id: before.noteId || null,
+      card_id: before.id,
+      reviewed_at: reviewedAt.toISOString(),
+      rating,
+      duration_ms: durationMs !== undefined ? Math.round(durationMs) : null,
+      elapsed_days: elapsedDays !== null ? Math.round(elapsedDays * 10000) / 10000 : null,
+      previous_interval: before.interval,
+      previous_interval_type: before.intervalType || 'days',
+      new_interval: after.interval,
+      new_interval_type: after.intervalType || 'days',
+      scheduler: after.scheduler || null,
+      // Keep the full schedule so undo can restore it exactly
+      previous_state: getSchedulingState(before),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return mapReviewRow(data);
+}
+
+// Supabase returns at most 1000 rows per request, so longer logs are read in pages
+const REVIEW_LOG_PAGE_SIZE = 1000;
+
+/**
+ * Get the review log of a user, newest first
+ */
+export async function getReviewLog(userId: string, days?: number): Promise<ReviewLogEntry[]> {
+  let startDate: Date | undefined;
+  if (days !== undefined) {
+    startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+  }
+
+  const rows: ReviewLogRow[] = [];
+  for (let from = 0; ; from += REVIEW_LOG_PAGE_SIZE) {
+    let query = supabase
+      .from('flashcard_reviews')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (startDate) {
+      query = query.gte('reviewed_at', startDate.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('reviewed_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + REVIEW_LOG_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as ReviewLogRow[]));
+    if (!data || data.length < REVIEW_LOG_PAGE_SIZE) break;
+  }
+
+  return rows.map(mapReviewRow);
+}
+
+/**
+ * Get all reviews of a single card, oldest first
+ */
+export async function getCardReviews(
+  userId: string,
+  cardId: string,
+  noteId?: string
+): Promise<ReviewLogEntry[]> {
+  let query = supabase
+    .from('flashcard_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('card_id', cardId);
+
+  query = noteId ? query.eq('note_id', noteId) : query.is('note_id', null);
+
+  const { data, error } = await query.order('reviewed_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapReviewRow);
+}
+
+/**
+ * Undo the most recent review of a card
+ * Deletes the log entry and returns the card with its schedule from before that review,
+ * or null if the card has no logged reviews.
+ */
+export async function undoLastReview(
+  userId: string,
+  card: SpacedRepetitionCard
+): Promise<SpacedRepetitionCard | null> {
+  let query = supabase
+    .from('flashcard_reviews')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('card_id', card.id);
+
+  query = card.noteId ? query.eq('note_id', card.noteId) : query.is('note_id', null);
+
+  const { data, error } = await query
+    .order('reviewed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const entry = mapReviewRow(data);
+
+  const { error: deleteError } = await supabase
+    .from('flashcard_reviews')
+    .delete()
+    .eq('id', entry.id);
+
+  if (deleteError) throw deleteError;
+
+  return {
+    id: card.id,
+    front: card.front,
+    back: card.back,
+    ...entry.previousState,
+  };
+}
+
+export const reviewLogService = {
+  logReview,
+  getReviewLog,
+  getCardReviews,
+  undoLastReview,
+};
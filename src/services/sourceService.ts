@@ -0,0 +1,25 @@
+/**
+ * Source Service
+ * Links generated study material back to the note content it came from. The AI quotes a
+ * short passage word for word; the passage is then looked up in the note content, which
+ * also holds the text extracted from uploaded documents, to find its position, the document
+ * it belongs to and, for PDFs, the page. The lookup is shared with the study content worker
+ * (supabase/functions/_shared/noteContent.ts).
+ */
+
+import {
+  createExcerptLocator,
+  getSectionDocumentName,
+  locateExcerpt,
+  splitNoteSections,
+} from '../../supabase/functions/_shared/noteContent.ts';
+
+export { createExcerptLocator, getSectionDocumentName, locateExcerpt, splitNoteSections };
+export type { NoteSection } from '../../supabase/functions/_shared/noteContent.ts';
+
+export const sourceService = {
+  splitNoteSections,
+  getSectionDocumentName,
+  createExcerptLocator,
+  locateExcerpt,
+};
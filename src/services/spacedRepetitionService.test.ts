@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addInterval,
+  calculateNextReview,
+  compressToExamDate,
+  reviewCard,
+  sm2Scheduler,
+} from './spacedRepetitionService';
+import type { SchedulingState, SpacedRepetitionCard } from './spacedRepetitionService';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const options = { now: NOW, desiredRetention: 0.9 };
+
+function card(overrides: Partial<SpacedRepetitionCard> = {}): SpacedRepetitionCard {
+  return {
+    id: 'card-1',
+    front: 'Front',
+    back: 'Back',
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    nextReviewDate: NOW.toISOString(),
+    intervalType: 'days',
+    ...overrides,
+  };
+}
+
+describe('sm2Scheduler', () => {
+  it('follows the 1 day, 6 days, interval * ease factor progression', () => {
+    let state: SchedulingState = card();
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const result = sm2Scheduler.schedule(state, 4, options);
+      intervals.push(result.interval);
+      state = { ...state, ...result };
+    }
+    expect(intervals).toEqual([1, 6, 15, 38]);
+    expect(state.repetitions).toBe(4);
+    expect(state.easeFactor).toBe(2.5);
+  });
+
+  it('adjusts the ease factor by the quality of the answer', () => {
+    expect(sm2Scheduler.schedule(card(), 5, options).easeFactor).toBe(2.6);
+    expect(sm2Scheduler.schedule(card(), 3, options).easeFactor).toBe(2.36);
+    expect(sm2Scheduler.schedule(card(), 1, options).easeFactor).toBe(2.3);
+    expect(sm2Scheduler.schedule(card({ easeFactor: 1.35 }), 0, options).easeFactor).toBe(1.3);
+  });
+
+  it('relearns a wrong answer in minutes and restarts the repetitions', () => {
+    const reviewed = card({ interval: 15, repetitions: 3 });
+    expect(sm2Scheduler.schedule(reviewed, 0, options)).toMatchObject({ interval: 5, intervalType: 'minutes', repetitions: 0 });
+    expect(sm2Scheduler.schedule(reviewed, 2, options)).toMatchObject({ interval: 10, intervalType: 'minutes', repetitions: 0 });
+  });
+
+  it('does not grow a day interval from a relearning step in minutes', () => {
+    const relearning = card({ interval: 10, intervalType: 'minutes', repetitions: 2 });
+    expect(sm2Scheduler.schedule(relearning, 4, options)).toMatchObject({ interval: 1, intervalType: 'days' });
+  });
+
+  it('schedules the next review from now', () => {
+    const result = sm2Scheduler.schedule(card({ repetitions: 1, interval: 1 }), 4, options);
+    expect(result.nextReviewDate).toBe(addInterval(NOW, 6, 'days').toISOString());
+  });
+
+  it('clears the FSRS memory state', () => {
+    const result = sm2Scheduler.schedule(card({ stability: 12, difficulty: 4, scheduler: 'fsrs' }), 4, options);
+    expect(result).toMatchObject({ stability: undefined, difficulty: undefined, scheduler: 'sm2' });
+  });
+});
+
+describe('calculateNextReview', () => {
+  it('uses SM-2 unless another scheduler is chosen', () => {
+    expect(calculateNextReview(card(), 4, { now: NOW }).scheduler).toBe('sm2');
+    expect(calculateNextReview(card(), 4, { now: NOW, scheduler: 'fsrs' }).scheduler).toBe('fsrs');
+  });
+});
+
+describe('reviewCard', () => {
+  it('counts lapses and suspends a card that becomes a leech', () => {
+    const reviewed = reviewCard(card({ repetitions: 3, interval: 20, lapses: 7 }), 0, { now: NOW });
+    expect(reviewed).toMatchObject({ lapses: 8, leech: true, suspended: true, quality: 0, lastReviewed: NOW.toISOString() });
+  });
+
+  it('only tags a leech when the leech action is "tag"', () => {
+    const reviewed = reviewCard(card({ repetitions: 3, interval: 20, lapses: 7 }), 0, { now: NOW, leechAction: 'tag' });
+    expect(reviewed.leech).toBe(true);
+    expect(reviewed.suspended).toBeUndefined();
+  });
+
+  it('keeps new cards on the learning steps until they graduate', () => {
+    const steps = [1, 10];
+    const first = reviewCard(card(), 4, { now: NOW, learningSteps: steps });
+    expect(first).toMatchObject({ interval: 10, intervalType: 'minutes', learningStep: 1, repetitions: 0 });
+
+    const graduated = reviewCard(first, 4, { now: NOW, learningSteps: steps });
+    expect(graduated).toMatchObject({ interval: 1, intervalType: 'days', learningStep: undefined });
+  });
+});
+
+describe('compressToExamDate', () => {
+  it('brings a review back to the day before the exam', () => {
+    const result = sm2Scheduler.schedule(card({ repetitions: 3, interval: 20 }), 4, options);
+    const compressed = compressToExamDate(result, new Date('2026-03-15T09:00:00Z'), NOW);
+    expect(compressed.interval).toBe(4);
+  });
+
+  it('leaves reviews before the exam and relearning steps alone', () => {
+    const result = sm2Scheduler.schedule(card(), 4, options);
+    expect(compressToExamDate(result, new Date('2026-03-20T09:00:00Z'), NOW)).toBe(result);
+
+    const lapse = sm2Scheduler.schedule(card({ repetitions: 3, interval: 20 }), 0, options);
+    expect(compressToExamDate(lapse, new Date('2026-03-12T09:00:00Z'), NOW)).toBe(lapse);
+  });
+});
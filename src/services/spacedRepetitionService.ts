@@ -1,17 +1,29 @@
 /**
  * Spaced Repetition Service
- * Implements the SM-2 algorithm for optimal flashcard review scheduling
- * Based on SuperMemo 2 algorithm by Piotr Wozniak
+ * Schedules flashcard reviews through a pluggable scheduler. Two schedulers are available:
+ * - SM-2 (SuperMemo 2 algorithm by Piotr Wozniak)
+ * - FSRS (Free Spaced Repetition Scheduler, see fsrsScheduler.ts)
  */
 
+import type { CardType, SourceSpan } from '../types';
+import { fsrsScheduler } from './fsrsScheduler';
+
 export type Quality = 0 | 1 | 2 | 3 | 4 | 5;
 
+export type SchedulerName = 'sm2' | 'fsrs';
+
 export interface SpacedRepetitionCard {
   id: string;
   front: string;
   back: string;
   noteId?: string; // Track which note this card belongs to
   folderId?: string; // Track which folder this card belongs to
+  // Card type fields (see cardTypeService.ts)
+  cardType?: CardType; // Defaults to 'basic'
+  groupId?: string; // Shared by sibling cards made from the same source (reverse / cloze)
+  reversed?: boolean; // Reverse sibling of a 'reverse' card: asks back -> front
+  clozeIndex?: number; // Cloze deletion (c1, c2, ...) this card asks for
+  source?: SourceSpan; // Passage of the note the card is based on
   // Spaced repetition fields
   easeFactor: number; // Starts at 2.5, adjusts based on performance
   interval: number; // Days until next review (or minutes for wrong answers)
@@ -20,101 +32,284 @@ export interface SpacedRepetitionCard {
   lastReviewed?: string; // ISO datetime string
   quality?: Quality; // Last quality rating (0-5)
   intervalType?: 'minutes' | 'days'; // Type of interval (minutes for wrong, days for correct)
+  learningStep?: number; // Current learning step while a new or lapsed card is being learned
+  // FSRS fields (filled in the first time the card is reviewed with FSRS)
+  stability?: number; // Days until recall probability drops to 90%
+  difficulty?: number; // 1 (easiest) to 10 (hardest)
+  scheduler?: SchedulerName; // Scheduler that produced the current interval
+  // Leech fields
+  lapses?: number; // Times the card was forgotten after it had been learned
+  leech?: boolean; // Tagged as a leech after reaching the leech threshold
+  suspended?: boolean; // Suspended cards are left out of reviews
 }
 
 /**
- * SM-2 Algorithm: Calculate next interval and ease factor based on quality
- * Quality scale:
- * 0: Complete blackout (forgot completely) - review in 5 minutes
- * 1: Wrong but remembered some - review in 15 minutes
- * 2: Hard (correct but difficult) - review in 1 hour
- * 3: Hard (correct but difficult) - review in 4 hours
- * 4: Good (correct response) - review in 1 day
- * 5: Easy (perfect response) - review in 4-6 days (based on ease factor)
+ * Scheduling state of a card, without its content
  */
-export function calculateNextReview(
-  card: Omit<SpacedRepetitionCard, 'front' | 'back' | 'id'>,
-  quality: Quality
-): { 
-  easeFactor: number; 
-  interval: number; 
-  repetitions: number; 
+export type SchedulingState = Omit<SpacedRepetitionCard, 'front' | 'back' | 'id'>;
+
+/**
+ * Result of grading a card with a scheduler
+ */
+export interface ReviewResult {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
   nextReviewDate: string;
   intervalType: 'minutes' | 'days';
-} {
-  let { easeFactor, interval, repetitions } = card;
-  let intervalType: 'minutes' | 'days' = 'days';
-
-  // Update ease factor based on quality (only for correct responses)
-  if (quality >= 3) {
-    // EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
-    easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
-    // Ensure ease factor doesn't drop below 1.3
-    easeFactor = Math.max(1.3, easeFactor);
+  stability?: number;
+  difficulty?: number;
+  scheduler: SchedulerName;
+}
+
+export interface SchedulerOptions {
+  now: Date;
+  desiredRetention: number; // Target probability of recall at review time (FSRS only)
+}
+
+export interface Scheduler {
+  name: SchedulerName;
+  schedule(card: SchedulingState, quality: Quality, options: SchedulerOptions): ReviewResult;
+}
+
+export type LeechAction = 'suspend' | 'tag';
+
+export interface ReviewOptions extends Partial<SchedulerOptions> {
+  scheduler?: SchedulerName;
+  leechThreshold?: number; // Lapses before a card becomes a leech
+  leechAction?: LeechAction;
+  learningSteps?: number[]; // Minutes; new and lapsed cards go through these before graduating
+  examDate?: Date; // Intervals are shortened so the card is seen again before the exam
+}
+
+export const DEFAULT_SCHEDULER: SchedulerName = 'sm2';
+export const DEFAULT_DESIRED_RETENTION = 0.9;
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const DEFAULT_LEECH_ACTION: LeechAction = 'suspend';
+
+/**
+ * Add minutes or days to a date without mutating it
+ */
+export function addInterval(date: Date, interval: number, intervalType: 'minutes' | 'days'): Date {
+  const result = new Date(date);
+  if (intervalType === 'minutes') {
+    result.setMinutes(result.getMinutes() + interval);
   } else {
-    // Wrong answers reduce ease factor more significantly
-    easeFactor = easeFactor - 0.2;
-    easeFactor = Math.max(1.3, easeFactor);
+    result.setDate(result.getDate() + interval);
   }
+  return result;
+}
 
-  const now = new Date();
-  let nextReviewDate = new Date();
-
-  if (quality === 0) {
-    // Completely wrong - review in 5 minutes
-    interval = 5;
-    intervalType = 'minutes';
-    nextReviewDate.setMinutes(now.getMinutes() + 5);
-    repetitions = 0;
-  } else if (quality === 1) {
-    // Wrong but remembered some - review in 15 minutes
-    interval = 15;
-    intervalType = 'minutes';
-    nextReviewDate.setMinutes(now.getMinutes() + 15);
-    repetitions = 0;
-  } else if (quality === 2) {
-    // Hard - review in 1 hour
-    interval = 60;
-    intervalType = 'minutes';
-    nextReviewDate.setHours(now.getHours() + 1);
-    repetitions = Math.max(0, repetitions - 1);
-  } else if (quality === 3) {
-    // Hard but correct - review in 4 hours
-    interval = 240; // 4 hours in minutes
-    intervalType = 'minutes';
-    nextReviewDate.setHours(now.getHours() + 4);
-    repetitions = repetitions > 0 ? repetitions : 1;
-  } else if (quality === 4) {
-    // Good - review in 1 day
-    interval = 1;
-    intervalType = 'days';
-    nextReviewDate.setDate(now.getDate() + 1);
-    repetitions = repetitions + 1;
-  } else {
-    // Easy (quality 5) - use exponential growth
-    if (repetitions === 0) {
-      interval = 1;
-    } else if (repetitions === 1) {
-      interval = 4;
-    } else if (repetitions === 2) {
-      interval = 7;
+/**
+ * SM-2 Algorithm
+ * Quality scale:
+ * 0: Complete blackout (forgot completely) - relearn in 5 minutes
+ * 1-2: Wrong or barely remembered - relearn in 10 minutes
+ * 3: Hard (correct but difficult)
+ * 4: Good (correct response)
+ * 5: Easy (perfect response)
+ *
+ * Correct answers (3-5) follow the classic 1 day -> 6 days -> interval * EF progression,
+ * with the ease factor deciding how fast the interval grows.
+ */
+export const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+
+  schedule(card, quality, { now }) {
+    let { easeFactor, repetitions } = card;
+    let interval: number;
+    let intervalType: 'minutes' | 'days';
+
+    if (quality >= 3) {
+      // EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+      easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
     } else {
-      interval = Math.round(interval * easeFactor);
+      // Wrong answers reduce ease factor more significantly
+      easeFactor = easeFactor - 0.2;
     }
-    intervalType = 'days';
-    nextReviewDate.setDate(now.getDate() + interval);
-    repetitions = repetitions + 1;
+    // Ensure ease factor doesn't drop below 1.3
+    easeFactor = Math.max(1.3, easeFactor);
+
+    if (quality < 3) {
+      // Lapse - relearn shortly and restart the repetition sequence
+      interval = quality === 0 ? 5 : 10;
+      intervalType = 'minutes';
+      repetitions = 0;
+    } else {
+      // Minute intervals are relearning steps, not part of the day-based progression
+      const previousDays = card.intervalType === 'minutes' ? 0 : card.interval;
+      if (repetitions === 0) {
+        interval = 1;
+      } else if (repetitions === 1) {
+        interval = 6;
+      } else {
+        interval = Math.max(previousDays + 1, Math.round(previousDays * easeFactor));
+      }
+      intervalType = 'days';
+      repetitions = repetitions + 1;
+    }
+
+    return {
+      easeFactor: Math.round(easeFactor * 100) / 100,
+      interval,
+      repetitions,
+      nextReviewDate: addInterval(now, interval, intervalType).toISOString(),
+      intervalType,
+      // Cleared so that FSRS derives a fresh memory state from this review if the
+      // card is scheduled with it again
+      stability: undefined,
+      difficulty: undefined,
+      scheduler: 'sm2',
+    };
+  },
+};
+
+const SCHEDULERS: Record<SchedulerName, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+/**
+ * Look up a scheduler by name, falling back to SM-2
+ */
+export function getScheduler(name?: SchedulerName): Scheduler {
+  return (name && SCHEDULERS[name]) || SCHEDULERS[DEFAULT_SCHEDULER];
+}
+
+/**
+ * Calculate the next review for a card with the chosen scheduler (SM-2 by default)
+ */
+export function calculateNextReview(
+  card: SchedulingState,
+  quality: Quality,
+  options: Partial<SchedulerOptions> & { scheduler?: SchedulerName } = {}
+): ReviewResult {
+  return getScheduler(options.scheduler).schedule(card, quality, {
+    now: options.now ?? new Date(),
+    desiredRetention: options.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+  });
+}
+
+/**
+ * A lapse is forgetting a card that had already been answered correctly
+ */
+export function isLapse(card: SchedulingState, quality: Quality): boolean {
+  return quality < 3 && card.repetitions > 0;
+}
+
+/**
+ * Whether a card with this many lapses should be flagged as a leech.
+ * Like Anki, a card hits the threshold once and is flagged again every
+ * half threshold after that if it keeps lapsing.
+ */
+export function reachesLeechThreshold(lapses: number, threshold: number = DEFAULT_LEECH_THRESHOLD): boolean {
+  if (lapses < threshold) return false;
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
+/**
+ * Keep new and lapsed cards on short learning steps (in minutes) until they graduate.
+ * Again restarts the steps, Hard repeats the current step, Good moves on to the next
+ * step and Easy graduates straight away. Without steps the scheduler's result is kept.
+ */
+function applyLearningSteps(
+  card: SchedulingState,
+  quality: Quality,
+  result: ReviewResult,
+  steps: number[] | undefined,
+  now: Date
+): ReviewResult & { learningStep?: number } {
+  if (!steps || steps.length === 0) return result;
+
+  let step: number | null = null;
+  if (quality < 3) {
+    step = 0;
+  } else if (card.repetitions === 0 && quality < 5) {
+    const current = card.learningStep ?? 0;
+    step = quality === 3 ? current : current + 1;
   }
-  
+
+  // Past the last step: the card graduates with the scheduler's interval
+  if (step === null || step >= steps.length) {
+    return { ...result, learningStep: undefined };
+  }
+
+  const interval = steps[step];
+  return {
+    ...result,
+    interval,
+    intervalType: 'minutes',
+    repetitions: 0,
+    nextReviewDate: addInterval(now, interval, 'minutes').toISOString(),
+    learningStep: step,
+  };
+}
+
+/**
+ * Shorten an interval that would skip past an exam, so the card comes back on the
+ * day before the exam at the latest. Learning steps and reviews that fall before
+ * the exam are left alone, as is everything once the exam is tomorrow or over.
+ */
+export function compressToExamDate<T extends ReviewResult>(result: T, examDate: Date, now: Date = new Date()): T {
+  if (result.intervalType !== 'days') return result;
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const examDay = new Date(examDate);
+  examDay.setHours(0, 0, 0, 0);
+
+  // Whole days from today until the day before the exam
+  const daysLeft = Math.round((examDay.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)) - 1;
+  if (daysLeft < 1 || new Date(result.nextReviewDate) < examDay) return result;
+
+  const interval = Math.min(result.interval, daysLeft);
   return {
-    easeFactor: Math.round(easeFactor * 100) / 100,
+    ...result,
     interval,
-    repetitions,
-    nextReviewDate: nextReviewDate.toISOString(),
-    intervalType,
+    nextReviewDate: addInterval(now, interval, 'days').toISOString(),
+  };
+}
+
+/**
+ * Grade a card: schedule its next review, count lapses and apply the leech action
+ */
+export function reviewCard(
+  card: SpacedRepetitionCard,
+  quality: Quality,
+  options: ReviewOptions = {}
+): SpacedRepetitionCard {
+  const now = options.now ?? new Date();
+  const scheduled = applyLearningSteps(
+    card,
+    quality,
+    calculateNextReview(card, quality, { ...options, now }),
+    options.learningSteps,
+    now
+  );
+  const nextReview = options.examDate ? compressToExamDate(scheduled, options.examDate, now) : scheduled;
+  const lapsed = isLapse(card, quality);
+  const lapses = (card.lapses ?? 0) + (lapsed ? 1 : 0);
+  const becameLeech = lapsed && reachesLeechThreshold(lapses, options.leechThreshold);
+  const suspend = becameLeech && (options.leechAction ?? DEFAULT_LEECH_ACTION) === 'suspend';
+
+  return {
+    ...card,
+    ...nextReview,
+    lastReviewed: now.toISOString(),
+    quality,
+    lapses,
+    leech: card.leech || becameLeech || undefined,
+    suspended: card.suspended || suspend || undefined,
   };
 }
 
+/**
+ * Put a suspended card back into reviews. The leech tag stays until the card is rewritten.
+ */
+export function unsuspendCard(card: SpacedRepetitionCard): SpacedRepetitionCard {
+  return { ...card, suspended: undefined };
+}
+
 /**
  * Initialize a new card with default spaced repetition values
  */
@@ -166,27 +361,45 @@ export function qualityFromResponse(isCorrect: boolean, difficulty: 'easy' | 'no
 }
 
 /**
- * Get cards due for review (nextReviewDate <= now)
+ * Get cards that are not suspended
+ */
+export function getActiveCards(cards: SpacedRepetitionCard[]): SpacedRepetitionCard[] {
+  return cards.filter((card) => !card.suspended);
+}
+
+/**
+ * Get cards due for review (nextReviewDate <= now), leaving out suspended cards
  */
 export function getCardsDueForReview(cards: SpacedRepetitionCard[]): SpacedRepetitionCard[] {
   const now = new Date();
   return cards.filter((card) => {
+    if (card.suspended) return false;
     const reviewDate = new Date(card.nextReviewDate);
     return reviewDate <= now;
   });
 }
 
 /**
- * Get cards that are hard (quality <= 3 or ease factor < 2.0)
+ * Get cards that are hard (quality <= 3, ease factor < 2.0 or FSRS difficulty >= 7).
+ * Suspended cards are left out; they show up under the leeches instead.
  */
 export function getHardCards(cards: SpacedRepetitionCard[]): SpacedRepetitionCard[] {
   return cards.filter((card) => {
+    if (card.suspended) return false;
     if (card.quality !== undefined && card.quality <= 3) return true;
     if (card.easeFactor < 2.0) return true;
+    if (card.difficulty !== undefined && card.difficulty >= 7) return true;
     return false;
   });
 }
 
+/**
+ * Get cards tagged as leeches, suspended or not
+ */
+export function getLeechCards(cards: SpacedRepetitionCard[]): SpacedRepetitionCard[] {
+  return cards.filter((card) => card.leech);
+}
+
 /**
  * Get cards due today or in the next N days
  */
@@ -197,6 +410,7 @@ export function getCardsDueInDays(cards: SpacedRepetitionCard[], days: number =
   futureDate.setHours(23, 59, 59, 999);
   
   return cards.filter((card) => {
+    if (card.suspended) return false;
     const reviewDate = new Date(card.nextReviewDate);
     return reviewDate <= futureDate && reviewDate >= now;
   });
@@ -213,6 +427,61 @@ export function upgradeToSpacedRepetition(
   return initializeSpacedRepetitionCard(card.id, card.front, card.back, noteId, folderId);
 }
 
+/**
+ * Bring a stored card up to the current format without discarding its review history.
+ * Cards saved before spaced repetition existed get fresh scheduling fields; cards with
+ * SM-2 state keep it as-is (FSRS derives its memory state from it on the next review).
+ */
+export function normalizeCard(
+  card: { id: string; front: string; back: string } & Partial<SpacedRepetitionCard>,
+  noteId?: string,
+  folderId?: string
+): SpacedRepetitionCard {
+  if (card.easeFactor === undefined) {
+    return upgradeToSpacedRepetition(card, noteId, folderId);
+  }
+
+  return {
+    ...card,
+    easeFactor: card.easeFactor,
+    interval: card.interval ?? 0,
+    repetitions: card.repetitions ?? 0,
+    nextReviewDate: card.nextReviewDate ?? new Date().toISOString(),
+    intervalType: card.intervalType ?? 'days',
+    noteId: noteId ?? card.noteId,
+    folderId: folderId ?? card.folderId,
+  };
+}
+
+/**
+ * Strip the content from a card, leaving only its scheduling state
+ */
+export function getSchedulingState(card: SpacedRepetitionCard): SchedulingState {
+  return {
+    noteId: card.noteId,
+    folderId: card.folderId,
+    cardType: card.cardType,
+    groupId: card.groupId,
+    reversed: card.reversed,
+    clozeIndex: card.clozeIndex,
+    source: card.source,
+    easeFactor: card.easeFactor,
+    interval: card.interval,
+    repetitions: card.repetitions,
+    nextReviewDate: card.nextReviewDate,
+    lastReviewed: card.lastReviewed,
+    quality: card.quality,
+    intervalType: card.intervalType,
+    learningStep: card.learningStep,
+    stability: card.stability,
+    difficulty: card.difficulty,
+    scheduler: card.scheduler,
+    lapses: card.lapses,
+    leech: card.leech,
+    suspended: card.suspended,
+  };
+}
+
 /**
  * Sort cards by priority (due soonest first)
  */
@@ -226,12 +495,20 @@ export function sortCardsByPriority(cards: SpacedRepetitionCard[]): SpacedRepeti
 
 export const spacedRepetitionService = {
   calculateNextReview,
+  reviewCard,
+  compressToExamDate,
+  unsuspendCard,
+  getScheduler,
   initializeSpacedRepetitionCard,
   qualityFromResponse,
   getCardsDueForReview,
   getCardsDueInDays,
   getHardCards,
+  getActiveCards,
+  getLeechCards,
   upgradeToSpacedRepetition,
+  normalizeCard,
+  getSchedulingState,
   sortCardsByPriority,
 };
 
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { aiGateway } from './aiGateway';
+import {
+  StructuredOutputError,
+  generateStructured,
+  parseStructuredOutput,
+  s,
+  structuredOutput,
+} from './structuredOutput';
+import { repairInstructions } from '../../supabase/functions/_shared/structuredOutput.ts';
+
+vi.mock('./aiGateway', () => ({
+  aiGateway: { chatCompletion: vi.fn(), analyzeImage: vi.fn() },
+}));
+
+const chatCompletion = vi.mocked(aiGateway.chatCompletion);
+
+const CARDS_OUTPUT = structuredOutput('cards', 'flashcards', s.object({
+  cards: s.array(s.object({
+    front: s.string({ nonEmpty: true }),
+    back: s.string(),
+    level: s.enumOf(['easy', 'hard'] as const),
+    hint: s.optional(s.string()),
+  })),
+}));
+
+const MESSAGES = [{ role: 'user' as const, content: 'Create flashcards' }];
+
+function issuesOf(response: string): string[] {
+  try {
+    parseStructuredOutput(CARDS_OUTPUT, response);
+    return [];
+  } catch (error) {
+    if (error instanceof StructuredOutputError) return error.issues;
+    throw error;
+  }
+}
+
+describe('schemas', () => {
+  it('describe strict JSON schemas: every property required and no others', () => {
+    expect(CARDS_OUTPUT.schema.jsonSchema).toEqual({
+      type: 'object',
+      properties: {
+        cards: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              front: { type: 'string' },
+              back: { type: 'string' },
+              level: { type: 'string', enum: ['easy', 'hard'] },
+              hint: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+            },
+            required: ['front', 'back', 'level', 'hint'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['cards'],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe('parseStructuredOutput', () => {
+  it('returns the value of a matching response, with null optionals as undefined', () => {
+    const response = JSON.stringify({ cards: [{ front: 'Q', back: 'A', level: 'easy', hint: null }] });
+    expect(parseStructuredOutput(CARDS_OUTPUT, response)).toEqual({
+      cards: [{ front: 'Q', back: 'A', level: 'easy', hint: undefined }],
+    });
+  });
+
+  it('reports every mismatch with its path', () => {
+    const response = JSON.stringify({ cards: [{ front: ' ', back: 3, level: 'medium', hint: 'ok' }, 'card'] });
+    expect(issuesOf(response)).toEqual([
+      '$.cards[0].front: must not be empty',
+      '$.cards[0].back: expected a string, got number 3',
+      '$.cards[0].level: expected one of easy, hard, got string "medium"',
+      '$.cards[1]: expected an object, got string "card"',
+    ]);
+  });
+
+  it('reports missing properties and wrong containers', () => {
+    expect(issuesOf('{}')).toEqual(['$.cards: expected an array, got undefined']);
+    expect(issuesOf('[]')).toEqual(['$: expected an object, got an array']);
+  });
+
+  it('rejects a response that is not JSON', () => {
+    expect(issuesOf('Here are your flashcards')).toEqual(['$: the response is not valid JSON']);
+  });
+
+  it('names the output in the error message', () => {
+    expect(() => parseStructuredOutput(CARDS_OUTPUT, 'nope')).toThrow('The AI returned flashcards in an unexpected format. Please try again.');
+  });
+});
+
+describe('repairInstructions', () => {
+  it('lists at most 10 issues', () => {
+    const issues = Array.from({ length: 12 }, (_, index) => `$.cards[${index}]: expected an object`);
+    const instructions = repairInstructions(new StructuredOutputError(CARDS_OUTPUT, issues, '[]'));
+    expect(instructions).toContain('- $.cards[9]: expected an object');
+    expect(instructions).not.toContain('$.cards[10]');
+  });
+});
+
+describe('generateStructured', () => {
+  beforeEach(() => {
+    chatCompletion.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('asks for the output\'s JSON schema and returns the parsed response', async () => {
+    chatCompletion.mockResolvedValueOnce(JSON.stringify({ cards: [] }));
+
+    await expect(generateStructured(MESSAGES, CARDS_OUTPUT, { temperature: 0.7 })).resolves.toEqual({ cards: [] });
+    expect(chatCompletion).toHaveBeenCalledTimes(1);
+    expect(chatCompletion).toHaveBeenCalledWith(MESSAGES, {
+      temperature: 0.7,
+      responseFormat: { name: 'cards', schema: CARDS_OUTPUT.schema.jsonSchema },
+    });
+  });
+
+  it('sends a response that does not match back once with the problems found', async () => {
+    const invalid = JSON.stringify({ cards: [{ front: 'Q', back: 'A', level: 'medium', hint: null }] });
+    const valid = JSON.stringify({ cards: [{ front: 'Q', back: 'A', level: 'hard', hint: null }] });
+    chatCompletion.mockResolvedValueOnce(invalid).mockResolvedValueOnce(valid);
+
+    const result = await generateStructured(MESSAGES, CARDS_OUTPUT, { temperature: 0.7 });
+    expect(result.cards[0].level).toBe('hard');
+
+    const [repairMessages, repairOptions] = chatCompletion.mock.calls[1];
+    expect(repairMessages).toEqual([
+      ...MESSAGES,
+      { role: 'assistant', content: invalid },
+      { role: 'user', content: expect.stringContaining('- $.cards[0].level: expected one of easy, hard') },
+    ]);
+    expect(repairOptions).toMatchObject({ temperature: 0 });
+  });
+
+  it('throws a StructuredOutputError when the repaired response does not match either', async () => {
+    chatCompletion.mockResolvedValueOnce('not json').mockResolvedValueOnce(JSON.stringify({ cards: 'none' }));
+
+    const error = await generateStructured(MESSAGES, CARDS_OUTPUT).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error).toMatchObject({ output: 'cards', issues: ['$.cards: expected an array, got string "none"'] });
+    expect(chatCompletion).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes other errors through without a repair attempt', async () => {
+    chatCompletion.mockRejectedValueOnce(new Error('Network down'));
+
+    await expect(generateStructured(MESSAGES, CARDS_OUTPUT)).rejects.toThrow('Network down');
+    expect(chatCompletion).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Structured Output
+ * Requests whose JSON response follows a schema. The schema builders (`s`) and the check
+ * of responses against them live in supabase/functions/_shared/structuredOutput.ts, which
+ * the edge functions use too. A response that does not match gets one repair attempt,
+ * after which a StructuredOutputError reaches the caller.
+ */
+
+import { aiGateway } from './aiGateway';
+import {
+  StructuredOutputError,
+  parseStructuredOutput,
+  repairInstructions,
+  responseFormat,
+  structuredOutput,
+} from '../../supabase/functions/_shared/structuredOutput.ts';
+import type { StructuredOutput } from '../../supabase/functions/_shared/structuredOutput.ts';
+
+export { StructuredOutputError, parseStructuredOutput, s, structuredOutput } from '../../supabase/functions/_shared/structuredOutput.ts';
+export type { Infer, JsonSchema, Schema, StructuredOutput } from '../../supabase/functions/_shared/structuredOutput.ts';
+
+/**
+ * Chat completion whose response follows an output's schema. A response that does not
+ * match is sent back once with the problems found.
+ */
+export async function generateStructured<T>(
+  messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>,
+  output: StructuredOutput<T>,
+  options: { model?: string; temperature?: number } = {}
+): Promise<T> {
+  const request = { ...options, responseFormat: responseFormat(output) };
+  const content = await aiGateway.chatCompletion(messages, request);
+
+  try {
+    return parseStructuredOutput(output, content);
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn(`Repairing ${output.name} response:`, error.issues);
+
+    const repaired = await aiGateway.chatCompletion([
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: repairInstructions(error) },
+    ], { ...request, temperature: 0 });
+    return parseStructuredOutput(output, repaired);
+  }
+}
+
+/**
+ * Image analysis whose response follows an output's schema, with the same single repair
+ */
+export async function analyzeImageStructured<T>(
+  imageBase64: string,
+  prompt: string,
+  output: StructuredOutput<T>
+): Promise<T> {
+  const content = await aiGateway.analyzeImage(imageBase64, prompt, responseFormat(output));
+
+  try {
+    return parseStructuredOutput(output, content);
+  } catch (error) {
+    if (!(error instanceof StructuredOutputError)) throw error;
+    console.warn(`Repairing ${output.name} response:`, error.issues);
+
+    const repaired = await aiGateway.analyzeImage(
+      imageBase64,
+      `${prompt}\n\nA previous response was:\n${content}\n\n${repairInstructions(error)}`,
+      responseFormat(output)
+    );
+    return parseStructuredOutput(output, repaired);
+  }
+}
+
+export const structuredOutputService = {
+  structuredOutput,
+  parseStructuredOutput,
+  generateStructured,
+  analyzeImageStructured,
+};
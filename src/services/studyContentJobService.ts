@@ -0,0 +1,197 @@
+/**
+ * Study Content Job Service
+ * Study content (summary, flashcards, quiz, exercises and Feynman topics) is generated on
+ * the server by the study-content-worker function, so it is not lost when the tab closes.
+ * A note gets one job at a time; the job's progress per item is followed through realtime.
+ */
+
+import { supabase } from './supabase';
+import { resolveModel } from './aiGateway';
+
+export type StudyContentItem = 'summary' | 'flashcards' | 'quiz' | 'exercises' | 'feynmanTopics';
+
+export const STUDY_CONTENT_ITEMS: StudyContentItem[] = ['summary', 'flashcards', 'quiz', 'exercises', 'feynmanTopics'];
+
+export const STUDY_CONTENT_ITEM_LABELS: Record<StudyContentItem, string> = {
+  summary: 'Summary',
+  flashcards: 'Flashcards',
+  quiz: 'Quiz',
+  exercises: 'Exercises',
+  feynmanTopics: 'Feynman topics',
+};
+
+export type StudyContentJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type StudyContentItemStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+export interface StudyContentItemProgress {
+  status: StudyContentItemStatus;
+  count?: number; // Cards, questions, exercises or topics generated
+  error?: string;
+}
+
+export interface StudyContentJob {
+  id: string;
+  noteId: string;
+  status: StudyContentJobStatus;
+  items: Record<StudyContentItem, StudyContentItemProgress>;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAfter: Date; // A queued retry waits until then
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+interface StudyContentJobRow {
+  id: string;
+  note_id: string;
+  status: StudyContentJobStatus;
+  items: Partial<Record<StudyContentItem, StudyContentItemProgress>> | null;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const MIN_CONTENT_LENGTH = 50;
+
+function mapJobRow(row: StudyContentJobRow): StudyContentJob {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    status: row.status,
+    items: Object.fromEntries(
+      STUDY_CONTENT_ITEMS.map((item) => [item, row.items?.[item] ?? { status: 'pending' }])
+    ) as Record<StudyContentItem, StudyContentItemProgress>,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error,
+    runAfter: new Date(row.run_after),
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
+  };
+}
+
+export function isJobFinished(job: StudyContentJob): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+/**
+ * Ask the worker to run a job now. It answers right away and keeps working in the background.
+ */
+export async function runWorker(jobId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('study-content-worker', { body: { jobId } });
+  if (error) throw error;
+}
+
+/**
+ * Queue generation of a note's missing study content and start the worker. A note that
+ * already has a queued or running job gets that job back. Returns null when the note has
+ * too little content to generate from.
+ */
+export async function enqueueStudyContentJob(noteId: string, content: string): Promise<StudyContentJob | null> {
+  if (!content || content.trim().length < MIN_CONTENT_LENGTH) {
+    return null;
+  }
+
+  // The worker generates with the model the rest of the app uses
+  const { data, error } = await supabase.rpc('enqueue_study_content_job', { p_note_id: noteId, p_model: resolveModel() });
+  if (error) throw error;
+
+  const job = mapJobRow(data as StudyContentJobRow);
+  if (job.status === 'queued') {
+    // A job that is not picked up now is still run by the scheduled worker
+    runWorker(job.id).catch((err) => console.error('Error starting study content worker:', err));
+  }
+  return job;
+}
+
+export async function getLatestJob(noteId: string): Promise<StudyContentJob | null> {
+  const { data, error } = await supabase
+    .from('study_content_jobs')
+    .select('*')
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? mapJobRow(data as StudyContentJobRow) : null;
+}
+
+/**
+ * Call `onChange` with every update of a job. Returns a function that stops listening.
+ */
+export function subscribeToJob(jobId: string, onChange: (job: StudyContentJob) => void): () => void {
+  const channel = supabase
+    .channel(`study-content-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'study_content_jobs', filter: `id=eq.${jobId}` },
+      (payload) => onChange(mapJobRow(payload.new as StudyContentJobRow))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Call `onChange` with every job of a note that is queued or updated, e.g. when study
+ * content is regenerated. Returns a function that stops listening.
+ */
+export function subscribeToNoteJobs(noteId: string, onChange: (job: StudyContentJob) => void): () => void {
+  const channel = supabase
+    .channel(`study-content-jobs-${noteId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'study_content_jobs', filter: `note_id=eq.${noteId}` },
+      (payload) => {
+        if (payload.eventType !== 'DELETE') onChange(mapJobRow(payload.new as StudyContentJobRow));
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Resolves with the job once it has completed or failed
+ */
+export async function waitForJob(job: StudyContentJob): Promise<StudyContentJob> {
+  if (isJobFinished(job)) return job;
+
+  return new Promise((resolve, reject) => {
+    let unsubscribe = () => {};
+    const settle = (latest: StudyContentJob) => {
+      if (!isJobFinished(latest)) return;
+      unsubscribe();
+      resolve(latest);
+    };
+
+    unsubscribe = subscribeToJob(job.id, settle);
+    // The job may have finished before the subscription was set up
+    getLatestJob(job.noteId)
+      .then((latest) => latest && latest.id === job.id && settle(latest))
+      .catch((error) => {
+        unsubscribe();
+        reject(error);
+      });
+  });
+}
+
+export const studyContentJobService = {
+  enqueueStudyContentJob,
+  runWorker,
+  getLatestJob,
+  subscribeToJob,
+  subscribeToNoteJobs,
+  waitForJob,
+  isJobFinished,
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { diffItems, mergeItems } from './studyContentVersionService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+describe('diffItems', () => {
+  it('lists items in the order of the newer version with removed items where they used to be', () => {
+    const before = [
+      { id: 'a', front: 'A', back: '1' },
+      { id: 'b', front: 'B', back: '2' },
+      { id: 'c', front: 'C', back: '3' },
+    ];
+    const after = [
+      { id: 'a', front: 'A', back: '1' },
+      { id: 'x', front: 'X', back: '9' },
+      { id: 'c', front: 'C', back: 'three' },
+    ];
+
+    expect(diffItems('flashcards', before, after).map((diff) => [diff.key, diff.change])).toEqual([
+      ['a', 'unchanged'],
+      ['b', 'removed'],
+      ['x', 'added'],
+      ['c', 'changed'],
+    ]);
+  });
+
+  it('ignores review progress stored on the items', () => {
+    const before = [{ id: 'a', front: 'A', back: '1', interval: 1, repetitions: 1 }];
+    const after = [{ id: 'a', front: 'A', back: '1', interval: 6, repetitions: 2 }];
+    expect(diffItems('flashcards', before, after)[0].change).toBe('unchanged');
+  });
+
+  it('matches items without an id by their question', () => {
+    const before = [{ question: 'Why?', explanation: 'Because' }];
+    const after = [{ question: 'Why?', explanation: 'Because of this' }, { question: 'How?' }];
+    expect(diffItems('quiz', before, after).map((diff) => [diff.key, diff.change])).toEqual([
+      ['Why?', 'changed'],
+      ['How?', 'added'],
+    ]);
+  });
+});
+
+describe('mergeItems', () => {
+  it('puts back the old content of chosen items and keeps their state', () => {
+    const current = [
+      { id: 'a', front: 'A (edited)', back: '1', interval: 6 },
+      { id: 'y', front: 'Y', back: '5' },
+    ];
+    const chosen = [
+      { id: 'a', front: 'A', back: '1', interval: 1 },
+      { id: 'b', front: 'B', back: '2' },
+    ];
+
+    expect(mergeItems('flashcards', current, chosen)).toEqual([
+      { id: 'a', front: 'A', back: '1', interval: 6 },
+      { id: 'y', front: 'Y', back: '5' },
+      { id: 'b', front: 'B', back: '2' },
+    ]);
+  });
+
+  it('leaves the current items alone when nothing is chosen', () => {
+    const current = [{ id: 'a', question: 'Q', solution: 'S' }];
+    expect(mergeItems('exercises', current, [])).toEqual(current);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Study Content Version Service
+ * Version history of a note's summary, flashcards, quiz and exercises. Saving study content
+ * records a version whenever the content itself changed; review progress stored on the
+ * flashcards does not count. Consecutive edits by the user within a few minutes update one
+ * version instead of adding one per autosave. Older versions can be compared with the
+ * current content, restored, or merged into it item by item.
+ */
+
+import { supabase } from './supabase';
+import { diffLines, htmlToPlainText, type DiffLine } from '../utils/textDiff';
+
+export type VersionedKind = 'summary' | 'flashcards' | 'quiz' | 'exercises';
+
+export const VERSIONED_KINDS: VersionedKind[] = ['summary', 'flashcards', 'quiz', 'exercises'];
+
+export type VersionAuthor = 'ai' | 'user';
+
+/**
+ * How a version came about: the prompt settings of generated content, or the version a
+ * restore or merge took its content from
+ */
+export interface VersionSettings {
+  model?: string;
+  count?: number;
+  cardType?: string;
+  questionType?: string;
+  detailLevel?: string;
+  source?: 'background' | 'anki-import';
+  restoredFrom?: string;
+  mergedFrom?: string;
+}
+
+export interface StudyContentVersion {
+  id: string;
+  noteId: string;
+  kind: VersionedKind;
+  content: unknown; // Summary HTML, or the array of items
+  author: VersionAuthor | null; // null: content from before version history
+  settings: VersionSettings | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type VersionItem = Record<string, unknown>;
+
+export type ItemChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * One item of a list compared across two versions. `before` is the item in the older
+ * version, `after` the one in the newer version.
+ */
+export interface ItemDiff {
+  key: string;
+  change: ItemChange;
+  before?: VersionItem;
+  after?: VersionItem;
+}
+
+interface VersionRow {
+  id: string;
+  note_id: string;
+  kind: VersionedKind;
+  content: unknown;
+  author: VersionAuthor | null;
+  settings: VersionSettings | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const USER_EDIT_WINDOW_MS = 10 * 60 * 1000;
+
+// Fields that make up an item's content; everything else (e.g. review scheduling) is state
+const CONTENT_FIELDS: Record<Exclude<VersionedKind, 'summary'>, string[]> = {
+  flashcards: ['front', 'back', 'cardType'],
+  quiz: ['question', 'type', 'options', 'correct', 'correctAnswers', 'blanks', 'pairs', 'modelAnswer', 'explanation'],
+  exercises: ['question', 'solution', 'notes', 'hints'],
+};
+
+function mapVersionRow(row: VersionRow): StudyContentVersion {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    kind: row.kind,
+    content: row.content,
+    author: row.author,
+    settings: row.settings,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function pickContent(kind: Exclude<VersionedKind, 'summary'>, item: VersionItem): VersionItem {
+  return Object.fromEntries(CONTENT_FIELDS[kind].filter((field) => item[field] !== undefined).map((field) => [field, item[field]]));
+}
+
+function fingerprint(kind: VersionedKind, content: unknown): string {
+  if (kind === 'summary') return JSON.stringify(content ?? '');
+  return JSON.stringify(((content as VersionItem[] | null) || []).map((item) => pickContent(kind, item)));
+}
+
+function isEmptyContent(content: unknown): boolean {
+  return typeof content === 'string' ? !content.trim() : !Array.isArray(content) || content.length === 0;
+}
+
+/**
+ * Items of a list version; a summary has none
+ */
+export function getVersionItems(version: Pick<StudyContentVersion, 'kind' | 'content'>): VersionItem[] {
+  return version.kind === 'summary' ? [] : ((version.content as VersionItem[] | null) || []);
+}
+
+/**
+ * Identity of an item across versions: its id, or its question or front for items without one
+ */
+function itemKey(item: VersionItem): string {
+  return String(item.id ?? item.question ?? item.front ?? JSON.stringify(item));
+}
+
+export async function getVersions(noteId: string, kind: VersionedKind): Promise<StudyContentVersion[]> {
+  const { data, error } = await supabase
+    .from('study_content_versions')
+    .select('*')
+    .eq('note_id', noteId)
+    .eq('kind', kind)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as VersionRow[]).map(mapVersionRow);
+}
+
+/**
+ * Record new content of a note as a version if it differs from the latest one. `previous`
+ * is the content that is being replaced; when the note has no versions yet, it is kept as
+ * the first one so that the content from before version history is not lost.
+ */
+export async function recordVersion(
+  noteId: string,
+  kind: VersionedKind,
+  content: unknown,
+  author: VersionAuthor,
+  settings: VersionSettings | null = null,
+  previous?: unknown
+): Promise<void> {
+  const newFingerprint = fingerprint(kind, content);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { data: latestRows, error: latestError } = await supabase
+    .from('study_content_versions')
+    .select('*')
+    .eq('note_id', noteId)
+    .eq('kind', kind)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (latestError) throw latestError;
+  const latest = latestRows?.[0] ? mapVersionRow(latestRows[0] as VersionRow) : null;
+
+  // The latest version is read every time: the study content worker adds versions too
+  if (latest && fingerprint(kind, latest.content) === newFingerprint) return;
+
+  if (!latest && previous !== undefined && !isEmptyContent(previous) && fingerprint(kind, previous) !== newFingerprint) {
+    const { error } = await supabase.from('study_content_versions').insert({
+      user_id: user.id,
+      note_id: noteId,
+      kind,
+      content: previous,
+      author: null,
+    });
+    if (error) throw error;
+  }
+
+  const continuesEdit =
+    latest &&
+    author === 'user' &&
+    latest.author === 'user' &&
+    !latest.settings &&
+    !settings &&
+    Date.now() - latest.updatedAt.getTime() < USER_EDIT_WINDOW_MS;
+
+  const { error } = continuesEdit
+    ? await supabase.from('study_content_versions').update({ content }).eq('id', latest.id)
+    : await supabase.from('study_content_versions').insert({
+        user_id: user.id,
+        note_id: noteId,
+        kind,
+        content,
+        author,
+        settings,
+      });
+
+  if (error) throw error;
+}
+
+/**
+ * Changes to a summary between two versions, line by line
+ */
+export function diffSummaries(before: string, after: string): DiffLine[] {
+  return diffLines(htmlToPlainText(before || ''), htmlToPlainText(after || ''));
+}
+
+/**
+ * Changes to a list of items between two versions, in the order of the newer version with
+ * removed items where they used to be
+ */
+export function diffItems(kind: Exclude<VersionedKind, 'summary'>, before: VersionItem[], after: VersionItem[]): ItemDiff[] {
+  const afterByKey = new Map(after.map((item) => [itemKey(item), item]));
+  const beforeKeys = new Set(before.map(itemKey));
+  const diffs: ItemDiff[] = [];
+
+  let afterIndex = 0;
+  const flushAddedUntil = (stopKey?: string) => {
+    while (afterIndex < after.length && itemKey(after[afterIndex]) !== stopKey) {
+      const item = after[afterIndex++];
+      if (!beforeKeys.has(itemKey(item))) diffs.push({ key: itemKey(item), change: 'added', after: item });
+    }
+  };
+
+  before.forEach((item) => {
+    const key = itemKey(item);
+    const match = afterByKey.get(key);
+    if (!match) {
+      diffs.push({ key, change: 'removed', before: item });
+      return;
+    }
+    flushAddedUntil(key);
+    if (afterIndex < after.length) afterIndex++;
+    const changed = JSON.stringify(pickContent(kind, item)) !== JSON.stringify(pickContent(kind, match));
+    diffs.push({ key, change: changed ? 'changed' : 'unchanged', before: item, after: match });
+  });
+  flushAddedUntil();
+
+  return diffs;
+}
+
+/**
+ * Content to save when restoring a version. Items that still exist keep their state (such
+ * as review progress) and get the content they had in the version.
+ */
+export function getRestoredContent(version: StudyContentVersion, current: unknown): unknown {
+  if (version.kind === 'summary') return version.content;
+
+  const currentByKey = new Map(((current as VersionItem[] | null) || []).map((item) => [itemKey(item), item]));
+  return getVersionItems(version).map((item) => {
+    const existing = currentByKey.get(itemKey(item));
+    return existing ? { ...existing, ...pickContent(version.kind as Exclude<VersionedKind, 'summary'>, item) } : item;
+  });
+}
+
+/**
+ * Current items with chosen items of an older version put back: changed items get their
+ * old content, removed items are added at the end
+ */
+export function mergeItems(
+  kind: Exclude<VersionedKind, 'summary'>,
+  current: VersionItem[],
+  fromVersion: VersionItem[]
+): VersionItem[] {
+  const chosen = new Map(fromVersion.map((item) => [itemKey(item), item]));
+  const merged = current.map((item) => {
+    const old = chosen.get(itemKey(item));
+    if (!old) return item;
+    chosen.delete(itemKey(item));
+    return { ...item, ...pickContent(kind, old) };
+  });
+  return [...merged, ...chosen.values()];
+}
+
+export const studyContentVersionService = {
+  getVersions,
+  recordVersion,
+  getVersionItems,
+  diffSummaries,
+  diffItems,
+  getRestoredContent,
+  mergeItems,
+};
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
-import type { Note, Folder, Document, DocumentType } from '../types';
+import type { Note, Folder, Document, DocumentType, SummarySource } from '../types';
+import type { VersionAuthor, VersionedKind, VersionSettings } from './studyContentVersionService';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -357,346 +358,6 @@ export const documentService = {
 // File upload operations - re-export from enhanced storageService
 export { storageService } from './storageService';
 
-// Helper functions for generating study content
-async function generateExercisesHelper(content: string) {
-  try {
-    const { openaiService, extractJSON } = await import('./openai');
-    
-    const prompt = `Based on the following note content, generate 8-10 practical exercises that help students practice and apply what they've learned. 
-
-Note content:
-${content}
-
-Return a JSON array of exercise objects, each with:
-- "question": A clear, practical exercise or problem the student should solve
-- "solution": A detailed step-by-step solution or answer
-- "notes": Helpful feedback or additional information
-
-Make the exercises:
-1. Practical and applicable to the content
-2. Progressive in difficulty (easier to harder)
-3. Cover different aspects of the topic
-4. Include clear instructions
-
-IMPORTANT: Return ONLY valid JSON array. Escape all special characters properly. Use \\n for newlines in strings. Ensure all quotes within strings are escaped. Do not include any markdown formatting, just pure JSON.`;
-
-    const response = await openaiService.chatCompletions(
-      [{ role: 'user', content: prompt }],
-      'You are an educational assistant creating practice exercises. Always return valid JSON with properly escaped characters.'
-    );
-    
-    // Extract JSON using the helper from openai.ts
-    let jsonString = extractJSON(response);
-    
-    // If extractJSON didn't find anything, try simple array match
-    if (!jsonString || jsonString === response) {
-      const arrayMatch = response.match(/(\[[\s\S]*\])/);
-      if (arrayMatch) {
-        jsonString = arrayMatch[1];
-      } else {
-        console.warn('No JSON array found in exercise generation response');
-        return [];
-      }
-    }
-    
-    // Clean up the JSON string - remove any leading/trailing whitespace
-    jsonString = jsonString.trim();
-    
-    // Try to find the actual array boundaries
-    const firstBracket = jsonString.indexOf('[');
-    const lastBracket = jsonString.lastIndexOf(']');
-    if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-      jsonString = jsonString.substring(firstBracket, lastBracket + 1);
-    }
-    
-    try {
-      // Try parsing the JSON
-      return JSON.parse(jsonString);
-    } catch (parseError: any) {
-      // If parsing fails, log detailed error information
-      console.error('Error parsing exercises JSON:', parseError);
-      console.error('Parse error position:', parseError.message);
-      console.error('JSON preview (first 1000 chars):', jsonString.substring(0, 1000));
-      
-      // Try to recover by finding the position and fixing common issues
-      const errorMatch = parseError.message.match(/position (\d+)/);
-      if (errorMatch) {
-        const errorPos = parseInt(errorMatch[1], 10);
-        console.error('Error at position:', errorPos);
-        console.error('Context around error:', jsonString.substring(Math.max(0, errorPos - 50), Math.min(jsonString.length, errorPos + 50)));
-    }
-      
-    return [];
-    }
-  } catch (error) {
-    console.error('Error generating exercises:', error);
-    return [];
-  }
-}
-
-async function generateFeynmanTopicsHelper(content: string) {
-  try {
-    const { openaiService } = await import('./openai');
-    const prompt = `Based on this note content, generate 3-4 specific topics that a student could practice explaining using the Feynman Technique. Focus on the main concepts, terms, or ideas that would be good for teaching.\n\nNote content:\n${content}\n\nReturn a JSON array of objects with "title" (short topic title starting with "Explain:") and "description" (brief description). Keep titles concise (max 50 chars).`;
-    
-    const response = await openaiService.chatCompletions(
-      [{ role: 'user', content: prompt }],
-      'You are an educational assistant helping create practice topics.'
-    );
-    
-    const jsonMatch = response.match(/\[[\s\S]*\]/);
-    if (jsonMatch) {
-      const topics = JSON.parse(jsonMatch[0]);
-      return topics.map((t: any, idx: number) => ({
-        id: (idx + 1).toString(),
-        title: t.title || `Topic ${idx + 1}`,
-        description: t.description || '',
-      }));
-    }
-    return [];
-  } catch (error) {
-    console.error('Error generating feynman topics:', error);
-    return [];
-  }
-}
-
-// Generate all study content for a note
-async function generateAllStudyContent(noteId: string, content: string) {
-  if (!content || content.trim().length < 50) {
-    return; // Not enough content to generate study content
-  }
-
-  try {
-    const { openaiService } = await import('./openai');
-    const { summaryService } = await import('./summaryService');
-
-    // Check what study content already exists - load full row to check all fields
-    const { data: existingRows } = await supabase
-      .from('study_content')
-      .select('id, summary, flashcards, quiz_questions, exercises, feynman_topics')
-      .eq('note_id', noteId)
-      .order('updated_at', { ascending: false });
-
-    // Handle duplicates: use the most recent row
-    const existing = existingRows && existingRows.length > 0 ? existingRows[0] : null;
-    
-    // Clean up duplicates if found
-    if (existingRows && existingRows.length > 1) {
-      const duplicateIds = existingRows.slice(1).map(row => row.id);
-      await supabase
-        .from('study_content')
-        .delete()
-        .in('id', duplicateIds)
-    }
-
-    // Check what content already exists - preserve existing content
-    const hasExistingSummary = existing?.summary && existing.summary.trim() !== '';
-    const hasExistingFlashcards = existing?.flashcards && Array.isArray(existing.flashcards) && existing.flashcards.length > 0;
-    const hasExistingQuiz = existing?.quiz_questions && Array.isArray(existing.quiz_questions) && existing.quiz_questions.length > 0;
-    const hasExistingExercises = existing?.exercises && Array.isArray(existing.exercises) && existing.exercises.length > 0;
-    const hasExistingFeynmanTopics = existing?.feynman_topics && Array.isArray(existing.feynman_topics) && existing.feynman_topics.length > 0;
-
-    // Fetch documents metadata for summary context (only if we need to generate summary)
-    const documentsPromise = !hasExistingSummary 
-      ? documentService.getDocuments(noteId)
-      : Promise.resolve([]);
-
-    // Build promises array - only generate what doesn't exist
-    const studyContentPromises: Promise<any>[] = [];
-    const promiseIndices = {
-      flashcards: -1,
-      quiz: -1,
-      exercises: -1,
-      feynmanTopics: -1,
-      summary: -1,
-    };
-
-    // Only generate flashcards if they don't exist
-    if (!hasExistingFlashcards) {
-      promiseIndices.flashcards = studyContentPromises.length;
-      studyContentPromises.push(openaiService.generateFlashcards(content));
-    } else {
-      studyContentPromises.push(Promise.resolve(null));
-    }
-
-    // Only generate quiz if it doesn't exist
-    if (!hasExistingQuiz) {
-      promiseIndices.quiz = studyContentPromises.length;
-      studyContentPromises.push(openaiService.generateQuiz(content));
-    } else {
-      studyContentPromises.push(Promise.resolve(null));
-    }
-
-    // Only generate exercises if they don't exist
-    if (!hasExistingExercises) {
-      promiseIndices.exercises = studyContentPromises.length;
-      studyContentPromises.push(generateExercisesHelper(content));
-    } else {
-      studyContentPromises.push(Promise.resolve(null));
-    }
-
-    // Only generate feynman topics if they don't exist
-    if (!hasExistingFeynmanTopics) {
-      promiseIndices.feynmanTopics = studyContentPromises.length;
-      studyContentPromises.push(generateFeynmanTopicsHelper(content));
-    } else {
-      studyContentPromises.push(Promise.resolve(null));
-    }
-
-    // Only generate summary if it doesn't exist
-    if (!hasExistingSummary) {
-      promiseIndices.summary = studyContentPromises.length;
-      const documents = await documentsPromise;
-      studyContentPromises.push(
-        summaryService.generateIntelligentSummary(content, documents, { detailLevel: 'standard' })
-      );
-    } else {
-      studyContentPromises.push(Promise.resolve(''));
-    }
-
-    const [flashcardsData, quizData, exercisesData, feynmanTopicsData, summaryData] = await Promise.allSettled(studyContentPromises);
-
-    // Process results - only use generated data, preserve existing otherwise
-    const flashcards = hasExistingFlashcards && existing?.flashcards
-      ? existing.flashcards
-      : (flashcardsData.status === 'fulfilled' && flashcardsData.value
-          ? flashcardsData.value.map((f: any) => ({ id: `gen-${Date.now()}-${Math.random()}`, ...f }))
-          : []);
-    
-    const quizQuestions = hasExistingQuiz && existing?.quiz_questions
-      ? existing.quiz_questions
-      : (quizData.status === 'fulfilled' && quizData.value
-          ? quizData.value.map((q: any, idx: number) => ({
-              id: `gen-${Date.now()}-${idx}`,
-              question: q.question,
-              options: q.options,
-              correct: q.correctAnswer || q.correct,
-            }))
-          : []);
-
-    const exercises = hasExistingExercises && existing?.exercises
-      ? existing.exercises
-      : (exercisesData.status === 'fulfilled' && exercisesData.value
-          ? exercisesData.value
-          : []);
-
-    const feynmanTopics = hasExistingFeynmanTopics && existing?.feynman_topics
-      ? existing.feynman_topics
-      : (feynmanTopicsData.status === 'fulfilled' && feynmanTopicsData.value
-          ? feynmanTopicsData.value
-          : []);
-
-    // Only set summary if we generated a new one (and it was successful)
-    // Always preserve existing summary
-    const summaryHtml = hasExistingSummary
-      ? existing.summary
-      : (summaryData.status === 'fulfilled' && summaryData.value
-          ? summaryData.value
-          : '');
-
-    // Build content data - only include fields that have content (preserve or newly generated)
-    const contentData: any = {};
-    
-    // Only update if we have content (either existing or newly generated)
-    if (flashcards.length > 0 || hasExistingFlashcards) {
-      contentData.flashcards = flashcards;
-    }
-    if (quizQuestions.length > 0 || hasExistingQuiz) {
-      contentData.quiz_questions = quizQuestions;
-    }
-    if (exercises.length > 0 || hasExistingExercises) {
-      contentData.exercises = exercises;
-    }
-    if (feynmanTopics.length > 0 || hasExistingFeynmanTopics) {
-      contentData.feynman_topics = feynmanTopics;
-    }
-    
-    // Only include summary if we have one (preserve existing or use newly generated)
-    if (summaryHtml) {
-      contentData.summary = summaryHtml;
-    }
-
-    // Use upsert pattern: try to update first, if no rows affected, then insert
-    // This prevents race conditions where multiple inserts happen simultaneously
-    if (existing) {
-      // Clean up any duplicates first
-      if (existingRows && existingRows.length > 1) {
-        const duplicateIds = existingRows.slice(1).map(row => row.id);
-        await supabase
-          .from('study_content')
-          .delete()
-          .in('id', duplicateIds)
-      }
-      
-      // Update only the most recent row (by ID) - summary will be preserved automatically (not in contentData if it exists)
-      const { error } = await supabase
-        .from('study_content')
-        .update(contentData)
-        .eq('id', existing.id);
-
-      if (error) throw error;
-    } else {
-      // Before inserting, double-check to prevent race conditions
-      // If another request created a row between our check and insert, update it instead
-      const { data: checkRows } = await supabase
-        .from('study_content')
-        .select('id')
-        .eq('note_id', noteId)
-        .order('updated_at', { ascending: false })
-        .limit(1);
-      
-      if (checkRows && checkRows.length > 0) {
-        // Row was created by another request, update it instead
-        const { error } = await supabase
-          .from('study_content')
-          .update(contentData)
-          .eq('id', checkRows[0].id);
-        
-        if (error) throw error;
-      } else {
-        // Safe to insert
-        const { error } = await supabase
-          .from('study_content')
-          .insert({
-            note_id: noteId,
-            ...contentData,
-          });
-
-        if (error) {
-          // If insert fails due to duplicate, try to update instead
-          if (error.code === '23505') { // Unique violation (if constraint exists)
-            const { data: existingRow } = await supabase
-              .from('study_content')
-              .select('id')
-              .eq('note_id', noteId)
-              .order('updated_at', { ascending: false })
-              .limit(1)
-              .single();
-            
-            if (existingRow) {
-              const { error: updateError } = await supabase
-                .from('study_content')
-                .update(contentData)
-                .eq('id', existingRow.id);
-              
-              if (updateError) throw updateError;
-            } else {
-              throw error;
-            }
-          } else {
-            throw error;
-          }
-        }
-      }
-    }
-
-    console.log('Successfully generated and saved all study content');
-  } catch (error) {
-    console.error('Error generating study content:', error);
-    // Don't throw - this is background generation
-  }
-}
-
 // Study Content operations
 export const studyContentService = {
   async getStudyContent(noteId: string) {
@@ -715,6 +376,7 @@ export const studyContentService = {
         quizQuestions: [],
         exercises: [],
         feynmanTopics: [],
+        summarySources: [],
       };
     }
 
@@ -738,6 +400,7 @@ export const studyContentService = {
         quizQuestions: mostRecent.quiz_questions || [],
         exercises: mostRecent.exercises || [],
         feynmanTopics: mostRecent.feynman_topics || [],
+        summarySources: (mostRecent.summary_sources || []) as SummarySource[],
       };
     }
     
@@ -749,20 +412,32 @@ export const studyContentService = {
       quizQuestions: singleData.quiz_questions || [],
       exercises: singleData.exercises || [],
       feynmanTopics: singleData.feynman_topics || [],
+      summarySources: (singleData.summary_sources || []) as SummarySource[],
     } : {
       summary: '',
       flashcards: [],
       quizQuestions: [],
       exercises: [],
       feynmanTopics: [],
+      summarySources: [] as SummarySource[],
     };
   },
 
+  /**
+   * Queue generation of whatever study content the note is missing. It runs on the server;
+   * follow the returned job for its progress.
+   */
   async generateAndSaveAllStudyContent(noteId: string, content: string) {
-    return generateAllStudyContent(noteId, content);
+    const { enqueueStudyContentJob } = await import('./studyContentJobService');
+    return enqueueStudyContentJob(noteId, content);
   },
 
-  async generateAndSaveSummary(noteId: string, content: string, detailLevel: 'concise' | 'standard' | 'comprehensive' = 'standard') {
+  async generateAndSaveSummary(
+    noteId: string,
+    content: string,
+    detailLevel: 'concise' | 'standard' | 'comprehensive' = 'standard',
+    stream?: { signal?: AbortSignal; onProgress?: (partialSummary: string) => void }
+  ) {
     try {
       // Check if summary already exists - never regenerate if it exists
       const existingContent = await this.getStudyContent(noteId);
@@ -773,9 +448,10 @@ export const studyContentService = {
 
       // No summary exists, generate a new one
       const { summaryService } = await import('./summaryService');
+      const { resolveModel } = await import('./aiGateway');
       const documents = await documentService.getDocuments(noteId);
-      const summary = await summaryService.generateIntelligentSummary(content, documents, { detailLevel });
-      await this.saveSummary(noteId, summary);
+      const summary = await summaryService.generateIntelligentSummary(content, documents, { detailLevel, ...stream });
+      await this.saveSummary(noteId, summary, { author: 'ai', settings: { model: resolveModel(), detailLevel } });
       return summary;
     } catch (error) {
       console.error('Error generating/saving summary:', error);
@@ -783,6 +459,16 @@ export const studyContentService = {
     }
   },
 
+  /**
+   * Find and save the passages of the note the sections of a summary are based on
+   */
+  async generateAndSaveSummarySources(noteId: string, summary: string, content: string): Promise<SummarySource[]> {
+    const { summaryService } = await import('./summaryService');
+    const summarySources = await summaryService.generateSummarySources(summary, content);
+    await this.saveStudyContent(noteId, { summarySources });
+    return summarySources;
+  },
+
   async saveStudyContent(
     noteId: string, 
     data: {
@@ -791,14 +477,27 @@ export const studyContentService = {
       quizQuestions?: any[];
       exercises?: any[];
       feynmanTopics?: any[];
-    }
+      summarySources?: SummarySource[];
+    },
+    version: { author: VersionAuthor; settings?: VersionSettings } = { author: 'user' }
   ) {
+    // Summary, flashcards, quiz and exercises are versioned; their current content is read
+    // so that content from before version history can be kept
+    const versionedFields: Array<[VersionedKind, string, unknown]> = [
+      ['summary', 'summary', data.summary],
+      ['flashcards', 'flashcards', data.flashcards],
+      ['quiz', 'quiz_questions', data.quizQuestions],
+      ['exercises', 'exercises', data.exercises],
+    ];
+    const versioned = versionedFields.filter(([, , value]) => value !== undefined);
+
     // Check if study_content exists for this note
     const { data: existingRows } = await supabase
       .from('study_content')
-      .select('id')
+      .select(['id', ...versioned.map(([, column]) => column)].join(', '))
       .eq('note_id', noteId)
-      .order('updated_at', { ascending: false });
+      .order('updated_at', { ascending: false })
+      .returns<Array<{ id: string } & Record<string, unknown>>>();
 
     // Handle duplicates: use the most recent row
     const existing = existingRows && existingRows.length > 0 ? existingRows[0] : null;
@@ -823,6 +522,7 @@ export const studyContentService = {
     if (data.quizQuestions !== undefined) contentData.quiz_questions = data.quizQuestions;
     if (data.exercises !== undefined) contentData.exercises = data.exercises;
     if (data.feynmanTopics !== undefined) contentData.feynman_topics = data.feynmanTopics;
+    if (data.summarySources !== undefined) contentData.summary_sources = data.summarySources;
 
     // Use upsert pattern: try to update first, if no rows affected, then insert
     // This prevents race conditions where multiple inserts happen simultaneously
@@ -901,10 +601,23 @@ export const studyContentService = {
         }
       }
     }
+
+    // A failed version record does not fail the save
+    if (versioned.length > 0) {
+      const { recordVersion } = await import('./studyContentVersionService');
+      await Promise.all(versioned.map(([kind, column, value]) =>
+        recordVersion(noteId, kind, value, version.author, version.settings ?? null, existing?.[column])
+          .catch((err) => console.error(`Error recording ${kind} version:`, err))
+      ));
+    }
   },
 
-  async saveSummary(noteId: string, summary: string) {
-    return this.saveStudyContent(noteId, { summary });
+  async saveSummary(
+    noteId: string,
+    summary: string,
+    version?: { author: VersionAuthor; settings?: VersionSettings }
+  ) {
+    return this.saveStudyContent(noteId, { summary }, version);
   },
 
   async getSummariesForNotes(noteIds: string[]) {
@@ -1,3 +1,9 @@
+import type { SourceSpan } from '../../supabase/functions/_shared/noteContent.ts';
+import type { CardType, QuestionDifficulty, QuestionType } from '../../supabase/functions/_shared/studyPrompts.ts';
+
+// Shared with the edge functions, which generate study content in the background too
+export type { CardType, QuestionDifficulty, QuestionType, SourceSpan };
+
 export interface Note {
   id: string;
   title: string;
@@ -46,6 +52,10 @@ export interface UserPreferences {
   notificationsEnabled?: boolean;
   language?: string;
   aiModel?: string;
+  scheduler?: 'sm2' | 'fsrs';
+  desiredRetention?: number;
+  leechThreshold?: number;
+  leechAction?: 'suspend' | 'tag';
 }
 
 export type StudyMode = 'summary' | 'transcript' | 'feynman' | 'flashcards' | 'quiz' | 'exercises' | 'documents' | 'ai-chat';
@@ -57,18 +67,38 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+/**
+ * Passage of the note a section of the summary is based on
+ */
+export interface SummarySource {
+  heading: string; // Text of the summary heading (h2/h3)
+  excerpt: string;
+  source: SourceSpan;
+}
+
 export interface Flashcard {
   id: string;
-  front: string;
-  back: string;
+  front: string; // For cloze cards: the text with {{c1::...}} deletions
+  back: string; // For cloze cards: optional extra information shown with the answer
+  cardType?: CardType;
+  source?: SourceSpan; // Passage of the note the card is based on
 }
 
 export interface QuizQuestion {
   id: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  userAnswer?: number;
+  question: string; // For fill-in-the-blank: the text with ___ for each blank
+  type?: QuestionType; // Defaults to multiple choice
+  options: string[]; // Choices; for ordering: the items in their correct order
+  correct: number; // Index of the right choice (multiple choice, true/false)
+  correctAnswers?: number[]; // Indexes of all right choices (multi-select)
+  blanks?: string[][]; // Accepted answers per blank (fill-in-the-blank)
+  pairs?: Array<{ left: string; right: string }>; // Matching pairs
+  modelAnswer?: string; // Reference answer the AI grades against (short answer)
+  explanation?: string; // Why the right answer is right
+  sourceExcerpt?: string; // Passage of the note the question is based on
+  source?: SourceSpan; // Where sourceExcerpt is in the note
+  topic?: string; // Short topic name, used by adaptive quizzes to track mastery
+  difficulty?: QuestionDifficulty;
 }
 
 export interface Exercise {
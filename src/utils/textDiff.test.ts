@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffLines, htmlToPlainText } from './textDiff';
+
+describe('diffLines', () => {
+  it('marks removed and added lines in document order', () => {
+    expect(diffLines('one\ntwo\nthree\nfour', 'one\n2\nthree\nfour\nfive')).toEqual([
+      { type: 'equal', text: 'one' },
+      { type: 'removed', text: 'two' },
+      { type: 'added', text: '2' },
+      { type: 'equal', text: 'three' },
+      { type: 'equal', text: 'four' },
+      { type: 'added', text: 'five' },
+    ]);
+  });
+
+  it('keeps lines that moved around the changes equal', () => {
+    expect(diffLines('a\nb\nc', 'b\nc\nd').map((line) => line.type)).toEqual(['removed', 'equal', 'equal', 'added']);
+  });
+
+  it('treats empty text as no lines', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+    expect(diffLines('old', '')).toEqual([{ type: 'removed', text: 'old' }]);
+  });
+});
+
+describe('countChanges', () => {
+  it('counts added and removed lines', () => {
+    expect(countChanges(diffLines('a\nb\nc', 'a\nx\ny'))).toEqual({ added: 2, removed: 2 });
+    expect(countChanges(diffLines('same', 'same'))).toEqual({ added: 0, removed: 0 });
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('puts every block on its own line', () => {
+    const html = '<h2>Cells</h2><p>The <strong>cell</strong> is<br>the unit of life.</p><ul><li>Nucleus</li><li>Membrane</li></ul>';
+    expect(htmlToPlainText(html)).toBe('Cells\nThe cell is\nthe unit of life.\nNucleus\nMembrane');
+  });
+});
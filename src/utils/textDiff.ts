@@ -0,0 +1,104 @@
+/**
+ * Line-based text diff
+ * Used to compare versions of summaries and notes
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many line pairs the changed middle is shown as removed + added
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Plain text of HTML with one line per block (paragraph, heading, list item, ...)
+ */
+export function htmlToPlainText(html: string): string {
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|tr|pre|div)>/gi, '$&\n');
+  const doc = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (doc.body.textContent || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Lines removed from `before` and added in `after`, in document order. Computed with a
+ * longest common subsequence after trimming the lines both texts share at the start and end.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text) => ({ type: 'equal' as const, text }));
+  const tail = a.slice(endA).map((text) => ({ type: 'equal' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text) => ({ type: 'removed' as const, text })),
+      ...midB.map((text) => ({ type: 'added' as const, text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j]: longest common subsequence of midA[i..] and midB[j..]
+  const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'equal', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) middle.push({ type: 'added', text: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Number of added and removed lines of a diff
+ */
+export function countChanges(diff: DiffLine[]): { added: number; removed: number } {
+  return diff.reduce(
+    (counts, line) => {
+      if (line.type === 'added') counts.added++;
+      if (line.type === 'removed') counts.removed++;
+      return counts;
+    },
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,159 @@
+-- Background jobs that generate a note's study content
+-- Run this in your Supabase SQL Editor (after setup-study-content-table.sql)
+--
+-- Adding material to a note queues one job. The study-content-worker edge function claims
+-- it and generates the summary, flashcards, quiz, exercises and Feynman topics on the
+-- server, so the work is not lost when the tab closes. Progress is kept per item in
+-- `items` and streamed to the client through realtime. A job whose items fail is tried
+-- again later, up to max_attempts times; items that are already done are not redone.
+
+CREATE TABLE IF NOT EXISTS study_content_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- Per item: {"status": "pending" | "running" | "completed" | "skipped" | "failed", "count"?: n, "error"?: text}
+  items JSONB NOT NULL DEFAULT '{
+    "summary": {"status": "pending"},
+    "flashcards": {"status": "pending"},
+    "quiz": {"status": "pending"},
+    "exercises": {"status": "pending"},
+    "feynmanTopics": {"status": "pending"}
+  }'::jsonb,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  tokens_used INTEGER NOT NULL DEFAULT 0,
+  model TEXT, -- Model chosen in the app's settings, e.g. "anthropic:claude-3-5-haiku-latest"; NULL: default
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Retries wait until then
+  locked_at TIMESTAMPTZ, -- Set while a worker runs the job
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Enable Row Level Security
+ALTER TABLE study_content_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for study_content_jobs
+-- Jobs are created through enqueue_study_content_job and updated by the worker only
+CREATE POLICY "Users can view their own study content jobs"
+  ON study_content_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_content_jobs_updated_at
+  BEFORE UPDATE ON study_content_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_study_content_jobs_user_id ON study_content_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_study_content_jobs_note_id ON study_content_jobs(note_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_study_content_jobs_due ON study_content_jobs(run_after) WHERE status IN ('queued', 'running');
+
+-- At most one unfinished job per note
+CREATE UNIQUE INDEX IF NOT EXISTS idx_study_content_jobs_active_note
+  ON study_content_jobs(note_id) WHERE status IN ('queued', 'running');
+
+-- Queue a job for one of the caller's notes, or return the note's unfinished job
+CREATE OR REPLACE FUNCTION enqueue_study_content_job(p_note_id UUID, p_model TEXT DEFAULT NULL)
+RETURNS study_content_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+  job study_content_jobs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM notes WHERE id = p_note_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Note not found';
+  END IF;
+
+  INSERT INTO study_content_jobs (user_id, note_id, model)
+  VALUES (auth.uid(), p_note_id, NULLIF(p_model, ''))
+  ON CONFLICT (note_id) WHERE status IN ('queued', 'running') DO NOTHING
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    SELECT * INTO job
+    FROM study_content_jobs
+    WHERE note_id = p_note_id AND status IN ('queued', 'running');
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- Lock the next due job (or the given one) for a worker. A running job whose worker has
+-- not reported for 10 minutes is taken over while it has attempts left, and failed once
+-- it has none. Only the service role may call this.
+CREATE OR REPLACE FUNCTION claim_study_content_job(p_job_id UUID DEFAULT NULL, p_user_id UUID DEFAULT NULL)
+RETURNS SETOF study_content_jobs
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+  UPDATE study_content_jobs
+  SET
+    status = 'failed',
+    last_error = 'Generation stopped unexpectedly. Please try again.',
+    locked_at = NULL,
+    completed_at = NOW(),
+    items = (
+      SELECT jsonb_object_agg(
+        key,
+        CASE WHEN value->>'status' IN ('pending', 'running')
+          THEN jsonb_build_object('status', 'failed', 'error', 'Generation stopped unexpectedly')
+          ELSE value
+        END
+      )
+      FROM jsonb_each(items)
+    )
+  WHERE status = 'running'
+    AND locked_at < NOW() - INTERVAL '10 minutes'
+    AND attempts >= max_attempts
+    AND (p_job_id IS NULL OR id = p_job_id)
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  RETURN QUERY
+  UPDATE study_content_jobs
+  SET status = 'running', locked_at = NOW(), attempts = attempts + 1
+  WHERE id = (
+    SELECT id
+    FROM study_content_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND run_after <= NOW()
+      AND (
+        status = 'queued'
+        OR (status = 'running' AND locked_at < NOW() - INTERVAL '10 minutes' AND attempts < max_attempts)
+      )
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_study_content_job(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Stream job progress to the client
+ALTER PUBLICATION supabase_realtime ADD TABLE study_content_jobs;
+
+-- The app starts the worker for every job it queues. To also pick up retries and jobs
+-- whose worker stopped, run it every minute with pg_cron and pg_net (enable both under
+-- Database > Extensions and fill in your project ref and service role key):
+--
+-- SELECT cron.schedule(
+--   'study-content-worker',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/study-content-worker',
+--     headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,49 @@
+-- Version history of study content
+-- Run this in your Supabase SQL Editor (after setup-study-content-table.sql)
+--
+-- study_content holds the current summary, flashcards, quiz and exercises of a note. Every
+-- time one of them changes, its new content is also kept here with who wrote it (the AI or
+-- the user) and, for generated content, the settings it was generated with. Older versions
+-- can be compared with the current one and restored, in whole or item by item.
+
+CREATE TABLE IF NOT EXISTS study_content_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  note_id UUID NOT NULL REFERENCES notes(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('summary', 'flashcards', 'quiz', 'exercises')),
+  content JSONB NOT NULL, -- The summary HTML as a string, or the array of items
+  author TEXT CHECK (author IN ('ai', 'user')), -- NULL: content from before version history
+  settings JSONB, -- e.g. {"model": "gpt-4o-mini", "count": 20, "cardType": "basic"}
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW() -- Consecutive edits by the user update one version
+);
+
+-- Enable Row Level Security
+ALTER TABLE study_content_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for study_content_versions
+CREATE POLICY "Users can view their own study content versions"
+  ON study_content_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own study content versions"
+  ON study_content_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study content versions"
+  ON study_content_versions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own study content versions"
+  ON study_content_versions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_content_versions_updated_at
+  BEFORE UPDATE ON study_content_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_study_content_versions_user_id ON study_content_versions(user_id);
+CREATE INDEX IF NOT EXISTS idx_study_content_versions_note_kind ON study_content_versions(note_id, kind, created_at DESC);
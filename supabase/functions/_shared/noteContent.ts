@@ -0,0 +1,186 @@
+// Note content shared by the app and the edge functions: the word budget given to each
+// document of a note in prompts, and finding quoted passages in the note again. A note's
+// content holds its own text followed by the text extracted from its uploaded documents,
+// each introduced by a "--- Document: <name> ---" line.
+
+/**
+ * Where a generated item came from in its note's content
+ */
+export interface SourceSpan {
+  start: number; // Offsets into the note content
+  end: number;
+  source: string; // 'Note' or 'Document: <name>' for extracted document text
+  page?: number; // Page of a PDF document
+}
+
+// Truncate content to ~2000 tokens (approximately 1500 words)
+export function truncateContent(content: string, maxWords: number = 1500): string {
+  const words = content.split(/\s+/);
+  if (words.length <= maxWords) {
+    return content;
+  }
+  
+  const truncated = words.slice(0, maxWords).join(' ');
+  return truncated + '\n\n[Content truncated for processing...]';
+}
+
+// Build balanced context across multiple uploaded documents found in the note content
+// It detects sections introduced by lines like "--- Document: <name> ---" or "File: <name>"
+// and allocates an equal share of the word budget to each document to avoid biasing the first one.
+export function buildBalancedContext(content: string, maxWords: number = 1500): string {
+  const lines = (content || '').split(/\n+/);
+  const sections: Array<{ title: string; text: string }> = [];
+  let currentTitle = 'Document';
+  let currentBuffer: string[] = [];
+
+  const pushSection = () => {
+    const text = currentBuffer.join('\n').trim();
+    if (text) sections.push({ title: currentTitle, text });
+    currentBuffer = [];
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const docHeaderMatch = line.match(/^---\s*Document:\s*(.+?)\s*---$/i);
+    const fileHeaderMatch = line.match(/^File:\s*(.+)$/i);
+    if (docHeaderMatch || fileHeaderMatch) {
+      // new section
+      pushSection();
+      currentTitle = `Document: ${docHeaderMatch ? docHeaderMatch[1] : (fileHeaderMatch ? fileHeaderMatch[1] : 'Unknown')}`;
+      continue;
+    }
+    currentBuffer.push(rawLine);
+  }
+  pushSection();
+
+  // If we did not detect sections, fall back to simple truncation
+  if (sections.length === 0) {
+    return truncateContent(content || '', maxWords);
+  }
+
+  const perSectionBase = Math.floor(maxWords / sections.length) || 1;
+  let remainder = maxWords - perSectionBase * sections.length;
+
+  const pickFromSection = (text: string, wordsToTake: number): string => {
+    const words = text.split(/\s+/).filter(Boolean);
+    if (words.length <= wordsToTake) return text.trim();
+    return words.slice(0, wordsToTake).join(' ') + '\n[truncated]';
+  };
+
+  const balancedParts: string[] = [];
+  for (const section of sections) {
+    let allocation = perSectionBase;
+    if (remainder > 0) {
+      allocation += 1;
+      remainder -= 1;
+    }
+    const picked = pickFromSection(section.text, allocation);
+    balancedParts.push(`${section.title}\n${picked}`.trim());
+  }
+
+  return balancedParts.join('\n\n');
+}
+
+const FALLBACK_WORDS = 8; // Leading words of a quote to try when the full quote is not found
+
+export interface NoteSection {
+  source: string; // 'Note' or 'Document: <name>'
+  start: number; // Offsets into the note content, without the document header
+  end: number;
+}
+
+/**
+ * Sections of note content: the note itself and each extracted document, which are
+ * introduced by "--- Document: <name> ---" lines
+ */
+export function splitNoteSections(content: string): NoteSection[] {
+  const sections: NoteSection[] = [];
+  const headerPattern = /^---[ \t]*Document:[ \t]*(.+?)[ \t]*---[ \t]*$/gim;
+  let source = 'Note';
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = headerPattern.exec(content)) !== null) {
+    sections.push({ source, start, end: match.index });
+    source = `Document: ${match[1]}`;
+    start = match.index + match[0].length;
+    if (content[start] === '\n') start++;
+  }
+  sections.push({ source, start, end: content.length });
+
+  return sections.filter((section) => content.slice(section.start, section.end).trim());
+}
+
+/**
+ * Name of the document a section comes from, or null for the note's own text
+ */
+export function getSectionDocumentName(source: string): string | null {
+  return source.startsWith('Document: ') ? source.slice('Document: '.length) : null;
+}
+
+/**
+ * Lowercased text with runs of whitespace collapsed, and for every character of it the
+ * offset of the original character
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace && lastWasSpace) continue;
+    normalized += isSpace ? ' ' : text[i].toLowerCase();
+    offsets.push(i);
+    lastWasSpace = isSpace;
+  }
+
+  return { normalized, offsets };
+}
+
+function normalizeQuote(quote: string): string {
+  return quote.replace(/^[\s"'“”‘’.…]+|[\s"'“”‘’.…]+$/g, '').replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Finder of quoted passages in note content. Whitespace and case are ignored; when the
+ * whole quote is not found, its first words are tried. The finder returns null for quotes
+ * it cannot find.
+ */
+export function createExcerptLocator(content: string): (excerpt: string | undefined) => SourceSpan | null {
+  const { normalized, offsets } = normalizeWithOffsets(content);
+  const sections = splitNoteSections(content);
+
+  return (excerpt) => {
+    const quote = normalizeQuote(excerpt || '');
+    if (!content || !quote) return null;
+
+    let found = normalized.indexOf(quote);
+    let length = quote.length;
+
+    if (found === -1) {
+      const opening = quote.split(' ').slice(0, FALLBACK_WORDS).join(' ');
+      if (opening.length < 15) return null;
+      found = normalized.indexOf(opening);
+      length = opening.length;
+      if (found === -1) return null;
+    }
+
+    const start = offsets[found];
+    const end = offsets[found + length - 1] + 1;
+    const section = sections.find((s) => start >= s.start && start < s.end);
+    const sourceName = section?.source || 'Note';
+    const documentName = getSectionDocumentName(sourceName);
+
+    // PDF text is extracted with one line per page
+    const page = section && documentName && /\.pdf$/i.test(documentName)
+      ? content.slice(section.start, start).split('\n').length
+      : undefined;
+
+    return { start, end, source: sourceName, page };
+  };
+}
+
+export function locateExcerpt(content: string, excerpt: string | undefined): SourceSpan | null {
+  return createExcerptLocator(content)(excerpt);
+}
@@ -0,0 +1,602 @@
+// AI providers for the ai-generate function
+// Chat, streamed chat, embeddings and transcription go through one interface, so the
+// function can run on OpenAI, Azure OpenAI, Anthropic, an OpenAI-compatible local server
+// (Ollama, llama.cpp) or a deterministic mock that needs no network at all.
+//
+// Environment:
+//   AI_PROVIDER              openai (default) | azure | anthropic | local | mock
+//   AI_MODEL                 Chat model for providers that do not know OpenAI model names
+//   OPENAI_API_KEY           openai
+//   AZURE_OPENAI_ENDPOINT    azure, e.g. https://my-resource.openai.azure.com
+//   AZURE_OPENAI_API_KEY     azure; deployments are named after the models they serve
+//   AZURE_OPENAI_API_VERSION azure, defaults to 2024-10-21 (json_schema output needs 2024-08-01-preview or later)
+//   ANTHROPIC_API_KEY        anthropic
+//   LOCAL_AI_BASE_URL        local, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+//   LOCAL_AI_API_KEY         local, only if the server wants one
+//   AI_EMBEDDING_MODEL       Defaults to text-embedding-3-small; note_chunks stores 1536 dimensions
+//   AI_TRANSCRIPTION_MODEL   Defaults to whisper-1
+//
+// Anthropic has no embeddings or transcription; those fall back to OpenAI when
+// OPENAI_API_KEY is set.
+
+export type ProviderName = 'openai' | 'azure' | 'anthropic' | 'local' | 'mock';
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface Usage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// JSON schema the response must follow (structured output)
+export interface ResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatResult {
+  content: string;
+  usage?: Usage;
+}
+
+export interface StreamChunk {
+  delta?: string;
+  totalTokens?: number; // Sent once, when the provider reports usage
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  defaultModel: string;
+  chat(messages: ChatMessage[], model: string, temperature: number, responseFormat?: ResponseFormat): Promise<ChatResult>;
+  // Resolves once the provider accepted the request, so errors surface before any output
+  streamChat(
+    messages: ChatMessage[],
+    model: string,
+    temperature: number,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<StreamChunk>>;
+  embed?(input: string[]): Promise<{ embeddings: number[][]; tokensUsed: number }>;
+  transcribe?(file: File): Promise<string>;
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['openai', 'azure', 'anthropic', 'local', 'mock'];
+const EMBEDDING_DIMENSIONS = 1536; // Size of note_chunks.embedding
+const EMBEDDING_MODEL = Deno.env.get('AI_EMBEDDING_MODEL') || 'text-embedding-3-small';
+const TRANSCRIPTION_MODEL = Deno.env.get('AI_TRANSCRIPTION_MODEL') || 'whisper-1';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+// POST with exponential backoff on rate limits and network errors
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  label: string,
+  retryCount = 0,
+  maxRetries = 3
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted || retryCount >= maxRetries) throw error;
+    const delay = Math.min(1000 * Math.pow(2, retryCount), 30000);
+    console.log(`[${label}] Network error, retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return fetchWithRetry(url, init, label, retryCount + 1, maxRetries);
+  }
+
+  if (!res.ok) {
+    if (res.status === 429 && retryCount < maxRetries) {
+      const delay = Math.min(1000 * Math.pow(2, retryCount), 30000); // 1s, 2s, 4s, 8s... max 30s
+      console.log(`[${label}] Rate limited (429), retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return fetchWithRetry(url, init, label, retryCount + 1, maxRetries);
+    }
+
+    const err = await res.text();
+    throw new Error(`${label} error: ${res.status} ${err}`);
+  }
+
+  return res;
+}
+
+// Data payloads of a server-sent events body
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data && data !== '[DONE]') yield data;
+    }
+  }
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: { total_tokens?: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+function parseJson<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null; // Keep-alives and partial lines
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI and everything that speaks its API: Azure OpenAI, Ollama, llama.cpp
+// ---------------------------------------------------------------------------
+
+interface OpenAICompatibleOptions {
+  name: ProviderName;
+  label: string;
+  defaultModel: string;
+  url: (path: string, model: string) => string; // Azure puts the model (deployment) in the URL
+  headers: Record<string, string>;
+  sendModel: boolean;
+  streamUsage: boolean; // Whether the server understands stream_options
+}
+
+function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): AIProvider {
+  const { label, url, headers } = options;
+  const jsonHeaders = { ...headers, 'Content-Type': 'application/json' };
+  const withModel = (model: string, body: Record<string, unknown>) =>
+    JSON.stringify(options.sendModel ? { model, ...body } : body);
+
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+
+    async chat(messages, model, temperature, responseFormat) {
+      const res = await fetchWithRetry(url('chat/completions', model), {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: withModel(model, {
+          messages,
+          temperature,
+          ...(responseFormat
+            ? { response_format: { type: 'json_schema', json_schema: { ...responseFormat, strict: true } } }
+            : {}),
+        }),
+      }, label);
+
+      const json = await res.json();
+      return { content: json?.choices?.[0]?.message?.content ?? '', usage: json?.usage };
+    },
+
+    async streamChat(messages, model, temperature, signal) {
+      const res = await fetchWithRetry(url('chat/completions', model), {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: withModel(model, {
+          messages,
+          temperature,
+          stream: true,
+          ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal,
+      }, label);
+
+      return (async function* () {
+        for await (const data of readEventData(res.body!)) {
+          const json = parseJson<OpenAIStreamChunk>(data);
+          const delta = json?.choices?.[0]?.delta?.content;
+          if (delta) yield { delta };
+          if (json?.usage?.total_tokens) yield { totalTokens: json.usage.total_tokens };
+        }
+      })();
+    },
+
+    async embed(input) {
+      const res = await fetchWithRetry(url('embeddings', EMBEDDING_MODEL), {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: withModel(EMBEDDING_MODEL, { input }),
+      }, label);
+
+      const json = await res.json();
+      const data: Array<{ index: number; embedding: number[] }> = json?.data ?? [];
+      return {
+        embeddings: data.sort((a, b) => a.index - b.index).map((item) => item.embedding),
+        tokensUsed: json?.usage?.total_tokens ?? 0,
+      };
+    },
+
+    async transcribe(file) {
+      const formData = new FormData();
+      formData.append('file', file);
+      if (options.sendModel) formData.append('model', TRANSCRIPTION_MODEL);
+
+      const res = await fetchWithRetry(url('audio/transcriptions', TRANSCRIPTION_MODEL), {
+        method: 'POST',
+        headers,
+        body: formData,
+      }, `${label} transcription`);
+
+      const json = await res.json();
+      return json.text || '';
+    },
+  };
+}
+
+function createOpenAIProvider(): AIProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new Error('Missing OPENAI_API_KEY');
+
+  return createOpenAICompatibleProvider({
+    name: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    url: (path) => `https://api.openai.com/v1/${path}`,
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    sendModel: true,
+    streamUsage: true,
+  });
+}
+
+function createAzureProvider(): AIProvider {
+  const endpoint = Deno.env.get('AZURE_OPENAI_ENDPOINT')?.replace(/\/+$/, '');
+  const apiKey = Deno.env.get('AZURE_OPENAI_API_KEY');
+  if (!endpoint || !apiKey) throw new Error('Missing AZURE_OPENAI_ENDPOINT or AZURE_OPENAI_API_KEY');
+  const apiVersion = Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-10-21';
+
+  return createOpenAICompatibleProvider({
+    name: 'azure',
+    label: 'Azure OpenAI',
+    defaultModel: 'gpt-4o-mini',
+    url: (path, deployment) =>
+      `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/${path}?api-version=${apiVersion}`,
+    headers: { 'api-key': apiKey },
+    sendModel: false,
+    streamUsage: true,
+  });
+}
+
+function createLocalProvider(): AIProvider {
+  const baseUrl = Deno.env.get('LOCAL_AI_BASE_URL')?.replace(/\/+$/, '');
+  if (!baseUrl) throw new Error('Missing LOCAL_AI_BASE_URL');
+  const apiKey = Deno.env.get('LOCAL_AI_API_KEY');
+
+  return createOpenAICompatibleProvider({
+    name: 'local',
+    label: 'Local AI',
+    defaultModel: Deno.env.get('AI_MODEL') || 'llama3.1',
+    url: (path) => `${baseUrl}/${path}`,
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    sendModel: true,
+    streamUsage: false,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic Messages API
+// ---------------------------------------------------------------------------
+
+type AnthropicContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } };
+
+// System messages become the system prompt; image parts become image blocks
+function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string | AnthropicContent[] }>;
+} {
+  const system = messages
+    .filter((message) => message.role === 'system')
+    .map((message) => (typeof message.content === 'string' ? message.content : ''))
+    .join('\n\n');
+
+  const converted = messages
+    .filter((message) => message.role !== 'system')
+    .map((message) => ({
+      role: message.role as 'user' | 'assistant',
+      content: typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part): AnthropicContent => {
+            if (part.type === 'text') return part;
+            const dataUrl = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+            return dataUrl
+              ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } }
+              : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+          }),
+    }));
+
+  return { system: system || undefined, messages: converted };
+}
+
+function createAnthropicProvider(): AIProvider {
+  const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+  if (!apiKey) throw new Error('Missing ANTHROPIC_API_KEY');
+
+  const headers = {
+    'x-api-key': apiKey,
+    'anthropic-version': '2023-06-01',
+    'Content-Type': 'application/json',
+  };
+  // Anthropic temperatures go from 0 to 1. A response format becomes a tool the model must
+  // call, whose input is the structured response.
+  const requestBody = (
+    messages: ChatMessage[],
+    model: string,
+    temperature: number,
+    stream: boolean,
+    responseFormat?: ResponseFormat
+  ) =>
+    JSON.stringify({
+      model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      temperature: Math.min(Math.max(temperature, 0), 1),
+      stream,
+      ...toAnthropicMessages(messages),
+      ...(responseFormat
+        ? {
+            tools: [{ name: responseFormat.name, description: 'Return the response', input_schema: responseFormat.schema }],
+            tool_choice: { type: 'tool', name: responseFormat.name },
+          }
+        : {}),
+    });
+
+  return {
+    name: 'anthropic',
+    defaultModel: Deno.env.get('AI_MODEL') || 'claude-3-5-haiku-latest',
+
+    async chat(messages, model, temperature, responseFormat) {
+      const res = await fetchWithRetry('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers,
+        body: requestBody(messages, model, temperature, false, responseFormat),
+      }, 'Anthropic');
+
+      const json = await res.json();
+      const blocks: Array<{ type: string; text?: string; input?: unknown }> = json?.content ?? [];
+      const toolUse = blocks.find((block) => block.type === 'tool_use');
+      const content = responseFormat && toolUse
+        ? JSON.stringify(toolUse.input)
+        : blocks.filter((block) => block.type === 'text').map((block) => block.text ?? '').join('');
+      const promptTokens = json?.usage?.input_tokens ?? 0;
+      const completionTokens = json?.usage?.output_tokens ?? 0;
+      return {
+        content,
+        usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      };
+    },
+
+    async streamChat(messages, model, temperature, signal) {
+      const res = await fetchWithRetry('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers,
+        body: requestBody(messages, model, temperature, true),
+        signal,
+      }, 'Anthropic');
+
+      return (async function* () {
+        let inputTokens = 0;
+        for await (const data of readEventData(res.body!)) {
+          const json = parseJson<AnthropicStreamEvent>(data);
+          if (json?.type === 'message_start') {
+            inputTokens = json.message?.usage?.input_tokens ?? 0;
+          } else if (json?.type === 'content_block_delta' && json.delta?.type === 'text_delta') {
+            yield { delta: json.delta.text };
+          } else if (json?.type === 'message_delta' && json.usage?.output_tokens) {
+            yield { totalTokens: inputTokens + json.usage.output_tokens };
+          } else if (json?.type === 'error') {
+            throw new Error(`Anthropic error: ${json.error?.message ?? 'stream failed'}`);
+          }
+        }
+      })();
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock: deterministic answers for offline development and tests
+// ---------------------------------------------------------------------------
+
+function hashString(text: string): number {
+  let hash = 2166136261; // FNV-1a
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function messageText(message: ChatMessage | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ');
+}
+
+// JSON requests get an empty result of the asked shape so callers can still parse it
+function mockReply(messages: ChatMessage[], model: string): string {
+  const prompt = messageText([...messages].reverse().find((message) => message.role === 'user'));
+  if (/JSON array/i.test(prompt)) return '[]';
+  if (/JSON object/i.test(prompt)) return '{}';
+
+  const words = prompt.split(/\s+/).filter(Boolean);
+  return `Mock answer (${model}, #${hashString(prompt).toString(16)}): ${words.slice(0, 24).join(' ')}${words.length > 24 ? ' …' : ''}`;
+}
+
+// Bag of hashed words, normalized, so texts that share words end up close together
+function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = hashString(word);
+    vector[hash % EMBEDDING_DIMENSIONS] += hash & 1 ? 1 : -1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / length);
+}
+
+// Placeholder that passes validation of a JSON schema: optional values present, strings named
+// after their property, two items per array (enough for e.g. a multiple-choice question),
+// the minimum of numbers and the first enum value
+function mockFromSchema(schema: Record<string, unknown>, name = 'value'): unknown {
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf as Record<string, unknown>[];
+    return mockFromSchema(branches.find((branch) => branch.type !== 'null') ?? branches[0], name);
+  }
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(Object.entries(properties).map(([key, property]) => [key, mockFromSchema(property, key)]));
+    }
+    case 'array': {
+      const items = (schema.items ?? {}) as Record<string, unknown>;
+      return [1, 2].map((position) => {
+        const item = mockFromSchema(items, name);
+        return typeof item === 'string' ? `${item} ${position}` : item;
+      });
+    }
+    case 'string':
+      return `Mock ${name}`;
+    case 'number':
+    case 'integer':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    default:
+      return null;
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+    defaultModel: 'mock',
+
+    async chat(messages, model, _temperature, responseFormat) {
+      const content = responseFormat
+        ? JSON.stringify(mockFromSchema(responseFormat.schema))
+        : mockReply(messages, model);
+      const promptTokens = estimateTokens(messages.map(messageText).join('\n'));
+      const completionTokens = estimateTokens(content);
+      return {
+        content,
+        usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      };
+    },
+
+    async streamChat(messages, model, _temperature, signal) {
+      const content = mockReply(messages, model);
+      const totalTokens = estimateTokens(messages.map(messageText).join('\n')) + estimateTokens(content);
+
+      return (async function* () {
+        for (const piece of content.match(/\S+\s*/g) ?? []) {
+          if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+          yield { delta: piece };
+        }
+        yield { totalTokens };
+      })();
+    },
+
+    async embed(input) {
+      return {
+        embeddings: input.map(mockEmbedding),
+        tokensUsed: input.reduce((sum, text) => sum + estimateTokens(text), 0),
+      };
+    },
+
+    async transcribe(file) {
+      return `Mock transcription of ${file.name} (${file.size} bytes).`;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Choosing a provider
+// ---------------------------------------------------------------------------
+
+const PROVIDER_FACTORIES: Record<ProviderName, () => AIProvider> = {
+  openai: createOpenAIProvider,
+  azure: createAzureProvider,
+  anthropic: createAnthropicProvider,
+  local: createLocalProvider,
+  mock: createMockProvider,
+};
+
+export function getDefaultProviderName(): ProviderName {
+  const configured = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase() as ProviderName;
+  return PROVIDER_NAMES.includes(configured) ? configured : 'openai';
+}
+
+// Throws when the provider's environment variables are missing
+export function createProvider(name: ProviderName = getDefaultProviderName()): AIProvider {
+  return PROVIDER_FACTORIES[name]();
+}
+
+/**
+ * Provider and model for a requested model. "anthropic:claude-3-5-haiku-latest" picks a
+ * provider explicitly; a plain name such as "gpt-4o-mini" goes to the default provider,
+ * which uses its own default model if it does not serve OpenAI models. With
+ * AI_PROVIDER=mock every request stays offline.
+ */
+export function resolveChatModel(requested?: string): { provider: AIProvider; model: string } {
+  const defaultName = getDefaultProviderName();
+  if (defaultName === 'mock') {
+    return { provider: createMockProvider(), model: 'mock' };
+  }
+
+  const separator = requested?.indexOf(':') ?? -1;
+  const prefix = separator > 0 ? requested!.slice(0, separator) as ProviderName : null;
+  if (prefix && PROVIDER_NAMES.includes(prefix)) {
+    try {
+      const provider = createProvider(prefix);
+      return { provider, model: requested!.slice(separator + 1) || provider.defaultModel };
+    } catch (error) {
+      // A model from a provider that is not set up falls back to the default provider
+      console.warn(`[AI] ${prefix} is not configured, using ${defaultName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const provider = createProvider(defaultName);
+  const servesOpenAIModels = provider.name === 'openai' || provider.name === 'azure';
+  const model = !prefix && requested && servesOpenAIModels ? requested : provider.defaultModel;
+  return { provider, model };
+}
+
+/**
+ * Provider for embeddings or transcription: the default one, or OpenAI when the default
+ * provider does not offer it
+ */
+export function getCapabilityProvider(capability: 'embed' | 'transcribe'): AIProvider {
+  const provider = createProvider();
+  if (provider[capability]) return provider;
+
+  if (Deno.env.get('OPENAI_API_KEY')) return createOpenAIProvider();
+  throw new Error(`${provider.name} does not support ${capability === 'embed' ? 'embeddings' : 'transcription'}; set OPENAI_API_KEY to use OpenAI for it`);
+}
@@ -0,0 +1,200 @@
+// Structured output shared by the app (src/services/structuredOutput.ts) and the edge
+// functions. Typed schemas for the JSON the AI generates: each generator declares its output
+// with the builders below; the same schema is sent as a JSON schema so the provider
+// constrains the response to it, and is used to check the response before anything reads
+// it. Plain TypeScript without Deno or browser APIs, so both sides can import it.
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A JSON schema together with a check of values against it. `read` reports every mismatch
+ * in `issues`; its return value is only meaningful when none were reported.
+ */
+export interface Schema<T> {
+  jsonSchema: JsonSchema;
+  read(value: unknown, path: string, issues: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * A named schema for one kind of generated output, e.g. flashcards. `label` names the
+ * output in error messages.
+ */
+export interface StructuredOutput<T> {
+  name: string;
+  label: string;
+  schema: Schema<T>;
+}
+
+export class StructuredOutputError extends Error {
+  output: string;
+  issues: string[];
+  response: string;
+
+  constructor(output: StructuredOutput<unknown>, issues: string[], response: string) {
+    super(`The AI returned ${output.label} in an unexpected format. Please try again.`);
+    this.name = 'StructuredOutputError';
+    this.output = output.name;
+    this.issues = issues;
+    this.response = response;
+  }
+}
+
+const MAX_REPORTED_ISSUES = 10;
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return String(value);
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    jsonSchema: { type: 'string' },
+    read(value, path, issues) {
+      if (typeof value !== 'string') issues.push(`${path}: expected a string, got ${describe(value)}`);
+      else if (options.nonEmpty && !value.trim()) issues.push(`${path}: must not be empty`);
+      return value as string;
+    },
+  };
+}
+
+function number(): Schema<number> {
+  return {
+    jsonSchema: { type: 'number' },
+    read(value, path, issues) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) issues.push(`${path}: expected a number, got ${describe(value)}`);
+      return value as number;
+    },
+  };
+}
+
+function integer(): Schema<number> {
+  return {
+    jsonSchema: { type: 'integer' },
+    read(value, path, issues) {
+      if (!Number.isInteger(value)) issues.push(`${path}: expected an integer, got ${describe(value)}`);
+      return value as number;
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    jsonSchema: { type: 'boolean' },
+    read(value, path, issues) {
+      if (typeof value !== 'boolean') issues.push(`${path}: expected true or false, got ${describe(value)}`);
+      return value as boolean;
+    },
+  };
+}
+
+function enumOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    jsonSchema: { type: 'string', enum: [...values] },
+    read(value, path, issues) {
+      if (!values.includes(value as T)) issues.push(`${path}: expected one of ${values.join(', ')}, got ${describe(value)}`);
+      return value as T;
+    },
+  };
+}
+
+function array<T>(items: Schema<T>): Schema<T[]> {
+  return {
+    jsonSchema: { type: 'array', items: items.jsonSchema },
+    read(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected an array, got ${describe(value)}`);
+        return [];
+      }
+      return value.map((item, index) => items.read(item, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/**
+ * An object with exactly these properties. All of them are required, as strict structured
+ * output demands; use `optional` for properties the model may leave out.
+ */
+function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  return {
+    jsonSchema: {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema])),
+      required: Object.keys(shape),
+      additionalProperties: false,
+    },
+    read(value, path, issues) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path}: expected an object, got ${describe(value)}`);
+        return {} as { [K in keyof Shape]: Infer<Shape[K]> };
+      }
+      const record = value as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.entries(shape).map(([key, schema]) => [key, schema.read(record[key], `${path}.${key}`, issues)])
+      ) as { [K in keyof Shape]: Infer<Shape[K]> };
+    },
+  };
+}
+
+/**
+ * A value that may be null (or missing); both are read as undefined
+ */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    jsonSchema: { anyOf: [schema.jsonSchema, { type: 'null' }] },
+    read(value, path, issues) {
+      return value === null || value === undefined ? undefined : schema.read(value, path, issues);
+    },
+  };
+}
+
+export const s = {
+  string,
+  number,
+  integer,
+  boolean,
+  enumOf,
+  array,
+  object,
+  optional,
+};
+
+export function structuredOutput<T>(name: string, label: string, schema: Schema<T>): StructuredOutput<T> {
+  return { name, label, schema };
+}
+
+/**
+ * Check a response against an output's schema and return the typed value
+ */
+export function parseStructuredOutput<T>(output: StructuredOutput<T>, response: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(response);
+  } catch {
+    throw new StructuredOutputError(output, ['$: the response is not valid JSON'], response);
+  }
+
+  const issues: string[] = [];
+  const result = output.schema.read(value, '$', issues);
+  if (issues.length > 0) throw new StructuredOutputError(output, issues, response);
+  return result;
+}
+
+/**
+ * Response format that asks the provider for an output's JSON schema
+ */
+export function responseFormat(output: StructuredOutput<unknown>): { name: string; schema: JsonSchema } {
+  return { name: output.name, schema: output.schema.jsonSchema };
+}
+
+/**
+ * Follow-up message that sends a response back with the problems found in it
+ */
+export function repairInstructions(error: StructuredOutputError): string {
+  const issues = error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => `- ${issue}`).join('\n');
+  return `Your response does not match the required JSON schema:\n${issues}\n\nReturn the complete, corrected JSON and nothing else.`;
+}
@@ -0,0 +1,179 @@
+// Prompts and output schemas for study content, shared by the app (src/services/openai.ts)
+// and the study-content-worker function, so both generate the same flashcards, quiz
+// questions, exercises and Feynman topics from a note.
+
+import { buildBalancedContext, truncateContent } from './noteContent.ts';
+import { s, structuredOutput } from './structuredOutput.ts';
+
+export type CardType = 'basic' | 'reverse' | 'cloze' | 'type-answer';
+
+export type QuestionType =
+  | 'multiple-choice'
+  | 'true-false'
+  | 'multi-select'
+  | 'fill-blank'
+  | 'ordering'
+  | 'matching'
+  | 'short-answer';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+export const MAX_HINTS = 3;
+
+export interface PromptMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+// Per-card-type instructions for flashcard generation
+export const FLASHCARD_PROMPTS: Record<CardType, { system: string; requirements: string }> = {
+  basic: {
+    system: 'You are a helpful assistant that creates educational flashcards. Return a JSON object whose "flashcards" array holds flashcards with "front" and "back" properties.',
+    requirements: '"front" is a question or term, "back" is the answer or definition.',
+  },
+  reverse: {
+    system: 'You are a helpful assistant that creates two-sided educational flashcards that are studied in both directions. Return a JSON object whose "flashcards" array holds flashcards with "front" and "back" properties.',
+    requirements: '"front" is a term, name or symbol and "back" is its definition or meaning. Each side must be a unique, unambiguous prompt for the other side, since the card is also asked back -> front. Do not phrase either side as a question.',
+  },
+  cloze: {
+    system: 'You are a helpful assistant that creates cloze-deletion flashcards. Return a JSON object whose "flashcards" array holds flashcards with "front" and "back" properties.',
+    requirements: '"front" is one self-contained sentence from the material in which key terms are hidden with cloze deletions written as {{c1::term}}, {{c2::term}}, ... (optionally with a hint: {{c1::term::hint}}). Use 1-3 deletions per sentence and number them from c1. Each cloze number becomes its own card, so every deletion must be answerable from the rest of the sentence. "back" is optional extra context (can be an empty string).',
+  },
+  'type-answer': {
+    system: 'You are a helpful assistant that creates flashcards whose answers are typed in and checked exactly. Return a JSON object whose "flashcards" array holds flashcards with "front" and "back" properties.',
+    requirements: '"front" is a precise question and "back" is the exact answer: a single term, name, number or formula of at most 3 words, with no explanation, so that it can be compared to what the student types.',
+  },
+};
+
+// Per-question-type JSON format for quiz generation
+export const QUIZ_QUESTION_FORMATS: Record<QuestionType, string> = {
+  'multiple-choice': '{"type": "multiple-choice", "question": string, "options": [4 strings], "correct": index 0-3 of the right option}',
+  'true-false': '{"type": "true-false", "question": a statement that is clearly true or false, "correct": 0 if true, 1 if false}',
+  'multi-select': '{"type": "multi-select", "question": string (say how many apply, e.g. "Select all that apply"), "options": [4-6 strings], "correctAnswers": [indexes of ALL right options, at least 2]}',
+  'fill-blank': '{"type": "fill-blank", "question": a sentence with each missing term written as ___ (1-2 blanks), "blanks": [[accepted answers for blank 1], [accepted answers for blank 2]]} - accepted answers are short terms with common spelling variants',
+  ordering: '{"type": "ordering", "question": what to put in order (e.g. steps of a process, events in time), "options": [3-6 items in the CORRECT order]}',
+  matching: '{"type": "matching", "question": what to match, "pairs": [3-5 objects with "left" (term) and "right" (its match)]}',
+  'short-answer': '{"type": "short-answer", "question": an open question answered in 1-3 sentences, "modelAnswer": the ideal answer with the key points a grader should look for}',
+};
+
+// Structured output of each generator. Lists are wrapped in an object, since structured
+// output needs an object at the top level.
+export const QUIZ_QUESTION_SCHEMA = s.object({
+  type: s.enumOf(Object.keys(QUIZ_QUESTION_FORMATS) as QuestionType[]),
+  question: s.string({ nonEmpty: true }),
+  options: s.optional(s.array(s.string())),
+  correct: s.optional(s.integer()),
+  correctAnswers: s.optional(s.array(s.integer())),
+  blanks: s.optional(s.array(s.array(s.string()))),
+  pairs: s.optional(s.array(s.object({ left: s.string(), right: s.string() }))),
+  modelAnswer: s.optional(s.string()),
+  explanation: s.string(),
+  sourceExcerpt: s.string(),
+  topic: s.string(),
+  difficulty: s.enumOf(QUESTION_DIFFICULTIES),
+});
+
+export const FLASHCARDS_OUTPUT = structuredOutput('flashcards', 'flashcards', s.object({
+  flashcards: s.array(s.object({ front: s.string({ nonEmpty: true }), back: s.string(), sourceExcerpt: s.string() })),
+}));
+
+export const QUIZ_OUTPUT = structuredOutput('quiz', 'quiz questions', s.object({
+  questions: s.array(QUIZ_QUESTION_SCHEMA),
+}));
+
+export const EXERCISES_OUTPUT = structuredOutput('exercises', 'exercises', s.object({
+  exercises: s.array(s.object({
+    question: s.string({ nonEmpty: true }),
+    solution: s.string(),
+    notes: s.string(),
+    hints: s.array(s.string()),
+  })),
+}));
+
+export const FEYNMAN_TOPICS_OUTPUT = structuredOutput('feynman_topics', 'practice topics', s.object({
+  topics: s.array(s.object({ title: s.string({ nonEmpty: true }), description: s.string() })),
+}));
+
+export function flashcardsPrompt(content: string, count: number, cardType: CardType): PromptMessage[] {
+  // Balance content across documents to avoid overweighting the first upload
+  const balancedText = buildBalancedContext(content, 1500);
+  const prompt = FLASHCARD_PROMPTS[cardType];
+
+  return [
+    {
+      role: 'system',
+      content: prompt.system,
+    },
+    {
+      role: 'user',
+      content: `Create EXACTLY ${count} flashcards from the following materials. Requirements:\n1. Give EQUAL coverage to all documents; do not focus only on early sections\n2. Progress difficulty (definitions/facts → concepts/relationships → applications)\n3. Ensure breadth across distinct topics; avoid redundancy\n4. If multiple documents state the same fact, MERGE that into one clear card (do not duplicate) and prefer the clearest wording\n5. Card format: ${prompt.requirements}\n6. Every card also has "sourceExcerpt" (the sentence or short passage of the materials the card is based on, copied word for word, at most 40 words)\n\nMaterials (balanced excerpts from each document):\n${balancedText}\n\nReturn exactly ${count} flashcards in the "flashcards" array of a JSON object, each with "front", "back" and "sourceExcerpt" properties.`,
+    },
+  ];
+}
+
+export function quizPrompt(content: string, count: number, questionType: QuestionType | 'mixed'): PromptMessage[] {
+  const balancedText = buildBalancedContext(content, 1500);
+  const formats = questionType === 'mixed'
+    ? `Use a mix of these question types, each as one of these JSON objects:\n${Object.values(QUIZ_QUESTION_FORMATS).join('\n')}`
+    : `Every question is this JSON object:\n${QUIZ_QUESTION_FORMATS[questionType]}`;
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are a helpful assistant that creates quiz questions. Return a JSON object whose "questions" array holds question objects in exactly the requested format; set fields a question type does not use to null.',
+    },
+    {
+      role: 'user',
+      content: `Create EXACTLY ${count} quiz questions from the following materials. Requirements:\n1. Give EQUAL coverage to all documents; do not bias earlier sections\n2. Mix difficulty (recall → application → analysis) and cover different topics\n3. Make distractors plausible but clearly wrong\n4. If multiple documents repeat the same fact, combine knowledge and avoid duplicate questions\n5. ${formats}\n6. Every question object also has "explanation" (1-2 sentences on why the right answer is right) and "sourceExcerpt" (the sentence or short passage of the materials the question is based on, copied word for word, at most 40 words)\n7. Every question object also has "topic" (a short name of the topic it tests, 1-4 words; reuse the same name for questions on the same topic) and "difficulty" ("easy", "medium" or "hard")\n\nMaterials (balanced excerpts from each document):\n${balancedText}\n\nReturn exactly ${count} quiz questions in the "questions" array of a JSON object.`,
+    },
+  ];
+}
+
+export function exercisesPrompt(content: string, count: number): PromptMessage[] {
+  // Truncate content to avoid rate limits
+  const truncatedText = truncateContent(content);
+
+  return [
+    {
+      role: 'system',
+      content:
+        'You are a helpful assistant that creates practice exercises. Return a JSON object whose "exercises" array holds exercises with "question", "solution", "notes" and "hints" properties.',
+    },
+    {
+      role: 'user',
+      content: `Create EXACTLY ${count} practice exercises from the following text. Make sure to:
+1. Cover ALL important concepts and key topics from the text comprehensively
+2. Create exercises in progressive difficulty (start with simpler applications, then more complex ones)
+3. Include a variety of exercise types:
+   - Problem-solving exercises
+   - Application of concepts
+   - Analysis and critical thinking
+   - Synthesis tasks
+4. Each exercise should have a clear, detailed solution
+5. Include helpful notes with tips or common pitfalls
+6. Ensure comprehensive coverage across different themes and topics
+7. Include ${MAX_HINTS} hints of increasing specificity: the first points to the relevant concept, the second suggests the method or first step, the third walks through the key step without giving the final answer
+
+Text:
+${truncatedText}
+
+Return exactly ${count} exercises in the "exercises" array of a JSON object, each with "question", "solution", "notes" and "hints" (array of strings) properties.`,
+    },
+  ];
+}
+
+export function feynmanTopicsPrompt(content: string): PromptMessage[] {
+  return [
+    {
+      role: 'system',
+      content: 'You are an educational assistant helping create practice topics. Return a JSON object whose "topics" array holds the topics.',
+    },
+    {
+      role: 'user',
+      content: `Based on this note content, generate 3-4 specific topics that a student could practice explaining using the Feynman Technique. Focus on the main concepts, terms, or ideas that would be good for teaching.\n\nNote content:\n${content}\n\nReturn the topics in the "topics" array of a JSON object, each with "title" (short topic title starting with "Explain:") and "description" (brief description). Keep titles concise (max 50 chars).`,
+    },
+  ];
+}
@@ -1,9 +1,9 @@
 // Supabase Edge Function: ai-generate
-// Proxies to OpenAI Chat Completions and Whisper APIs
+// Proxies chat, vision, embeddings and transcription to the configured AI provider (see _shared/providers.ts)
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { getCapabilityProvider, resolveChatModel, type ChatMessage, type ResponseFormat, type StreamChunk } from '../_shared/providers.ts';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY');
 
@@ -166,7 +166,8 @@ async function incrementDailyUsage(
   supabase: any, 
   userId: string, 
   userEmail?: string,
-  tokensUsed: number = 0
+  tokensUsed: number = 0,
+  countRequest: boolean = true // false: only add tokens (e.g. indexing embeddings)
 ) {
   // Skip increment for premium users
   if (userEmail && userEmail.toLowerCase().endsWith('@premium.de')) {
@@ -196,7 +197,7 @@ async function incrementDailyUsage(
   }
 
   const oldCount = row?.count ?? 0;
-  const newCount = oldCount + 1;
+  const newCount = countRequest ? oldCount + 1 : oldCount;
   const oldTokens = row?.token_count ?? 0;
   const newTokens = oldTokens + tokensUsed;
   
@@ -225,58 +226,9 @@ const corsHeaders: Record<string, string> = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-async function callOpenAI(
-  messages: any[], 
-  model = 'gpt-4o-mini', 
-  temperature = 0.7,
-  retryCount = 0,
-  maxRetries = 3
-): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
-  if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
-  
-  try {
-    const res = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ model, messages, temperature })
-    });
-
-    if (!res.ok) {
-      // Handle 429 (rate limit) with exponential backoff
-      if (res.status === 429 && retryCount < maxRetries) {
-        const delay = Math.min(1000 * Math.pow(2, retryCount), 30000); // 1s, 2s, 4s, 8s... max 30s
-        console.log(`[OPENAI] Rate limited (429), retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return callOpenAI(messages, model, temperature, retryCount + 1, maxRetries);
-      }
-      
-      const err = await res.text();
-      throw new Error(`OpenAI error: ${res.status} ${err}`);
-    }
-    
-    const json = await res.json();
-    const content = json?.choices?.[0]?.message?.content ?? '';
-    const usage = json?.usage;
-    
-    return { content, usage };
-  } catch (error) {
-    // Re-throw with retry logic for network errors too
-    if (retryCount < maxRetries && error instanceof Error && error.message.includes('fetch')) {
-      const delay = Math.min(1000 * Math.pow(2, retryCount), 30000);
-      console.log(`[OPENAI] Network error, retrying in ${delay}ms (attempt ${retryCount + 1}/${maxRetries})`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return callOpenAI(messages, model, temperature, retryCount + 1, maxRetries);
-    }
-    throw error;
-  }
-}
-
 async function transcribeAudio(audioBase64: string, mimeType: string = 'audio/webm') {
-  if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
-  
+  const provider = getCapabilityProvider('transcribe');
+
   // Convert base64 to bytes for FormData
   const binaryString = atob(audioBase64);
   const audioBytes = new Uint8Array(binaryString.length);
@@ -285,29 +237,12 @@ async function transcribeAudio(audioBase64: string, mimeType: string = 'audio/we
   }
   
   const blob = new Blob([audioBytes], { type: mimeType });
-  const formData = new FormData();
   const file = new File([blob], 'audio.webm', { type: mimeType });
-  formData.append('file', file);
-  formData.append('model', 'whisper-1');
-
-  const res = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: formData
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`OpenAI transcription error: ${res.status} ${err}`);
-  }
-  const json = await res.json();
-  return { text: json.text || '' };
+  return { text: await provider.transcribe!(file) };
 }
 
 async function transcribeAudioFromStorage(storagePath: string, supabaseClient: any) {
-  if (!OPENAI_API_KEY) throw new Error('Missing OPENAI_API_KEY');
+  const provider = getCapabilityProvider('transcribe');
   
   try {
     console.log(`Attempting to download file from storage path: "${storagePath}"`);
@@ -413,7 +348,7 @@ async function transcribeAudioFromStorage(storagePath: string, supabaseClient: a
     }
     
     // Use appropriate filename based on detected type
-    // OpenAI requires the filename extension to match the actual file format
+    // Whisper requires the filename extension to match the actual file format
     const fileName = mimeType.includes('webm') ? 'audio.webm' : 
                      mimeType.includes('m4a') ? 'audio.m4a' :
                      mimeType.includes('mp3') || mimeType.includes('mpeg') ? 'audio.mp3' :
@@ -421,38 +356,17 @@ async function transcribeAudioFromStorage(storagePath: string, supabaseClient: a
                      mimeType.includes('ogg') ? 'audio.ogg' :
                      mimeType.includes('flac') ? 'audio.flac' : 'audio.wav'; // Default to wav for compatibility
     
-    // Convert blob to File for FormData
-    const formData = new FormData();
     const file = new File([fileData], fileName, { type: mimeType });
-    formData.append('file', file);
-    formData.append('model', 'whisper-1');
 
-    // Transcribe with OpenAI, with timeout
-    const transcriptionPromise = fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: formData
+    // Transcribe with the provider, with timeout
+    const transcriptionTimeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => reject(new Error(`${provider.name} transcription timeout after 5 minutes`)), 300000);
     });
-    
-    const transcriptionTimeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('OpenAI transcription timeout after 5 minutes')), 300000);
-    });
-    
-    const res = await Promise.race([
-      transcriptionPromise,
-      transcriptionTimeoutPromise
-    ]) as Response;
 
-    if (!res.ok) {
-      const err = await res.text();
-      console.error(`OpenAI transcription error: ${res.status} ${err}`);
-      throw new Error(`OpenAI transcription error: ${res.status} ${err}`);
-    }
-    
-    const json = await res.json();
-    const transcriptionText = json.text || '';
+    const transcriptionText = await Promise.race([
+      provider.transcribe!(file),
+      transcriptionTimeoutPromise
+    ]);
     console.log(`Transcription completed. Length: ${transcriptionText.length} characters`);
     return { text: transcriptionText };
   } catch (error) {
@@ -780,11 +694,49 @@ Deno.serve(async (req: Request) => {
       }
     }
 
+    // Handle embeddings (retrieval index and queries)
+    if (requestType === 'embeddings') {
+      const input: unknown = body?.input;
+      if (!Array.isArray(input) || input.length === 0 || input.length > 100 || !input.every((text) => typeof text === 'string')) {
+        return new Response(
+          JSON.stringify({ error: 'Expected input: 1-100 strings' }),
+          { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+        );
+      }
+
+      console.log(`[EMBEDDINGS] Embedding ${input.length} text(s)`);
+      const result = await getCapabilityProvider('embed').embed!(input as string[]);
+
+      // Embeddings are cheap and indexing takes many requests, so only their tokens count
+      try {
+        await incrementDailyUsage(supabase, user.id, user.email, result.tokensUsed, false);
+      } catch (markError) {
+        console.error('[EMBEDDINGS] ⚠️  Error recording token usage:', markError);
+      }
+
+      await logAuditEvent(
+        supabase,
+        'ai_generation_completed',
+        user.id,
+        {
+          request_type: 'embeddings',
+          duration_ms: Date.now() - startTime,
+          inputs: input.length,
+          tokens_used: result.tokensUsed,
+        },
+        'low',
+        true
+      );
+
+      return new Response(JSON.stringify({ embeddings: result.embeddings }), { status: 200, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+    }
+
     // Handle vision API
     if (requestType === 'vision') {
       console.log('[VISION] 👁️ Starting vision API request');
       const imageBase64 = body?.imageBase64;
       const prompt = body?.prompt;
+      const responseFormat: ResponseFormat | undefined = body?.responseFormat ?? undefined;
       
       if (!imageBase64 || !prompt) {
         return new Response(
@@ -794,8 +746,8 @@ Deno.serve(async (req: Request) => {
       }
       
       try {
-        // Call OpenAI Vision API
-        const visionMessages = [
+        // Vision uses the requested model, else the provider's most capable one (gpt-4o on OpenAI)
+        const visionMessages: ChatMessage[] = [
           {
             role: 'user',
             content: [
@@ -810,7 +762,8 @@ Deno.serve(async (req: Request) => {
           }
         ];
         
-        const result = await callOpenAI(visionMessages, 'gpt-4o', 0.7);
+        const { provider, model } = resolveChatModel(body?.model ?? 'gpt-4o');
+        const result = await provider.chat(visionMessages, model, 0.7, responseFormat);
         console.log('[VISION] ✅ Vision analysis successful');
         
         const tokensUsed = result.usage?.total_tokens ?? 0;
@@ -833,6 +786,7 @@ Deno.serve(async (req: Request) => {
           { 
             request_type: 'vision',
             duration_ms: duration,
+            model: `${provider.name}:${model}`,
             tokens_used: tokensUsed
           },
           'low',
@@ -861,22 +815,131 @@ Deno.serve(async (req: Request) => {
 
     // Handle chat completion
     console.log('[CHAT] 💬 Starting chat completion request');
-    const messages = body?.messages ?? [];
-    const model = body?.model ?? 'gpt-4o-mini';
+    const messages: ChatMessage[] = body?.messages ?? [];
+    // "provider:model" from the user's settings, or a plain OpenAI model name from the app
+    const { provider, model: providerModel } = resolveChatModel(body?.model ?? 'gpt-4o-mini');
+    const model = `${provider.name}:${providerModel}`;
     const temperature = body?.temperature ?? 0.7;
     const fileHash = body?.fileHash ?? ''; // Optional file hash for caching
+    const responseFormat: ResponseFormat | undefined = body?.responseFormat ?? undefined; // JSON schema to follow
     const prompt = messages.map((m: any) => m.content).join('\n'); // Extract prompt for cache key
     
     console.log(`[CHAT] Model: ${model}, Messages: ${messages.length}, FileHash: ${fileHash || 'none'}`);
+
+    // Handle streamed chat completion (server-sent events, never cached)
+    if (body?.stream === true) {
+      console.log('[CHAT_STREAM] 💬 Streaming chat completion');
+      const upstreamAbort = new AbortController();
+      // The client closing the connection cancels the provider request too
+      req.signal.addEventListener('abort', () => upstreamAbort.abort());
+
+      let upstream: AsyncIterable<StreamChunk>;
+      try {
+        upstream = await provider.streamChat(messages, providerModel, temperature, upstreamAbort.signal);
+      } catch (streamError) {
+        const errorMsg = streamError instanceof Error ? streamError.message : String(streamError);
+        await logAuditEvent(
+          supabase,
+          'ai_generation_failed',
+          user.id,
+          { request_type: 'chat_stream', error: errorMsg.substring(0, 200), model, messages_count: messages.length },
+          'medium',
+          false
+        );
+        throw streamError;
+      }
+
+      const encoder = new TextEncoder();
+      let content = '';
+      let tokensUsed = 0;
+      let finished = false;
+
+      // Count the request once it produced output, also when the client stopped it early
+      const finish = async (status: 'completed' | 'cancelled') => {
+        if (finished) return;
+        finished = true;
+        if (!content) return;
+
+        // Without a usage chunk (cancelled streams), estimate ~4 characters per token
+        const tokens = tokensUsed || Math.ceil((prompt.length + content.length) / 4);
+        try {
+          await incrementDailyUsage(supabase, user.id, user.email, tokens);
+          console.log('[CHAT_STREAM] ✅ Usage count incremented (or skipped for premium)');
+        } catch (markError) {
+          console.error('[CHAT_STREAM] ⚠️  Error incrementing daily usage:', markError);
+        }
+
+        await logAuditEvent(
+          supabase,
+          'ai_generation_completed',
+          user.id,
+          {
+            request_type: 'chat_stream',
+            duration_ms: Date.now() - startTime,
+            model,
+            messages_count: messages.length,
+            tokens_used: tokens,
+            status,
+          },
+          'low',
+          true
+        );
+      };
+
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (payload: Record<string, unknown>) =>
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+
+          try {
+            for await (const chunk of upstream) {
+              if (chunk.delta) {
+                content += chunk.delta;
+                send({ delta: chunk.delta });
+              }
+              if (chunk.totalTokens) tokensUsed = chunk.totalTokens;
+            }
+
+            await finish('completed');
+            send({ done: true, tokensUsed });
+            controller.close();
+          } catch (streamError) {
+            if (upstreamAbort.signal.aborted) {
+              await finish('cancelled');
+              return;
+            }
+            const errorMsg = streamError instanceof Error ? streamError.message : String(streamError);
+            console.error('[CHAT_STREAM] ❌ Stream failed:', errorMsg);
+            await finish('cancelled');
+            send({ error: errorMsg });
+            controller.close();
+          }
+        },
+        async cancel() {
+          upstreamAbort.abort();
+          await finish('cancelled');
+        },
+      });
+
+      return new Response(stream, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'Connection': 'keep-alive',
+          ...corsHeaders,
+        },
+      });
+    }
     
     try {
-      // Check cache before calling OpenAI
+      // Check cache before calling the provider
       let result: { content: string; usage?: any };
       let fromCache = false;
       
       if (fileHash) {
         // Generate cache key (in Deno, we use Web Crypto API)
-        const keyString = `${fileHash}|${prompt}|${model}`;
+        const keyString = `${fileHash}|${prompt}|${model}|${responseFormat?.name ?? ''}`;
         const encoder = new TextEncoder();
         const data = encoder.encode(keyString);
         const hashBuffer = await crypto.subtle.digest('SHA-256', data);
@@ -897,19 +960,19 @@ Deno.serve(async (req: Request) => {
           result = { content: cachedData.response.content, usage: cachedData.response.usage };
           fromCache = true;
         } else {
-          console.log('[CHAT] Cache miss or expired, calling OpenAI');
+          console.log(`[CHAT] Cache miss or expired, calling ${provider.name}`);
         }
       }
       
-      // Call OpenAI if not from cache
+      // Call the provider if not from cache
       if (!fromCache) {
-        result = await callOpenAI(messages, model, temperature);
+        result = await provider.chat(messages, providerModel, temperature, responseFormat);
         console.log('[CHAT] ✅ Chat completion successful');
         
         // Store in cache if fileHash provided
         if (fileHash && result.content) {
           try {
-            const keyString = `${fileHash}|${prompt}|${model}`;
+            const keyString = `${fileHash}|${prompt}|${model}|${responseFormat?.name ?? ''}`;
             const encoder = new TextEncoder();
             const data = encoder.encode(keyString);
             const hashBuffer = await crypto.subtle.digest('SHA-256', data);
@@ -0,0 +1,216 @@
+// Study content generators for the study-content-worker function
+// The prompts and output schemas are the app's (see _shared/studyPrompts.ts and
+// _shared/summaryPrompts.ts), with its default options: 20 basic flashcards, 15
+// multiple-choice questions, 10 exercises, 3-4 Feynman topics and a standard-length summary.
+
+import type { AIProvider, ChatMessage, ResponseFormat } from '../_shared/providers.ts';
+import { buildBalancedContext, createExcerptLocator } from '../_shared/noteContent.ts';
+import {
+  StructuredOutputError,
+  parseStructuredOutput,
+  repairInstructions,
+  responseFormat,
+} from '../_shared/structuredOutput.ts';
+import type { StructuredOutput } from '../_shared/structuredOutput.ts';
+import {
+  EXERCISES_OUTPUT,
+  FEYNMAN_TOPICS_OUTPUT,
+  FLASHCARDS_OUTPUT,
+  MAX_HINTS,
+  QUIZ_OUTPUT,
+  exercisesPrompt,
+  feynmanTopicsPrompt,
+  flashcardsPrompt,
+  quizPrompt,
+} from '../_shared/studyPrompts.ts';
+import {
+  SUMMARY_CHUNK_WORDS,
+  analyzeDocumentTypes,
+  sanitizeSummaryHtml,
+  splitIntoChunksByWords,
+  summaryMergePrompt,
+  summarySystemPrompt,
+  summaryUserPrompt,
+} from '../_shared/summaryPrompts.ts';
+import type { SummaryPromptContext } from '../_shared/summaryPrompts.ts';
+
+export type StudyContentItem = 'summary' | 'flashcards' | 'quiz' | 'exercises' | 'feynmanTopics';
+
+export const STUDY_CONTENT_ITEMS: StudyContentItem[] = ['summary', 'flashcards', 'quiz', 'exercises', 'feynmanTopics'];
+
+// study_content column each item is saved to
+export const ITEM_COLUMNS: Record<StudyContentItem, string> = {
+  summary: 'summary',
+  flashcards: 'flashcards',
+  quiz: 'quiz_questions',
+  exercises: 'exercises',
+  feynmanTopics: 'feynman_topics',
+};
+
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface NoteDocument {
+  name: string;
+  type: string;
+}
+
+export interface GenerationContext {
+  content: string;
+  documents: NoteDocument[];
+}
+
+export interface GeneratedItem {
+  value: unknown; // Saved to the item's study_content column
+  count: number; // Cards, questions, exercises or topics; 1 for the summary
+  settings?: Record<string, unknown>; // Kept with the version history of the item (study-content-versions-schema.sql)
+}
+
+/**
+ * Chat completions for one job. Adds up the tokens every request used.
+ */
+export class JobChat {
+  tokensUsed = 0;
+
+  constructor(private provider: AIProvider, private model: string) {}
+
+  async complete(messages: ChatMessage[], temperature: number, format?: ResponseFormat): Promise<string> {
+    const result = await this.provider.chat(messages, this.model, temperature, format);
+    this.tokensUsed += result.usage?.total_tokens ?? 0;
+    return result.content;
+  }
+
+  /**
+   * Completion whose response follows an output's schema. A response that does not match
+   * is sent back once with the problems found, as the app does.
+   */
+  async completeStructured<T>(messages: ChatMessage[], output: StructuredOutput<T>, temperature: number): Promise<T> {
+    const format = responseFormat(output);
+    const content = await this.complete(messages, temperature, format);
+
+    try {
+      return parseStructuredOutput(output, content);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      console.warn(`[GENERATE] Repairing ${output.name} response:`, error.issues);
+
+      const repaired = await this.complete([
+        ...messages,
+        { role: 'assistant', content },
+        { role: 'user', content: repairInstructions(error) },
+      ], 0, format);
+      return parseStructuredOutput(output, repaired);
+    }
+  }
+}
+
+async function generateFlashcards(chat: JobChat, { content }: GenerationContext): Promise<GeneratedItem> {
+  const count = 20;
+  const { flashcards } = await chat.completeStructured(flashcardsPrompt(content, count, 'basic'), FLASHCARDS_OUTPUT, 0.7);
+
+  const locate = createExcerptLocator(content);
+  const cards = flashcards
+    .slice(0, count)
+    .map((card, index) => ({
+      id: `gen-${Date.now()}-${index}`,
+      front: card.front,
+      back: card.back,
+      cardType: 'basic',
+      source: locate(card.sourceExcerpt) ?? undefined,
+    }));
+
+  return { value: cards, count: cards.length, settings: { count, cardType: 'basic', source: 'background' } };
+}
+
+async function generateQuiz(chat: JobChat, { content }: GenerationContext): Promise<GeneratedItem> {
+  const count = 15;
+  const { questions } = await chat.completeStructured(quizPrompt(content, count, 'multiple-choice'), QUIZ_OUTPUT, 0.7);
+
+  const locate = createExcerptLocator(content);
+  const valid = questions
+    .flatMap((q) => {
+      const options = q.options ?? [];
+      const correct = q.correct ?? -1;
+      const isValid = options.length >= 2 && options.every((option) => option.trim()) && correct >= 0 && correct < options.length;
+      return isValid ? [{ ...q, options, correct }] : [];
+    })
+    .slice(0, count)
+    .map((q, index) => ({
+      id: `gen-${Date.now()}-${index}`,
+      type: 'multiple-choice',
+      question: q.question,
+      options: q.options,
+      correct: q.correct,
+      explanation: q.explanation,
+      sourceExcerpt: q.sourceExcerpt,
+      topic: q.topic.trim() || undefined,
+      difficulty: q.difficulty,
+      source: locate(q.sourceExcerpt) ?? undefined,
+    }));
+
+  return { value: valid, count: valid.length, settings: { count, questionType: 'multiple-choice', source: 'background' } };
+}
+
+async function generateExercises(chat: JobChat, { content }: GenerationContext): Promise<GeneratedItem> {
+  const count = 10;
+  const { exercises } = await chat.completeStructured(exercisesPrompt(content, count), EXERCISES_OUTPUT, 0.7);
+
+  const valid = exercises
+    .slice(0, count)
+    .map((exercise) => ({ ...exercise, hints: exercise.hints.filter((hint) => hint.trim()).slice(0, MAX_HINTS) }));
+
+  return { value: valid, count: valid.length, settings: { count, source: 'background' } };
+}
+
+async function generateFeynmanTopics(chat: JobChat, { content }: GenerationContext): Promise<GeneratedItem> {
+  const { topics } = await chat.completeStructured(feynmanTopicsPrompt(content), FEYNMAN_TOPICS_OUTPUT, 0.7);
+
+  const valid = topics.map((topic, index) => ({ id: (index + 1).toString(), title: topic.title, description: topic.description }));
+
+  return { value: valid, count: valid.length };
+}
+
+async function generateSummary(chat: JobChat, { content, documents }: GenerationContext): Promise<GeneratedItem> {
+  const chunkSize = SUMMARY_CHUNK_WORDS.standard;
+  const docAnalysis = analyzeDocumentTypes(documents);
+  const context: SummaryPromptContext = {
+    noteContent: buildBalancedContext(content, chunkSize * 2),
+    documents: docAnalysis,
+    hasAudioSlidesCombo: docAnalysis.hasAudio && docAnalysis.hasSlides,
+    detailLevel: 'standard',
+  };
+  const systemPrompt = summarySystemPrompt(context);
+  const chunks = splitIntoChunksByWords(context.noteContent, chunkSize);
+
+  let summary: string;
+  if (chunks.length > 1) {
+    // Long notes are summarized in parts that are then merged
+    const parts: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      parts.push(sanitizeSummaryHtml(await chat.complete([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: summaryUserPrompt({ ...context, noteContent: chunks[i], partInfo: { index: i + 1, total: chunks.length } }) },
+      ], 0.7)));
+    }
+
+    summary = sanitizeSummaryHtml(await chat.complete([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: summaryMergePrompt(parts) },
+    ], 0.5));
+  } else {
+    summary = sanitizeSummaryHtml(await chat.complete([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: summaryUserPrompt(context) },
+    ], 0.7));
+  }
+
+  if (!summary) throw new Error('The AI returned an empty summary');
+  return { value: summary, count: 1, settings: { detailLevel: 'standard', source: 'background' } };
+}
+
+export const GENERATORS: Record<StudyContentItem, (chat: JobChat, context: GenerationContext) => Promise<GeneratedItem>> = {
+  summary: generateSummary,
+  flashcards: generateFlashcards,
+  quiz: generateQuiz,
+  exercises: generateExercises,
+  feynmanTopics: generateFeynmanTopics,
+};
@@ -0,0 +1,382 @@
+// Supabase Edge Function: study-content-worker
+// Runs the background jobs that generate a note's study content (see study-content-jobs-schema.sql).
+// The app calls it with the user's token right after queueing a job; it then only runs
+// that user's jobs. Called with the service role key (e.g. by pg_cron), it works through
+// every due job, which also picks up retries.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.4';
+import { resolveChatModel } from '../_shared/providers.ts';
+import {
+  GENERATORS,
+  ITEM_COLUMNS,
+  DEFAULT_MODEL,
+  JobChat,
+  STUDY_CONTENT_ITEMS,
+  type StudyContentItem,
+} from './generators.ts';
+
+// Keeps the function running after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+const MIN_CONTENT_LENGTH = 50;
+const DEFAULT_DAILY_LIMIT = 150;
+const RUN_BUDGET_MS = 300_000; // Stop claiming new jobs after this long
+const RETRY_DELAY_MINUTES = [1, 5, 15]; // Wait before attempt 2, 3, ...
+
+type ItemStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+interface ItemProgress {
+  status: ItemStatus;
+  count?: number;
+  error?: string;
+}
+
+interface JobRow {
+  id: string;
+  user_id: string;
+  note_id: string;
+  items: Partial<Record<StudyContentItem, ItemProgress>>;
+  attempts: number;
+  max_attempts: number;
+  tokens_used: number;
+  model: string | null;
+}
+
+const corsHeaders: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function getUtcDateString(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isPremium(email?: string | null): boolean {
+  return !!email && email.toLowerCase().endsWith('@premium.de');
+}
+
+// Whether an item already has content in the note's study_content row
+function hasContent(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim() !== '';
+  return Array.isArray(value) && value.length > 0;
+}
+
+/**
+ * AI requests the user has left today, or null when they have no limit
+ */
+async function getRemainingRequests(admin: SupabaseClient, userId: string, email?: string | null): Promise<number | null> {
+  if (isPremium(email)) return null;
+
+  const { data: accountLimit } = await admin
+    .from('account_limits')
+    .select('daily_ai_limit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const limit = accountLimit?.daily_ai_limit && accountLimit.daily_ai_limit >= 1 ? accountLimit.daily_ai_limit : DEFAULT_DAILY_LIMIT;
+
+  const { data: usage, error } = await admin
+    .from('daily_ai_usage')
+    .select('count')
+    .eq('user_id', userId)
+    .eq('usage_date', getUtcDateString())
+    .maybeSingle();
+
+  if (error) throw error;
+  return Math.max(0, limit - (usage?.count ?? 0));
+}
+
+// Versions of generated content use the kinds of study-content-versions-schema.sql
+const VERSION_KINDS: Partial<Record<StudyContentItem, string>> = {
+  summary: 'summary',
+  flashcards: 'flashcards',
+  quiz: 'quiz',
+  exercises: 'exercises',
+};
+
+// The version history is a convenience; a failure to record it does not fail the item
+async function recordVersion(
+  admin: SupabaseClient,
+  job: JobRow,
+  item: StudyContentItem,
+  content: unknown,
+  settings: Record<string, unknown>
+): Promise<void> {
+  const kind = VERSION_KINDS[item];
+  if (!kind) return;
+  const { error } = await admin.from('study_content_versions').insert({
+    user_id: job.user_id,
+    note_id: job.note_id,
+    kind,
+    content,
+    author: 'ai',
+    settings,
+  });
+  if (error) console.error(`[WORKER] Could not record ${item} version for job ${job.id}:`, error);
+}
+
+// Every generated item counts as one request, as it did when the app generated it
+async function recordUsage(admin: SupabaseClient, userId: string, email: string | null | undefined, requests: number, tokens: number) {
+  if (isPremium(email) || (requests === 0 && tokens === 0)) return;
+
+  const usageDate = getUtcDateString();
+  const { data: row, error: selectError } = await admin
+    .from('daily_ai_usage')
+    .select('count, token_count')
+    .eq('user_id', userId)
+    .eq('usage_date', usageDate)
+    .maybeSingle();
+
+  if (selectError) throw selectError;
+
+  const { error } = row
+    ? await admin
+        .from('daily_ai_usage')
+        .update({ count: (row.count ?? 0) + requests, token_count: (row.token_count ?? 0) + tokens })
+        .eq('user_id', userId)
+        .eq('usage_date', usageDate)
+    : await admin
+        .from('daily_ai_usage')
+        .insert({ user_id: userId, usage_date: usageDate, count: requests, token_count: tokens });
+
+  if (error) throw error;
+}
+
+async function claimJob(admin: SupabaseClient, jobId: string | null, userId: string | null): Promise<JobRow | null> {
+  const { data, error } = await admin.rpc('claim_study_content_job', { p_job_id: jobId, p_user_id: userId });
+  if (error) throw error;
+  return (data as JobRow[] | null)?.[0] ?? null;
+}
+
+async function runJob(admin: SupabaseClient, job: JobRow): Promise<void> {
+  console.log(`[WORKER] Running job ${job.id} (note ${job.note_id}, attempt ${job.attempts}/${job.max_attempts})`);
+
+  const items = { ...job.items };
+  // Progress is written as a whole; items finish in any order, so writes are queued
+  let writes = Promise.resolve();
+  const updateJob = (fields: Record<string, unknown>) => {
+    writes = writes.then(async () => {
+      const { error } = await admin.from('study_content_jobs').update(fields).eq('id', job.id);
+      if (error) console.error(`[WORKER] Could not update job ${job.id}:`, error);
+    });
+    return writes;
+  };
+  const setItem = (item: StudyContentItem, progress: ItemProgress) => {
+    items[item] = progress;
+    return updateJob({ items: { ...items }, locked_at: new Date().toISOString() });
+  };
+  const finish = (status: 'completed' | 'failed', lastError: string | null = null) =>
+    updateJob({ status, last_error: lastError, locked_at: null, completed_at: new Date().toISOString() });
+
+  const { data: note, error: noteError } = await admin
+    .from('notes')
+    .select('content')
+    .eq('id', job.note_id)
+    .maybeSingle();
+
+  if (noteError) throw noteError;
+  if (!note) {
+    await finish('failed', 'The note no longer exists');
+    return;
+  }
+
+  const content: string = note.content || '';
+  if (content.trim().length < MIN_CONTENT_LENGTH) {
+    // Not enough content to generate study content
+    STUDY_CONTENT_ITEMS.forEach((item) => { items[item] = { status: 'skipped' }; });
+    await updateJob({ items: { ...items } });
+    await finish('completed');
+    return;
+  }
+
+  // The most recent row is the one the app reads
+  const { data: rows, error: rowsError } = await admin
+    .from('study_content')
+    .select('id, summary, flashcards, quiz_questions, exercises, feynman_topics')
+    .eq('note_id', job.note_id)
+    .order('updated_at', { ascending: false })
+    .limit(1);
+
+  if (rowsError) throw rowsError;
+  let studyContent: Record<string, unknown> | null = rows?.[0] ?? null;
+
+  // Content that already exists is kept; items done in an earlier attempt are not redone
+  const todo = STUDY_CONTENT_ITEMS.filter((item) => {
+    const status = items[item]?.status;
+    if (status === 'completed' || status === 'skipped') return false;
+    if (studyContent && hasContent(studyContent[ITEM_COLUMNS[item]])) {
+      items[item] = { status: 'skipped' };
+      return false;
+    }
+    return true;
+  });
+  await updateJob({ items: { ...items } });
+
+  if (todo.length === 0) {
+    await finish('completed');
+    return;
+  }
+
+  const { data: { user } } = await admin.auth.admin.getUserById(job.user_id);
+  const remaining = await getRemainingRequests(admin, job.user_id, user?.email);
+  if (remaining !== null && remaining < todo.length) {
+    console.log(`[WORKER] Job ${job.id} needs ${todo.length} requests, user has ${remaining} left today`);
+    todo.forEach((item) => { items[item] = { status: 'failed', error: 'Daily AI limit reached' }; });
+    await updateJob({ items: { ...items } });
+    await finish('failed', 'You have reached your daily AI generation limit. Please try again tomorrow.');
+    return;
+  }
+
+  if (!studyContent) {
+    const { data: created, error: insertError } = await admin
+      .from('study_content')
+      .insert({ note_id: job.note_id })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+    studyContent = created;
+  }
+  const studyContentId = studyContent!.id as string;
+
+  const { data: documents } = await admin
+    .from('documents')
+    .select('name, type')
+    .eq('note_id', job.note_id);
+
+  const requestedModel = job.model || DEFAULT_MODEL;
+  const { provider, model } = resolveChatModel(requestedModel);
+  const chat = new JobChat(provider, model);
+  const context = { content, documents: documents || [] };
+
+  const results = await Promise.allSettled(todo.map(async (item) => {
+    await setItem(item, { status: 'running' });
+    try {
+      const generated = await GENERATORS[item](chat, context);
+      const { error } = await admin
+        .from('study_content')
+        .update({ [ITEM_COLUMNS[item]]: generated.value })
+        .eq('id', studyContentId);
+      if (error) throw error;
+      if (generated.settings) {
+        await recordVersion(admin, job, item, generated.value, { model: requestedModel, ...generated.settings });
+      }
+
+      await setItem(item, { status: 'completed', count: generated.count });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[WORKER] Error generating ${item} for job ${job.id}:`, error);
+      await setItem(item, { status: 'failed', error: message.substring(0, 200) });
+      throw error;
+    }
+  }));
+
+  const generatedCount = results.filter((result) => result.status === 'fulfilled').length;
+  try {
+    await recordUsage(admin, job.user_id, user?.email, generatedCount, chat.tokensUsed);
+  } catch (usageError) {
+    console.error(`[WORKER] Could not record usage for job ${job.id}:`, usageError);
+  }
+
+  const failed = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  const tokensUsed = job.tokens_used + chat.tokensUsed;
+
+  if (!failed) {
+    await updateJob({ tokens_used: tokensUsed });
+    await finish('completed');
+    console.log(`[WORKER] Job ${job.id} completed`);
+    return;
+  }
+
+  const lastError = failed.reason instanceof Error ? failed.reason.message : String(failed.reason);
+  if (job.attempts < job.max_attempts) {
+    // Failed items go back to pending and are tried again later
+    todo.forEach((item) => {
+      if (items[item]?.status === 'failed') items[item] = { ...items[item], status: 'pending' };
+    });
+    const delayMinutes = RETRY_DELAY_MINUTES[Math.min(job.attempts, RETRY_DELAY_MINUTES.length) - 1];
+    await updateJob({
+      status: 'queued',
+      items: { ...items },
+      tokens_used: tokensUsed,
+      last_error: lastError,
+      locked_at: null,
+      run_after: new Date(Date.now() + delayMinutes * 60_000).toISOString(),
+    });
+    console.log(`[WORKER] Job ${job.id} will be retried in ${delayMinutes} minute(s)`);
+  } else {
+    await updateJob({ tokens_used: tokensUsed });
+    await finish('failed', lastError);
+    console.log(`[WORKER] Job ${job.id} failed after ${job.attempts} attempts`);
+  }
+}
+
+// Claims and runs jobs one after another until none is due or the time budget is spent
+async function runJobs(admin: SupabaseClient, jobId: string | null, userId: string | null): Promise<number> {
+  const startedAt = Date.now();
+  let processed = 0;
+
+  while (Date.now() - startedAt < RUN_BUDGET_MS) {
+    const job = await claimJob(admin, jobId, userId);
+    if (!job) break;
+
+    try {
+      await runJob(admin, job);
+    } catch (error) {
+      // An unexpected error leaves the job locked; it is taken over once the lock is stale
+      console.error(`[WORKER] Job ${job.id} stopped:`, error);
+    }
+    processed++;
+    if (jobId) break;
+  }
+
+  return processed;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      return new Response(JSON.stringify({ error: 'Missing Supabase env' }), { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    let userId: string | null = null;
+
+    if (token !== SUPABASE_SERVICE_ROLE_KEY) {
+      const { data: { user }, error: userError } = await admin.auth.getUser(token);
+      if (userError || !user) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+      }
+      userId = user.id;
+    }
+
+    let body: { jobId?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No body: run whatever is due
+    }
+
+    EdgeRuntime.waitUntil(
+      runJobs(admin, body.jobId ?? null, userId)
+        .then((count) => console.log(`[WORKER] Processed ${count} job(s)`))
+        .catch((error) => console.error('[WORKER] Run failed:', error))
+    );
+
+    return new Response(JSON.stringify({ accepted: true }), { status: 202, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return new Response(JSON.stringify({ error: msg }), { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } });
+  }
+});